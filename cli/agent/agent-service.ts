@@ -4,6 +4,7 @@ import { AgentOrchestrator } from './agent-orchestrator';
 import { SandboxAIService } from '../services/sandbox-ai-runner';
 import { StackBlitzService } from '../services/stackblitz';
 import { GitHubService } from '../services/github';
+import { getCredential } from '../../src/utils/credentials';
 
 interface AgentMode {
   type: 'single' | 'orchestrated' | 'hybrid';
@@ -48,7 +49,7 @@ export class AgentService {
       // Use our custom agent
       this.currentAgent = new CustomAIAgent({
         provider: process.env.CUSTOM_AI_PROVIDER || 'openai',
-        apiKey: process.env.CUSTOM_AI_API_KEY || '',
+        apiKey: getCredential('CUSTOM_AI_API_KEY') || '',
         model: process.env.CUSTOM_AI_MODEL || 'gpt-4',
         systemPrompt: this.getCustomSystemPrompt()
       });
@@ -57,7 +58,7 @@ export class AgentService {
       const sandboxAI = new SandboxAIService(this.project);
       await sandboxAI.setupAI({
         provider: this.mode.provider,
-        apiKey: process.env[`${this.mode.provider.toUpperCase()}_API_KEY`] || '',
+        apiKey: getCredential(`${this.mode.provider.toUpperCase()}_API_KEY`) || '',
         model: this.getDefaultModel(this.mode.provider)
       });
     }
@@ -66,7 +67,7 @@ export class AgentService {
   private async initializeOrchestrator(): Promise<void> {
     const config = {
       provider: this.mode.provider,
-      apiKey: process.env[`${this.mode.provider.toUpperCase()}_API_KEY`] || '',
+      apiKey: getCredential(`${this.mode.provider.toUpperCase()}_API_KEY`) || '',
       model: this.getDefaultModel(this.mode.provider)
     };
 
@@ -495,7 +496,7 @@ Co-authored-by: Geenius AI <ai@geenius.io>`;
       try {
         const agent = new CustomAIAgent({
           provider: provider as any,
-          apiKey: process.env[`${provider.toUpperCase()}_API_KEY`] || '',
+          apiKey: getCredential(`${provider.toUpperCase()}_API_KEY`) || '',
           model: this.getDefaultModel(provider)
         });
 
@@ -15,17 +15,24 @@ import { AgentService } from '../agent/agent-service';
 import { storage } from '../../api/shared/redis-storage';
 import RedisKeys from '../../api/shared/redis-keys';
 import type { InitOptions, ProjectConfig } from '../../src/types/config';
+import { getCredential, hasCredentials } from '../../src/utils/credentials';
+import { isVaultUnlocked, maskSecret, setSecret } from '../../src/utils/vault';
+import { unlockVaultIfPresent } from '../../src/commands/secrets';
+import { showPassword } from '../../src/commands/mongodb-users';
 
 export async function initCommand(): Promise<void> {
   console.log(chalk.blue.bold('🚀 AI Development Agent v3.0'));
   console.log(chalk.gray('Advanced AI agents with orchestration capabilities!'));
   console.log(chalk.gray('🔧 Auto-setup: GitHub repos, Netlify deployment, MongoDB databases'));
 
+  // Credentials may live in the encrypted vault rather than .env
+  await unlockVaultIfPresent();
+
   // Show environment setup status
   const envStatus = {
-    github: !!process.env.GITHUB_TOKEN,
-    netlify: !!process.env.NETLIFY_TOKEN,
-    mongodb: !!(process.env.MONGODB_ATLAS_PUBLIC_KEY && process.env.MONGODB_ATLAS_PRIVATE_KEY)
+    github: hasCredentials('github'),
+    netlify: hasCredentials('netlify'),
+    mongodb: hasCredentials('mongodb')
   };
 
   console.log(chalk.gray('\n📋 Environment Setup Status:'));
@@ -55,15 +62,15 @@ export async function initCommand(): Promise<void> {
 
   try {
     // Get template registry
-    const templateRegistry = new TemplateRegistry(process.env.GITHUB_TOKEN);
+    const templateRegistry = new TemplateRegistry(getCredential('GITHUB_TOKEN'));
     const templates = await templateRegistry.getAllTemplates();
 
     // Check for existing API keys and show status
     const availableProviders = [];
-    if (process.env.ANTHROPIC_API_KEY) availableProviders.push('anthropic');
-    if (process.env.OPENAI_API_KEY) availableProviders.push('openai');
-    if (process.env.GOOGLE_API_KEY) availableProviders.push('google');
-    if (process.env.GROK_API_KEY) availableProviders.push('grok');
+    if (getCredential('ANTHROPIC_API_KEY')) availableProviders.push('anthropic');
+    if (getCredential('OPENAI_API_KEY')) availableProviders.push('openai');
+    if (getCredential('GOOGLE_API_KEY')) availableProviders.push('google');
+    if (getCredential('GROK_API_KEY')) availableProviders.push('grok');
 
     if (availableProviders.length > 0) {
       console.log(chalk.green(`✅ Found API keys for: ${availableProviders.map(p => p.toUpperCase()).join(', ')}`));
@@ -193,8 +200,9 @@ export async function initCommand(): Promise<void> {
 
     // Setup MongoDB database if template requires it
     let mongodbProject;
+    let mongodbPasswordSecret: string | undefined;
     if (template.envVars.includes('MONGODB_URI') || template.envVars.includes('DATABASE_URL')) {
-      if (!process.env.MONGODB_ATLAS_PUBLIC_KEY || !process.env.MONGODB_ATLAS_PRIVATE_KEY) {
+      if (!hasCredentials('mongodb')) {
         spinner.warn('MongoDB Atlas API keys not found - skipping database setup');
         console.log(chalk.yellow('⚠️  MongoDB Atlas API keys not found. Skipping MongoDB setup.'));
         console.log(chalk.gray('Add MONGODB_ATLAS_PUBLIC_KEY and MONGODB_ATLAS_PRIVATE_KEY to your .env file to enable auto-database creation.'));
@@ -344,7 +352,16 @@ export async function initCommand(): Promise<void> {
           console.log(chalk.green(`   📊 Database: ${mongodbProject.databaseName}`));
           console.log(chalk.green(`   🔗 Cluster: ${mongodbProject.clusterName}`));
           console.log(chalk.green(`   👤 Username: ${mongodbProject.username}`));
-          console.log(chalk.gray(`   🔐 Password: ${mongodbProject.password}`));
+          if (isVaultUnlocked()) {
+            mongodbPasswordSecret = `${validatedInput.projectName}/MONGODB_PASSWORD`;
+            setSecret(mongodbPasswordSecret, mongodbProject.password);
+            console.log(chalk.gray(`   🔐 Password: ${maskSecret(mongodbProject.password)}`));
+            console.log(chalk.gray(`      Stored in the vault; reveal with: geenius-cli secrets get ${mongodbPasswordSecret} --reveal`));
+          } else {
+            // Without an unlocked vault there is nowhere to keep it, so this is the only chance to see it
+            console.log(chalk.yellow('   ⚠️  The secrets vault is locked, so the password was not stored'));
+            await showPassword(mongodbProject.password);
+          }
 
           logger.info('MongoDB project created', {
             projectId: mongodbProject.id,
@@ -363,7 +380,7 @@ export async function initCommand(): Promise<void> {
     // Setup Netlify project
     let netlifyProject;
     if (validatedInput.autoSetup) {
-      if (!process.env.NETLIFY_TOKEN) {
+      if (!hasCredentials('netlify')) {
         spinner.warn('Netlify token not found - skipping deployment setup');
         console.log(chalk.yellow('⚠️  NETLIFY_TOKEN not found in environment. Skipping Netlify setup.'));
         console.log(chalk.gray('Add NETLIFY_TOKEN to your .env file to enable auto-deployment.'));
@@ -593,7 +610,10 @@ export async function initCommand(): Promise<void> {
     }
 
     if (mongodbProject) {
-      console.log(chalk.gray('MongoDB:'), mongodbProject.connectionString);
+      console.log(chalk.gray('MongoDB:'), mongodbProject.connectionString.replace(`:${mongodbProject.password}@`, ':<password>@'));
+      if (mongodbPasswordSecret) {
+        console.log(chalk.gray('MongoDB Password:'), `geenius-cli secrets get ${mongodbPasswordSecret} --reveal`);
+      }
       console.log(chalk.gray('Database:'), mongodbProject.databaseName);
       console.log(chalk.gray('MongoDB Project:'), `https://cloud.mongodb.com/v2/${mongodbProject.id}#/overview`);
     }
@@ -662,7 +682,7 @@ function getDefaultModel(provider: string): string {
 
 function getExistingApiKey(provider: string): string | null {
   const envVarName = getApiKeyEnvName(provider);
-  return process.env[envVarName] || null;
+  return getCredential(envVarName) || null;
 }
 
 function getApiKeyEnvName(provider: string): string {
@@ -725,8 +745,8 @@ function getGitHubEnvVars(githubOrg: string, repoUrl: string): Record<string, st
   const vars: Record<string, string> = {};
 
   // Add GitHub credentials if available
-  if (process.env.GITHUB_TOKEN) {
-    vars.GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+  if (getCredential('GITHUB_TOKEN')) {
+    vars.GITHUB_TOKEN = getCredential('GITHUB_TOKEN');
   }
 
   // Add GitHub organization/username
@@ -2,6 +2,9 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import { logger } from '../../src/utils/logger';
+import { pickOne } from '../../src/commands/picker';
+import { runMutation } from '../../src/commands/mutations';
+import { unlockVaultIfPresent } from '../../src/commands/secrets';
 import { NetlifyService } from '../services/netlify';
 import { GitHubService } from '../services/github';
 import { MongoDBService } from '../services/mongodb';
@@ -9,6 +12,9 @@ import { MongoDBService } from '../services/mongodb';
 export async function manageCommand() {
   try {
     console.log(chalk.blue.bold('🔧 Geenius Management Console\n'));
+
+    // Credentials may live in the encrypted vault rather than .env
+    await unlockVaultIfPresent();
     
     const { action } = await inquirer.prompt([
       {
@@ -55,20 +61,10 @@ async function manageNetlifyProjects() {
       return;
     }
 
-    const { selectedSite } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedSite',
-        message: 'Select a site to manage:',
-        choices: [
-          ...sites.map(site => ({
-            name: `${site.name} (${site.url})`,
-            value: site
-          })),
-          { name: '↩️  Back to Management Menu', value: 'back' }
-        ]
-      }
-    ]);
+    const selectedSite = await pickOne('Select a site to manage:', sites,
+      site => ({ name: site.name, details: [site.url, site.published_deploy?.published_at ? `deployed ${new Date(site.published_deploy.published_at).toLocaleDateString()}` : 'never deployed'] }),
+      [{ name: '↩️  Back to Management Menu', value: 'back' as const }]
+    );
 
     if (selectedSite === 'back') return;
 
@@ -89,10 +85,10 @@ async function manageNetlifyProjects() {
 
     switch (action) {
       case 'rename':
-        await renameSite(netlifyService, selectedSite);
+        await renameSite(selectedSite);
         break;
       case 'delete':
-        await deleteSite(netlifyService, selectedSite);
+        await deleteSite(selectedSite);
         break;
       case 'details':
         await showSiteDetails(selectedSite);
@@ -110,7 +106,7 @@ async function manageNetlifyProjects() {
   }
 }
 
-async function renameSite(netlifyService: NetlifyService, site: any) {
+async function renameSite(site: any) {
   try {
     const { newName } = await inquirer.prompt([
       {
@@ -136,7 +132,8 @@ async function renameSite(netlifyService: NetlifyService, site: any) {
     ]);
 
     if (confirm) {
-      await netlifyService.updateSite(site.id, { name: newName });
+      const { applied } = await runMutation('netlify.renameSite', { siteId: site.id, name: site.name, newName });
+      if (!applied) return;
       console.log(chalk.green(`✅ Site renamed to "${newName}" successfully!`));
     }
   } catch (error) {
@@ -144,7 +141,7 @@ async function renameSite(netlifyService: NetlifyService, site: any) {
   }
 }
 
-async function deleteSite(netlifyService: NetlifyService, site: any) {
+async function deleteSite(site: any) {
   try {
     console.log(chalk.yellow(`⚠️  You are about to delete the site "${site.name}"`));
     console.log(chalk.yellow('This action cannot be undone and will:'));
@@ -171,7 +168,8 @@ async function deleteSite(netlifyService: NetlifyService, site: any) {
     ]);
 
     if (finalConfirm) {
-      await netlifyService.deleteSite(site.id);
+      const { applied } = await runMutation('netlify.deleteSite', { siteId: site.id, name: site.name });
+      if (!applied) return;
       console.log(chalk.green(`✅ Site "${site.name}" deleted successfully!`));
     }
   } catch (error) {
@@ -205,20 +203,10 @@ async function manageDeployments(netlifyService: NetlifyService, site: any) {
       return;
     }
 
-    const { selectedDeployment } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedDeployment',
-        message: 'Select a deployment:',
-        choices: [
-          ...deployments.slice(0, 10).map(deploy => ({
-            name: `${deploy.state} - ${deploy.branch || 'main'} (${new Date(deploy.created_at).toLocaleDateString()})`,
-            value: deploy
-          })),
-          { name: '↩️  Back to Site Management', value: 'back' }
-        ]
-      }
-    ]);
+    const selectedDeployment = await pickOne('Select a deployment:', deployments,
+      deploy => ({ name: `${deploy.state} - ${deploy.branch || 'main'}`, details: [new Date(deploy.created_at).toLocaleDateString(), deploy.id] }),
+      [{ name: '↩️  Back to Site Management', value: 'back' as const }]
+    );
 
     if (selectedDeployment === 'back') return;
 
@@ -237,7 +225,7 @@ async function manageDeployments(netlifyService: NetlifyService, site: any) {
 
     switch (action) {
       case 'delete':
-        await deleteDeployment(netlifyService, selectedDeployment);
+        await deleteDeployment(site, selectedDeployment);
         break;
       case 'details':
         await showDeploymentDetails(selectedDeployment);
@@ -251,7 +239,7 @@ async function manageDeployments(netlifyService: NetlifyService, site: any) {
   }
 }
 
-async function deleteDeployment(netlifyService: NetlifyService, deployment: any) {
+async function deleteDeployment(site: any, deployment: any) {
   try {
     const { confirm } = await inquirer.prompt([
       {
@@ -263,7 +251,8 @@ async function deleteDeployment(netlifyService: NetlifyService, deployment: any)
     ]);
 
     if (confirm) {
-      await netlifyService.deleteDeployment(deployment.id);
+      const { applied } = await runMutation('netlify.deleteDeployment', { siteId: site.id, deployId: deployment.id, name: site.name });
+      if (!applied) return;
       console.log(chalk.green('✅ Deployment deleted successfully!'));
     }
   } catch (error) {
@@ -293,20 +282,10 @@ async function manageGitHubRepositories() {
       return;
     }
 
-    const { selectedRepo } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedRepo',
-        message: 'Select a repository to manage:',
-        choices: [
-          ...repos.map(repo => ({
-            name: `${repo.full_name} ${repo.private ? '(private)' : '(public)'}`,
-            value: repo
-          })),
-          { name: '↩️  Back to Management Menu', value: 'back' }
-        ]
-      }
-    ]);
+    const selectedRepo = await pickOne('Select a repository to manage:', repos,
+      repo => ({ name: repo.full_name, details: [repo.private ? 'private' : 'public', repo.language || ''] }),
+      [{ name: '↩️  Back to Management Menu', value: 'back' as const }]
+    );
 
     if (selectedRepo === 'back') return;
 
@@ -327,10 +306,10 @@ async function manageGitHubRepositories() {
 
     switch (action) {
       case 'rename':
-        await renameRepository(githubService, selectedRepo);
+        await renameRepository(selectedRepo);
         break;
       case 'delete':
-        await deleteRepository(githubService, selectedRepo);
+        await deleteRepository(selectedRepo);
         break;
       case 'details':
         await showRepositoryDetails(selectedRepo);
@@ -348,7 +327,7 @@ async function manageGitHubRepositories() {
   }
 }
 
-async function renameRepository(githubService: GitHubService, repo: any) {
+async function renameRepository(repo: any) {
   try {
     const { newName } = await inquirer.prompt([
       {
@@ -374,7 +353,8 @@ async function renameRepository(githubService: GitHubService, repo: any) {
     ]);
 
     if (confirm) {
-      await githubService.updateRepository(repo.owner.login, repo.name, { name: newName });
+      const { applied } = await runMutation('github.renameRepository', { owner: repo.owner.login, repo: repo.name, newName });
+      if (!applied) return;
       console.log(chalk.green(`✅ Repository renamed to "${newName}" successfully!`));
     }
   } catch (error) {
@@ -382,7 +362,7 @@ async function renameRepository(githubService: GitHubService, repo: any) {
   }
 }
 
-async function deleteRepository(githubService: GitHubService, repo: any) {
+async function deleteRepository(repo: any) {
   try {
     console.log(chalk.yellow(`⚠️  You are about to delete the repository "${repo.full_name}"`));
     console.log(chalk.yellow('This action cannot be undone and will:'));
@@ -409,7 +389,8 @@ async function deleteRepository(githubService: GitHubService, repo: any) {
     ]);
 
     if (finalConfirm) {
-      await githubService.deleteRepository(repo.owner.login, repo.name);
+      const { applied } = await runMutation('github.deleteRepository', { owner: repo.owner.login, repo: repo.name });
+      if (!applied) return;
       console.log(chalk.green(`✅ Repository "${repo.name}" deleted successfully!`));
     }
   } catch (error) {
@@ -442,20 +423,10 @@ async function manageDeployKeys(githubService: GitHubService, repo: any) {
       return;
     }
 
-    const { selectedKey } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedKey',
-        message: 'Select a deploy key:',
-        choices: [
-          ...keys.map(key => ({
-            name: `${key.title} (${key.read_only ? 'Read-only' : 'Read-write'})`,
-            value: key
-          })),
-          { name: '↩️  Back to Repository Management', value: 'back' }
-        ]
-      }
-    ]);
+    const selectedKey = await pickOne('Select a deploy key:', keys,
+      key => ({ name: key.title, details: [key.read_only ? 'Read-only' : 'Read-write'] }),
+      [{ name: '↩️  Back to Repository Management', value: 'back' as const }]
+    );
 
     if (selectedKey === 'back') return;
 
@@ -474,7 +445,7 @@ async function manageDeployKeys(githubService: GitHubService, repo: any) {
 
     switch (action) {
       case 'delete':
-        await deleteDeployKey(githubService, repo, selectedKey);
+        await deleteDeployKey(repo, selectedKey);
         break;
       case 'details':
         await showDeployKeyDetails(selectedKey);
@@ -488,7 +459,7 @@ async function manageDeployKeys(githubService: GitHubService, repo: any) {
   }
 }
 
-async function deleteDeployKey(githubService: GitHubService, repo: any, key: any) {
+async function deleteDeployKey(repo: any, key: any) {
   try {
     const { confirm } = await inquirer.prompt([
       {
@@ -500,7 +471,8 @@ async function deleteDeployKey(githubService: GitHubService, repo: any, key: any
     ]);
 
     if (confirm) {
-      await githubService.deleteDeployKey(repo.owner.login, repo.name, key.id);
+      const { applied } = await runMutation('github.deleteDeployKey', { owner: repo.owner.login, repo: repo.name, keyId: key.id, title: key.title });
+      if (!applied) return;
       console.log(chalk.green('✅ Deploy key deleted successfully!'));
     }
   } catch (error) {
@@ -531,20 +503,10 @@ async function manageMongoDBClusters() {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization:',
-        choices: [
-          ...organizations.map(org => ({
-            name: org.name,
-            value: org
-          })),
-          { name: '↩️  Back to Management Menu', value: 'back' }
-        ]
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization:', organizations,
+      org => ({ name: org.name, details: [org.id] }),
+      [{ name: '↩️  Back to Management Menu', value: 'back' as const }]
+    );
 
     if (selectedOrg === 'back') return;
 
@@ -556,20 +518,10 @@ async function manageMongoDBClusters() {
       return;
     }
 
-    const { selectedProject } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedProject',
-        message: 'Select a project:',
-        choices: [
-          ...projects.map(project => ({
-            name: project.name,
-            value: project
-          })),
-          { name: '↩️  Back to Organization Selection', value: 'back' }
-        ]
-      }
-    ]);
+    const selectedProject = await pickOne('Select a project:', projects,
+      project => ({ name: project.name, details: [project.id] }),
+      [{ name: '↩️  Back to Organization Selection', value: 'back' as const }]
+    );
 
     if (selectedProject === 'back') return await manageMongoDBClusters();
 
@@ -581,20 +533,10 @@ async function manageMongoDBClusters() {
       return;
     }
 
-    const { selectedCluster } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedCluster',
-        message: 'Select a cluster to manage:',
-        choices: [
-          ...clusters.map(cluster => ({
-            name: `${cluster.name} (${cluster.mongoDBVersion})`,
-            value: cluster
-          })),
-          { name: '↩️  Back to Project Selection', value: 'back' }
-        ]
-      }
-    ]);
+    const selectedCluster = await pickOne('Select a cluster to manage:', clusters,
+      cluster => ({ name: cluster.name, details: [cluster.stateName, cluster.mongoDBVersion] }),
+      [{ name: '↩️  Back to Project Selection', value: 'back' as const }]
+    );
 
     if (selectedCluster === 'back') return await manageMongoDBClusters();
 
@@ -604,7 +546,6 @@ async function manageMongoDBClusters() {
         name: 'action',
         message: `What would you like to do with "${selectedCluster.name}"?`,
         choices: [
-          { name: '📝 Change Cluster Name', value: 'rename' },
           { name: '🗑️  Delete Cluster', value: 'delete' },
           { name: '📊 View Cluster Details', value: 'details' },
           { name: '↩️  Back to Cluster Selection', value: 'back' }
@@ -613,11 +554,8 @@ async function manageMongoDBClusters() {
     ]);
 
     switch (action) {
-      case 'rename':
-        await renameCluster(mongoService, selectedProject.id, selectedCluster);
-        break;
       case 'delete':
-        await deleteCluster(mongoService, selectedProject.id, selectedCluster);
+        await deleteCluster(selectedProject.id, selectedCluster);
         break;
       case 'details':
         await showClusterDetails(selectedCluster);
@@ -632,41 +570,7 @@ async function manageMongoDBClusters() {
   }
 }
 
-async function renameCluster(mongoService: MongoDBService, projectId: string, cluster: any) {
-  try {
-    const { newName } = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'newName',
-        message: 'Enter new cluster name:',
-        validate: (input) => {
-          if (!input.trim()) return 'Cluster name cannot be empty';
-          if (input.length > 64) return 'Cluster name must be 64 characters or less';
-          if (!/^[a-zA-Z0-9-]+$/.test(input)) return 'Cluster name can only contain letters, numbers, and hyphens';
-          return true;
-        }
-      }
-    ]);
-
-    const { confirm } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirm',
-        message: `Are you sure you want to rename "${cluster.name}" to "${newName}"?`,
-        default: false
-      }
-    ]);
-
-    if (confirm) {
-      await mongoService.updateCluster(projectId, cluster.name, { name: newName });
-      console.log(chalk.green(`✅ Cluster renamed to "${newName}" successfully!`));
-    }
-  } catch (error) {
-    console.log(chalk.red('❌ Error renaming cluster:'), error.message);
-  }
-}
-
-async function deleteCluster(mongoService: MongoDBService, projectId: string, cluster: any) {
+async function deleteCluster(projectId: string, cluster: any) {
   try {
     console.log(chalk.yellow(`⚠️  You are about to delete the cluster "${cluster.name}"`));
     console.log(chalk.yellow('This action cannot be undone and will:'));
@@ -693,7 +597,8 @@ async function deleteCluster(mongoService: MongoDBService, projectId: string, cl
     ]);
 
     if (finalConfirm) {
-      await mongoService.deleteCluster(projectId, cluster.name);
+      const { applied } = await runMutation('mongodb.deleteCluster', { projectId, clusterName: cluster.name });
+      if (!applied) return;
       console.log(chalk.green(`✅ Cluster "${cluster.name}" deleted successfully!`));
     }
   } catch (error) {
@@ -6,6 +6,8 @@ import { ConfigManager } from '../../src/utils/config';
 import { logger } from '../../src/utils/logger';
 import { validateApiKey } from '../../src/utils/validation';
 import { AgentService } from '../agent/agent-service';
+import { unlockVaultIfPresent } from '../../src/commands/secrets';
+import { isVaultUnlocked, setSecret } from '../../src/utils/vault';
 
 export async function switchProviderCommand(): Promise<void> {
   const configManager = new ConfigManager();
@@ -17,6 +19,8 @@ export async function switchProviderCommand(): Promise<void> {
   }
 
   try {
+    await unlockVaultIfPresent();
+
     const { newProvider, newApiKey, newModel } = await inquirer.prompt([
       {
         type: 'list',
@@ -64,11 +68,17 @@ export async function switchProviderCommand(): Promise<void> {
       // Switch provider
       await agentService.switchProvider(newProvider, newApiKey);
 
+      // Keep the key in the encrypted vault when there is one instead of the plaintext project config
+      const storedInVault = isVaultUnlocked();
+      if (storedInVault) {
+        setSecret(`${newProvider.toUpperCase()}_API_KEY`, newApiKey);
+      }
+
       // Update configuration
       const updatedConfig = {
         ...config,
         aiProvider: newProvider,
-        apiKey: newApiKey,
+        apiKey: storedInVault ? undefined : newApiKey,
         model: newModel,
         updatedAt: new Date().toISOString()
       };
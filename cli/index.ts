@@ -10,6 +10,7 @@ import { memoryCommand } from './commands/memory';
 import { switchProviderCommand } from './commands/switch-provider';
 import { manageCommand } from './commands/manage';
 import { logger } from '../src/utils/logger';
+import { configureRuntime } from '../src/utils/runtime';
 
 const program = new Command();
 
@@ -101,8 +102,11 @@ program
 program
   .command('manage')
   .description('Manage Netlify projects, GitHub repositories, and MongoDB clusters')
-  .action(async () => {
+  .option('--dry-run', 'Print destructive operations instead of running them')
+  .option('--plan <file>', 'Record destructive operations to a plan file for `geenius-cli apply` instead of running them')
+  .action(async (options) => {
     try {
+      configureRuntime({ dryRun: Boolean(options.dryRun), plan: options.plan });
       await manageCommand();
     } catch (error) {
       logger.error('Manage command error', error);
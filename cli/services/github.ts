@@ -1,15 +1,17 @@
 // src/services/github.ts
 import { Octokit } from 'octokit';
+import { describeCredentialSource, getCredential } from '../../src/utils/credentials';
 
 export class GitHubService {
   private octokit: Octokit;
 
   constructor() {
-    if (!process.env.GITHUB_TOKEN) {
-      throw new Error('GITHUB_TOKEN environment variable is required. Please set it with your GitHub personal access token.');
+    const token = getCredential('GITHUB_TOKEN');
+    if (!token) {
+      throw new Error(`GITHUB_TOKEN is required but is missing from the ${describeCredentialSource()}. Please set it with your GitHub personal access token.`);
     }
     this.octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN
+      auth: token
     });
   }
 
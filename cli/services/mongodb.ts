@@ -1,5 +1,6 @@
 // cli/services/mongodb.ts
 import DigestClient from 'digest-fetch';
+import { describeCredentialSource, getCredential } from '../../src/utils/credentials';
 
 export interface MongoDBProject {
   id: string;
@@ -19,11 +20,11 @@ export class MongoDBService {
 
   constructor() {
     this.apiUrl = 'https://cloud.mongodb.com/api/atlas/v2';
-    const publicKey = process.env.MONGODB_ATLAS_PUBLIC_KEY || '';
-    const privateKey = process.env.MONGODB_ATLAS_PRIVATE_KEY || '';
+    const publicKey = getCredential('MONGODB_ATLAS_PUBLIC_KEY') || '';
+    const privateKey = getCredential('MONGODB_ATLAS_PRIVATE_KEY') || '';
 
     if (!publicKey || !privateKey) {
-      throw new Error('MongoDB Atlas API keys are required. Please set MONGODB_ATLAS_PUBLIC_KEY and MONGODB_ATLAS_PRIVATE_KEY in your environment.');
+      throw new Error(`MongoDB Atlas API keys are required. Please set MONGODB_ATLAS_PUBLIC_KEY and MONGODB_ATLAS_PRIVATE_KEY in your ${describeCredentialSource()}.`);
     }
 
     // Create digest client
@@ -1,14 +1,16 @@
 // src/services/netlify.ts
 import { NetlifyAPI } from 'netlify';
+import { describeCredentialSource, getCredential } from '../../src/utils/credentials';
 
 export class NetlifyService {
   private client: NetlifyAPI;
 
   constructor() {
-    if (!process.env.NETLIFY_TOKEN) {
-      throw new Error('NETLIFY_TOKEN environment variable is required for Netlify integration. Please set it in your .env file.');
+    const token = getCredential('NETLIFY_TOKEN');
+    if (!token) {
+      throw new Error(`NETLIFY_TOKEN is required for Netlify integration but is missing from the ${describeCredentialSource()}. Please set it in your .env file or profile.`);
     }
-    this.client = new NetlifyAPI(process.env.NETLIFY_TOKEN);
+    this.client = new NetlifyAPI(token);
   }
 
   async createProject(name: string, repoUrl: string, teamSlug?: string) {
@@ -25,7 +27,7 @@ export class NetlifyService {
     const [, owner, repo] = repoMatch;
     const repoPath = `${owner}/${repo.replace(/\.git$/, '')}`; // Remove .git suffix if present
     console.log(`Parsed repo path: ${repoPath}`);
-    console.log(`GitHub token configured: ${!!process.env.GITHUB_TOKEN}`);
+    console.log(`GitHub token configured: ${!!getCredential('GITHUB_TOKEN')}`);
 
     try {
       // Step 1: Get GitHub repository ID
@@ -187,7 +189,7 @@ export class NetlifyService {
     try {
       const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
         headers: {
-          'Authorization': `token ${process.env.GITHUB_TOKEN}`,
+          'Authorization': `token ${getCredential('GITHUB_TOKEN')}`,
           'Accept': 'application/vnd.github.v3+json',
           'User-Agent': 'Netlify-Setup-Tool'
         }
@@ -213,7 +215,7 @@ export class NetlifyService {
       const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/keys`, {
         method: 'POST',
         headers: {
-          'Authorization': `token ${process.env.GITHUB_TOKEN}`,
+          'Authorization': `token ${getCredential('GITHUB_TOKEN')}`,
           'Accept': 'application/vnd.github.v3+json',
           'Content-Type': 'application/json',
           'User-Agent': 'Netlify-Setup-Tool'
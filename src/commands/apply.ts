@@ -0,0 +1,106 @@
+import chalk from 'chalk';
+import { PlannedMutation, loadPlan, runMutation, snapshotTarget } from './mutations.js';
+import { Provider, requireProviderCredentials } from '../utils/credentials.js';
+import { getRuntime, isLive } from '../utils/runtime.js';
+import { CliError, ExitCode, ScriptedOptions, requireConfirmation, runScripted } from '../utils/output.js';
+
+type StepStatus = 'pending' | 'drifted' | 'applied' | 'failed' | 'skipped';
+
+interface PlanStep {
+  description: string;
+  status: StepStatus;
+  reason?: string;
+}
+
+function sameState(expected: Record<string, unknown>, current: Record<string, unknown>): boolean {
+  return JSON.stringify(expected) === JSON.stringify(current);
+}
+
+async function checkDrift(mutation: PlannedMutation): Promise<string | undefined> {
+  try {
+    const current = await snapshotTarget(mutation.action, mutation.args);
+    if (!sameState(mutation.expected, current)) {
+      const changed = Object.keys(mutation.expected).filter(key =>
+        JSON.stringify(mutation.expected[key]) !== JSON.stringify(current[key])
+      );
+      return `changed since planned: ${changed.join(', ')}`;
+    }
+    return undefined;
+  } catch (error: any) {
+    return `target no longer available: ${error.message}`;
+  }
+}
+
+const STATUS_ICONS: Record<StepStatus, string> = {
+  pending: chalk.gray('•'),
+  drifted: chalk.yellow('⚠️ '),
+  applied: chalk.green('✅'),
+  failed: chalk.red('❌'),
+  skipped: chalk.gray('⏭️ ')
+};
+
+function printSteps(steps: PlanStep[]): void {
+  steps.forEach((step, index) => {
+    console.log(`${STATUS_ICONS[step.status]} ${index + 1}. ${step.description}${step.reason ? chalk.gray(` (${step.reason})`) : ''}`);
+  });
+}
+
+/**
+ * Replays a plan written with --plan. Every target is re-checked against the
+ * snapshot taken at planning time first, and nothing runs if any of them
+ * drifted. Execution stops at the first failure since later steps may depend
+ * on earlier ones.
+ */
+export async function applyCommand(planFile: string, options: ScriptedOptions): Promise<void> {
+  let steps: PlanStep[] = [];
+
+  await runScripted(options, async () => {
+    if (getRuntime().plan) {
+      throw new CliError('Cannot record a plan while applying one; drop --plan', ExitCode.Usage);
+    }
+
+    const plan = loadPlan(planFile);
+    const providers = new Set(plan.mutations.map(mutation => mutation.action.split('.')[0] as Provider));
+    providers.forEach(provider => requireProviderCredentials(provider));
+
+    steps = plan.mutations.map(mutation => ({ description: mutation.description, status: 'pending' }));
+    console.log(chalk.blue(`\n📝 Plan ${planFile} (${plan.mutations.length} mutations, created ${plan.createdAt})\n`));
+
+    for (const [index, mutation] of plan.mutations.entries()) {
+      const reason = await checkDrift(mutation);
+      if (reason) {
+        steps[index] = { ...steps[index], status: 'drifted', reason };
+      }
+    }
+
+    const drifted = steps.filter(step => step.status === 'drifted').length;
+    if (drifted > 0) {
+      printSteps(steps);
+      throw new CliError(`${drifted} planned targets changed since the plan was written; re-create the plan`, ExitCode.PlanDrift);
+    }
+
+    if (!options.yes && isLive()) {
+      printSteps(steps);
+    }
+    requireConfirmation(options, `apply ${plan.mutations.length} mutations`);
+
+    for (const [index, mutation] of plan.mutations.entries()) {
+      try {
+        const { applied } = await runMutation(mutation.action, mutation.args);
+        steps[index].status = applied ? 'applied' : 'pending';
+      } catch (error: any) {
+        steps[index] = { ...steps[index], status: 'failed', reason: error.message };
+        steps.slice(index + 1).forEach(step => { step.status = 'skipped'; });
+        break;
+      }
+    }
+
+    return { plan: planFile, steps };
+  }, (result) => {
+    printSteps(result.steps);
+  });
+
+  if (steps.some(step => step.status === 'failed')) {
+    process.exitCode = ExitCode.Failure;
+  }
+}
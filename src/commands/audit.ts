@@ -0,0 +1,164 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { PROVIDERS } from '../utils/credentials.js';
+import { AuditEntry, getAuditFile, readAudit } from '../utils/audit.js';
+import { compileNamePattern, matchesAnyPattern, parseDuration } from '../utils/filters.js';
+import { CliError, ExitCode } from '../utils/output.js';
+import { ListView, RenderOptions, parseOutputFormat, renderList, selectRows } from '../utils/render.js';
+
+export const AUDIT_VIEW: ListView<AuditEntry> = {
+  columns: {
+    timestamp: entry => entry.timestamp,
+    user: entry => entry.user,
+    profile: entry => entry.profile,
+    provider: entry => entry.provider,
+    action: entry => entry.action,
+    target: entry => {
+      const { id, name } = entry.target;
+      return name && id && name !== id ? `${name} (${id})` : name || id;
+    },
+    targetId: entry => entry.target.id,
+    targetName: entry => entry.target.name,
+    outcome: entry => entry.outcome,
+    params: entry => entry.params,
+    error: entry => entry.error,
+    durationMs: entry => entry.durationMs
+  },
+  defaultColumns: ['timestamp', 'user', 'profile', 'provider', 'action', 'target', 'outcome']
+};
+
+export interface AuditOptions extends Omit<RenderOptions, 'limit'> {
+  provider?: string[];
+  action?: string[];
+  target?: string;
+  user?: string;
+  outcome?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+}
+
+export interface AuditFilter {
+  providers?: string[];
+  actions?: string[];
+  target?: string;
+  user?: string;
+  outcome?: string;
+  since?: number;
+  until?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Accepts a duration back from now (7d, 12h) or a date; a bare --until date includes that whole day
+export function parseWhen(value: string, bound: 'since' | 'until', now: number = Date.now()): number {
+  if (/^\d+\s*[mhdw]$/i.test(value.trim())) {
+    return now - parseDuration(value);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new CliError(`Invalid --${bound} "${value}". Use a date (2025-01-31) or a duration (7d)`, ExitCode.Usage);
+  }
+  return bound === 'until' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? time + DAY : time;
+}
+
+export function filterAudit(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const targetPattern = filter.target ? compileNamePattern(filter.target) : undefined;
+
+  return entries.filter(entry => {
+    const time = Date.parse(entry.timestamp);
+    return (!filter.providers?.length || filter.providers.includes(entry.provider)) &&
+      (!filter.actions?.length || matchesAnyPattern(entry.action, filter.actions)) &&
+      (!targetPattern || [entry.target.id, entry.target.name].some(value => value && targetPattern.test(value))) &&
+      (!filter.user || entry.user === filter.user) &&
+      (!filter.outcome || entry.outcome === filter.outcome) &&
+      (filter.since === undefined || time >= filter.since) &&
+      (filter.until === undefined || time < filter.until);
+  });
+}
+
+function printAudit(entries: AuditEntry[], options: RenderOptions): void {
+  renderList(entries, AUDIT_VIEW, options, `📭 No audit entries found in ${getAuditFile()}`);
+  if (parseOutputFormat(options.output) !== 'table' || entries.length === 0) {
+    return;
+  }
+  entries.filter(entry => entry.error).forEach(entry => {
+    console.log(chalk.red(`❌ ${entry.timestamp} ${entry.action}: ${entry.error}`));
+  });
+  console.log(chalk.gray(`\n${entries.length} entries`));
+}
+
+export async function auditCommand(options: AuditOptions): Promise<void> {
+  // --limit picks the most recent entries here, so it is not passed on to the renderer
+  const renderOptions: RenderOptions = { output: options.output, columns: options.columns, sortBy: options.sortBy };
+
+  try {
+    selectRows([], AUDIT_VIEW, renderOptions);
+    if (options.outcome && !['success', 'failure'].includes(options.outcome)) {
+      throw new CliError(`Unknown outcome "${options.outcome}". Expected success or failure`, ExitCode.Usage);
+    }
+    const limit = options.limit ? parseInt(options.limit, 10) : 50;
+    if (Number.isNaN(limit) || limit < 1) {
+      throw new CliError('--limit must be a positive number', ExitCode.Usage);
+    }
+
+    const entries = filterAudit(readAudit(), {
+      providers: options.provider?.flatMap(value => value.split(',')).map(value => value.trim().toLowerCase()),
+      actions: options.action,
+      target: options.target,
+      user: options.user,
+      outcome: options.outcome,
+      since: options.since ? parseWhen(options.since, 'since') : undefined,
+      until: options.until ? parseWhen(options.until, 'until') : undefined
+    });
+
+    // Most recent entries, still printed in chronological order
+    printAudit(entries.slice(-limit), renderOptions);
+    process.exitCode = ExitCode.Success;
+  } catch (error: any) {
+    console.error(chalk.red(`❌ Error: ${error.message}`));
+    process.exitCode = error instanceof CliError ? error.exitCode : ExitCode.Failure;
+  }
+}
+
+export async function auditMenu(): Promise<void> {
+  console.log(chalk.blue.bold('\n📜 Audit Log'));
+  console.log(chalk.gray(`Every mutation made through this CLI (${getAuditFile()})`));
+  console.log();
+
+  const { provider, since, target } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'provider',
+      message: 'Which provider?',
+      choices: [{ name: 'All providers', value: undefined }, ...PROVIDERS.map(value => ({ name: value, value }))]
+    },
+    {
+      type: 'input',
+      name: 'since',
+      message: 'Since (date or duration such as 7d):',
+      default: '7d',
+      validate: (input: string) => {
+        try {
+          parseWhen(input, 'since');
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    },
+    {
+      type: 'input',
+      name: 'target',
+      message: 'Filter by target id or name (glob or /regex/, leave empty for all):'
+    }
+  ]);
+
+  const entries = filterAudit(readAudit(), {
+    providers: provider ? [provider] : undefined,
+    target: target || undefined,
+    since: parseWhen(since, 'since')
+  });
+  printAudit(entries, {});
+  console.log();
+}
@@ -0,0 +1,370 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { InventoryResource, InventoryService } from '../services/inventory.js';
+import { Provider } from '../utils/credentials.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { DEFAULT_BACKUP_DIR } from '../services/github-backup.js';
+import { MutationAction, runMutation } from './mutations.js';
+import { PickerRow, pickMany, pickOne } from './picker.js';
+import { DERIVED_STATES, ResourceFilter, applyResourceFilter, describeFilter, parseDuration } from '../utils/filters.js';
+import { CliError, ExitCode, ScriptedOptions, formatTable, requireConfirmation, runScripted } from '../utils/output.js';
+import { isLive } from '../utils/runtime.js';
+import { showWaitsIn } from '../utils/http.js';
+
+interface BulkDeleteTarget {
+  provider: Provider;
+  type: string;
+  noun: string;
+  warnings: string[];
+  // Only set for targets that can be archived locally before deletion
+  supportsBackup?: boolean;
+  toMutation: (resource: InventoryResource, backupDir?: string) => { action: MutationAction; args: Record<string, any> };
+}
+
+export const BULK_DELETE_TARGETS: Record<string, BulkDeleteTarget> = {
+  'github-repos': {
+    provider: 'github',
+    type: 'repository',
+    noun: 'repositories',
+    warnings: ['All code, issues, and pull requests will be permanently lost!'],
+    supportsBackup: true,
+    toMutation: (resource, backupDir) => ({
+      action: 'github.deleteRepository',
+      args: { owner: resource.raw.owner.login, repo: resource.raw.name, backupDir }
+    })
+  },
+  'netlify-sites': {
+    provider: 'netlify',
+    type: 'site',
+    noun: 'sites',
+    warnings: ['All deploys and site settings will be permanently lost!'],
+    toMutation: (resource) => ({
+      action: 'netlify.deleteSite',
+      args: { siteId: resource.id, name: resource.name }
+    })
+  },
+  'mongodb-projects': {
+    provider: 'mongodb',
+    type: 'project',
+    noun: 'projects',
+    warnings: ['ALL clusters (regardless of name), databases, and data in these projects will be permanently lost!'],
+    toMutation: (resource) => ({
+      action: 'mongodb.deleteProject',
+      args: { projectId: resource.id, name: resource.name, withClusters: true }
+    })
+  },
+  'mongodb-clusters': {
+    provider: 'mongodb',
+    type: 'cluster',
+    noun: 'clusters',
+    warnings: ['All databases and data will be permanently lost!'],
+    toMutation: (resource) => ({
+      action: 'mongodb.deleteCluster',
+      args: { projectId: resource.raw.projectId, clusterName: resource.name }
+    })
+  },
+  'upstash-redis': {
+    provider: 'upstash',
+    type: 'redis',
+    noun: 'Redis databases',
+    warnings: ['All data will be permanently lost!'],
+    toMutation: (resource) => ({
+      action: 'upstash.deleteRedisDatabase',
+      args: { databaseId: resource.id, name: resource.name }
+    })
+  }
+};
+
+export interface BulkDeleteOptions extends ScriptedOptions {
+  match?: string[];
+  exclude?: string[];
+  olderThan?: string;
+  state?: string[];
+  org?: string;
+  backup?: boolean | string;
+}
+
+export interface BulkDeleteSummary {
+  matched: number;
+  deleted: string[];
+  failed: { name: string; error: string }[];
+}
+
+const PREVIEW_COLUMNS = ['name', 'id', 'region', 'created', 'state'];
+
+function getTarget(name: string): BulkDeleteTarget {
+  const target = BULK_DELETE_TARGETS[name];
+  if (!target) {
+    throw new CliError(`Unknown bulk delete target "${name}". Expected one of ${Object.keys(BULK_DELETE_TARGETS).join(', ')}`, ExitCode.Usage);
+  }
+  return target;
+}
+
+async function selectResources(target: BulkDeleteTarget, filter: ResourceFilter, orgId?: string): Promise<InventoryResource[]> {
+  const result = await new InventoryService().collect([target.provider]);
+  if (result.skipped.length > 0) {
+    throw new CliError(`No credentials configured for ${target.provider}`, ExitCode.MissingCredentials);
+  }
+  if (result.errors.length > 0) {
+    throw new Error(result.errors[0].message);
+  }
+
+  const candidates = result.resources.filter(resource =>
+    resource.type === target.type && (!orgId || resource.raw.orgId === orgId)
+  );
+  return applyResourceFilter(candidates, filter);
+}
+
+function printPreview(target: BulkDeleteTarget, resources: InventoryResource[], description: string): void {
+  console.log(chalk.blue(`\n🔍 Found ${resources.length} ${target.noun} (${description}):\n`));
+  console.log(formatTable(PREVIEW_COLUMNS, resources.map(({ raw, ...resource }) => resource)));
+  console.log();
+}
+
+async function deleteResources(
+  target: BulkDeleteTarget,
+  resources: InventoryResource[],
+  backupDir?: string,
+  spinner?: Ora
+): Promise<BulkDeleteSummary> {
+  const summary: BulkDeleteSummary = { matched: resources.length, deleted: [], failed: [] };
+
+  for (const resource of resources) {
+    const progress = `Deleting ${resource.name}... (${summary.deleted.length + summary.failed.length + 1}/${resources.length})`;
+    if (spinner) {
+      spinner.text = progress;
+    } else if (isLive()) {
+      console.error(chalk.gray(progress));
+    }
+
+    try {
+      const { action, args } = target.toMutation(resource, backupDir);
+      const { applied } = await runMutation(action, args, spinner);
+      if (applied) {
+        summary.deleted.push(resource.name);
+      }
+    } catch (error: any) {
+      summary.failed.push({ name: resource.name, error: error.message });
+    }
+  }
+
+  return summary;
+}
+
+function splitList(input: string): string[] {
+  return input.split(',').map(value => value.trim()).filter(Boolean);
+}
+
+function resourceRow(resource: InventoryResource): PickerRow {
+  return { name: resource.name, details: [resource.region, resource.created?.slice(0, 10), resource.state] };
+}
+
+async function promptForFilter(): Promise<ResourceFilter> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'match',
+      message: 'Name patterns to match (comma-separated globs or /regex/):',
+      default: 'test-*'
+    },
+    {
+      type: 'input',
+      name: 'exclude',
+      message: 'Name patterns to exclude (comma-separated, optional):'
+    },
+    {
+      type: 'input',
+      name: 'olderThan',
+      message: 'Only resources older than (e.g. 14d, 12h; optional):',
+      validate: (input: string) => {
+        if (!input) return true;
+        try {
+          parseDuration(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    },
+    {
+      type: 'input',
+      name: 'state',
+      message: `Only resources in state (comma-separated, e.g. ${DERIVED_STATES.join(', ')}; optional):`
+    }
+  ]);
+
+  return {
+    match: splitList(answers.match),
+    exclude: splitList(answers.exclude),
+    olderThan: answers.olderThan || undefined,
+    state: splitList(answers.state)
+  };
+}
+
+export async function bulkDeleteMenu(targetName: string): Promise<void> {
+  const target = getTarget(targetName);
+  let orgId: string | undefined;
+
+  if (target.provider === 'mongodb') {
+    const spinner = ora('Loading organizations...').start();
+    try {
+      const organizations = await new MongoDBService().getOrganizations();
+      spinner.stop();
+      const organization = await pickOne(
+        `Select an organization to bulk delete ${target.noun} from:`,
+        organizations,
+        org => ({ name: org.name, details: [org.id] }),
+        [{ name: chalk.cyan('🌐 All organizations'), value: 'all' as const }]
+      );
+      orgId = organization === 'all' ? undefined : organization.id;
+    } catch (error: any) {
+      spinner.fail('Failed to load organizations');
+      console.log(chalk.red(`Error: ${error.message}`));
+      return;
+    }
+  }
+
+  const { mode } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'mode',
+      message: `How do you want to choose the ${target.noun} to delete?`,
+      choices: [
+        { name: '🔎 Pick them from a searchable list', value: 'pick' },
+        { name: '🧩 Match them by name pattern, age or state', value: 'filter' }
+      ]
+    }
+  ]);
+  const filter: ResourceFilter = mode === 'filter' ? await promptForFilter() : {};
+
+  const spinner = ora(`Loading ${target.noun}...`).start();
+  const stopShowingWaits = showWaitsIn(spinner);
+  let resources: InventoryResource[];
+  try {
+    resources = await selectResources(target, filter, orgId);
+    spinner.stop();
+  } catch (error: any) {
+    spinner.fail(`Failed to load ${target.noun}`);
+    console.log(chalk.red(`Error: ${error.message}`));
+    return;
+  } finally {
+    stopShowingWaits();
+  }
+
+  if (resources.length === 0) {
+    console.log(chalk.yellow(`📭 No ${target.noun} found (${describeFilter(filter)})`));
+    return;
+  }
+
+  if (mode === 'pick') {
+    resources = await pickMany(`Select the ${target.noun} to delete:`, resources, resourceRow);
+    if (resources.length === 0) {
+      console.log(chalk.gray('Nothing selected; bulk delete cancelled'));
+      return;
+    }
+  }
+
+  printPreview(target, resources, mode === 'pick' ? 'selected by hand' : describeFilter(filter));
+
+  console.log(chalk.red(`⚠️  DANGER: You are about to delete ${resources.length} ${target.noun}!`));
+  console.log(chalk.red(`This action cannot be undone!`));
+  target.warnings.forEach(warning => console.log(chalk.red(warning)));
+
+  const { confirmBulkDelete } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirmBulkDelete',
+      message: `Are you absolutely sure you want to delete these ${resources.length} ${target.noun}?`,
+      default: false
+    }
+  ]);
+
+  if (!confirmBulkDelete) {
+    console.log(chalk.gray('Bulk delete cancelled'));
+    return;
+  }
+
+  const phrase = `DELETE ${resources.length} ${target.noun.toUpperCase()}`;
+  await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'finalConfirm',
+      message: `Type "${phrase}" to confirm:`,
+      validate: (input) => input === phrase || `Please type exactly "${phrase}"`
+    }
+  ]);
+
+  let backupDir: string | undefined;
+  if (target.supportsBackup) {
+    const { backup } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'backup',
+        message: `Back up each of them to ${DEFAULT_BACKUP_DIR}/ before deleting?`,
+        default: true
+      }
+    ]);
+    backupDir = backup ? DEFAULT_BACKUP_DIR : undefined;
+  }
+
+  const deleteSpinner = ora(`Deleting ${resources.length} ${target.noun}...`).start();
+  const summary = await deleteResources(target, resources, backupDir, deleteSpinner);
+  deleteSpinner.stop();
+
+  summary.failed.forEach(failure => console.log(chalk.red(`Failed to delete ${failure.name}: ${failure.error}`)));
+  if (summary.deleted.length > 0) {
+    console.log(chalk.green(`✅ Successfully deleted ${summary.deleted.length} ${target.noun}`));
+  }
+  if (summary.failed.length > 0) {
+    console.log(chalk.red(`❌ Failed to delete ${summary.failed.length} ${target.noun}`));
+  }
+}
+
+export async function bulkDeleteCommand(targetName: string, options: BulkDeleteOptions): Promise<void> {
+  let summary: BulkDeleteSummary | undefined;
+
+  await runScripted(options, async () => {
+    const target = getTarget(targetName);
+    if (options.backup && !target.supportsBackup) {
+      throw new CliError(`--backup is not supported for ${targetName}`, ExitCode.Usage);
+    }
+    const filter: ResourceFilter = {
+      match: options.match,
+      exclude: options.exclude,
+      olderThan: options.olderThan,
+      state: options.state
+    };
+
+    if (!filter.match?.length && !filter.olderThan && !filter.state?.length) {
+      throw new CliError('Refusing to bulk delete without at least one of --match, --older-than or --state', ExitCode.Usage);
+    }
+    if (filter.olderThan) {
+      try {
+        parseDuration(filter.olderThan);
+      } catch (error: any) {
+        throw new CliError(error.message, ExitCode.Usage);
+      }
+    }
+
+    const resources = await selectResources(target, filter, options.org);
+    printPreview(target, resources, describeFilter(filter));
+
+    if (resources.length > 0) {
+      requireConfirmation(options, `delete ${resources.length} ${target.noun}`);
+    }
+
+    const backupDir = options.backup === true ? DEFAULT_BACKUP_DIR : options.backup || undefined;
+    summary = await deleteResources(target, resources, backupDir);
+    return summary;
+  }, (result) => {
+    result.failed.forEach(failure => console.log(chalk.red(`❌ Failed to delete ${failure.name}: ${failure.error}`)));
+    if (isLive()) {
+      console.log(chalk.green(`✅ Deleted ${result.deleted.length}/${result.matched}`));
+    }
+  });
+
+  if (summary && summary.failed.length > 0) {
+    process.exitCode = ExitCode.Failure;
+  }
+}
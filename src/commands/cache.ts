@@ -0,0 +1,27 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PROVIDERS, Provider } from '../utils/credentials.js';
+import { cacheTtlMs, invalidateCache } from '../utils/cache.js';
+import { CliError, ExitCode, ScriptedOptions, runScripted } from '../utils/output.js';
+
+export function registerCacheSubcommands(cache: Command): void {
+  cache
+    .command('clear [providers...]')
+    .description(`Drop cached list responses (${PROVIDERS.join(', ')}; default: all)`)
+    .option('--json', 'Output as JSON')
+    .action(async (providers: string[], options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        const unknown = providers.filter(provider => !PROVIDERS.includes(provider as Provider));
+        if (unknown.length > 0) {
+          throw new CliError(`Unknown provider: ${unknown.join(', ')}`, ExitCode.Usage);
+        }
+        const removed = providers.length > 0
+          ? providers.reduce((total, provider) => total + invalidateCache(provider as Provider), 0)
+          : invalidateCache();
+        return { success: true, removed };
+      }, (result) => {
+        console.log(chalk.green(`✅ Removed ${result.removed} cached list${result.removed === 1 ? '' : 's'}`));
+        console.log(chalk.gray(`Lists are cached for ${cacheTtlMs() / 1000}s (GEENIUS_CACHE_TTL)`));
+      });
+    });
+}
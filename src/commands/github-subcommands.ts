@@ -0,0 +1,160 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { GitHubService } from '../services/github.js';
+import { DEFAULT_BACKUP_DIR, GitHubBackupService, restoreArgs } from '../services/github-backup.js';
+import { runMutation } from './mutations.js';
+import { CliError, ExitCode, ScriptedOptions, requireConfirmation, runScripted } from '../utils/output.js';
+import { RenderOptions, addRenderOptions, renderList } from '../utils/render.js';
+import { BRANCH_VIEW, REPOSITORY_VIEW } from './views.js';
+import { requireProviderCredentials } from '../utils/credentials.js';
+
+function requireCredentials(): void {
+  requireProviderCredentials('github');
+}
+
+function createService(): GitHubService {
+  requireCredentials();
+  return new GitHubService();
+}
+
+interface RepoDeleteOptions extends ScriptedOptions {
+  backup?: boolean | string;
+}
+
+function parseFullName(fullName: string): { owner: string; repo: string } {
+  const [owner, repo, ...rest] = fullName.split('/');
+  if (!owner || !repo || rest.length > 0) {
+    throw new CliError(`Invalid repository "${fullName}", expected <owner>/<repo>`, ExitCode.Usage);
+  }
+  return { owner, repo };
+}
+
+export function registerGitHubSubcommands(github: Command): void {
+  const repos = github
+    .command('repos')
+    .description('Manage GitHub repositories without prompts');
+
+  addRenderOptions(repos.command('list'))
+    .description('List repositories of the authenticated user')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listRepositories(), (result) => {
+        renderList(result, REPOSITORY_VIEW, options, '📭 No repositories found');
+      });
+    });
+
+  repos
+    .command('get <owner/repo>')
+    .description('Show repository details')
+    .option('--json', 'Output as JSON')
+    .action(async (fullName: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        const { owner, repo } = parseFullName(fullName);
+        return createService().getRepository(owner, repo);
+      }, (repo) => {
+        console.log(chalk.blue(`📋 ${repo.full_name}`));
+        console.log(`Description: ${repo.description || 'No description'}`);
+        console.log(`URL: ${repo.html_url}`);
+        console.log(`Language: ${repo.language || 'N/A'}`);
+        console.log(`Private: ${repo.private ? 'Yes' : 'No'}`);
+        console.log(`Default Branch: ${repo.default_branch}`);
+        console.log(`Created: ${repo.created_at}`);
+        console.log(`Updated: ${repo.updated_at}`);
+      });
+    });
+
+  repos
+    .command('rename <owner/repo> <newName>')
+    .description('Rename a repository')
+    .option('--json', 'Output as JSON')
+    .action(async (fullName: string, newName: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        const { owner, repo } = parseFullName(fullName);
+        if (!/^[a-zA-Z0-9._-]+$/.test(newName)) {
+          throw new CliError('Repository name can only contain letters, numbers, dots, hyphens, and underscores', ExitCode.Usage);
+        }
+        requireCredentials();
+        const { applied } = await runMutation('github.renameRepository', { owner, repo, newName });
+        return { success: true, applied, fullName: `${owner}/${newName}`, url: `https://github.com/${owner}/${newName}` };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Repository renamed to ${result.fullName}`));
+        }
+      });
+    });
+
+  repos
+    .command('delete <owner/repo>')
+    .description('Permanently delete a repository')
+    .option('--backup [dir]', `Back up the repository locally before deleting it (default: ${DEFAULT_BACKUP_DIR})`)
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (fullName: string, options: RepoDeleteOptions) => {
+      await runScripted(options, async () => {
+        const { owner, repo } = parseFullName(fullName);
+        requireConfirmation(options, `delete repository ${owner}/${repo}`);
+        requireCredentials();
+        const backupDir = options.backup === true ? DEFAULT_BACKUP_DIR : options.backup || undefined;
+        const { applied, result } = await runMutation('github.deleteRepository', { owner, repo, backupDir });
+        return { success: true, applied, fullName: `${owner}/${repo}`, archive: result?.archive };
+      }, (result) => {
+        if (!result.applied) return;
+        if (result.archive) {
+          console.log(chalk.green(`💾 Backup written to ${result.archive}`));
+        }
+        console.log(chalk.green(`✅ Repository ${result.fullName} deleted`));
+      });
+    });
+
+  repos
+    .command('backup <owner/repo>')
+    .description('Write a git bundle of all refs plus issues, pull requests, releases and labels to a local archive')
+    .option('--dir <dir>', 'Directory to write the archive into', DEFAULT_BACKUP_DIR)
+    .option('--json', 'Output as JSON')
+    .action(async (fullName: string, options: ScriptedOptions & { dir: string }) => {
+      await runScripted(options, async () => {
+        const { owner, repo } = parseFullName(fullName);
+        requireCredentials();
+        const archive = await new GitHubBackupService().backupRepository(owner, repo, options.dir, (message) => console.error(chalk.gray(message)));
+        return { success: true, fullName: `${owner}/${repo}`, archive };
+      }, (result) => {
+        console.log(chalk.green(`💾 Backup of ${result.fullName} written to ${result.archive}`));
+      });
+    });
+
+  github
+    .command('restore <archive>')
+    .description('Recreate a repository from a backup archive')
+    .option('--owner <owner>', 'User or organization to create the repository in (default: original owner)')
+    .option('--name <name>', 'Repository name (default: original name)')
+    .option('--json', 'Output as JSON')
+    .action(async (archive: string, options: ScriptedOptions & { owner?: string; name?: string }) => {
+      await runScripted(options, async () => {
+        requireCredentials();
+        const args = restoreArgs(new GitHubBackupService().readManifest(archive), archive, options);
+        const { applied, result } = await runMutation('github.restoreRepository', args);
+        return { success: true, applied, ...(applied ? result : { fullName: `${args.owner}/${args.name}` }) };
+      }, (result) => {
+        if (!result.applied) return;
+        console.log(chalk.green(`✅ Repository restored as ${result.fullName}`));
+        console.log(`URL: ${result.url}`);
+        console.log(`Issues: ${result.issues}, pull requests: ${result.pulls}, releases: ${result.releases}, labels: ${result.labels}`);
+      });
+    });
+
+  const branches = github
+    .command('branches')
+    .description('Inspect repository branches');
+
+  addRenderOptions(branches.command('list <owner/repo>'))
+    .description('List branches of a repository')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (fullName: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, async () => {
+        const { owner, repo } = parseFullName(fullName);
+        return createService().listBranches(owner, repo);
+      }, (result) => {
+        renderList(result, BRANCH_VIEW, options, '📭 No branches found');
+      });
+    });
+}
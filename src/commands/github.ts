@@ -2,15 +2,20 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { GitHubService } from '../services/github.js';
+import { DEFAULT_BACKUP_DIR, GitHubBackupService, restoreArgs } from '../services/github-backup.js';
+import { bulkDeleteMenu } from './bulk-delete.js';
+import { runMutation } from './mutations.js';
+import { PagedList, PickerRow, pickOne, printPages } from './picker.js';
+import { describeCredentialSource, hasCredentials } from '../utils/credentials.js';
 
 export async function githubCommand(returnToMain?: () => Promise<void>): Promise<void> {
   console.log(chalk.blue.bold('\n🐙 GitHub Repository Management'));
   console.log(chalk.gray('Manage your GitHub repositories'));
   console.log();
 
-  if (!process.env.GITHUB_TOKEN) {
-    console.log(chalk.red('❌ GITHUB_TOKEN environment variable is required'));
-    console.log(chalk.gray('Please set your GitHub API token in your environment variables'));
+  if (!hasCredentials('github')) {
+    console.log(chalk.red(`❌ GITHUB_TOKEN is required (checked the ${describeCredentialSource()})`));
+    console.log(chalk.gray('Please set your GitHub API token in your environment variables or profile'));
     return;
   }
 
@@ -23,8 +28,10 @@ export async function githubCommand(returnToMain?: () => Promise<void>): Promise
         { name: '📋 List repositories', value: 'list' },
         { name: '✏️  Rename a repository', value: 'rename' },
         { name: '🗑️  Delete a repository', value: 'delete' },
-        { name: '🧹 Bulk delete test- repos', value: 'bulk-delete' },
+        { name: '🧹 Bulk delete repositories (by pattern, age, state)', value: 'bulk-delete' },
         { name: '🔍 View repository details', value: 'details' },
+        { name: '💾 Back up a repository', value: 'backup' },
+        { name: '♻️  Restore a repository from backup', value: 'restore' },
         { name: '🔙 Back to main menu', value: 'back' }
       ]
     }
@@ -51,11 +58,17 @@ export async function githubCommand(returnToMain?: () => Promise<void>): Promise
       await deleteRepository(github);
       break;
     case 'bulk-delete':
-      await bulkDeleteTestRepositories(github);
+      await bulkDeleteMenu('github-repos');
       break;
     case 'details':
       await viewRepositoryDetails(github);
       break;
+    case 'backup':
+      await backupRepository(github);
+      break;
+    case 'restore':
+      await restoreRepository();
+      break;
   }
 
   // Ask if user wants to perform another action
@@ -73,21 +86,29 @@ export async function githubCommand(returnToMain?: () => Promise<void>): Promise
   }
 }
 
+function repositoryRow(repo: any): PickerRow {
+  return {
+    name: repo.full_name,
+    details: [repo.private ? 'private' : 'public', repo.language || '', `updated ${new Date(repo.pushed_at || repo.updated_at).toLocaleDateString()}`]
+  };
+}
+
 async function listRepositories(github: GitHubService): Promise<void> {
   const spinner = ora('Loading GitHub repositories...').start();
   
   try {
-    const repos = await github.listRepositories();
+    const repos = new PagedList(github.iterateRepositories());
+    await repos.loadMore();
     spinner.stop();
     
-    if (repos.length === 0) {
+    if (repos.items.length === 0) {
       console.log(chalk.yellow('📭 No repositories found'));
       return;
     }
 
-    console.log(chalk.green(`\n📋 Found ${repos.length} repositories:\n`));
+    console.log(chalk.green(`\n📋 Repositories:\n`));
     
-    repos.forEach((repo, index) => {
+    await printPages(repos, (repo, index) => {
       console.log(chalk.blue(`${index + 1}. ${repo.name}`));
       console.log(chalk.gray(`   Full Name: ${repo.full_name}`));
       console.log(chalk.gray(`   URL: ${repo.html_url}`));
@@ -107,25 +128,16 @@ async function renameRepository(github: GitHubService): Promise<void> {
   const spinner = ora('Loading repositories...').start();
   
   try {
-    const repos = await github.listRepositories();
+    const repos = new PagedList(github.iterateRepositories());
+    await repos.loadMore();
     spinner.stop();
     
-    if (repos.length === 0) {
+    if (repos.items.length === 0) {
       console.log(chalk.yellow('📭 No repositories found'));
       return;
     }
 
-    const { selectedRepo } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedRepo',
-        message: 'Select a repository to rename:',
-        choices: repos.map(repo => ({
-          name: `${repo.name} (${repo.full_name})`,
-          value: repo
-        }))
-      }
-    ]);
+    const selectedRepo = await pickOne('Select a repository to rename:', repos, repositoryRow);
 
     const { newName } = await inquirer.prompt([
       {
@@ -163,9 +175,11 @@ async function renameRepository(github: GitHubService): Promise<void> {
     const confirmSpinner = ora(`Renaming repository to ${newName}...`).start();
     
     try {
-      await github.renameRepository(selectedRepo.owner.login, selectedRepo.name, newName);
-      confirmSpinner.succeed(chalk.green(`Repository renamed to ${newName}`));
-      console.log(chalk.blue(`New URL: https://github.com/${selectedRepo.owner.login}/${newName}`));
+      const { applied } = await runMutation('github.renameRepository', { owner: selectedRepo.owner.login, repo: selectedRepo.name, newName }, confirmSpinner);
+      if (applied) {
+        confirmSpinner.succeed(chalk.green(`Repository renamed to ${newName}`));
+        console.log(chalk.blue(`New URL: https://github.com/${selectedRepo.owner.login}/${newName}`));
+      }
     } catch (error: any) {
       confirmSpinner.fail('Failed to rename repository');
       console.log(chalk.red(`Error: ${error.message}`));
@@ -180,25 +194,16 @@ async function deleteRepository(github: GitHubService): Promise<void> {
   const spinner = ora('Loading repositories...').start();
   
   try {
-    const repos = await github.listRepositories();
+    const repos = new PagedList(github.iterateRepositories());
+    await repos.loadMore();
     spinner.stop();
     
-    if (repos.length === 0) {
+    if (repos.items.length === 0) {
       console.log(chalk.yellow('📭 No repositories found'));
       return;
     }
 
-    const { selectedRepo } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedRepo',
-        message: 'Select a repository to delete:',
-        choices: repos.map(repo => ({
-          name: `${repo.name} (${repo.full_name})`,
-          value: repo
-        }))
-      }
-    ]);
+    const selectedRepo = await pickOne('Select a repository to delete:', repos, repositoryRow);
 
     console.log(chalk.red(`\n⚠️  DANGER: You are about to delete:`));
     console.log(chalk.red(`   Repository: ${selectedRepo.name}`));
@@ -231,11 +236,29 @@ async function deleteRepository(github: GitHubService): Promise<void> {
       }
     ]);
 
+    const { backup } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'backup',
+        message: `Back up the repository to ${DEFAULT_BACKUP_DIR}/ before deleting it?`,
+        default: true
+      }
+    ]);
+
     const deleteSpinner = ora(`Deleting repository ${selectedRepo.name}...`).start();
     
     try {
-      await github.deleteRepository(selectedRepo.owner.login, selectedRepo.name);
-      deleteSpinner.succeed(chalk.green(`Repository ${selectedRepo.name} deleted successfully`));
+      const { applied, result } = await runMutation('github.deleteRepository', {
+        owner: selectedRepo.owner.login,
+        repo: selectedRepo.name,
+        backupDir: backup ? DEFAULT_BACKUP_DIR : undefined
+      }, deleteSpinner);
+      if (applied) {
+        deleteSpinner.succeed(chalk.green(`Repository ${selectedRepo.name} deleted successfully`));
+        if (result.archive) {
+          console.log(chalk.blue(`💾 Backup: ${result.archive}`));
+        }
+      }
     } catch (error: any) {
       deleteSpinner.fail('Failed to delete repository');
       console.log(chalk.red(`Error: ${error.message}`));
@@ -250,25 +273,16 @@ async function viewRepositoryDetails(github: GitHubService): Promise<void> {
   const spinner = ora('Loading repositories...').start();
   
   try {
-    const repos = await github.listRepositories();
+    const repos = new PagedList(github.iterateRepositories());
+    await repos.loadMore();
     spinner.stop();
     
-    if (repos.length === 0) {
+    if (repos.items.length === 0) {
       console.log(chalk.yellow('📭 No repositories found'));
       return;
     }
 
-    const { selectedRepo } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedRepo',
-        message: 'Select a repository to view details:',
-        choices: repos.map(repo => ({
-          name: `${repo.name} (${repo.full_name})`,
-          value: repo
-        }))
-      }
-    ]);
+    const selectedRepo = await pickOne('Select a repository to view details:', repos, repositoryRow);
 
     const detailsSpinner = ora('Loading repository details...').start();
     
@@ -310,93 +324,96 @@ async function viewRepositoryDetails(github: GitHubService): Promise<void> {
   }
 }
 
-async function bulkDeleteTestRepositories(github: GitHubService): Promise<void> {
+async function backupRepository(github: GitHubService): Promise<void> {
   const spinner = ora('Loading repositories...').start();
   
   try {
-    const repos = await github.listRepositories();
+    const repos = new PagedList(github.iterateRepositories());
+    await repos.loadMore();
     spinner.stop();
     
-    if (repos.length === 0) {
+    if (repos.items.length === 0) {
       console.log(chalk.yellow('📭 No repositories found'));
       return;
     }
 
-    const testRepos = repos.filter(repo => repo.name.toLowerCase().startsWith('test-'));
-    
-    if (testRepos.length === 0) {
-      console.log(chalk.yellow('📭 No repositories found with names starting with "test-" (case-insensitive)'));
-      return;
-    }
-
-    console.log(chalk.blue(`\n🔍 Found ${testRepos.length} repositories with names starting with "test-" (case-insensitive):\n`));
-    
-    testRepos.forEach((repo, index) => {
-      console.log(chalk.yellow(`${index + 1}. ${repo.name}`));
-      console.log(chalk.gray(`   Full Name: ${repo.full_name}`));
-      console.log(chalk.gray(`   URL: ${repo.html_url}`));
-      console.log(chalk.gray(`   Private: ${repo.private ? 'Yes' : 'No'}`));
-      console.log();
-    });
-
-    console.log(chalk.red(`⚠️  DANGER: You are about to delete ${testRepos.length} repositories!`));
-    console.log(chalk.red(`This action cannot be undone!`));
-    console.log(chalk.red(`All code, issues, and pull requests will be permanently lost!`));
+    const selectedRepo = await pickOne('Select a repository to back up:', repos, repositoryRow);
 
-    const { confirmBulkDelete } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirmBulkDelete',
-        message: `Are you absolutely sure you want to delete all ${testRepos.length} repositories starting with "test-" (case-insensitive)?`,
-        default: false
-      }
-    ]);
-
-    if (!confirmBulkDelete) {
-      console.log(chalk.gray('Bulk delete cancelled'));
-      return;
-    }
-
-    const { finalConfirm } = await inquirer.prompt([
+    const { backupDir } = await inquirer.prompt([
       {
         type: 'input',
-        name: 'finalConfirm',
-        message: 'Type "DELETE ALL TEST REPOS" to confirm:',
-        validate: (input) => input === 'DELETE ALL TEST REPOS' || 'Please type exactly "DELETE ALL TEST REPOS"'
+        name: 'backupDir',
+        message: 'Backup directory:',
+        default: DEFAULT_BACKUP_DIR
       }
     ]);
 
-    const deleteSpinner = ora(`Deleting ${testRepos.length} test repositories...`).start();
+    const backupSpinner = ora(`Backing up ${selectedRepo.full_name}...`).start();
     
     try {
-      let deletedCount = 0;
-      let errorCount = 0;
-      
-      for (const repo of testRepos) {
+      const archive = await new GitHubBackupService().backupRepository(selectedRepo.owner.login, selectedRepo.name, backupDir, (message) => {
+        backupSpinner.text = message;
+      });
+      backupSpinner.succeed(chalk.green(`Backup written to ${archive}`));
+    } catch (error: any) {
+      backupSpinner.fail('Failed to back up repository');
+      console.log(chalk.red(`Error: ${error.message}`));
+    }
+  } catch (error: any) {
+    spinner.fail('Failed to load repositories');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function restoreRepository(): Promise<void> {
+  const backup = new GitHubBackupService();
+
+  const { archive } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'archive',
+      message: 'Path to the backup archive directory:',
+      validate: (input) => {
         try {
-          await github.deleteRepository(repo.owner.login, repo.name);
-          deletedCount++;
-          deleteSpinner.text = `Deleted ${deletedCount}/${testRepos.length} repositories...`;
+          backup.readManifest(input);
+          return true;
         } catch (error: any) {
-          errorCount++;
-          console.log(chalk.red(`\nFailed to delete ${repo.name}: ${error.message}`));
+          return error.message;
         }
       }
-      
-      deleteSpinner.stop();
-      
-      if (deletedCount > 0) {
-        console.log(chalk.green(`✅ Successfully deleted ${deletedCount} test repositories`));
-      }
-      if (errorCount > 0) {
-        console.log(chalk.red(`❌ Failed to delete ${errorCount} repositories`));
-      }
-    } catch (error: any) {
-      deleteSpinner.fail('Bulk delete failed');
-      console.log(chalk.red(`Error: ${error.message}`));
     }
+  ]);
+
+  const manifest = backup.readManifest(archive);
+  console.log(chalk.gray(`Backup of ${manifest.repository.fullName} from ${new Date(manifest.createdAt).toLocaleString()}`));
+  console.log(chalk.gray(`Issues: ${manifest.counts.issues}, pull requests: ${manifest.counts.pulls}, releases: ${manifest.counts.releases}, labels: ${manifest.counts.labels}`));
+
+  const { owner, name } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'owner',
+      message: 'Owner (user or organization) for the restored repository:',
+      default: manifest.repository.owner
+    },
+    {
+      type: 'input',
+      name: 'name',
+      message: 'Repository name:',
+      default: manifest.repository.name,
+      validate: (input) => /^[a-zA-Z0-9._-]+$/.test(input) || 'Repository name can only contain letters, numbers, dots, hyphens, and underscores'
+    }
+  ]);
+
+  const restoreSpinner = ora(`Restoring ${owner}/${name}...`).start();
+  
+  try {
+    const { applied, result } = await runMutation('github.restoreRepository', restoreArgs(manifest, archive, { owner, name }), restoreSpinner);
+    if (!applied) return;
+    restoreSpinner.succeed(chalk.green(`Repository restored as ${result.fullName}`));
+    console.log(chalk.blue(`URL: ${result.url}`));
+    console.log(chalk.gray('Pull requests were restored as issues; release assets are not included in backups.'));
   } catch (error: any) {
-    spinner.fail('Failed to load repositories');
+    restoreSpinner.fail('Failed to restore repository');
     console.log(chalk.red(`Error: ${error.message}`));
   }
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { InventoryResource, InventoryResult, InventoryService } from '../services/inventory.js';
+import { PROVIDERS, Provider } from '../utils/credentials.js';
+import { compileNamePattern } from '../utils/filters.js';
+import { CliError, ExitCode, printJson } from '../utils/output.js';
+import { showWaitsIn } from '../utils/http.js';
+import { ListView, RenderOptions, formatRows, parseOutputFormat, selectRows, toYaml } from '../utils/render.js';
+
+export const INVENTORY_VIEW: ListView<InventoryResource> = {
+  columns: {
+    provider: resource => resource.provider,
+    type: resource => resource.type,
+    name: resource => resource.name,
+    id: resource => resource.id,
+    region: resource => resource.region,
+    created: resource => resource.created,
+    state: resource => resource.state
+  },
+  defaultColumns: ['provider', 'type', 'name', 'id', 'region', 'created', 'state']
+};
+
+export interface InventoryOptions extends RenderOptions {
+  provider?: string[];
+  type?: string[];
+  name?: string;
+}
+
+function parseProviders(values?: string[]): Provider[] {
+  if (!values || values.length === 0) {
+    return PROVIDERS;
+  }
+  const providers = values.flatMap(value => value.split(',')).map(value => value.trim().toLowerCase());
+  const unknown = providers.filter(provider => !PROVIDERS.includes(provider as Provider));
+  if (unknown.length > 0) {
+    throw new CliError(`Unknown provider(s): ${unknown.join(', ')}. Expected one of ${PROVIDERS.join(', ')}`, ExitCode.Usage);
+  }
+  return providers as Provider[];
+}
+
+export function filterInventory(resources: InventoryResource[], options: { type?: string[]; name?: string }): InventoryResource[] {
+  const types = (options.type || []).flatMap(value => value.split(',')).map(value => value.trim().toLowerCase());
+  const namePattern = options.name ? compileNamePattern(options.name) : undefined;
+
+  return resources.filter(resource =>
+    (types.length === 0 || types.includes(resource.type)) &&
+    (!namePattern || namePattern.test(resource.name))
+  );
+}
+
+function printInventory(result: InventoryResult, resources: InventoryResource[], options: RenderOptions): void {
+  const format = parseOutputFormat(options.output);
+  const { columns, rows } = selectRows(resources, INVENTORY_VIEW, options);
+
+  // Structured formats keep the per-provider errors and skipped providers next to the resources
+  if (format === 'json') {
+    printJson({ resources: rows, errors: result.errors, skipped: result.skipped });
+    return;
+  }
+  if (format === 'yaml') {
+    process.stdout.write(`${toYaml({ resources: rows, errors: result.errors, skipped: result.skipped })}\n`);
+    return;
+  }
+  if (format !== 'table') {
+    process.stdout.write(`${formatRows(format, columns, rows)}\n`);
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.log(chalk.yellow('📭 No resources found'));
+  } else {
+    console.log(formatRows(format, columns, rows));
+    console.log(chalk.gray(`\n${rows.length} resources`));
+  }
+  if (result.skipped.length > 0) {
+    console.log(chalk.gray(`Skipped (no credentials): ${result.skipped.join(', ')}`));
+  }
+  result.errors.forEach(error => console.log(chalk.red(`❌ ${error.provider}: ${error.message}`)));
+}
+
+export async function inventoryCommand(options: InventoryOptions): Promise<void> {
+  const originalLog = console.log;
+
+  try {
+    const output = parseOutputFormat(options.output);
+    // Rejects unknown columns and bad limits before anything is fetched
+    selectRows([], INVENTORY_VIEW, options);
+    const providers = parseProviders(options.provider);
+
+    // Services report progress through console.log; keep exports parseable
+    if (output !== 'table') {
+      console.log = console.error;
+    }
+    const result = await new InventoryService().collect(providers);
+    console.log = originalLog;
+
+    printInventory(result, filterInventory(result.resources, options), options);
+    process.exitCode = result.errors.length > 0 ? ExitCode.Failure : ExitCode.Success;
+  } catch (error: any) {
+    console.log = originalLog;
+    console.error(chalk.red(`❌ Error: ${error.message}`));
+    process.exitCode = error instanceof CliError ? error.exitCode : ExitCode.Failure;
+  }
+}
+
+export async function inventoryMenu(): Promise<void> {
+  console.log(chalk.blue.bold('\n📦 Resource Inventory'));
+  console.log(chalk.gray('All resources across Netlify, GitHub, MongoDB Atlas and Upstash'));
+  console.log();
+
+  const { providers, name } = await inquirer.prompt([
+    {
+      type: 'checkbox',
+      name: 'providers',
+      message: 'Which providers should be included?',
+      choices: PROVIDERS.map(provider => ({ name: provider, value: provider, checked: true })),
+      validate: (input) => input.length > 0 || 'Select at least one provider'
+    },
+    {
+      type: 'input',
+      name: 'name',
+      message: 'Filter by name (glob or /regex/, leave empty for all):',
+      validate: (input: string) => {
+        if (!input) return true;
+        try {
+          compileNamePattern(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    }
+  ]);
+
+  const spinner = ora('Collecting resources...').start();
+  const stopShowingWaits = showWaitsIn(spinner);
+  const result = await new InventoryService().collect(providers).finally(stopShowingWaits);
+  spinner.stop();
+
+  printInventory(result, filterInventory(result.resources, { name: name || undefined }), {});
+  console.log();
+}
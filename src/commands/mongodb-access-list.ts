@@ -0,0 +1,345 @@
+import net from 'net';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { AccessListEntry, MongoDBService } from '../services/mongodb.js';
+import { runMutation } from './mutations.js';
+import { PickerRow, pickMany } from './picker.js';
+import { parseDuration } from '../utils/filters.js';
+import { CliError, ExitCode } from '../utils/output.js';
+
+// Entries that let any address on the internet reach the clusters
+const OPEN_TO_WORLD = ['0.0.0.0/0', '::/0'];
+
+// Atlas rejects a deleteAfterDate more than a week ahead
+const MAX_EXPIRY = 7 * 24 * 60 * 60 * 1000;
+
+const PUBLIC_IP_URL = 'https://api.ipify.org?format=json';
+
+export interface OpenAccessFinding {
+  projectId: string;
+  projectName: string;
+  entry: string;
+  comment?: string;
+}
+
+export interface OpenAccessAudit {
+  projectsChecked: number;
+  open: OpenAccessFinding[];
+  // Projects whose access list could not be read, e.g. for lack of permissions
+  unreadable: { projectId: string; projectName: string; error: string }[];
+}
+
+// Single addresses are deleted by IP; Atlas also reports them as a /32 block
+export function entryValue(entry: any): string {
+  return entry.ipAddress || entry.cidrBlock || entry.awsSecurityGroup;
+}
+
+export function isOpenToWorld(entry: any): boolean {
+  return OPEN_TO_WORLD.includes(entry.cidrBlock) || OPEN_TO_WORLD.includes(entry.ipAddress);
+}
+
+export function parseAccessEntry(value: string): AccessListEntry {
+  const [address, prefix, ...rest] = value.trim().split('/');
+  const version = net.isIP(address);
+  const maxPrefix = version === 6 ? 128 : 32;
+  if (version === 0 || rest.length > 0 || (prefix !== undefined && !(/^\d+$/.test(prefix) && Number(prefix) <= maxPrefix))) {
+    throw new CliError(`Invalid IP address or CIDR block "${value}"`, ExitCode.Usage);
+  }
+  return prefix === undefined ? { ipAddress: address } : { cidrBlock: `${address}/${prefix}` };
+}
+
+// Accepts a duration from now such as 1h or 3d, or an ISO date
+export function parseExpiry(value: string, now: number = Date.now()): string {
+  let expires: number;
+  if (/^\d+\s*[mhdw]$/i.test(value.trim())) {
+    expires = now + parseDuration(value);
+  } else {
+    expires = Date.parse(value);
+    if (Number.isNaN(expires)) {
+      throw new CliError(`Invalid expiry "${value}". Use a duration such as 1h or 3d, or an ISO date`, ExitCode.Usage);
+    }
+  }
+  if (expires <= now) {
+    throw new CliError('The expiry must be in the future', ExitCode.Usage);
+  }
+  if (expires - now > MAX_EXPIRY) {
+    throw new CliError('Atlas only accepts expiries up to one week ahead', ExitCode.Usage);
+  }
+  return new Date(expires).toISOString();
+}
+
+export async function detectPublicIp(): Promise<string> {
+  try {
+    const response = await fetch(PUBLIC_IP_URL, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    const { ip } = await response.json();
+    return ip;
+  } catch (error: any) {
+    throw new Error(`Failed to detect your public IP: ${error.message}`);
+  }
+}
+
+// Opening access goes through runMutation, so --dry-run and --plan only preview it
+export async function addAccessEntry(projectId: string, entry: AccessListEntry, spinner?: Ora): Promise<AccessListEntry & { applied: boolean }> {
+  const { applied } = await runMutation('mongodb.addAccessListEntry', { projectId, ...entry }, spinner);
+  return { applied, ...entry };
+}
+
+/**
+ * Reads the access list of every project and collects the entries open to
+ * the whole internet. Projects that cannot be read are reported, not fatal.
+ */
+export async function findOpenAccess(
+  mongodb: MongoDBService,
+  orgId?: string,
+  onProgress: (message: string) => void = () => {}
+): Promise<OpenAccessAudit> {
+  const projects = orgId ? await mongodb.getProjects(orgId) : await mongodb.listProjects();
+  const audit: OpenAccessAudit = { projectsChecked: projects.length, open: [], unreadable: [] };
+
+  for (const [index, project] of projects.entries()) {
+    onProgress(`Checking ${project.name} (${index + 1}/${projects.length})...`);
+    try {
+      const entries = await mongodb.getAccessList(project.id);
+      entries.filter(isOpenToWorld).forEach(entry => {
+        audit.open.push({ projectId: project.id, projectName: project.name, entry: entryValue(entry), comment: entry.comment });
+      });
+    } catch (error: any) {
+      audit.unreadable.push({ projectId: project.id, projectName: project.name, error: error.message });
+    }
+  }
+  return audit;
+}
+
+function accessEntryRow(entry: any): PickerRow {
+  return {
+    name: entryValue(entry),
+    details: [entry.comment, entry.deleteAfterDate ? `expires ${new Date(entry.deleteAfterDate).toLocaleString()}` : undefined, isOpenToWorld(entry) ? '⚠️ open to the world' : undefined]
+  };
+}
+
+function findingRow(finding: OpenAccessFinding): PickerRow {
+  return { name: `${finding.projectName}: ${finding.entry}`, details: [finding.comment] };
+}
+
+async function listEntries(mongodb: MongoDBService, project: any): Promise<void> {
+  const spinner = ora('Loading access list...').start();
+
+  try {
+    const entries = await mongodb.getAccessList(project.id);
+    spinner.stop();
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow('📭 The access list is empty; no address can connect'));
+      return;
+    }
+
+    console.log(chalk.green(`\n📋 Found ${entries.length} access list entries in ${project.name}:\n`));
+
+    entries.forEach((entry, index) => {
+      console.log(chalk.blue(`${index + 1}. ${entryValue(entry)}`));
+      if (isOpenToWorld(entry)) {
+        console.log(chalk.red('   ⚠️  Open to the whole internet'));
+      }
+      console.log(chalk.gray(`   Comment: ${entry.comment || '-'}`));
+      if (entry.deleteAfterDate) {
+        console.log(chalk.gray(`   Expires: ${new Date(entry.deleteAfterDate).toLocaleString()}`));
+      }
+      console.log();
+    });
+  } catch (error: any) {
+    spinner.fail('Failed to load access list');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function addEntry(mongodb: MongoDBService, project: any, mine: boolean): Promise<void> {
+  let entry: AccessListEntry;
+
+  try {
+    if (mine) {
+      const ipSpinner = ora('Detecting your public IP...').start();
+      const ip = await detectPublicIp();
+      ipSpinner.stop();
+      entry = { ipAddress: ip, comment: `Temporary access for ${ip}`, deleteAfterDate: parseExpiry('1h') };
+    } else {
+      const answers = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'address',
+          message: 'IP address or CIDR block:',
+          validate: (input: string) => {
+            try {
+              parseAccessEntry(input);
+              return true;
+            } catch (error: any) {
+              return error.message;
+            }
+          }
+        },
+        { type: 'input', name: 'comment', message: 'Comment (optional):' },
+        {
+          type: 'input',
+          name: 'expires',
+          message: 'Remove automatically after (e.g. 8h, 3d; empty to keep):',
+          validate: (input: string) => {
+            if (!input.trim()) return true;
+            try {
+              parseExpiry(input);
+              return true;
+            } catch (error: any) {
+              return error.message;
+            }
+          }
+        }
+      ]);
+      entry = {
+        ...parseAccessEntry(answers.address),
+        ...(answers.comment.trim() ? { comment: answers.comment.trim() } : {}),
+        ...(answers.expires.trim() ? { deleteAfterDate: parseExpiry(answers.expires) } : {})
+      };
+      if (isOpenToWorld(entry)) {
+        const { confirm } = await inquirer.prompt([
+          { type: 'confirm', name: 'confirm', message: `${entryValue(entry)} lets any address on the internet connect. Add it anyway?`, default: false }
+        ]);
+        if (!confirm) return;
+      }
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`Error: ${error.message}`));
+    return;
+  }
+
+  const spinner = ora(`Adding ${entryValue(entry)}...`).start();
+  try {
+    const { applied } = await addAccessEntry(project.id, entry, spinner);
+    if (!applied) return;
+    spinner.succeed(chalk.green(`Added ${entryValue(entry)}${entry.deleteAfterDate ? `, removed automatically at ${new Date(entry.deleteAfterDate).toLocaleString()}` : ''}`));
+  } catch (error: any) {
+    spinner.fail('Failed to add access list entry');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+// Deletes one entry after another; a failure stops the rest so nothing is removed unexpectedly
+async function removeEntries(entries: { projectId: string; entry: string }[]): Promise<void> {
+  const spinner = ora('Removing access list entries...').start();
+  let removed = 0;
+  try {
+    for (const target of entries) {
+      const { applied } = await runMutation('mongodb.deleteAccessListEntry', target, spinner);
+      if (applied) removed++;
+    }
+    if (removed > 0) {
+      spinner.succeed(chalk.green(`Removed ${removed} access list entries`));
+    } else {
+      spinner.stop();
+    }
+  } catch (error: any) {
+    spinner.fail(`Removed ${removed} of ${entries.length} access list entries`);
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function pickEntriesToRemove(mongodb: MongoDBService, project: any): Promise<void> {
+  const spinner = ora('Loading access list...').start();
+
+  try {
+    const entries = await mongodb.getAccessList(project.id);
+    spinner.stop();
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow('📭 The access list is empty'));
+      return;
+    }
+
+    const selected = await pickMany('Select entries to remove:', entries, accessEntryRow);
+    if (selected.length === 0) return;
+
+    const { confirm } = await inquirer.prompt([
+      { type: 'confirm', name: 'confirm', message: `Remove ${selected.map(entryValue).join(', ')}? Clients connecting from there will be refused.`, default: false }
+    ]);
+    if (!confirm) return;
+
+    await removeEntries(selected.map(entry => ({ projectId: project.id, entry: entryValue(entry) })));
+  } catch (error: any) {
+    spinner.fail('Failed to load access list');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+export async function manageAccessList(mongodb: MongoDBService, project: any): Promise<void> {
+  while (true) {
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `Access list of ${project.name}:`,
+        choices: [
+          { name: '📋 List entries', value: 'list' },
+          { name: '➕ Add an IP address or CIDR block', value: 'add' },
+          { name: '📍 Add my current IP for one hour', value: 'add-mine' },
+          { name: '🗑️  Remove entries', value: 'remove' },
+          { name: '🔙 Back', value: 'back' }
+        ]
+      }
+    ]);
+
+    if (action === 'back') return;
+
+    switch (action) {
+      case 'list':
+        await listEntries(mongodb, project);
+        break;
+      case 'add':
+        await addEntry(mongodb, project, false);
+        break;
+      case 'add-mine':
+        await addEntry(mongodb, project, true);
+        break;
+      case 'remove':
+        await pickEntriesToRemove(mongodb, project);
+        break;
+    }
+  }
+}
+
+export async function auditOpenAccess(mongodb: MongoDBService, org: any): Promise<void> {
+  const spinner = ora('Loading projects...').start();
+
+  try {
+    const audit = await findOpenAccess(mongodb, org.id, message => { spinner.text = message; });
+    spinner.stop();
+
+    audit.unreadable.forEach(({ projectName, error }) => {
+      console.log(chalk.yellow(`⚠️  Could not read the access list of ${projectName}: ${error}`));
+    });
+
+    if (audit.open.length === 0) {
+      console.log(chalk.green(`✅ None of the ${audit.projectsChecked} projects in ${org.name} is open to the whole internet`));
+      return;
+    }
+
+    console.log(chalk.red(`\n🚨 ${audit.open.length} open-to-world entries in ${org.name}:\n`));
+    audit.open.forEach(finding => {
+      console.log(chalk.red(`   ${finding.projectName} (${finding.projectId}): ${finding.entry}${finding.comment ? chalk.gray(` ${finding.comment}`) : ''}`));
+    });
+    console.log();
+
+    const selected = await pickMany('Select entries to remove (Done with none to keep them):', audit.open, findingRow);
+    if (selected.length === 0) return;
+
+    const { confirm } = await inquirer.prompt([
+      { type: 'confirm', name: 'confirm', message: `Remove ${selected.length} entries? Make sure the applications have narrower entries first.`, default: false }
+    ]);
+    if (!confirm) return;
+
+    await removeEntries(selected.map(({ projectId, entry }) => ({ projectId, entry })));
+  } catch (error: any) {
+    spinner.fail('Failed to audit access lists');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
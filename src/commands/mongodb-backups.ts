@@ -0,0 +1,338 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { MongoDBService } from '../services/mongodb.js';
+import { runMutation } from './mutations.js';
+import { PickerRow, pickOne } from './picker.js';
+import { isDedicated } from './mongodb-clusters.js';
+import { audited } from '../utils/audit.js';
+import { CliError, ExitCode } from '../utils/output.js';
+import { renderList } from '../utils/render.js';
+import { RESTORE_JOB_VIEW, SNAPSHOT_VIEW } from './views.js';
+import { toIsoDate } from '../utils/filters.js';
+
+// Atlas keeps on-demand snapshots for at most this many days
+export const MAX_RETENTION_DAYS = 365;
+export const DEFAULT_RETENTION_DAYS = 7;
+
+// Restores of large clusters take hours; polling more often only spends rate limit
+const RESTORE_POLL_INTERVAL = 15000;
+const RESTORE_MAX_WAIT = 12 * 60 * 60 * 1000;
+
+const OTHER_PROJECT = Symbol('other-project');
+
+export interface RestoreTarget {
+  targetProjectId: string;
+  targetClusterName: string;
+}
+
+export function parseRetention(input: string | number): number {
+  const days = Number(input);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS) {
+    throw new CliError(`The retention must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}, got "${input}"`, ExitCode.Usage);
+  }
+  return days;
+}
+
+// Shared tiers keep their own backups that the cloud backup API doesn't expose
+export function requireCloudBackup(cluster: any): void {
+  if (!isDedicated(cluster)) {
+    throw new CliError(`${cluster.name} is a shared cluster; cloud backup snapshots need a dedicated tier (M10 and up)`, ExitCode.Usage);
+  }
+  if (!cluster.backupEnabled && !cluster.providerBackupEnabled) {
+    throw new CliError(`Cloud backup is not enabled on ${cluster.name}`, ExitCode.Usage);
+  }
+}
+
+export function validateRestoreTarget(target: any): void {
+  if (!isDedicated(target)) {
+    throw new CliError(`Snapshots can only be restored into dedicated clusters; ${target.name} is a shared cluster`, ExitCode.Usage);
+  }
+  if (target.paused) {
+    throw new CliError(`${target.name} is paused; resume it before restoring into it`, ExitCode.Usage);
+  }
+}
+
+export function restoreJobState(job: any): string {
+  if (job.failed) return 'failed';
+  if (job.cancelled) return 'cancelled';
+  if (job.expired) return 'expired';
+  return job.finishedAt ? 'completed' : 'in progress';
+}
+
+export async function takeSnapshot(
+  mongodb: MongoDBService,
+  projectId: string,
+  clusterName: string,
+  retentionInDays: number,
+  description: string
+): Promise<any> {
+  return audited({ provider: 'mongodb', action: 'takeBackupSnapshot', target: { id: `${projectId}/${clusterName}`, name: clusterName }, params: { projectId, clusterName, retentionInDays, description } }, () =>
+    mongodb.takeBackupSnapshot(projectId, clusterName, retentionInDays, description)
+  );
+}
+
+/**
+ * Polls a restore job until Atlas finishes it. Resolves with the finished job
+ * and throws when the job failed, was cancelled or expired.
+ */
+export async function waitForRestoreJob(
+  mongodb: MongoDBService,
+  projectId: string,
+  clusterName: string,
+  jobId: string,
+  onProgress: (job: any, elapsedMs: number) => void = () => {}
+): Promise<any> {
+  const startTime = Date.now();
+
+  while (Date.now() - startTime < RESTORE_MAX_WAIT) {
+    const job = await mongodb.getRestoreJob(projectId, clusterName, jobId);
+    const state = restoreJobState(job);
+    if (state === 'completed') {
+      return job;
+    }
+    if (state !== 'in progress') {
+      throw new Error(`Restore job ${jobId} ${state}`);
+    }
+
+    onProgress(job, Date.now() - startTime);
+    await new Promise(resolve => setTimeout(resolve, RESTORE_POLL_INTERVAL));
+  }
+
+  throw new Error(`Restore job ${jobId} is still running after ${RESTORE_MAX_WAIT / 3600000} hours; check it with "mongodb backups jobs"`);
+}
+
+export function formatElapsed(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function snapshotRow(snapshot: any): PickerRow {
+  return {
+    name: toIsoDate(snapshot.createdAt) || snapshot.id,
+    details: [snapshot.snapshotType, snapshot.status, snapshot.description]
+  };
+}
+
+function clusterRow(cluster: any): PickerRow {
+  return { name: cluster.name, details: [cluster.paused ? 'PAUSED' : cluster.stateName] };
+}
+
+/**
+ * Backup lines for the cluster details screen. Best effort: a failure to
+ * read snapshots only prints a warning.
+ */
+export async function printBackupSummary(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  try {
+    requireCloudBackup(cluster);
+  } catch (error: any) {
+    console.log(chalk.gray(error.message));
+    return;
+  }
+
+  try {
+    const snapshots = await mongodb.getBackupSnapshots(projectId, cluster.name);
+    const latest = snapshots
+      .filter(snapshot => snapshot.status === 'completed')
+      .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)))[0];
+    console.log(chalk.gray(`Snapshots: ${snapshots.length}`));
+    console.log(chalk.gray(`Latest: ${latest ? new Date(latest.createdAt).toLocaleString() : 'none yet'}`));
+  } catch (error: any) {
+    console.log(chalk.yellow(`⚠️  Could not load backup snapshots: ${error.message}`));
+  }
+}
+
+async function listSnapshots(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  const spinner = ora('Loading backup snapshots...').start();
+
+  try {
+    const snapshots = await mongodb.getBackupSnapshots(projectId, cluster.name);
+    spinner.stop();
+
+    if (snapshots.length === 0) {
+      console.log(chalk.yellow('📭 No backup snapshots found for this cluster'));
+      return;
+    }
+
+    console.log(chalk.green(`\n📋 Found ${snapshots.length} backup snapshots of ${cluster.name}:\n`));
+    renderList(snapshots, SNAPSHOT_VIEW, { columns: [...SNAPSHOT_VIEW.defaultColumns, 'description'].join(',') });
+    console.log();
+  } catch (error: any) {
+    spinner.fail('Failed to load backup snapshots');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function takeSnapshotPrompt(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  const { description, retention } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'description',
+      message: 'Description:',
+      default: `On-demand snapshot ${new Date().toISOString().slice(0, 10)}`
+    },
+    {
+      type: 'input',
+      name: 'retention',
+      message: `Keep for how many days (1-${MAX_RETENTION_DAYS})?`,
+      default: String(DEFAULT_RETENTION_DAYS),
+      validate: (input: string) => {
+        try {
+          parseRetention(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    }
+  ]);
+
+  const spinner = ora(`Taking a snapshot of ${cluster.name}...`).start();
+  try {
+    const snapshot = await takeSnapshot(mongodb, projectId, cluster.name, parseRetention(retention), description.trim());
+    spinner.succeed(chalk.green(`Snapshot ${snapshot.id} requested; it is ${snapshot.status || 'queued'}`));
+    console.log(chalk.gray(`   Expires: ${snapshot.expiresAt ? new Date(snapshot.expiresAt).toLocaleString() : `in ${retention} days`}`));
+  } catch (error: any) {
+    spinner.fail('Failed to take snapshot');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function pickRestoreTarget(mongodb: MongoDBService, projectId: string): Promise<RestoreTarget> {
+  const clusters = await mongodb.getClusters(projectId);
+  const selected = await pickOne<any, typeof OTHER_PROJECT>('Restore into:', clusters.filter(isDedicated), clusterRow, [
+    { name: chalk.gray('A cluster in another project...'), value: OTHER_PROJECT }
+  ]);
+  if (selected !== OTHER_PROJECT) {
+    validateRestoreTarget(selected);
+    return { targetProjectId: projectId, targetClusterName: selected.name };
+  }
+
+  const { targetProjectId } = await inquirer.prompt([
+    { type: 'input', name: 'targetProjectId', message: 'Target project ID:', validate: (input: string) => input.trim() ? true : 'Project ID is required' }
+  ]);
+  const targetClusters = (await mongodb.getClusters(targetProjectId.trim())).filter(isDedicated);
+  if (targetClusters.length === 0) {
+    throw new Error('No dedicated clusters found in that project');
+  }
+  const target = await pickOne('Restore into:', targetClusters, clusterRow);
+  validateRestoreTarget(target);
+  return { targetProjectId: targetProjectId.trim(), targetClusterName: target.name };
+}
+
+async function restoreSnapshotPrompt(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  const spinner = ora('Loading backup snapshots...').start();
+
+  try {
+    const snapshots = (await mongodb.getBackupSnapshots(projectId, cluster.name)).filter(snapshot => snapshot.status === 'completed');
+    spinner.stop();
+
+    if (snapshots.length === 0) {
+      console.log(chalk.yellow('📭 No completed backup snapshots to restore'));
+      return;
+    }
+
+    const snapshot = await pickOne('Select a snapshot to restore:', snapshots, snapshotRow);
+    const target = await pickRestoreTarget(mongodb, projectId);
+
+    console.log(chalk.yellow(`\n⚠️  Every database in ${target.targetClusterName} is replaced by the snapshot of ${cluster.name} taken ${new Date(snapshot.createdAt).toLocaleString()}.`));
+    console.log(chalk.yellow('   The cluster is unavailable to clients while the restore runs.'));
+    const { confirm } = await inquirer.prompt([
+      { type: 'confirm', name: 'confirm', message: `Restore into ${target.targetClusterName}?`, default: false }
+    ]);
+    if (!confirm) {
+      console.log(chalk.gray('Restore cancelled'));
+      return;
+    }
+    await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'finalConfirm',
+        message: `Type the cluster name "${target.targetClusterName}" to confirm the restore:`,
+        validate: (input: string) => input === target.targetClusterName || 'Cluster name does not match'
+      }
+    ]);
+
+    spinner.start(`Starting restore into ${target.targetClusterName}...`);
+    const { applied, result: job } = await runMutation('mongodb.restoreSnapshot', {
+      projectId,
+      clusterName: cluster.name,
+      snapshotId: snapshot.id,
+      ...target
+    }, spinner);
+    if (!applied) return;
+
+    spinner.text = `Restoring ${target.targetClusterName}... (job ${job.id})`;
+    await waitForRestoreJob(mongodb, projectId, cluster.name, job.id, (_job, elapsed) => {
+      spinner.text = `Restoring ${target.targetClusterName}... (job ${job.id}, ${formatElapsed(elapsed)})`;
+    });
+    spinner.succeed(chalk.green(`${target.targetClusterName} restored from the snapshot of ${new Date(snapshot.createdAt).toLocaleString()}`));
+  } catch (error: any) {
+    spinner.fail('Failed to restore snapshot');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function listRestoreJobs(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  const spinner = ora('Loading restore jobs...').start();
+
+  try {
+    const jobs = await mongodb.getRestoreJobs(projectId, cluster.name);
+    spinner.stop();
+
+    if (jobs.length === 0) {
+      console.log(chalk.yellow('📭 No restore jobs found for this cluster'));
+      return;
+    }
+
+    console.log(chalk.green(`\n📋 Found ${jobs.length} restore jobs of ${cluster.name}:\n`));
+    renderList(jobs, RESTORE_JOB_VIEW);
+    console.log();
+  } catch (error: any) {
+    spinner.fail('Failed to load restore jobs');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+export async function manageBackups(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  try {
+    requireCloudBackup(cluster);
+  } catch (error: any) {
+    console.log(chalk.yellow(`⚠️  ${error.message}`));
+    return;
+  }
+
+  while (true) {
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `Backups of ${cluster.name}:`,
+        choices: [
+          { name: '📋 List snapshots', value: 'list' },
+          { name: '📸 Take a snapshot now', value: 'take' },
+          { name: '⏪ Restore a snapshot', value: 'restore' },
+          { name: '🧾 Restore jobs', value: 'jobs' },
+          { name: '🔙 Back', value: 'back' }
+        ]
+      }
+    ]);
+
+    if (action === 'back') return;
+
+    switch (action) {
+      case 'list':
+        await listSnapshots(mongodb, projectId, cluster);
+        break;
+      case 'take':
+        await takeSnapshotPrompt(mongodb, projectId, cluster);
+        break;
+      case 'restore':
+        await restoreSnapshotPrompt(mongodb, projectId, cluster);
+        break;
+      case 'jobs':
+        await listRestoreJobs(mongodb, projectId, cluster);
+        break;
+    }
+  }
+}
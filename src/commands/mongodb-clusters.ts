@@ -0,0 +1,646 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { AccessListEntry, ClusterSpec, MongoDBService } from '../services/mongodb.js';
+import { InventoryResource, InventoryService } from '../services/inventory.js';
+import { MutationOutcome, runMutation } from './mutations.js';
+import { addAccessEntry, detectPublicIp, entryValue, isOpenToWorld, parseAccessEntry } from './mongodb-access-list.js';
+import { createDatabaseUser, presetRoles, showPassword } from './mongodb-users.js';
+import { PickerRow, pickMany } from './picker.js';
+import { ResourceFilter, applyResourceFilter, describeFilter, parseDuration } from '../utils/filters.js';
+import { CliError, ExitCode, formatTable } from '../utils/output.js';
+import { isLive } from '../utils/runtime.js';
+import { showWaitsIn } from '../utils/http.js';
+
+// Shared and serverless tiers run on shared hardware and can be neither paused nor resized in place
+const SHARED_TIERS = ['M0', 'M2', 'M5', 'FLEX', 'SERVERLESS'];
+
+// General-purpose dedicated tiers from smallest to largest, with the largest disk (GB) each accepts
+const DEDICATED_TIERS: Record<string, number> = {
+  M10: 128, M20: 255, M30: 512, M40: 1024, M50: 4096, M60: 4096,
+  M80: 4096, M140: 4096, M200: 4096, M300: 4096, M400: 4096, M700: 4096
+};
+const TIER_ORDER = Object.keys(DEDICATED_TIERS);
+
+// Sharded clusters are not available below this tier
+const MIN_SHARDED_TIER = 'M30';
+
+export const CLUSTER_PROVIDERS: ClusterSpec['provider'][] = ['AWS', 'GCP', 'AZURE'];
+
+// Common regions in Atlas naming; M0 is offered in only some of them and Atlas rejects the rest
+export const CLUSTER_REGIONS: Record<ClusterSpec['provider'], string[]> = {
+  AWS: ['US_EAST_1', 'US_WEST_2', 'CA_CENTRAL_1', 'SA_EAST_1', 'EU_WEST_1', 'EU_CENTRAL_1', 'AP_SOUTH_1', 'AP_SOUTHEAST_1', 'AP_SOUTHEAST_2', 'AP_NORTHEAST_1'],
+  GCP: ['CENTRAL_US', 'EASTERN_US', 'WESTERN_US', 'WESTERN_EUROPE', 'EUROPE_WEST_3', 'ASIA_SOUTH_1', 'SOUTHEASTERN_ASIA_PACIFIC', 'NORTHEASTERN_ASIA_PACIFIC'],
+  AZURE: ['US_EAST_2', 'US_WEST', 'US_CENTRAL', 'EUROPE_WEST', 'EUROPE_NORTH', 'GERMANY_WEST_CENTRAL', 'INDIA_CENTRAL', 'ASIA_SOUTH_EAST', 'JAPAN_EAST']
+};
+
+// Major versions offered for dedicated clusters; free clusters always get the version Atlas picks
+export const MONGODB_VERSIONS = ['8.0', '7.0'];
+
+// Atlas uses the first 23 characters of the name in hostnames, so longer names are refused
+const CLUSTER_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9-]{0,22}$/;
+
+// Non-prod by default means anything without "prod" in its name
+export const DEFAULT_PAUSE_EXCLUDE = ['*prod*'];
+
+export interface BulkPauseSummary {
+  matched: number;
+  paused: string[];
+  failed: { name: string; error: string }[];
+}
+
+const PREVIEW_COLUMNS = ['name', 'project', 'size', 'region', 'created', 'state'];
+
+function regionConfig(cluster: any): any {
+  return cluster.replicationSpecs?.[0]?.regionConfigs?.[0];
+}
+
+export function clusterTier(cluster: any): string {
+  const config = regionConfig(cluster);
+  if (config?.providerName === 'FLEX' || cluster.providerSettings?.providerName === 'FLEX') {
+    return 'FLEX';
+  }
+  return config?.electableSpecs?.instanceSize || cluster.providerSettings?.instanceSizeName || '';
+}
+
+export function clusterDiskGB(cluster: any): number | undefined {
+  return regionConfig(cluster)?.electableSpecs?.diskSizeGB ?? cluster.diskSizeGB;
+}
+
+export function isDedicated(cluster: any): boolean {
+  const tier = clusterTier(cluster);
+  return tier !== '' && !SHARED_TIERS.includes(tier);
+}
+
+function isSharded(cluster: any): boolean {
+  return cluster.clusterType === 'SHARDED' || cluster.clusterType === 'GEOSHARDED';
+}
+
+function describeDisk(cluster: any): string {
+  const disk = clusterDiskGB(cluster);
+  return disk ? `${disk} GB` : 'N/A';
+}
+
+export function validateClusterSpec(spec: ClusterSpec): void {
+  if (!CLUSTER_NAME_PATTERN.test(spec.name)) {
+    throw new CliError(`Invalid cluster name "${spec.name}". Use up to 23 letters, digits and dashes, starting with a letter or digit`, ExitCode.Usage);
+  }
+  if (!CLUSTER_PROVIDERS.includes(spec.provider)) {
+    throw new CliError(`Unknown provider "${spec.provider}". Use one of: ${CLUSTER_PROVIDERS.join(', ')}`, ExitCode.Usage);
+  }
+  if (spec.instanceSize !== 'M0' && !(spec.instanceSize in DEDICATED_TIERS)) {
+    throw new CliError(`Unknown tier ${spec.instanceSize}. Use M0 or one of: ${TIER_ORDER.join(', ')}`, ExitCode.Usage);
+  }
+  if (spec.instanceSize === 'M0' && (spec.backupEnabled || spec.mongoDBMajorVersion)) {
+    throw new CliError('Free (M0) clusters have no cloud backup and run the version Atlas picks; drop --backup and --mongodb-version', ExitCode.Usage);
+  }
+  if (spec.mongoDBMajorVersion && !MONGODB_VERSIONS.includes(spec.mongoDBMajorVersion)) {
+    throw new CliError(`Unsupported MongoDB version ${spec.mongoDBMajorVersion}. Use one of: ${MONGODB_VERSIONS.join(', ')}`, ExitCode.Usage);
+  }
+}
+
+/**
+ * Creates a cluster after checking the spec and, for M0, the project's free
+ * cluster limit. Creation goes through runMutation, so --dry-run and --plan
+ * only preview it.
+ */
+export async function createCluster(mongodb: MongoDBService, projectId: string, spec: ClusterSpec, spinner?: Ora): Promise<MutationOutcome> {
+  validateClusterSpec(spec);
+  if (spec.instanceSize === 'M0') {
+    const limit = await mongodb.checkProjectFreeClusterLimit(projectId);
+    if (!limit.canCreateFreeCluster) {
+      throw new CliError(limit.clusters.length > 0
+        ? `This project already has its free (M0) cluster ${limit.clusters[0].name}; pick a dedicated tier or another project`
+        : 'Could not check whether this project has room for a free (M0) cluster', ExitCode.Usage);
+    }
+  }
+  return runMutation('mongodb.createCluster', { projectId, ...spec }, spinner);
+}
+
+// The SRV string with the user filled in; the password stays a placeholder so it never lands in scrollback
+export function connectionStringFor(cluster: any, username?: string, databaseName?: string): string | undefined {
+  const srv: string | undefined = cluster.connectionStrings?.standardSrv;
+  if (!srv) {
+    return undefined;
+  }
+  const withUser = username ? srv.replace('mongodb+srv://', `mongodb+srv://${username}:<password>@`) : srv;
+  return databaseName ? `${withUser}/${databaseName}?retryWrites=true&w=majority` : withUser;
+}
+
+export function validatePause(cluster: any, paused: boolean): void {
+  if (!isDedicated(cluster)) {
+    throw new CliError(`${cluster.name} runs on ${clusterTier(cluster) || 'a shared tier'}; only dedicated tiers (M10 and up) can be paused`, ExitCode.Usage);
+  }
+  if (Boolean(cluster.paused) === paused) {
+    throw new CliError(`${cluster.name} is already ${paused ? 'paused' : 'running'}`, ExitCode.Usage);
+  }
+  if (cluster.stateName !== 'IDLE') {
+    throw new CliError(`${cluster.name} is ${cluster.stateName}; wait until it is IDLE`, ExitCode.Usage);
+  }
+}
+
+// Problems with the cluster itself, whatever size it would move to
+function scaleBlocker(cluster: any): string | undefined {
+  const current = clusterTier(cluster);
+  if (cluster.paused) {
+    return `${cluster.name} is paused; resume it before scaling`;
+  }
+  if (cluster.stateName !== 'IDLE') {
+    return `${cluster.name} is ${cluster.stateName}; wait until it is IDLE`;
+  }
+  if (!isDedicated(cluster)) {
+    return `${current || 'Shared'} clusters are upgraded to a dedicated tier from the Atlas UI`;
+  }
+  if (!(current in DEDICATED_TIERS)) {
+    return `${current} clusters (NVMe or low-CPU) keep their hardware class; scale them from the Atlas UI`;
+  }
+  return undefined;
+}
+
+/**
+ * Returns why a cluster cannot move to a tier, or undefined when it can.
+ * Only in-place moves between general-purpose dedicated tiers are allowed.
+ */
+export function tierTransitionProblem(cluster: any, instanceSize: string, diskSizeGB?: number): string | undefined {
+  const current = clusterTier(cluster);
+  const blocker = scaleBlocker(cluster);
+  if (blocker) {
+    return blocker;
+  }
+  if (!(instanceSize in DEDICATED_TIERS)) {
+    return `Unknown tier ${instanceSize}. Use one of: ${TIER_ORDER.join(', ')}`;
+  }
+  if (instanceSize === current && (diskSizeGB === undefined || diskSizeGB === clusterDiskGB(cluster))) {
+    return `${cluster.name} is already ${current}${diskSizeGB ? ` with ${diskSizeGB} GB` : ''}`;
+  }
+  if (isSharded(cluster) && TIER_ORDER.indexOf(instanceSize) < TIER_ORDER.indexOf(MIN_SHARDED_TIER)) {
+    return `Sharded clusters need ${MIN_SHARDED_TIER} or larger`;
+  }
+  const compute = regionConfig(cluster)?.autoScaling?.compute;
+  if (compute?.enabled) {
+    const index = TIER_ORDER.indexOf(instanceSize);
+    const min = compute.minInstanceSize ? TIER_ORDER.indexOf(compute.minInstanceSize) : -1;
+    const max = compute.maxInstanceSize ? TIER_ORDER.indexOf(compute.maxInstanceSize) : TIER_ORDER.length;
+    if ((min >= 0 && index < min) || (max >= 0 && index > max)) {
+      return `Compute auto-scaling keeps ${cluster.name} between ${compute.minInstanceSize || 'M10'} and ${compute.maxInstanceSize || 'M700'}`;
+    }
+  }
+  const disk = diskSizeGB ?? clusterDiskGB(cluster);
+  if (disk !== undefined && disk > DEDICATED_TIERS[instanceSize]) {
+    return `${instanceSize} allows at most ${DEDICATED_TIERS[instanceSize]} GB of disk${diskSizeGB ? '' : `; this cluster has ${disk} GB, so pick a smaller disk too`}`;
+  }
+  return undefined;
+}
+
+export function validateScale(cluster: any, instanceSize: string, diskSizeGB?: number): void {
+  if (diskSizeGB !== undefined && (!Number.isInteger(diskSizeGB) || diskSizeGB < 10)) {
+    throw new CliError('The disk size must be a whole number of GB, at least 10', ExitCode.Usage);
+  }
+  const problem = tierTransitionProblem(cluster, instanceSize, diskSizeGB);
+  if (problem) {
+    throw new CliError(problem, ExitCode.Usage);
+  }
+}
+
+// Shows where Atlas is with the change and optionally blocks until the cluster is IDLE again
+async function followClusterChange(mongodb: MongoDBService, projectId: string, clusterName: string): Promise<void> {
+  const cluster = await mongodb.getCluster(projectId, clusterName);
+  console.log(chalk.gray(`   State: ${cluster.stateName}${cluster.paused ? ' (paused)' : ''}`));
+  if (cluster.stateName === 'IDLE') {
+    return;
+  }
+
+  const { wait } = await inquirer.prompt([
+    { type: 'confirm', name: 'wait', message: 'Wait until Atlas has finished?', default: true }
+  ]);
+  if (!wait) {
+    console.log(chalk.gray('   Atlas keeps applying the change in the background'));
+    return;
+  }
+  await mongodb.waitForClusterReady(projectId, clusterName);
+  console.log(chalk.green(`✅ ${clusterName} is ready`));
+}
+
+export async function toggleClusterPause(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  const pause = !cluster.paused;
+
+  try {
+    validatePause(cluster, pause);
+  } catch (error: any) {
+    console.log(chalk.yellow(`⚠️  ${error.message}`));
+    return;
+  }
+
+  const { confirm } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message: pause
+        ? `Pause ${cluster.name}? Clients lose access until it is resumed; Atlas resumes it on its own after 30 days.`
+        : `Resume ${cluster.name}?`,
+      default: false
+    }
+  ]);
+  if (!confirm) return;
+
+  const spinner = ora(`${pause ? 'Pausing' : 'Resuming'} cluster ${cluster.name}...`).start();
+  try {
+    const { applied } = await runMutation(pause ? 'mongodb.pauseCluster' : 'mongodb.resumeCluster', { projectId, clusterName: cluster.name }, spinner);
+    if (!applied) return;
+    spinner.succeed(chalk.green(`${pause ? 'Pause' : 'Resume'} of ${cluster.name} requested`));
+    await followClusterChange(mongodb, projectId, cluster.name);
+  } catch (error: any) {
+    spinner.fail(`Failed to ${pause ? 'pause' : 'resume'} cluster`);
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+export async function scaleClusterWizard(mongodb: MongoDBService, projectId: string, cluster: any): Promise<void> {
+  const current = clusterTier(cluster);
+  console.log(chalk.blue(`\n📐 ${cluster.name}: ${current}, ${describeDisk(cluster)} disk${isSharded(cluster) ? ', sharded' : ''}`));
+
+  const blocker = scaleBlocker(cluster);
+  if (blocker) {
+    console.log(chalk.yellow(`⚠️  ${blocker}`));
+    return;
+  }
+
+  const { instanceSize } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'instanceSize',
+      message: 'New instance size:',
+      default: current,
+      choices: TIER_ORDER.map(tier => {
+        // Sizes only blocked by the current disk stay selectable; the disk is asked next
+        const problem = tier === current ? undefined : tierTransitionProblem(cluster, tier, Math.min(clusterDiskGB(cluster) ?? 10, DEDICATED_TIERS[tier]));
+        return {
+          name: `${tier}${tier === current ? chalk.gray(' (current)') : ''}${chalk.gray(` up to ${DEDICATED_TIERS[tier]} GB`)}`,
+          value: tier,
+          disabled: problem && `(${problem})`
+        };
+      })
+    }
+  ]);
+
+  const currentDisk = clusterDiskGB(cluster);
+  const { diskSizeGB } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'diskSizeGB',
+      message: `Disk size in GB (10-${DEDICATED_TIERS[instanceSize]}):`,
+      default: String(Math.min(currentDisk ?? 10, DEDICATED_TIERS[instanceSize])),
+      validate: (input: string) => {
+        const disk = Number(input);
+        if (!Number.isInteger(disk) || disk < 10 || disk > DEDICATED_TIERS[instanceSize]) {
+          return `Enter a whole number between 10 and ${DEDICATED_TIERS[instanceSize]}`;
+        }
+        return true;
+      }
+    }
+  ]);
+  const disk = Number(diskSizeGB);
+
+  const problem = tierTransitionProblem(cluster, instanceSize, disk);
+  if (problem) {
+    console.log(chalk.yellow(`⚠️  ${problem}`));
+    return;
+  }
+
+  console.log(chalk.blue(`\n   ${current} → ${instanceSize}, ${describeDisk(cluster)} → ${disk} GB`));
+  console.log(chalk.gray('   Atlas replaces the nodes one at a time; clients may see a brief primary election.'));
+  const { confirm } = await inquirer.prompt([
+    { type: 'confirm', name: 'confirm', message: 'Apply this change?', default: false }
+  ]);
+  if (!confirm) return;
+
+  const spinner = ora(`Scaling cluster ${cluster.name}...`).start();
+  try {
+    const { applied } = await runMutation('mongodb.scaleCluster', {
+      projectId,
+      clusterName: cluster.name,
+      instanceSize,
+      diskSizeGB: disk === currentDisk ? undefined : disk
+    }, spinner);
+    if (!applied) return;
+    spinner.succeed(chalk.green(`Scaling of ${cluster.name} to ${instanceSize} requested`));
+    await followClusterChange(mongodb, projectId, cluster.name);
+  } catch (error: any) {
+    spinner.fail('Failed to scale cluster');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+/**
+ * Collects running dedicated clusters through the inventory and narrows them
+ * down with the same name, age and state filters as bulk delete.
+ */
+export async function selectPausableClusters(filter: ResourceFilter, orgId?: string): Promise<InventoryResource[]> {
+  const result = await new InventoryService().collect(['mongodb']);
+  if (result.skipped.length > 0) {
+    throw new CliError('No credentials configured for mongodb', ExitCode.MissingCredentials);
+  }
+  if (result.errors.length > 0) {
+    throw new Error(result.errors[0].message);
+  }
+
+  const candidates = result.resources.filter(resource =>
+    resource.type === 'cluster' &&
+    (!orgId || resource.raw.orgId === orgId) &&
+    isDedicated(resource.raw) &&
+    !resource.raw.paused
+  );
+  return applyResourceFilter(candidates, filter);
+}
+
+export function printPausePreview(clusters: InventoryResource[], description: string): void {
+  console.log(chalk.blue(`\n🔍 Found ${clusters.length} running dedicated clusters (${description}):\n`));
+  console.log(formatTable(PREVIEW_COLUMNS, clusters.map(cluster => ({
+    name: cluster.name,
+    project: cluster.raw.projectName,
+    size: clusterTier(cluster.raw),
+    region: cluster.region,
+    created: cluster.created,
+    state: cluster.state
+  }))));
+  console.log();
+}
+
+export async function pauseClusters(clusters: InventoryResource[], spinner?: Ora): Promise<BulkPauseSummary> {
+  const summary: BulkPauseSummary = { matched: clusters.length, paused: [], failed: [] };
+
+  for (const cluster of clusters) {
+    const progress = `Pausing ${cluster.name}... (${summary.paused.length + summary.failed.length + 1}/${clusters.length})`;
+    if (spinner) {
+      spinner.text = progress;
+    } else if (isLive()) {
+      console.error(chalk.gray(progress));
+    }
+
+    try {
+      const { applied } = await runMutation('mongodb.pauseCluster', { projectId: cluster.raw.projectId, clusterName: cluster.name }, spinner);
+      if (applied) {
+        summary.paused.push(cluster.name);
+      }
+    } catch (error: any) {
+      summary.failed.push({ name: cluster.name, error: error.message });
+    }
+  }
+
+  return summary;
+}
+
+function clusterResourceRow(cluster: InventoryResource): PickerRow {
+  return { name: cluster.name, details: [cluster.raw.projectName, clusterTier(cluster.raw), cluster.region] };
+}
+
+export async function bulkPauseMenu(orgId?: string): Promise<void> {
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'exclude',
+      message: 'Keep clusters whose names match (comma-separated globs or /regex/):',
+      default: DEFAULT_PAUSE_EXCLUDE.join(',')
+    },
+    {
+      type: 'input',
+      name: 'match',
+      message: 'Only clusters whose names match (optional):'
+    },
+    {
+      type: 'input',
+      name: 'olderThan',
+      message: 'Only clusters older than (e.g. 7d; optional):',
+      validate: (input: string) => {
+        if (!input) return true;
+        try {
+          parseDuration(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    }
+  ]);
+  const split = (input: string) => input.split(',').map(value => value.trim()).filter(Boolean);
+  const filter: ResourceFilter = { match: split(answers.match), exclude: split(answers.exclude), olderThan: answers.olderThan || undefined };
+
+  const spinner = ora('Loading clusters...').start();
+  const stopShowingWaits = showWaitsIn(spinner);
+  let clusters: InventoryResource[];
+  try {
+    clusters = await selectPausableClusters(filter, orgId);
+    spinner.stop();
+  } catch (error: any) {
+    spinner.fail('Failed to load clusters');
+    console.log(chalk.red(`Error: ${error.message}`));
+    return;
+  } finally {
+    stopShowingWaits();
+  }
+
+  if (clusters.length === 0) {
+    console.log(chalk.yellow(`📭 No running dedicated clusters found (${describeFilter(filter)})`));
+    return;
+  }
+
+  printPausePreview(clusters, describeFilter(filter));
+  clusters = await pickMany('Select the clusters to pause:', clusters, clusterResourceRow, clusters);
+  if (clusters.length === 0) {
+    console.log(chalk.gray('Nothing selected; no cluster paused'));
+    return;
+  }
+
+  const { confirm } = await inquirer.prompt([
+    { type: 'confirm', name: 'confirm', message: `Pause ${clusters.length} clusters? Their clients lose access until they are resumed.`, default: false }
+  ]);
+  if (!confirm) return;
+
+  const pauseSpinner = ora(`Pausing ${clusters.length} clusters...`).start();
+  const summary = await pauseClusters(clusters, pauseSpinner);
+  pauseSpinner.stop();
+
+  summary.failed.forEach(failure => console.log(chalk.red(`Failed to pause ${failure.name}: ${failure.error}`)));
+  if (summary.paused.length > 0) {
+    console.log(chalk.green(`✅ Requested a pause of ${summary.paused.length} clusters; Atlas finishes it in a few minutes`));
+  }
+}
+
+async function promptClusterSpec(project: any, canCreateFreeCluster: boolean): Promise<ClusterSpec> {
+  const { name, provider } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'name',
+      message: 'Cluster name:',
+      validate: (input: string) => CLUSTER_NAME_PATTERN.test(input.trim()) || 'Use up to 23 letters, digits and dashes, starting with a letter or digit'
+    },
+    { type: 'list', name: 'provider', message: 'Cloud provider:', choices: CLUSTER_PROVIDERS }
+  ]);
+  const { regionName, instanceSize } = await inquirer.prompt([
+    { type: 'list', name: 'regionName', message: 'Region:', choices: CLUSTER_REGIONS[provider as ClusterSpec['provider']] },
+    {
+      type: 'list',
+      name: 'instanceSize',
+      message: 'Tier:',
+      default: canCreateFreeCluster ? 'M0' : 'M10',
+      choices: [
+        { name: `M0 ${chalk.gray('free, shared')}`, value: 'M0', disabled: !canCreateFreeCluster && `(${project.name} already has its free cluster)` },
+        ...TIER_ORDER.map(tier => ({ name: `${tier} ${chalk.gray(`dedicated, up to ${DEDICATED_TIERS[tier]} GB`)}`, value: tier }))
+      ]
+    }
+  ]);
+
+  const spec: ClusterSpec = { name: name.trim(), provider, regionName, instanceSize };
+  if (instanceSize !== 'M0') {
+    const { mongoDBMajorVersion, backupEnabled } = await inquirer.prompt([
+      { type: 'list', name: 'mongoDBMajorVersion', message: 'MongoDB version:', choices: MONGODB_VERSIONS },
+      { type: 'confirm', name: 'backupEnabled', message: 'Enable cloud backup (daily snapshots, billed separately)?', default: true }
+    ]);
+    Object.assign(spec, { mongoDBMajorVersion, backupEnabled });
+  }
+  return spec;
+}
+
+async function offerStarterUser(projectId: string, clusterName: string): Promise<{ username: string; databaseName: string } | undefined> {
+  const { create } = await inquirer.prompt([
+    { type: 'confirm', name: 'create', message: 'Create a database user for your application?', default: true }
+  ]);
+  if (!create) return undefined;
+
+  const { username, databaseName } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'username',
+      message: 'Username:',
+      default: `${clusterName}-app`,
+      validate: (input: string) => /^[\w.@-]+$/.test(input.trim()) || 'Use letters, digits, dots, dashes, underscores or @'
+    },
+    { type: 'input', name: 'databaseName', message: 'Database it may read and write:', default: 'app', validate: (input: string) => input.trim() ? true : 'Database name is required' }
+  ]);
+
+  const spinner = ora(`Creating database user ${username.trim()}...`).start();
+  try {
+    const roles = presetRoles('readWrite', databaseName.trim());
+    const { applied, password, vaultSecret } = await createDatabaseUser(projectId, username.trim(), roles, [{ name: clusterName, type: 'CLUSTER' }], spinner);
+    if (applied) {
+      spinner.succeed(chalk.green(`Database user ${username.trim()} created with readWrite@${databaseName.trim()}`));
+      await showPassword(password!, vaultSecret);
+    }
+    return { username: username.trim(), databaseName: databaseName.trim() };
+  } catch (error: any) {
+    spinner.fail('Failed to create database user');
+    console.log(chalk.red(`Error: ${error.message}`));
+    return undefined;
+  }
+}
+
+async function offerAccessEntry(projectId: string): Promise<void> {
+  const { source } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'source',
+      message: 'Allow connections from:',
+      choices: [
+        { name: '📍 This machine\'s public IP', value: 'mine' },
+        { name: '✏️  An IP address or CIDR block', value: 'custom' },
+        { name: '⏭️  Skip; I\'ll manage the access list later', value: 'skip' }
+      ]
+    }
+  ]);
+  if (source === 'skip') return;
+
+  let entry: AccessListEntry | undefined;
+  if (source === 'custom') {
+    const { address } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'address',
+        message: 'IP address or CIDR block:',
+        validate: (input: string) => {
+          try {
+            parseAccessEntry(input);
+            return true;
+          } catch (error: any) {
+            return error.message;
+          }
+        }
+      }
+    ]);
+    entry = parseAccessEntry(address);
+    if (isOpenToWorld(entry)) {
+      const { confirm } = await inquirer.prompt([
+        { type: 'confirm', name: 'confirm', message: `${entryValue(entry)} lets any address on the internet connect. Add it anyway?`, default: false }
+      ]);
+      if (!confirm) return;
+    }
+  }
+
+  const spinner = ora('Adding access list entry...').start();
+  try {
+    entry = entry || { ipAddress: await detectPublicIp(), comment: 'Added by the cluster wizard' };
+    const { applied } = await addAccessEntry(projectId, entry, spinner);
+    if (applied) {
+      spinner.succeed(chalk.green(`Added ${entryValue(entry)} to the access list`));
+    }
+  } catch (error: any) {
+    spinner.fail('Failed to add access list entry');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+/**
+ * Walks through provider, region, tier, version and backup, creates the
+ * cluster, offers a starter user and access list entry, and prints the
+ * connection string once Atlas has provisioned it.
+ */
+export async function createClusterWizard(mongodb: MongoDBService, project: any): Promise<void> {
+  const spinner = ora('Checking the free cluster limit...').start();
+  const limit = await mongodb.checkProjectFreeClusterLimit(project.id);
+  spinner.stop();
+
+  const spec = await promptClusterSpec(project, limit.canCreateFreeCluster);
+  console.log(chalk.blue(`\n🍃 ${spec.name}: ${spec.instanceSize} on ${spec.provider} ${spec.regionName}`));
+  if (spec.instanceSize !== 'M0') {
+    console.log(chalk.gray(`   MongoDB ${spec.mongoDBMajorVersion}, cloud backup ${spec.backupEnabled ? 'on' : 'off'}. Dedicated clusters are billed hourly.`));
+  }
+  const { confirm } = await inquirer.prompt([
+    { type: 'confirm', name: 'confirm', message: `Create cluster ${spec.name} in ${project.name}?`, default: true }
+  ]);
+  if (!confirm) return;
+
+  spinner.start(`Creating cluster ${spec.name}...`);
+  let applied: boolean;
+  try {
+    ({ applied } = await createCluster(mongodb, project.id, spec, spinner));
+    if (applied) {
+      spinner.succeed(chalk.green(`Cluster ${spec.name} is being created; Atlas takes a few minutes to provision it`));
+    }
+  } catch (error: any) {
+    spinner.fail('Failed to create cluster');
+    console.log(chalk.red(`Error: ${error.message}`));
+    return;
+  }
+
+  const user = await offerStarterUser(project.id, spec.name);
+  await offerAccessEntry(project.id);
+  // With --dry-run or --plan there is no cluster to wait for
+  if (!applied) return;
+
+  const { wait } = await inquirer.prompt([
+    { type: 'confirm', name: 'wait', message: 'Wait for the cluster to be ready and show its connection string?', default: true }
+  ]);
+  if (!wait) {
+    console.log(chalk.gray(`   Run "geenius-cli mongodb clusters get ${project.id} ${spec.name}" later for the connection string`));
+    return;
+  }
+
+  try {
+    await mongodb.waitForClusterReady(project.id, spec.name);
+    const connectionString = connectionStringFor(await mongodb.getCluster(project.id, spec.name), user?.username, user?.databaseName);
+    console.log(chalk.green(`✅ ${spec.name} is ready`));
+    console.log(chalk.blue(`\n🔗 Connection string:\n`));
+    console.log(connectionString || chalk.yellow('Not available yet; check the cluster details in a minute'));
+  } catch (error: any) {
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
@@ -0,0 +1,602 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ClusterSpec, MongoDBService } from '../services/mongodb.js';
+import { addAccessEntry, detectPublicIp, entryValue, findOpenAccess, parseAccessEntry, parseExpiry } from './mongodb-access-list.js';
+import { DEFAULT_RETENTION_DAYS, formatElapsed, parseRetention, requireCloudBackup, restoreJobState, takeSnapshot, validateRestoreTarget, waitForRestoreJob } from './mongodb-backups.js';
+import { BulkPauseSummary, CLUSTER_PROVIDERS, DEFAULT_PAUSE_EXCLUDE, connectionStringFor, createCluster, pauseClusters, printPausePreview, selectPausableClusters, validatePause, validateScale } from './mongodb-clusters.js';
+import { RoleFlags, createDatabaseUser, formatRoles, requirePasswordKept, resolveRoles, storeUserPassword } from './mongodb-users.js';
+import { runMutation } from './mutations.js';
+import { CliError, ExitCode, ScriptedOptions, requireConfirmation, runScripted } from '../utils/output.js';
+import { RenderOptions, addRenderOptions, renderList } from '../utils/render.js';
+import { ACCESS_LIST_VIEW, CLUSTER_VIEW, DATABASE_USER_VIEW, ORGANIZATION_VIEW, PROJECT_VIEW, RESTORE_JOB_VIEW, SNAPSHOT_VIEW } from './views.js';
+import { requireProviderCredentials } from '../utils/credentials.js';
+import { ResourceFilter, describeFilter, parseDuration } from '../utils/filters.js';
+import { isLive } from '../utils/runtime.js';
+import { maskSecret } from '../utils/vault.js';
+
+interface ProjectDeleteOptions extends ScriptedOptions {
+  withClusters?: boolean;
+}
+
+interface AccessAddOptions extends ScriptedOptions {
+  comment?: string;
+  expires?: string;
+}
+
+interface ClusterCreateOptions extends ScriptedOptions {
+  provider: string;
+  region: string;
+  tier: string;
+  mongodbVersion?: string;
+  backup?: boolean;
+  wait?: boolean;
+}
+
+interface ClusterChangeOptions extends ScriptedOptions {
+  wait?: boolean;
+}
+
+interface ClusterScaleOptions extends ClusterChangeOptions {
+  size: string;
+  disk?: string;
+}
+
+interface PauseAllOptions extends ScriptedOptions {
+  match?: string[];
+  exclude?: string[];
+  olderThan?: string;
+  org?: string;
+}
+
+interface SnapshotTakeOptions extends ScriptedOptions {
+  retention: string;
+  description?: string;
+}
+
+interface RestoreOptions extends ScriptedOptions {
+  targetProject?: string;
+  targetCluster?: string;
+  wait: boolean;
+}
+
+interface UserCreateOptions extends ScriptedOptions, RoleFlags {
+  clusters?: string[];
+  reveal?: boolean;
+}
+
+function requireCredentials(): void {
+  requireProviderCredentials('mongodb');
+}
+
+function createService(): MongoDBService {
+  requireCredentials();
+  return new MongoDBService();
+}
+
+export function registerMongoDBSubcommands(mongodb: Command): void {
+  const orgs = mongodb
+    .command('orgs')
+    .description('Inspect Atlas organizations');
+
+  addRenderOptions(orgs.command('list'))
+    .description('List organizations')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().getOrganizations(), (result) => {
+        renderList(result, ORGANIZATION_VIEW, options, '📭 No organizations found');
+      });
+    });
+
+  const projects = mongodb
+    .command('projects')
+    .description('Manage Atlas projects without prompts');
+
+  addRenderOptions(projects.command('list'))
+    .description('List projects, optionally limited to one organization')
+    .option('--org <orgId>', 'Organization ID')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions & { org?: string }) => {
+      await runScripted(options, () => {
+        const service = createService();
+        return options.org ? service.getProjects(options.org) : service.listProjects();
+      }, (result) => {
+        renderList(result, PROJECT_VIEW, options, '📭 No projects found');
+      });
+    });
+
+  projects
+    .command('delete <projectId>')
+    .description('Delete a project')
+    .option('--with-clusters', 'Delete all clusters of the project first')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, options: ProjectDeleteOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete project ${projectId}`);
+        const service = createService();
+        const clusters = await service.getClusters(projectId);
+
+        if (clusters.length > 0 && !options.withClusters) {
+          throw new CliError(`Project ${projectId} still has ${clusters.length} clusters; pass --with-clusters to delete them first`);
+        }
+
+        const { applied, result } = await runMutation('mongodb.deleteProject', { projectId, withClusters: clusters.length > 0 });
+        return { success: true, applied, projectId, deletedClusters: result?.deletedClusters ?? [] };
+      }, (result) => {
+        if (!result.applied) return;
+        console.log(chalk.green(`✅ Project ${result.projectId} deleted`));
+        if (result.deletedClusters.length > 0) {
+          console.log(chalk.green(`✅ Also deleted ${result.deletedClusters.length} clusters`));
+        }
+      });
+    });
+
+  const clusters = mongodb
+    .command('clusters')
+    .description('Manage Atlas clusters without prompts');
+
+  addRenderOptions(clusters.command('list <projectId>'))
+    .description('List clusters of a project')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (projectId: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().getClusters(projectId), (result) => {
+        renderList(result, CLUSTER_VIEW, options, '📭 No clusters found in this project');
+      });
+    });
+
+  clusters
+    .command('get <projectId> <clusterName>')
+    .description('Show cluster details')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, clusterName: string, options: ScriptedOptions) => {
+      await runScripted(options, () => createService().getCluster(projectId, clusterName), (cluster) => {
+        console.log(chalk.blue(`📋 ${cluster.name}`));
+        console.log(`State: ${cluster.stateName}`);
+        console.log(`MongoDB Version: ${cluster.mongoDBVersion || 'N/A'}`);
+        console.log(`Created: ${cluster.createDate}`);
+        if (cluster.connectionStrings?.standardSrv) {
+          console.log(`Standard SRV: ${cluster.connectionStrings.standardSrv}`);
+        }
+      });
+    });
+
+  clusters
+    .command('create <projectId> <clusterName>')
+    .description('Create a cluster')
+    .requiredOption('--region <region>', 'Atlas region name, e.g. US_EAST_1 or WESTERN_EUROPE')
+    .option('--provider <provider>', `Cloud provider (${CLUSTER_PROVIDERS.join(', ')})`, 'AWS')
+    .option('--tier <tier>', 'M0 for a free cluster, or a dedicated tier such as M10', 'M0')
+    .option('--mongodb-version <version>', 'MongoDB major version of a dedicated cluster, e.g. 8.0')
+    .option('--backup', 'Enable cloud backup on a dedicated cluster')
+    .option('--wait', 'Wait until the cluster is ready and print its connection string')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, clusterName: string, options: ClusterCreateOptions) => {
+      await runScripted(options, async () => {
+        const spec: ClusterSpec = {
+          name: clusterName,
+          provider: options.provider.toUpperCase() as ClusterSpec['provider'],
+          regionName: options.region.toUpperCase(),
+          instanceSize: options.tier.toUpperCase(),
+          ...(options.mongodbVersion ? { mongoDBMajorVersion: options.mongodbVersion } : {}),
+          ...(options.backup ? { backupEnabled: true } : {})
+        };
+        const mongodb = createService();
+        const { applied, result } = await createCluster(mongodb, projectId, spec);
+        if (!applied) {
+          return { success: true, applied, projectId, ...spec };
+        }
+        let cluster = result;
+        if (options.wait) {
+          await mongodb.waitForClusterReady(projectId, clusterName);
+          cluster = await mongodb.getCluster(projectId, clusterName);
+        }
+        return { success: true, applied, projectId, ...spec, stateName: cluster.stateName, connectionString: connectionStringFor(cluster) };
+      }, (result) => {
+        if (!result.applied) return;
+        console.log(chalk.green(`✅ Cluster ${result.name} ${result.stateName === 'IDLE' ? 'is ready' : 'is being created'} (${result.instanceSize} on ${result.provider} ${result.regionName})`));
+        if (result.connectionString) {
+          console.log(`Connection string: ${result.connectionString}`);
+        }
+      });
+    });
+
+  clusters
+    .command('delete <projectId> <clusterName>')
+    .description('Delete a cluster')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, clusterName: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete cluster ${clusterName}`);
+        requireCredentials();
+        const { applied } = await runMutation('mongodb.deleteCluster', { projectId, clusterName });
+        return { success: true, applied, projectId, clusterName };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Cluster ${result.clusterName} deleted`));
+        }
+      });
+    });
+
+  for (const paused of [true, false]) {
+    const verb = paused ? 'pause' : 'resume';
+    clusters
+      .command(`${verb} <projectId> <clusterName>`)
+      .description(paused ? 'Pause a dedicated cluster (M10 and up)' : 'Resume a paused cluster')
+      .option('-y, --yes', `Confirm the ${verb}`)
+      .option('--wait', 'Wait until Atlas has finished')
+      .option('--json', 'Output as JSON')
+      .action(async (projectId: string, clusterName: string, options: ClusterChangeOptions) => {
+        await runScripted(options, async () => {
+          const mongodb = createService();
+          validatePause(await mongodb.getCluster(projectId, clusterName), paused);
+          requireConfirmation(options, `${verb} cluster ${clusterName}`);
+          const { applied } = await runMutation(paused ? 'mongodb.pauseCluster' : 'mongodb.resumeCluster', { projectId, clusterName });
+          if (applied && options.wait) {
+            await mongodb.waitForClusterReady(projectId, clusterName);
+          }
+          return { success: true, applied, projectId, clusterName, paused };
+        }, (result) => {
+          if (result.applied) {
+            console.log(chalk.green(`✅ Cluster ${result.clusterName} ${options.wait ? (paused ? 'paused' : 'resumed') : `${verb} requested`}`));
+          }
+        });
+      });
+  }
+
+  clusters
+    .command('scale <projectId> <clusterName>')
+    .description('Change the instance size and disk of a dedicated cluster')
+    .requiredOption('--size <tier>', 'New instance size, e.g. M30')
+    .option('--disk <gb>', 'New disk size in GB')
+    .option('-y, --yes', 'Confirm the change')
+    .option('--wait', 'Wait until Atlas has finished')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, clusterName: string, options: ClusterScaleOptions) => {
+      await runScripted(options, async () => {
+        const instanceSize = options.size.toUpperCase();
+        const diskSizeGB = options.disk !== undefined ? Number(options.disk) : undefined;
+        const mongodb = createService();
+        validateScale(await mongodb.getCluster(projectId, clusterName), instanceSize, diskSizeGB);
+        requireConfirmation(options, `scale cluster ${clusterName} to ${instanceSize}`);
+        const { applied } = await runMutation('mongodb.scaleCluster', { projectId, clusterName, instanceSize, diskSizeGB });
+        if (applied && options.wait) {
+          await mongodb.waitForClusterReady(projectId, clusterName);
+        }
+        return { success: true, applied, projectId, clusterName, instanceSize, diskSizeGB };
+      }, (result) => {
+        if (result.applied) {
+          const disk = result.diskSizeGB ? ` with ${result.diskSizeGB} GB of disk` : '';
+          console.log(chalk.green(`✅ Cluster ${result.clusterName} ${options.wait ? 'scaled' : 'scaling requested'} to ${result.instanceSize}${disk}`));
+        }
+      });
+    });
+
+  clusters
+    .command('pause-all')
+    .description('Pause every running dedicated cluster that is not excluded, e.g. non-prod clusters overnight')
+    .option('--match <patterns...>', 'Name globs or /regex/ to include')
+    .option('--exclude <patterns...>', 'Name globs or /regex/ to keep running', DEFAULT_PAUSE_EXCLUDE)
+    .option('--older-than <duration>', 'Only clusters created before this age (e.g. 14d, 12h)')
+    .option('--org <orgId>', 'Limit to one organization')
+    .option('-y, --yes', 'Confirm pausing')
+    .option('--json', 'Output as JSON')
+    .action(async (options: PauseAllOptions) => {
+      let summary: BulkPauseSummary | undefined;
+
+      await runScripted(options, async () => {
+        requireCredentials();
+        const filter: ResourceFilter = { match: options.match, exclude: options.exclude, olderThan: options.olderThan };
+        if (filter.olderThan) {
+          try {
+            parseDuration(filter.olderThan);
+          } catch (error: any) {
+            throw new CliError(error.message, ExitCode.Usage);
+          }
+        }
+
+        const candidates = await selectPausableClusters(filter, options.org);
+        printPausePreview(candidates, describeFilter(filter));
+
+        if (candidates.length > 0) {
+          requireConfirmation(options, `pause ${candidates.length} clusters`);
+        }
+        summary = await pauseClusters(candidates);
+        return summary;
+      }, (result) => {
+        result.failed.forEach(failure => console.log(chalk.red(`❌ Failed to pause ${failure.name}: ${failure.error}`)));
+        if (isLive()) {
+          console.log(chalk.green(`✅ Pause requested for ${result.paused.length}/${result.matched}`));
+        }
+      });
+
+      if (summary && summary.failed.length > 0) {
+        process.exitCode = ExitCode.Failure;
+      }
+    });
+
+  const backups = mongodb
+    .command('backups')
+    .description('List, take and restore cloud backup snapshots without prompts');
+
+  addRenderOptions(backups.command('list <projectId> <clusterName>'))
+    .description('List the backup snapshots of a cluster')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (projectId: string, clusterName: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().getBackupSnapshots(projectId, clusterName), (result) => {
+        renderList(result, SNAPSHOT_VIEW, options, '📭 No backup snapshots found for this cluster');
+      });
+    });
+
+  backups
+    .command('take <projectId> <clusterName>')
+    .description('Take an on-demand snapshot')
+    .option('--retention <days>', 'Days to keep the snapshot', String(DEFAULT_RETENTION_DAYS))
+    .option('--description <text>', 'Snapshot description')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, clusterName: string, options: SnapshotTakeOptions) => {
+      await runScripted(options, async () => {
+        const retentionInDays = parseRetention(options.retention);
+        const mongodb = createService();
+        requireCloudBackup(await mongodb.getCluster(projectId, clusterName));
+        const description = options.description || `On-demand snapshot ${new Date().toISOString().slice(0, 10)}`;
+        return takeSnapshot(mongodb, projectId, clusterName, retentionInDays, description);
+      }, (snapshot) => {
+        console.log(chalk.green(`✅ Snapshot ${snapshot.id} requested (${snapshot.status || 'queued'})`));
+        if (snapshot.expiresAt) {
+          console.log(`Expires: ${snapshot.expiresAt}`);
+        }
+      });
+    });
+
+  backups
+    .command('restore <projectId> <clusterName> <snapshotId>')
+    .description('Restore a snapshot into the same cluster or another one, replacing its data')
+    .option('--target-project <projectId>', 'Project of the target cluster (default: the source project)')
+    .option('--target-cluster <clusterName>', 'Cluster to restore into (default: the source cluster)')
+    .option('--no-wait', 'Return once the restore job has started')
+    .option('-y, --yes', 'Confirm the restore')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, clusterName: string, snapshotId: string, options: RestoreOptions) => {
+      await runScripted(options, async () => {
+        const targetProjectId = options.targetProject || projectId;
+        const targetClusterName = options.targetCluster || clusterName;
+        const mongodb = createService();
+        const snapshot = await mongodb.getBackupSnapshot(projectId, clusterName, snapshotId);
+        if (snapshot.status !== 'completed') {
+          throw new CliError(`Snapshot ${snapshotId} is ${snapshot.status}; only completed snapshots can be restored`, ExitCode.Usage);
+        }
+        validateRestoreTarget(await mongodb.getCluster(targetProjectId, targetClusterName));
+        requireConfirmation(options, `overwrite cluster ${targetClusterName} with snapshot ${snapshotId}`);
+
+        const { applied, result: job } = await runMutation('mongodb.restoreSnapshot', { projectId, clusterName, snapshotId, targetProjectId, targetClusterName });
+        if (!applied) {
+          return { success: true, applied, projectId, clusterName, snapshotId, targetProjectId, targetClusterName };
+        }
+        const finished = options.wait
+          ? await waitForRestoreJob(mongodb, projectId, clusterName, job.id, (_job, elapsed) => {
+            console.error(chalk.gray(`Restore job ${job.id} running for ${formatElapsed(elapsed)}...`));
+          })
+          : job;
+        return { success: true, applied, projectId, clusterName, snapshotId, targetProjectId, targetClusterName, jobId: job.id, state: restoreJobState(finished) };
+      }, (result) => {
+        if (!result.applied) return;
+        console.log(result.state === 'completed'
+          ? chalk.green(`✅ ${result.targetClusterName} restored from snapshot ${result.snapshotId}`)
+          : chalk.green(`✅ Restore job ${result.jobId} started; follow it with "mongodb backups jobs ${result.projectId} ${result.clusterName}"`));
+      });
+    });
+
+  addRenderOptions(backups.command('jobs <projectId> <clusterName>'))
+    .description('List the restore jobs of a cluster')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (projectId: string, clusterName: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().getRestoreJobs(projectId, clusterName), (result) => {
+        renderList(result, RESTORE_JOB_VIEW, options, '📭 No restore jobs found for this cluster');
+      });
+    });
+
+  const users = mongodb
+    .command('users')
+    .description('Manage database users of a project without prompts');
+
+  const addRoleOptions = (command: Command) => command
+    .option('--role <preset>', 'Role preset: readWrite, readAnyDatabase or atlasAdmin')
+    .option('--db <database>', 'Database for the readWrite preset')
+    .option('--roles <roles>', 'Explicit roles instead of a preset, e.g. "readWrite@app,read@reporting"');
+
+  addRenderOptions(users.command('list <projectId>'))
+    .description('List database users with their roles and scopes')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (projectId: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().getDatabaseUsers(projectId), (result) => {
+        renderList(result, DATABASE_USER_VIEW, options, '📭 No database users found in this project');
+      });
+    });
+
+  addRoleOptions(users.command('create <projectId> <username>'))
+    .description('Create a database user with a generated password')
+    .option('--clusters <names...>', 'Limit the user to these clusters')
+    .option('--reveal', 'Print the password instead of masking it')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, username: string, options: UserCreateOptions) => {
+      await runScripted(options, async () => {
+        const roles = resolveRoles(options);
+        const scopes = (options.clusters || []).map(name => ({ name, type: 'CLUSTER' as const }));
+        requirePasswordKept(options.reveal);
+        requireCredentials();
+        const result = await createDatabaseUser(projectId, username, roles, scopes);
+        if (!result.applied) {
+          return { success: true, ...result, roles, scopes };
+        }
+        return { success: true, ...result, roles, scopes, password: options.reveal ? result.password : maskSecret(result.password!) };
+      }, (result) => {
+        if (!result.applied) return;
+        console.log(chalk.green(`✅ Database user ${result.username} created with ${formatRoles(result.roles)}`));
+        console.log(`Password: ${result.password}`);
+        if (result.vaultSecret) {
+          console.log(chalk.gray(`Stored in the vault as ${result.vaultSecret}`));
+        }
+      });
+    });
+
+  addRoleOptions(users.command('set-roles <projectId> <username>'))
+    .description('Replace the roles of a database user')
+    .option('-y, --yes', 'Confirm the change')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, username: string, options: ScriptedOptions & RoleFlags) => {
+      await runScripted(options, async () => {
+        const roles = resolveRoles(options);
+        requireConfirmation(options, `change the roles of ${username}`);
+        requireCredentials();
+        const { applied } = await runMutation('mongodb.updateDatabaseUserRoles', { projectId, username, roles });
+        return { success: true, applied, username, roles };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Roles of ${result.username} set to ${formatRoles(result.roles)}`));
+        }
+      });
+    });
+
+  users
+    .command('rotate-password <projectId> <username>')
+    .description('Replace the password of a database user with a generated one')
+    .option('-y, --yes', 'Confirm invalidating the current password')
+    .option('--reveal', 'Print the new password instead of masking it')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, username: string, options: ScriptedOptions & { reveal?: boolean }) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `rotate the password of ${username}`);
+        requireCredentials();
+        requirePasswordKept(options.reveal);
+        const { applied, result } = await runMutation('mongodb.rotateDatabaseUserPassword', { projectId, username });
+        if (!applied) {
+          return { success: true, applied };
+        }
+        const vaultSecret = storeUserPassword(projectId, username, result.password);
+        return { success: true, applied, username, password: options.reveal ? result.password : maskSecret(result.password), vaultSecret };
+      }, (result) => {
+        if (!result.applied) return;
+        console.log(chalk.green(`✅ Password of ${result.username} rotated`));
+        console.log(`New password: ${result.password}`);
+        if (result.vaultSecret) {
+          console.log(chalk.gray(`Stored in the vault as ${result.vaultSecret}`));
+        }
+      });
+    });
+
+  users
+    .command('delete <projectId> <username>')
+    .description('Delete a database user')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, username: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete database user ${username}`);
+        requireCredentials();
+        const { applied } = await runMutation('mongodb.deleteDatabaseUser', { projectId, username });
+        return { success: true, applied, projectId, username };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Database user ${result.username} deleted`));
+        }
+      });
+    });
+
+  const accessList = mongodb
+    .command('access-list')
+    .description('Manage the IP access list of a project without prompts');
+
+  addRenderOptions(accessList.command('list <projectId>'))
+    .description('List access list entries with their comments and expiries')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (projectId: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().getAccessList(projectId), (result) => {
+        renderList(result, ACCESS_LIST_VIEW, options, '📭 The access list is empty');
+      });
+    });
+
+  accessList
+    .command('add <projectId> <entry>')
+    .description('Allow an IP address or CIDR block')
+    .option('--comment <text>', 'Comment shown next to the entry')
+    .option('--expires <when>', 'Remove the entry after a duration such as 8h or 3d, or at an ISO date (at most a week ahead)')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, value: string, options: AccessAddOptions) => {
+      await runScripted(options, async () => {
+        const entry = {
+          ...parseAccessEntry(value),
+          ...(options.comment ? { comment: options.comment } : {}),
+          ...(options.expires ? { deleteAfterDate: parseExpiry(options.expires) } : {})
+        };
+        requireCredentials();
+        return { success: true, projectId, ...(await addAccessEntry(projectId, entry)) };
+      }, printAccessAdded);
+    });
+
+  accessList
+    .command('add-my-ip <projectId>')
+    .description('Allow the public IP of this machine, for one hour by default')
+    .option('--comment <text>', 'Comment shown next to the entry')
+    .option('--expires <when>', 'Remove the entry after a duration or at an ISO date', '1h')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, options: AccessAddOptions) => {
+      await runScripted(options, async () => {
+        requireCredentials();
+        const ip = await detectPublicIp();
+        const entry = { ipAddress: ip, comment: options.comment || `Temporary access for ${ip}`, deleteAfterDate: parseExpiry(options.expires || '1h') };
+        return { success: true, projectId, ...(await addAccessEntry(projectId, entry)) };
+      }, printAccessAdded);
+    });
+
+  accessList
+    .command('remove <projectId> <entries...>')
+    .description('Remove IP addresses or CIDR blocks from the access list')
+    .option('-y, --yes', 'Confirm the removal')
+    .option('--json', 'Output as JSON')
+    .action(async (projectId: string, entries: string[], options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `remove ${entries.join(', ')} from the access list`);
+        requireCredentials();
+        const removed: string[] = [];
+        for (const entry of entries) {
+          const { applied } = await runMutation('mongodb.deleteAccessListEntry', { projectId, entry });
+          if (applied) removed.push(entry);
+        }
+        return { success: true, projectId, removed };
+      }, (result) => {
+        if (result.removed.length > 0) {
+          console.log(chalk.green(`✅ Removed ${result.removed.join(', ')}`));
+        }
+      });
+    });
+
+  accessList
+    .command('audit')
+    .description('Find access list entries open to the whole internet in every project')
+    .option('--org <orgId>', 'Only audit the projects of one organization')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ScriptedOptions & { org?: string }) => {
+      await runScripted(options, () => findOpenAccess(createService(), options.org), (audit) => {
+        audit.unreadable.forEach(({ projectName, error }) => {
+          console.log(chalk.yellow(`⚠️  Could not read the access list of ${projectName}: ${error}`));
+        });
+        if (audit.open.length === 0) {
+          console.log(chalk.green(`✅ None of the ${audit.projectsChecked} projects is open to the whole internet`));
+          return;
+        }
+        console.log(chalk.red(`🚨 ${audit.open.length} open-to-world entries in ${audit.projectsChecked} projects:`));
+        audit.open.forEach(finding => {
+          console.log(`${finding.projectName} (${finding.projectId}): ${finding.entry}${finding.comment ? chalk.gray(` ${finding.comment}`) : ''}`);
+        });
+      });
+    });
+}
+
+function printAccessAdded(result: any): void {
+  if (!result.applied) return;
+  console.log(chalk.green(`✅ Added ${entryValue(result)} to the access list of ${result.projectId}`));
+  if (result.deleteAfterDate) {
+    console.log(`Expires: ${result.deleteAfterDate}`);
+  }
+}
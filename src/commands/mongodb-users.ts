@@ -0,0 +1,335 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { DatabaseUserRole, DatabaseUserScope, MongoDBService } from '../services/mongodb.js';
+import { runMutation } from './mutations.js';
+import { PickerRow, pickOne } from './picker.js';
+import { CliError, ExitCode } from '../utils/output.js';
+import { isVaultUnlocked, maskSecret, setSecret } from '../utils/vault.js';
+import { isLive } from '../utils/runtime.js';
+
+// Role presets offered when creating a user or replacing its roles
+export const ROLE_PRESETS: Record<string, string> = {
+  readWrite: 'Read and write one database',
+  readAnyDatabase: 'Read every database',
+  atlasAdmin: 'Atlas admin (every privilege)'
+};
+
+export interface RoleFlags {
+  role?: string;
+  db?: string;
+  roles?: string;
+}
+
+export function presetRoles(preset: string, databaseName?: string): DatabaseUserRole[] {
+  if (!ROLE_PRESETS[preset]) {
+    throw new CliError(`Unknown role preset "${preset}". Use one of: ${Object.keys(ROLE_PRESETS).join(', ')}`, ExitCode.Usage);
+  }
+  if (preset === 'readWrite') {
+    if (!databaseName) {
+      throw new CliError('The readWrite preset needs a database; pass --db', ExitCode.Usage);
+    }
+    return [{ roleName: 'readWrite', databaseName }];
+  }
+  return [{ roleName: preset, databaseName: 'admin' }];
+}
+
+// "readWrite@app, read@reporting.orders" → one role per entry, optionally limited to a collection
+export function parseRoles(text: string): DatabaseUserRole[] {
+  const roles = text.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const match = entry.match(/^([\w-]+)@([^.\s]+)(?:\.(\S+))?$/);
+    if (!match) {
+      throw new CliError(`Invalid role "${entry}". Use role@database or role@database.collection`, ExitCode.Usage);
+    }
+    const [, roleName, databaseName, collectionName] = match;
+    return collectionName ? { roleName, databaseName, collectionName } : { roleName, databaseName };
+  });
+  if (roles.length === 0) {
+    throw new CliError('At least one role is required', ExitCode.Usage);
+  }
+  return roles;
+}
+
+export function resolveRoles(flags: RoleFlags): DatabaseUserRole[] {
+  if (flags.roles && flags.role) {
+    throw new CliError('Pass either --role or --roles, not both', ExitCode.Usage);
+  }
+  if (flags.roles) {
+    return parseRoles(flags.roles);
+  }
+  if (flags.role) {
+    return presetRoles(flags.role, flags.db);
+  }
+  throw new CliError('A role is required; pass --role with a preset or --roles', ExitCode.Usage);
+}
+
+export function formatRoles(roles: DatabaseUserRole[] = []): string {
+  return roles
+    .map(role => `${role.roleName}@${role.databaseName}${role.collectionName ? `.${role.collectionName}` : ''}`)
+    .join(', ');
+}
+
+export function formatScopes(scopes: DatabaseUserScope[] = []): string {
+  return scopes.length === 0 ? 'all clusters' : scopes.map(scope => scope.name).join(', ');
+}
+
+// Vault name under which a generated password is kept, when the vault is unlocked
+export function storeUserPassword(projectId: string, username: string, password: string): string | undefined {
+  if (!isVaultUnlocked()) {
+    return undefined;
+  }
+  const name = `mongodb/${projectId}/${username}/PASSWORD`;
+  setSecret(name, password);
+  return name;
+}
+
+/**
+ * Scripted commands print generated passwords masked, so with a locked vault
+ * the password would be lost (and for a rotation, the old one is already
+ * invalid). Refuses before anything changes unless --reveal prints it.
+ */
+export function requirePasswordKept(reveal?: boolean): void {
+  if (isLive() && !reveal && !isVaultUnlocked()) {
+    throw new CliError('The secrets vault is not unlocked, so the generated password would not be stored anywhere. Set GEENIUS_VAULT_KEY to unlock it, or pass --reveal to print the password', ExitCode.Usage);
+  }
+}
+
+/**
+ * Creates a password user with a generated password. Creation goes through
+ * runMutation, so --dry-run and --plan only preview it; the password itself
+ * never reaches the audit log or a plan file.
+ */
+export async function createDatabaseUser(
+  projectId: string,
+  username: string,
+  roles: DatabaseUserRole[],
+  scopes: DatabaseUserScope[] = [],
+  spinner?: Ora
+): Promise<{ applied: boolean; username: string; password?: string; vaultSecret?: string }> {
+  const { applied, result } = await runMutation('mongodb.createDatabaseUser', { projectId, username, roles, scopes }, spinner);
+  if (!applied) {
+    return { applied, username };
+  }
+  return { applied, username, password: result.password, vaultSecret: storeUserPassword(projectId, username, result.password) };
+}
+
+function userRow(user: any): PickerRow {
+  return { name: user.username, details: [formatRoles(user.roles), formatScopes(user.scopes)] };
+}
+
+async function promptRoles(): Promise<DatabaseUserRole[]> {
+  const { preset } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'preset',
+      message: 'Roles:',
+      choices: [
+        ...Object.entries(ROLE_PRESETS).map(([value, name]) => ({ name: `${name} (${value})`, value })),
+        { name: 'Custom (role@database, ...)', value: 'custom' }
+      ]
+    }
+  ]);
+
+  if (preset === 'custom') {
+    const { roles } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'roles',
+        message: 'Roles, e.g. readWrite@app, read@reporting:',
+        validate: (input: string) => {
+          try {
+            parseRoles(input);
+            return true;
+          } catch (error: any) {
+            return error.message;
+          }
+        }
+      }
+    ]);
+    return parseRoles(roles);
+  }
+
+  if (preset === 'readWrite') {
+    const { databaseName } = await inquirer.prompt([
+      { type: 'input', name: 'databaseName', message: 'Database name:', validate: (input: string) => input.trim() ? true : 'Database name is required' }
+    ]);
+    return presetRoles(preset, databaseName.trim());
+  }
+  return presetRoles(preset);
+}
+
+export async function showPassword(password: string, vaultSecret?: string): Promise<void> {
+  if (vaultSecret) {
+    console.log(chalk.gray(`   Stored in the vault as ${vaultSecret}`));
+  }
+  const { reveal } = await inquirer.prompt([
+    { type: 'confirm', name: 'reveal', message: 'Show the password?', default: false }
+  ]);
+  console.log(`   Password: ${reveal ? password : maskSecret(password)}`);
+}
+
+async function listUsers(mongodb: MongoDBService, project: any): Promise<void> {
+  const spinner = ora('Loading database users...').start();
+
+  try {
+    const users = await mongodb.getDatabaseUsers(project.id);
+    spinner.stop();
+
+    if (users.length === 0) {
+      console.log(chalk.yellow('📭 No database users found in this project'));
+      return;
+    }
+
+    console.log(chalk.green(`\n📋 Found ${users.length} database users in ${project.name}:\n`));
+
+    users.forEach((user, index) => {
+      console.log(chalk.blue(`${index + 1}. ${user.username}`));
+      console.log(chalk.gray(`   Roles: ${formatRoles(user.roles) || 'none'}`));
+      console.log(chalk.gray(`   Scopes: ${formatScopes(user.scopes)}`));
+      if (user.deleteAfterDate) {
+        console.log(chalk.gray(`   Expires: ${new Date(user.deleteAfterDate).toLocaleString()}`));
+      }
+      console.log();
+    });
+  } catch (error: any) {
+    spinner.fail('Failed to load database users');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function createUser(mongodb: MongoDBService, project: any): Promise<void> {
+  try {
+    const { username } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'username',
+        message: 'Username:',
+        validate: (input: string) => /^[\w.@-]+$/.test(input.trim()) || 'Use letters, digits, dots, dashes, underscores or @'
+      }
+    ]);
+    const roles = await promptRoles();
+
+    let scopes: DatabaseUserScope[] = [];
+    const clusters = await mongodb.getClusters(project.id);
+    if (clusters.length > 1) {
+      const { clusterNames } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'clusterNames',
+          message: 'Limit the user to these clusters (select none for all):',
+          choices: clusters.map(cluster => cluster.name)
+        }
+      ]);
+      scopes = clusterNames.map((name: string) => ({ name, type: 'CLUSTER' }));
+    }
+
+    const spinner = ora(`Creating database user ${username.trim()}...`).start();
+    try {
+      const { applied, password, vaultSecret } = await createDatabaseUser(project.id, username.trim(), roles, scopes, spinner);
+      if (!applied) return;
+      spinner.succeed(chalk.green(`Database user ${username.trim()} created with ${formatRoles(roles)}`));
+      await showPassword(password!, vaultSecret);
+    } catch (error: any) {
+      spinner.fail('Failed to create database user');
+      console.log(chalk.red(`Error: ${error.message}`));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+async function editUser(mongodb: MongoDBService, project: any, action: 'roles' | 'delete' | 'rotate'): Promise<void> {
+  const spinner = ora('Loading database users...').start();
+
+  try {
+    const users = await mongodb.getDatabaseUsers(project.id);
+    spinner.stop();
+
+    if (users.length === 0) {
+      console.log(chalk.yellow('📭 No database users found in this project'));
+      return;
+    }
+
+    const user = await pickOne('Select a database user:', users, userRow);
+    const args = { projectId: project.id, username: user.username };
+
+    let roles: DatabaseUserRole[] = [];
+    if (action === 'roles') {
+      console.log(chalk.gray(`Current roles: ${formatRoles(user.roles) || 'none'}`));
+      roles = await promptRoles();
+    } else {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: action === 'delete'
+            ? `Delete database user ${user.username}? Applications using it will lose access.`
+            : `Rotate the password of ${user.username}? The current password stops working immediately.`,
+          default: false
+        }
+      ]);
+      if (!confirm) return;
+    }
+
+    const mutationSpinner = ora(`Updating database user ${user.username}...`).start();
+    try {
+      if (action === 'roles') {
+        const { applied } = await runMutation('mongodb.updateDatabaseUserRoles', { ...args, roles }, mutationSpinner);
+        if (applied) {
+          mutationSpinner.succeed(chalk.green(`Roles of ${user.username} set to ${formatRoles(roles)}`));
+        }
+      } else if (action === 'delete') {
+        const { applied } = await runMutation('mongodb.deleteDatabaseUser', args, mutationSpinner);
+        if (applied) {
+          mutationSpinner.succeed(chalk.green(`Database user ${user.username} deleted`));
+        }
+      } else {
+        const { applied, result } = await runMutation('mongodb.rotateDatabaseUserPassword', args, mutationSpinner);
+        if (!applied) return;
+        mutationSpinner.succeed(chalk.green(`Password of ${user.username} rotated`));
+        await showPassword(result.password, storeUserPassword(project.id, user.username, result.password));
+        console.log(chalk.yellow('⚠️  Please update your applications with the new password'));
+      }
+    } catch (error: any) {
+      mutationSpinner.fail(`Failed to update database user ${user.username}`);
+      console.log(chalk.red(`Error: ${error.message}`));
+    }
+  } catch (error: any) {
+    spinner.fail('Failed to load database users');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
+export async function manageDatabaseUsers(mongodb: MongoDBService, project: any): Promise<void> {
+  while (true) {
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `Database users of ${project.name}:`,
+        choices: [
+          { name: '📋 List users', value: 'list' },
+          { name: '➕ Create a user', value: 'create' },
+          { name: '🎭 Edit roles', value: 'roles' },
+          { name: '🔑 Rotate password', value: 'rotate' },
+          { name: '🗑️  Delete a user', value: 'delete' },
+          { name: '🔙 Back', value: 'back' }
+        ]
+      }
+    ]);
+
+    if (action === 'back') return;
+
+    switch (action) {
+      case 'list':
+        await listUsers(mongodb, project);
+        break;
+      case 'create':
+        await createUser(mongodb, project);
+        break;
+      default:
+        await editUser(mongodb, project, action);
+        break;
+    }
+  }
+}
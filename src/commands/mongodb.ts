@@ -2,16 +2,23 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { MongoDBService } from '../services/mongodb.js';
-import { bulkDeleteTestProjects, bulkDeleteTestClusters } from './mongodb-bulk.js';
+import { bulkDeleteMenu } from './bulk-delete.js';
+import { auditOpenAccess, manageAccessList } from './mongodb-access-list.js';
+import { manageBackups, printBackupSummary } from './mongodb-backups.js';
+import { bulkPauseMenu, createClusterWizard, scaleClusterWizard, toggleClusterPause } from './mongodb-clusters.js';
+import { manageDatabaseUsers } from './mongodb-users.js';
+import { runMutation } from './mutations.js';
+import { PickerRow, pickOne } from './picker.js';
+import { describeCredentialSource, hasCredentials } from '../utils/credentials.js';
 
 export async function mongodbCommand(returnToMain?: () => Promise<void>): Promise<void> {
   console.log(chalk.blue.bold('\n🍃 MongoDB Atlas Management'));
   console.log(chalk.gray('Manage your MongoDB organizations, projects, and clusters'));
   console.log();
 
-  if (!process.env.MONGODB_ATLAS_PUBLIC_KEY || !process.env.MONGODB_ATLAS_PRIVATE_KEY) {
-    console.log(chalk.red('❌ MongoDB Atlas API keys are required'));
-    console.log(chalk.gray('Please set MONGODB_ATLAS_PUBLIC_KEY and MONGODB_ATLAS_PRIVATE_KEY in your environment variables'));
+  if (!hasCredentials('mongodb')) {
+    console.log(chalk.red(`❌ MongoDB Atlas API keys are required (checked the ${describeCredentialSource()})`));
+    console.log(chalk.gray('Please set MONGODB_ATLAS_PUBLIC_KEY and MONGODB_ATLAS_PRIVATE_KEY in your environment variables or profile'));
     return;
   }
 
@@ -66,6 +73,29 @@ export async function mongodbCommand(returnToMain?: () => Promise<void>): Promis
   }
 }
 
+function organizationRow(org: any): PickerRow {
+  return { name: org.name, details: [org.id] };
+}
+
+function projectRow(project: any): PickerRow {
+  return {
+    name: project.name,
+    details: [project.id, project.clusterCount !== undefined ? `${project.clusterCount} clusters` : undefined]
+  };
+}
+
+function clusterRow(cluster: any): PickerRow {
+  const regionConfig = cluster.replicationSpecs?.[0]?.regionConfigs?.[0];
+  return {
+    name: cluster.name,
+    details: [
+      cluster.paused ? 'PAUSED' : cluster.stateName,
+      regionConfig?.electableSpecs?.instanceSize || cluster.providerSettings?.instanceSizeName,
+      regionConfig?.regionName || cluster.providerSettings?.regionName
+    ]
+  };
+}
+
 async function manageOrganizations(mongodb: MongoDBService): Promise<void> {
   const { action } = await inquirer.prompt([
     {
@@ -75,6 +105,7 @@ async function manageOrganizations(mongodb: MongoDBService): Promise<void> {
       choices: [
         { name: '📋 List organizations', value: 'list' },
         { name: '🔍 View organization details', value: 'details' },
+        { name: '🚨 Audit open-to-world access', value: 'audit-access' },
         { name: '🔙 Back', value: 'back' }
       ]
     }
@@ -89,6 +120,9 @@ async function manageOrganizations(mongodb: MongoDBService): Promise<void> {
     case 'details':
       await viewOrganizationDetails(mongodb);
       break;
+    case 'audit-access':
+      await auditOrganizationAccess(mongodb);
+      break;
   }
 }
 
@@ -101,8 +135,10 @@ async function manageProjects(mongodb: MongoDBService): Promise<void> {
       choices: [
         { name: '📋 List projects', value: 'list' },
         { name: '🗑️  Delete a project', value: 'delete' },
-        { name: '🧹 Bulk delete test- projects', value: 'bulk-delete' },
+        { name: '🧹 Bulk delete projects (by pattern, age, state)', value: 'bulk-delete' },
         { name: '🔍 View project details', value: 'details' },
+        { name: '👤 Database users', value: 'users' },
+        { name: '🛡️  Access list', value: 'access-list' },
         { name: '🔙 Back', value: 'back' }
       ]
     }
@@ -118,11 +154,25 @@ async function manageProjects(mongodb: MongoDBService): Promise<void> {
       await deleteProject(mongodb);
       break;
     case 'bulk-delete':
-      await bulkDeleteTestProjects(mongodb);
+      await bulkDeleteMenu('mongodb-projects');
       break;
     case 'details':
       await viewProjectDetails(mongodb);
       break;
+    case 'users': {
+      const project = await selectProject(mongodb);
+      if (project) {
+        await manageDatabaseUsers(mongodb, project);
+      }
+      break;
+    }
+    case 'access-list': {
+      const project = await selectProject(mongodb);
+      if (project) {
+        await manageAccessList(mongodb, project);
+      }
+      break;
+    }
   }
 }
 
@@ -134,9 +184,14 @@ async function manageClusters(mongodb: MongoDBService): Promise<void> {
       message: 'Cluster management:',
       choices: [
         { name: '📋 List clusters', value: 'list' },
+        { name: '➕ Create a cluster', value: 'create' },
         { name: '🗑️  Delete a cluster', value: 'delete' },
-        { name: '🧹 Bulk delete test- clusters', value: 'bulk-delete' },
+        { name: '🧹 Bulk delete clusters (by pattern, age, state)', value: 'bulk-delete' },
         { name: '🔍 View cluster details', value: 'details' },
+        { name: '⏯️  Pause or resume a cluster', value: 'pause' },
+        { name: '📐 Scale a cluster', value: 'scale' },
+        { name: '💾 Backups and restores', value: 'backups' },
+        { name: '🌙 Pause all non-prod clusters', value: 'bulk-pause' },
         { name: '🔙 Back', value: 'back' }
       ]
     }
@@ -148,15 +203,95 @@ async function manageClusters(mongodb: MongoDBService): Promise<void> {
     case 'list':
       await listClusters(mongodb);
       break;
+    case 'create': {
+      const project = await selectProject(mongodb);
+      if (project) {
+        await createClusterWizard(mongodb, project);
+      }
+      break;
+    }
     case 'delete':
       await deleteCluster(mongodb);
       break;
     case 'bulk-delete':
-      await bulkDeleteTestClusters(mongodb);
+      await bulkDeleteMenu('mongodb-clusters');
       break;
     case 'details':
       await viewClusterDetails(mongodb);
       break;
+    case 'pause':
+    case 'scale': {
+      const selection = await selectCluster(mongodb);
+      if (selection) {
+        await (action === 'pause' ? toggleClusterPause : scaleClusterWizard)(mongodb, selection.project.id, selection.cluster);
+      }
+      break;
+    }
+    case 'backups': {
+      const selection = await selectCluster(mongodb);
+      if (selection) {
+        await manageBackups(mongodb, selection.project.id, selection.cluster);
+      }
+      break;
+    }
+    case 'bulk-pause':
+      await bulkPauseMenu();
+      break;
+  }
+}
+
+// Picks an organization and then one of its projects; undefined when there is nothing to pick
+async function selectProject(mongodb: MongoDBService): Promise<any | undefined> {
+  const spinner = ora('Loading organizations...').start();
+
+  try {
+    const organizations = await mongodb.getOrganizations();
+    spinner.stop();
+
+    if (organizations.length === 0) {
+      console.log(chalk.yellow('📭 No organizations found'));
+      return undefined;
+    }
+
+    const selectedOrg = await pickOne('Select an organization:', organizations, organizationRow);
+
+    spinner.start('Loading projects...');
+    const projects = await mongodb.getProjects(selectedOrg.id);
+    spinner.stop();
+
+    if (projects.length === 0) {
+      console.log(chalk.yellow('📭 No projects found in this organization'));
+      return undefined;
+    }
+
+    return await pickOne('Select a project:', projects, projectRow);
+  } catch (error: any) {
+    spinner.fail('Failed to load projects');
+    console.log(chalk.red(`Error: ${error.message}`));
+    return undefined;
+  }
+}
+
+async function selectCluster(mongodb: MongoDBService): Promise<{ project: any; cluster: any } | undefined> {
+  const project = await selectProject(mongodb);
+  if (!project) return undefined;
+
+  const spinner = ora('Loading clusters...').start();
+
+  try {
+    const clusters = await mongodb.getClusters(project.id);
+    spinner.stop();
+
+    if (clusters.length === 0) {
+      console.log(chalk.yellow('📭 No clusters found in this project'));
+      return undefined;
+    }
+
+    return { project, cluster: await pickOne('Select a cluster:', clusters, clusterRow) };
+  } catch (error: any) {
+    spinner.fail('Failed to load clusters');
+    console.log(chalk.red(`Error: ${error.message}`));
+    return undefined;
   }
 }
 
@@ -198,17 +333,7 @@ async function viewOrganizationDetails(mongodb: MongoDBService): Promise<void> {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization to view details:',
-        choices: organizations.map(org => ({
-          name: `${org.name} (${org.id})`,
-          value: org
-        }))
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization to view details:', organizations, organizationRow);
 
     const detailsSpinner = ora('Loading organization details...').start();
     
@@ -239,6 +364,26 @@ async function viewOrganizationDetails(mongodb: MongoDBService): Promise<void> {
   }
 }
 
+async function auditOrganizationAccess(mongodb: MongoDBService): Promise<void> {
+  const spinner = ora('Loading organizations...').start();
+  
+  try {
+    const organizations = await mongodb.getOrganizations();
+    spinner.stop();
+    
+    if (organizations.length === 0) {
+      console.log(chalk.yellow('📭 No organizations found'));
+      return;
+    }
+
+    const selectedOrg = await pickOne('Select an organization to audit:', organizations, organizationRow);
+    await auditOpenAccess(mongodb, selectedOrg);
+  } catch (error: any) {
+    spinner.fail('Failed to load organizations');
+    console.log(chalk.red(`Error: ${error.message}`));
+  }
+}
+
 async function listProjects(mongodb: MongoDBService): Promise<void> {
   const spinner = ora('Loading organizations...').start();
   
@@ -251,17 +396,7 @@ async function listProjects(mongodb: MongoDBService): Promise<void> {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization to list projects:',
-        choices: organizations.map(org => ({
-          name: `${org.name} (${org.id})`,
-          value: org
-        }))
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization to list projects:', organizations, organizationRow);
 
     const projectsSpinner = ora('Loading projects...').start();
     
@@ -304,17 +439,7 @@ async function deleteProject(mongodb: MongoDBService): Promise<void> {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization:',
-        choices: organizations.map(org => ({
-          name: `${org.name} (${org.id})`,
-          value: org
-        }))
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization:', organizations, organizationRow);
 
     const projectsSpinner = ora('Loading projects...').start();
     
@@ -327,17 +452,7 @@ async function deleteProject(mongodb: MongoDBService): Promise<void> {
         return;
       }
 
-      const { selectedProject } = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'selectedProject',
-          message: 'Select a project to delete:',
-          choices: projects.map(project => ({
-            name: `${project.name} (${project.id})`,
-            value: project
-          }))
-        }
-      ]);
+      const selectedProject = await pickOne('Select a project to delete:', projects, projectRow);
 
       console.log(chalk.red(`\n⚠️  DANGER: You are about to delete:`));
       console.log(chalk.red(`   Project: ${selectedProject.name}`));
@@ -373,82 +488,17 @@ async function deleteProject(mongodb: MongoDBService): Promise<void> {
       const deleteSpinner = ora(`Preparing to delete project ${selectedProject.name}...`).start();
       
       try {
-        // First, check for and delete all clusters in the project
-        deleteSpinner.text = `Checking clusters in ${selectedProject.name}...`;
-        const clusters = await mongodb.getClusters(selectedProject.id);
-        
-        let deletedClusterCount = 0;
-        
-        if (clusters.length > 0) {
-          deleteSpinner.text = `Deleting ${clusters.length} clusters in ${selectedProject.name}...`;
-          console.log(chalk.yellow(`\n🔄 Project has ${clusters.length} active clusters. Deleting them first...`));
-          
-          let clusterErrorsInProject = 0;
-          for (const cluster of clusters) {
-            try {
-              deleteSpinner.text = `Deleting cluster ${cluster.name}...`;
-              await mongodb.deleteCluster(selectedProject.id, cluster.name);
-              deletedClusterCount++;
-              console.log(chalk.green(`   ✅ Deleted cluster: ${cluster.name}`));
-            } catch (clusterError: any) {
-              clusterErrorsInProject++;
-              console.log(chalk.red(`   ❌ Failed to delete cluster ${cluster.name}: ${clusterError.message}`));
-            }
-          }
-          
-          // If any cluster deletion failed, abort project deletion
-          if (clusterErrorsInProject > 0) {
-            deleteSpinner.fail('Cannot delete project');
-            console.log(chalk.red(`\n❌ Cannot delete project: ${clusterErrorsInProject} clusters could not be deleted`));
-            console.log(chalk.yellow('Please manually delete the remaining clusters and try again.'));
-            return;
-          }
-          
-          // Wait for cluster deletions to complete and verify
-          deleteSpinner.text = `Waiting for cluster deletions to complete...`;
-          let retryCount = 0;
-          const maxRetries = 12; // 2 minutes max wait
-          
-          while (retryCount < maxRetries) {
-            await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
-            
-            try {
-              const remainingClusters = await mongodb.getClusters(selectedProject.id);
-              if (remainingClusters.length === 0) {
-                console.log(chalk.green(`   ✅ All clusters successfully deleted`));
-                break; // All clusters deleted
-              }
-              retryCount++;
-              deleteSpinner.text = `Waiting for ${remainingClusters.length} clusters to finish deletion... (${retryCount}/${maxRetries})`;
-            } catch (checkError: any) {
-              // If we can't check clusters, assume they might still be there
-              retryCount++;
-              deleteSpinner.text = `Waiting for cluster deletion confirmation... (${retryCount}/${maxRetries})`;
-            }
-          }
-          
-          // Final check - if clusters still exist after max retries, abort
-          try {
-            const finalCheck = await mongodb.getClusters(selectedProject.id);
-            if (finalCheck.length > 0) {
-              deleteSpinner.fail('Cannot delete project');
-              console.log(chalk.red(`\n❌ Cannot delete project: ${finalCheck.length} clusters still active after waiting`));
-              console.log(chalk.yellow('Please try again later or manually delete the remaining clusters.'));
-              return;
-            }
-          } catch (finalCheckError: any) {
-            // If we can't verify, proceed cautiously
-            console.log(chalk.yellow(`\n⚠️  Warning: Could not verify cluster deletion, attempting project deletion...`));
-          }
-        }
-        
-        // Now delete the project
-        deleteSpinner.text = `Deleting project ${selectedProject.name}...`;
-        await mongodb.deleteProject(selectedProject.id);
+        // Atlas refuses to delete projects with active clusters, so they are deleted and awaited first
+        const { applied, result } = await runMutation('mongodb.deleteProject', {
+          projectId: selectedProject.id,
+          name: selectedProject.name,
+          withClusters: true
+        }, deleteSpinner);
+        if (!applied) return;
+
         deleteSpinner.succeed(chalk.green(`Project ${selectedProject.name} deleted successfully`));
-        
-        if (deletedClusterCount > 0) {
-          console.log(chalk.green(`✅ Also deleted ${deletedClusterCount} clusters`));
+        if (result.deletedClusters.length > 0) {
+          console.log(chalk.green(`✅ Also deleted ${result.deletedClusters.length} clusters`));
         }
       } catch (error: any) {
         deleteSpinner.fail('Failed to delete project');
@@ -476,17 +526,7 @@ async function viewProjectDetails(mongodb: MongoDBService): Promise<void> {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization:',
-        choices: organizations.map(org => ({
-          name: `${org.name} (${org.id})`,
-          value: org
-        }))
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization:', organizations, organizationRow);
 
     const projectsSpinner = ora('Loading projects...').start();
     
@@ -499,17 +539,7 @@ async function viewProjectDetails(mongodb: MongoDBService): Promise<void> {
         return;
       }
 
-      const { selectedProject } = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'selectedProject',
-          message: 'Select a project to view details:',
-          choices: projects.map(project => ({
-            name: `${project.name} (${project.id})`,
-            value: project
-          }))
-        }
-      ]);
+      const selectedProject = await pickOne('Select a project to view details:', projects, projectRow);
 
       const detailsSpinner = ora('Loading project details...').start();
       
@@ -561,17 +591,7 @@ async function listClusters(mongodb: MongoDBService): Promise<void> {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization:',
-        choices: organizations.map(org => ({
-          name: `${org.name} (${org.id})`,
-          value: org
-        }))
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization:', organizations, organizationRow);
 
     const projectsSpinner = ora('Loading projects...').start();
     
@@ -584,17 +604,7 @@ async function listClusters(mongodb: MongoDBService): Promise<void> {
         return;
       }
 
-      const { selectedProject } = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'selectedProject',
-          message: 'Select a project to list clusters:',
-          choices: projects.map(project => ({
-            name: `${project.name} (${project.id})`,
-            value: project
-          }))
-        }
-      ]);
+      const selectedProject = await pickOne('Select a project to list clusters:', projects, projectRow);
 
       const clustersSpinner = ora('Loading clusters...').start();
       
@@ -645,17 +655,7 @@ async function deleteCluster(mongodb: MongoDBService): Promise<void> {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization:',
-        choices: organizations.map(org => ({
-          name: `${org.name} (${org.id})`,
-          value: org
-        }))
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization:', organizations, organizationRow);
 
     const projectsSpinner = ora('Loading projects...').start();
     
@@ -668,17 +668,7 @@ async function deleteCluster(mongodb: MongoDBService): Promise<void> {
         return;
       }
 
-      const { selectedProject } = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'selectedProject',
-          message: 'Select a project:',
-          choices: projects.map(project => ({
-            name: `${project.name} (${project.id})`,
-            value: project
-          }))
-        }
-      ]);
+      const selectedProject = await pickOne('Select a project:', projects, projectRow);
 
       const clustersSpinner = ora('Loading clusters...').start();
       
@@ -691,17 +681,7 @@ async function deleteCluster(mongodb: MongoDBService): Promise<void> {
           return;
         }
 
-        const { selectedCluster } = await inquirer.prompt([
-          {
-            type: 'list',
-            name: 'selectedCluster',
-            message: 'Select a cluster to delete:',
-            choices: clusters.map(cluster => ({
-              name: `${cluster.name} (${cluster.stateName})`,
-              value: cluster
-            }))
-          }
-        ]);
+        const selectedCluster = await pickOne('Select a cluster to delete:', clusters, clusterRow);
 
         console.log(chalk.red(`\n⚠️  DANGER: You are about to delete:`));
         console.log(chalk.red(`   Cluster: ${selectedCluster.name}`));
@@ -737,8 +717,10 @@ async function deleteCluster(mongodb: MongoDBService): Promise<void> {
         const deleteSpinner = ora(`Deleting cluster ${selectedCluster.name}...`).start();
         
         try {
-          await mongodb.deleteCluster(selectedProject.id, selectedCluster.name);
-          deleteSpinner.succeed(chalk.green(`Cluster ${selectedCluster.name} deleted successfully`));
+          const { applied } = await runMutation('mongodb.deleteCluster', { projectId: selectedProject.id, clusterName: selectedCluster.name }, deleteSpinner);
+          if (applied) {
+            deleteSpinner.succeed(chalk.green(`Cluster ${selectedCluster.name} deleted successfully`));
+          }
         } catch (error: any) {
           deleteSpinner.fail('Failed to delete cluster');
           console.log(chalk.red(`Error: ${error.message}`));
@@ -770,17 +752,7 @@ async function viewClusterDetails(mongodb: MongoDBService): Promise<void> {
       return;
     }
 
-    const { selectedOrg } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedOrg',
-        message: 'Select an organization:',
-        choices: organizations.map(org => ({
-          name: `${org.name} (${org.id})`,
-          value: org
-        }))
-      }
-    ]);
+    const selectedOrg = await pickOne('Select an organization:', organizations, organizationRow);
 
     const projectsSpinner = ora('Loading projects...').start();
     
@@ -793,17 +765,7 @@ async function viewClusterDetails(mongodb: MongoDBService): Promise<void> {
         return;
       }
 
-      const { selectedProject } = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'selectedProject',
-          message: 'Select a project:',
-          choices: projects.map(project => ({
-            name: `${project.name} (${project.id})`,
-            value: project
-          }))
-        }
-      ]);
+      const selectedProject = await pickOne('Select a project:', projects, projectRow);
 
       const clustersSpinner = ora('Loading clusters...').start();
       
@@ -816,17 +778,7 @@ async function viewClusterDetails(mongodb: MongoDBService): Promise<void> {
           return;
         }
 
-        const { selectedCluster } = await inquirer.prompt([
-          {
-            type: 'list',
-            name: 'selectedCluster',
-            message: 'Select a cluster to view details:',
-            choices: clusters.map(cluster => ({
-              name: `${cluster.name} (${cluster.stateName})`,
-              value: cluster
-            }))
-          }
-        ]);
+        const selectedCluster = await pickOne('Select a cluster to view details:', clusters, clusterRow);
 
         console.log(chalk.blue(`\n📋 Cluster Details: ${selectedCluster.name}\n`));
         console.log(chalk.gray(`State: ${selectedCluster.stateName}`));
@@ -845,6 +797,9 @@ async function viewClusterDetails(mongodb: MongoDBService): Promise<void> {
             console.log(chalk.gray(`Standard SRV: ${selectedCluster.connectionStrings.standardSrv}`));
           }
         }
+
+        console.log(chalk.blue(`\n💾 Backups:\n`));
+        await printBackupSummary(mongodb, selectedProject.id, selectedCluster);
       } catch (error: any) {
         clustersSpinner.fail('Failed to load clusters');
         console.log(chalk.red(`Error: ${error.message}`));
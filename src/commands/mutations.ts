@@ -0,0 +1,480 @@
+import fs from 'fs';
+import chalk from 'chalk';
+import type { Ora } from 'ora';
+import { GitHubService } from '../services/github.js';
+import { GitHubBackupService } from '../services/github-backup.js';
+import { NetlifyService } from '../services/netlify.js';
+import { AccessListEntry, ClusterSpec, MongoDBService } from '../services/mongodb.js';
+import { UpstashService } from '../services/upstash.js';
+import { connectRedisDatabase } from '../services/upstash-redis.js';
+import { connectQStash } from '../services/qstash.js';
+import { connectVectorIndex } from '../services/upstash-vector.js';
+import { deleteProjectWithClusters } from './mongodb-bulk.js';
+import { getRuntime } from '../utils/runtime.js';
+import { audited } from '../utils/audit.js';
+import { showWaitsIn } from '../utils/http.js';
+import { CliError, ExitCode } from '../utils/output.js';
+
+type MutationArgs = Record<string, any>;
+
+interface MutationDefinition {
+  describe: (args: MutationArgs) => string;
+  target: (args: MutationArgs) => { id?: string; name?: string };
+  // Fields of the target that must be unchanged for a planned mutation to still apply
+  snapshot: (args: MutationArgs) => Promise<Record<string, unknown>>;
+  execute: (args: MutationArgs, onProgress: (message: string) => void) => Promise<any>;
+}
+
+function pick(source: any, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.map(key => [key, source?.[key] ?? null]));
+}
+
+const REPOSITORY_FIELDS = ['id', 'full_name', 'archived', 'pushed_at'];
+const DATABASE_USER_FIELDS = ['username', 'roles', 'scopes'];
+const REDIS_FIELDS = ['database_id', 'database_name', 'state'];
+const SCHEDULE_FIELDS = ['scheduleId', 'destination', 'cron', 'isPaused'];
+const DLQ_FIELDS = ['dlqId', 'messageId', 'url', 'topicName'];
+const WORKFLOW_RUN_FIELDS = ['workflowRunId', 'workflowUrl', 'workflowState'];
+
+// A key that was deleted or recreated with another type since planning shows up as drift
+async function redisKeySnapshot({ databaseId, key }: MutationArgs): Promise<Record<string, unknown>> {
+  const [info] = await (await connectRedisDatabase(databaseId)).describeKeys([key]);
+  return { key, type: info.type };
+}
+
+/**
+ * Every destructive operation the CLI can perform, plus the Atlas creates that
+ * bill for a cluster or grant access to one. Commands never call these
+ * service methods directly; they go through runMutation so that --dry-run and
+ * --plan apply everywhere and plan files can be replayed by `apply`.
+ */
+export const MUTATIONS = {
+  'github.deleteRepository': {
+    describe: ({ owner, repo, backupDir }) =>
+      `delete GitHub repository ${owner}/${repo}${backupDir ? ` after backing it up to ${backupDir}` : ''}`,
+    target: ({ owner, repo }) => ({ id: `${owner}/${repo}`, name: repo }),
+    snapshot: async ({ owner, repo }) => pick(await new GitHubService().getRepository(owner, repo), REPOSITORY_FIELDS),
+    execute: async ({ owner, repo, backupDir }, onProgress) => {
+      // A failed backup throws before anything is deleted
+      const archive = backupDir
+        ? await new GitHubBackupService().backupRepository(owner, repo, backupDir, onProgress)
+        : undefined;
+      await new GitHubService().deleteRepository(owner, repo);
+      return { archive };
+    }
+  },
+  'github.renameRepository': {
+    describe: ({ owner, repo, newName }) => `rename GitHub repository ${owner}/${repo} to ${newName}`,
+    target: ({ owner, repo }) => ({ id: `${owner}/${repo}`, name: repo }),
+    snapshot: async ({ owner, repo }) => pick(await new GitHubService().getRepository(owner, repo), REPOSITORY_FIELDS),
+    execute: ({ owner, repo, newName }) => new GitHubService().renameRepository(owner, repo, newName)
+  },
+  'github.restoreRepository': {
+    describe: ({ archive, source, owner, name, counts }) =>
+      `create GitHub repository ${owner}/${name} from the backup of ${source} in ${archive}, with ${counts.issues} issues, ` +
+      `${counts.pulls} pull requests, ${counts.comments} comments, ${counts.releases} releases and ${counts.labels} labels`,
+    target: ({ owner, name }) => ({ id: `${owner}/${name}`, name }),
+    // A repository created under the name since planning would make the restore fail halfway
+    snapshot: async ({ owner, name }) => ({ fullName: `${owner}/${name}`, available: await new GitHubService().isRepoNameAvailable(owner, name) }),
+    execute: ({ archive, owner, name }, onProgress) => new GitHubBackupService().restoreRepository(archive, { owner, name }, onProgress)
+  },
+  'github.deleteDeployKey': {
+    describe: ({ owner, repo, keyId, title }) => `delete deploy key ${title || keyId} of GitHub repository ${owner}/${repo}`,
+    target: ({ owner, repo, keyId, title }) => ({ id: `${owner}/${repo}/${keyId}`, name: title }),
+    snapshot: async ({ owner, repo, keyId }) =>
+      pick((await new GitHubService().listDeployKeys(owner, repo)).find(key => key.id === keyId), ['id', 'title', 'read_only']),
+    execute: ({ owner, repo, keyId }) => new GitHubService().deleteDeployKey(owner, repo, keyId)
+  },
+  'netlify.deleteSite': {
+    describe: ({ siteId, name }) => `delete Netlify site ${name || siteId}`,
+    target: ({ siteId, name }) => ({ id: siteId, name }),
+    snapshot: async ({ siteId }) => pick(await new NetlifyService().getSiteInfo(siteId), ['id', 'name', 'updated_at']),
+    execute: ({ siteId }) => new NetlifyService().deleteSite(siteId)
+  },
+  'netlify.renameSite': {
+    describe: ({ siteId, name, newName }) => `rename Netlify site ${name || siteId} to ${newName}`,
+    target: ({ siteId, name }) => ({ id: siteId, name }),
+    snapshot: async ({ siteId }) => pick(await new NetlifyService().getSiteInfo(siteId), ['id', 'name']),
+    execute: ({ siteId, newName }) => new NetlifyService().updateSite(siteId, { name: newName })
+  },
+  'netlify.deleteDeployment': {
+    describe: ({ siteId, deployId, name }) => `delete deploy ${deployId} of Netlify site ${name || siteId}`,
+    target: ({ deployId }) => ({ id: deployId }),
+    snapshot: async ({ siteId, deployId }) =>
+      pick((await new NetlifyService().listDeployments(siteId)).find((deploy: any) => deploy.id === deployId), ['id', 'state', 'branch']),
+    execute: ({ siteId, deployId }) => new NetlifyService().deleteDeployment(deployId, siteId)
+  },
+  'mongodb.deleteProject': {
+    describe: ({ projectId, name, withClusters }) =>
+      `delete MongoDB project ${name || projectId}${withClusters ? ' and all of its clusters' : ''}`,
+    target: ({ projectId, name }) => ({ id: projectId, name }),
+    snapshot: async ({ projectId }) => {
+      const mongodb = new MongoDBService();
+      const [project, clusters] = await Promise.all([mongodb.getProject(projectId), mongodb.getClusters(projectId)]);
+      return { id: project.id, name: project.name, clusters: clusters.map(cluster => cluster.name).sort() };
+    },
+    execute: async ({ projectId, withClusters }, onProgress) => {
+      const mongodb = new MongoDBService();
+      if (withClusters) {
+        return deleteProjectWithClusters(mongodb, projectId, onProgress);
+      }
+      await mongodb.deleteProject(projectId);
+      return { deletedClusters: [] };
+    }
+  },
+  'mongodb.createCluster': {
+    describe: ({ projectId, name, provider, regionName, instanceSize, mongoDBMajorVersion, backupEnabled }) =>
+      `create MongoDB cluster ${name} (${instanceSize} on ${provider} ${regionName}${mongoDBMajorVersion ? `, MongoDB ${mongoDBMajorVersion}` : ''}` +
+      `${backupEnabled ? ', cloud backup' : ''}) in project ${projectId}`,
+    target: ({ projectId, name }) => ({ id: `${projectId}/${name}`, name }),
+    // A cluster created under the name since planning would make the create fail
+    snapshot: async ({ projectId, name }) => ({ name, exists: (await new MongoDBService().getClusters(projectId)).some(cluster => cluster.name === name) }),
+    execute: ({ projectId, ...spec }) => new MongoDBService().createCluster(projectId, spec as ClusterSpec)
+  },
+  'mongodb.deleteCluster': {
+    describe: ({ projectId, clusterName }) => `delete MongoDB cluster ${clusterName} in project ${projectId}`,
+    target: ({ projectId, clusterName }) => ({ id: `${projectId}/${clusterName}`, name: clusterName }),
+    snapshot: async ({ projectId, clusterName }) => pick(await new MongoDBService().getCluster(projectId, clusterName), ['id', 'name', 'paused']),
+    execute: ({ projectId, clusterName }) => new MongoDBService().deleteCluster(projectId, clusterName)
+  },
+  'mongodb.pauseCluster': {
+    describe: ({ projectId, clusterName }) => `pause MongoDB cluster ${clusterName} in project ${projectId}`,
+    target: ({ projectId, clusterName }) => ({ id: `${projectId}/${clusterName}`, name: clusterName }),
+    snapshot: async ({ projectId, clusterName }) => pick(await new MongoDBService().getCluster(projectId, clusterName), ['id', 'name', 'paused']),
+    execute: ({ projectId, clusterName }) => new MongoDBService().pauseCluster(projectId, clusterName)
+  },
+  'mongodb.resumeCluster': {
+    describe: ({ projectId, clusterName }) => `resume MongoDB cluster ${clusterName} in project ${projectId}`,
+    target: ({ projectId, clusterName }) => ({ id: `${projectId}/${clusterName}`, name: clusterName }),
+    snapshot: async ({ projectId, clusterName }) => pick(await new MongoDBService().getCluster(projectId, clusterName), ['id', 'name', 'paused']),
+    execute: ({ projectId, clusterName }) => new MongoDBService().resumeCluster(projectId, clusterName)
+  },
+  'mongodb.scaleCluster': {
+    describe: ({ projectId, clusterName, instanceSize, diskSizeGB }) =>
+      `scale MongoDB cluster ${clusterName} in project ${projectId} to ${instanceSize}${diskSizeGB ? ` with ${diskSizeGB} GB of disk` : ''}`,
+    target: ({ projectId, clusterName }) => ({ id: `${projectId}/${clusterName}`, name: clusterName }),
+    // The replication specs carry the current sizes, so a cluster resized since planning shows up as drift
+    snapshot: async ({ projectId, clusterName }) => pick(await new MongoDBService().getCluster(projectId, clusterName), ['id', 'name', 'paused', 'replicationSpecs']),
+    execute: ({ projectId, clusterName, instanceSize, diskSizeGB }) => new MongoDBService().scaleCluster(projectId, clusterName, instanceSize, diskSizeGB)
+  },
+  'mongodb.restoreSnapshot': {
+    describe: ({ clusterName, snapshotId, targetProjectId, targetClusterName }) =>
+      `overwrite MongoDB cluster ${targetClusterName} in project ${targetProjectId} with snapshot ${snapshotId} of ${clusterName}`,
+    target: ({ targetProjectId, targetClusterName }) => ({ id: `${targetProjectId}/${targetClusterName}`, name: targetClusterName }),
+    snapshot: async ({ targetProjectId, targetClusterName }) => pick(await new MongoDBService().getCluster(targetProjectId, targetClusterName), ['id', 'name', 'paused', 'mongoDBVersion']),
+    execute: ({ projectId, clusterName, snapshotId, targetProjectId, targetClusterName }) =>
+      new MongoDBService().createRestoreJob(projectId, clusterName, { snapshotId, targetGroupId: targetProjectId, targetClusterName })
+  },
+  'mongodb.createDatabaseUser': {
+    describe: ({ projectId, username, roles, scopes }) =>
+      `create database user ${username} in project ${projectId} with ${roles.map((role: any) => `${role.roleName}@${role.databaseName}`).join(', ')}` +
+      `${scopes.length > 0 ? ` on ${scopes.map((scope: any) => scope.name).join(', ')}` : ''}`,
+    target: ({ projectId, username }) => ({ id: `${projectId}/${username}`, name: username }),
+    snapshot: async ({ projectId, username }) => ({ username, exists: (await new MongoDBService().getDatabaseUsers(projectId)).some(user => user.username === username) }),
+    // Like a rotation, the password is generated when the mutation runs
+    execute: async ({ projectId, username, roles, scopes }) => {
+      const mongodb = new MongoDBService();
+      const password = mongodb.generateSecurePassword();
+      await mongodb.createDatabaseUser(projectId, username, password, roles, scopes);
+      return { username, password };
+    }
+  },
+  'mongodb.updateDatabaseUserRoles': {
+    describe: ({ projectId, username, roles }) =>
+      `set the roles of database user ${username} in project ${projectId} to ${roles.map((role: any) => `${role.roleName}@${role.databaseName}`).join(', ')}`,
+    target: ({ projectId, username }) => ({ id: `${projectId}/${username}`, name: username }),
+    snapshot: async ({ projectId, username }) => pick(await new MongoDBService().getDatabaseUser(projectId, username), DATABASE_USER_FIELDS),
+    execute: ({ projectId, username, roles }) => new MongoDBService().updateDatabaseUser(projectId, username, { roles })
+  },
+  'mongodb.rotateDatabaseUserPassword': {
+    describe: ({ projectId, username }) => `rotate the password of database user ${username} in project ${projectId}`,
+    target: ({ projectId, username }) => ({ id: `${projectId}/${username}`, name: username }),
+    snapshot: async ({ projectId, username }) => pick(await new MongoDBService().getDatabaseUser(projectId, username), DATABASE_USER_FIELDS),
+    // The password is generated when the mutation runs, so it never ends up in a plan file
+    execute: async ({ projectId, username }) => {
+      const mongodb = new MongoDBService();
+      const password = mongodb.generateSecurePassword();
+      await mongodb.updateDatabaseUser(projectId, username, { password });
+      return { username, password };
+    }
+  },
+  'mongodb.deleteDatabaseUser': {
+    describe: ({ projectId, username }) => `delete database user ${username} from project ${projectId}`,
+    target: ({ projectId, username }) => ({ id: `${projectId}/${username}`, name: username }),
+    snapshot: async ({ projectId, username }) => pick(await new MongoDBService().getDatabaseUser(projectId, username), DATABASE_USER_FIELDS),
+    execute: ({ projectId, username }) => new MongoDBService().deleteDatabaseUser(projectId, username)
+  },
+  'mongodb.addAccessListEntry': {
+    describe: ({ projectId, ipAddress, cidrBlock, deleteAfterDate }) =>
+      `add ${ipAddress || cidrBlock} to the access list of project ${projectId}${deleteAfterDate ? ` until ${deleteAfterDate}` : ''}`,
+    target: ({ projectId, ipAddress, cidrBlock }) => ({ id: `${projectId}/${ipAddress || cidrBlock}`, name: ipAddress || cidrBlock }),
+    snapshot: async ({ projectId, ipAddress, cidrBlock }) => ({
+      entry: ipAddress || cidrBlock,
+      exists: (await new MongoDBService().getAccessList(projectId)).some(entry => [entry.ipAddress, entry.cidrBlock].includes(ipAddress || cidrBlock))
+    }),
+    execute: ({ projectId, ...entry }) => new MongoDBService().addAccessListEntry(projectId, entry as AccessListEntry)
+  },
+  'mongodb.deleteAccessListEntry': {
+    describe: ({ projectId, entry }) => `remove ${entry} from the access list of project ${projectId}`,
+    target: ({ projectId, entry }) => ({ id: `${projectId}/${entry}`, name: entry }),
+    snapshot: async ({ projectId, entry }) => pick(await new MongoDBService().getAccessListEntry(projectId, entry), ['cidrBlock', 'ipAddress', 'comment', 'deleteAfterDate']),
+    execute: ({ projectId, entry }) => new MongoDBService().deleteAccessListEntry(projectId, entry)
+  },
+  'upstash.deleteRedisDatabase': {
+    describe: ({ databaseId, name }) => `delete Upstash Redis database ${name || databaseId}`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), REDIS_FIELDS),
+    execute: ({ databaseId }) => new UpstashService().deleteRedisDatabase(databaseId)
+  },
+  'upstash.resetRedisPassword': {
+    describe: ({ databaseId, name }) => `reset the password of Upstash Redis database ${name || databaseId}`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), REDIS_FIELDS),
+    execute: ({ databaseId }) => new UpstashService().resetRedisDatabasePassword(databaseId)
+  },
+  'upstash.renameRedisDatabase': {
+    describe: ({ databaseId, name, newName }) => `rename Upstash Redis database ${name || databaseId} to ${newName}`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), REDIS_FIELDS),
+    execute: ({ databaseId, newName }) => new UpstashService().renameRedisDatabase(databaseId, newName)
+  },
+  'upstash.enableRedisTls': {
+    describe: ({ databaseId, name }) => `enable TLS on Upstash Redis database ${name || databaseId}`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), [...REDIS_FIELDS, 'tls']),
+    execute: ({ databaseId }) => new UpstashService().enableRedisTls(databaseId)
+  },
+  'upstash.setRedisEviction': {
+    describe: ({ databaseId, name, enabled }) => `${enabled ? 'enable' : 'disable'} eviction on Upstash Redis database ${name || databaseId}`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), [...REDIS_FIELDS, 'eviction']),
+    execute: ({ databaseId, enabled }) => new UpstashService().setRedisEviction(databaseId, enabled)
+  },
+  'upstash.updateRedisReadRegions': {
+    describe: ({ databaseId, name, readRegions }) =>
+      `set the read regions of Upstash Redis database ${name || databaseId} to ${readRegions.join(', ') || 'none'}`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), [...REDIS_FIELDS, 'read_regions']),
+    execute: ({ databaseId, readRegions }) => new UpstashService().updateRedisReadRegions(databaseId, readRegions)
+  },
+  'upstash.changeRedisPlan': {
+    describe: ({ databaseId, name, plan }) => `move Upstash Redis database ${name || databaseId} to the ${plan} plan`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), [...REDIS_FIELDS, 'type']),
+    execute: ({ databaseId, plan }) => new UpstashService().changeRedisPlan(databaseId, plan)
+  },
+  'upstash.updateRedisBudget': {
+    describe: ({ databaseId, name, budget }) => `set the monthly budget of Upstash Redis database ${name || databaseId} to $${budget}`,
+    target: ({ databaseId, name }) => ({ id: databaseId, name }),
+    snapshot: async ({ databaseId }) => pick(await new UpstashService().getRedisDatabase(databaseId), [...REDIS_FIELDS, 'budget']),
+    execute: ({ databaseId, budget }) => new UpstashService().updateRedisBudget(databaseId, budget)
+  },
+  'upstash.updateRedisKey': {
+    describe: ({ databaseId, name, key, command }) => `run ${command[0]} on key ${key} in Upstash Redis database ${name || databaseId}`,
+    target: ({ databaseId, key }) => ({ id: `${databaseId}/${key}`, name: key }),
+    snapshot: redisKeySnapshot,
+    execute: async ({ databaseId, command }) => (await connectRedisDatabase(databaseId)).updateKey(command)
+  },
+  'upstash.expireRedisKey': {
+    describe: ({ databaseId, name, key, seconds }) => seconds === null
+      ? `remove the expiry of key ${key} in Upstash Redis database ${name || databaseId}`
+      : `expire key ${key} in Upstash Redis database ${name || databaseId} after ${seconds}s`,
+    target: ({ databaseId, key }) => ({ id: `${databaseId}/${key}`, name: key }),
+    snapshot: redisKeySnapshot,
+    execute: async ({ databaseId, key, seconds }) => (await connectRedisDatabase(databaseId)).expireKey(key, seconds)
+  },
+  'upstash.deleteRedisKey': {
+    describe: ({ databaseId, name, key }) => `delete key ${key} from Upstash Redis database ${name || databaseId}`,
+    target: ({ databaseId, key }) => ({ id: `${databaseId}/${key}`, name: key }),
+    snapshot: redisKeySnapshot,
+    execute: async ({ databaseId, key }) => (await connectRedisDatabase(databaseId)).deleteKey(key)
+  },
+  'upstash.deleteQStashTopic': {
+    describe: ({ topicName }) => `delete QStash topic ${topicName}`,
+    target: ({ topicName }) => ({ id: topicName, name: topicName }),
+    snapshot: async ({ topicName }) => {
+      const topics = await new UpstashService().listQStashTopics();
+      const topic = topics.find((item: any) => item.name === topicName);
+      if (!topic) {
+        throw new Error(`Topic ${topicName} not found`);
+      }
+      return { name: topic.name, endpoints: (topic.endpoints || []).map((endpoint: any) => endpoint.url ?? endpoint).sort() };
+    },
+    execute: ({ topicName }) => new UpstashService().deleteQStashTopic(topicName)
+  },
+  'upstash.pauseQStashSchedule': {
+    describe: ({ scheduleId, cron }) => `pause QStash schedule ${scheduleId}${cron ? ` (${cron})` : ''}`,
+    target: ({ scheduleId, destination }) => ({ id: scheduleId, name: destination }),
+    snapshot: async ({ scheduleId }) => pick(await (await connectQStash()).getSchedule(scheduleId), SCHEDULE_FIELDS),
+    execute: async ({ scheduleId }) => (await connectQStash()).pauseSchedule(scheduleId)
+  },
+  'upstash.resumeQStashSchedule': {
+    describe: ({ scheduleId, cron }) => `resume QStash schedule ${scheduleId}${cron ? ` (${cron})` : ''}`,
+    target: ({ scheduleId, destination }) => ({ id: scheduleId, name: destination }),
+    snapshot: async ({ scheduleId }) => pick(await (await connectQStash()).getSchedule(scheduleId), SCHEDULE_FIELDS),
+    execute: async ({ scheduleId }) => (await connectQStash()).resumeSchedule(scheduleId)
+  },
+  'upstash.deleteQStashSchedule': {
+    describe: ({ scheduleId, destination }) => `delete QStash schedule ${scheduleId}${destination ? ` for ${destination}` : ''}`,
+    target: ({ scheduleId, destination }) => ({ id: scheduleId, name: destination }),
+    snapshot: async ({ scheduleId }) => pick(await (await connectQStash()).getSchedule(scheduleId), SCHEDULE_FIELDS),
+    execute: async ({ scheduleId }) => (await connectQStash()).deleteSchedule(scheduleId)
+  },
+  'upstash.replayDlqMessage': {
+    describe: ({ dlqId, url }) => `replay dead-letter message ${dlqId}${url ? ` to ${url}` : ''}`,
+    target: ({ dlqId, url }) => ({ id: dlqId, name: url }),
+    snapshot: async ({ dlqId }) => pick(await (await connectQStash()).getDlqMessage(dlqId), DLQ_FIELDS),
+    execute: async ({ dlqId }) => (await connectQStash()).replayDlqMessage(dlqId)
+  },
+  'upstash.deleteDlqMessage': {
+    describe: ({ dlqId, url }) => `delete dead-letter message ${dlqId}${url ? ` for ${url}` : ''}`,
+    target: ({ dlqId, url }) => ({ id: dlqId, name: url }),
+    snapshot: async ({ dlqId }) => pick(await (await connectQStash()).getDlqMessage(dlqId), DLQ_FIELDS),
+    execute: async ({ dlqId }) => (await connectQStash()).deleteDlqMessage(dlqId)
+  },
+  'upstash.deleteVectorIndex': {
+    describe: ({ indexId, name }) => `delete Upstash Vector index ${name || indexId}`,
+    target: ({ indexId, name }) => ({ id: indexId, name }),
+    snapshot: async ({ indexId }) => pick(await new UpstashService().getVectorIndex(indexId), ['id', 'name']),
+    execute: ({ indexId }) => new UpstashService().deleteVectorIndex(indexId)
+  },
+  'upstash.deleteVectors': {
+    describe: ({ indexId, name, namespace, ids }) =>
+      `delete ${ids.length} vector(s) from ${namespace ? `namespace ${namespace} of ` : ''}Upstash Vector index ${name || indexId}`,
+    target: ({ indexId, name }) => ({ id: indexId, name }),
+    // Which of the ids still exist
+    snapshot: async ({ indexId, namespace, ids }) => {
+      const records = await (await connectVectorIndex(indexId)).fetch(ids, namespace);
+      return { existing: ids.filter((_: string, position: number) => records[position]) };
+    },
+    execute: async ({ indexId, namespace, ids }) => (await connectVectorIndex(indexId)).delete(ids, namespace)
+  },
+  'upstash.deleteVectorNamespace': {
+    describe: ({ indexId, name, namespace }) => `delete namespace ${namespace} and its vectors from Upstash Vector index ${name || indexId}`,
+    target: ({ indexId, name, namespace }) => ({ id: `${indexId}/${namespace}`, name: name ? `${name}/${namespace}` : namespace }),
+    snapshot: async ({ indexId, namespace }) => ({ namespace, exists: (await (await connectVectorIndex(indexId)).listNamespaces()).includes(namespace) }),
+    execute: async ({ indexId, namespace }) => (await connectVectorIndex(indexId)).deleteNamespace(namespace)
+  },
+  'upstash.deleteWorkflow': {
+    describe: ({ workflowId, name }) => `delete Upstash workflow ${name || workflowId}`,
+    target: ({ workflowId, name }) => ({ id: workflowId, name }),
+    snapshot: async ({ workflowId }) => pick(await new UpstashService().getWorkflow(workflowId), ['id', 'name']),
+    execute: ({ workflowId }) => new UpstashService().deleteWorkflow(workflowId)
+  },
+  'upstash.cancelWorkflowRun': {
+    describe: ({ workflowRunId, workflowUrl }) => `cancel workflow run ${workflowRunId}${workflowUrl ? ` of ${workflowUrl}` : ''}`,
+    target: ({ workflowRunId, workflowUrl }) => ({ id: workflowRunId, name: workflowUrl }),
+    snapshot: async ({ workflowRunId }) => pick(await (await connectQStash()).getWorkflowRun(workflowRunId), WORKFLOW_RUN_FIELDS),
+    execute: async ({ workflowRunId }) => (await connectQStash()).cancelWorkflowRun(workflowRunId)
+  },
+  'upstash.retryWorkflowRun': {
+    describe: ({ workflowRunId, workflowUrl, restart }) =>
+      `${restart ? 'restart' : 'resume'} failed workflow run ${workflowRunId}${workflowUrl ? ` of ${workflowUrl}` : ''}`,
+    target: ({ workflowRunId, workflowUrl }) => ({ id: workflowRunId, name: workflowUrl }),
+    snapshot: async ({ workflowRunId }) => pick(await (await connectQStash()).getWorkflowRun(workflowRunId), WORKFLOW_RUN_FIELDS),
+    execute: async ({ workflowRunId, restart }) => (await connectQStash()).retryWorkflowRun(workflowRunId, Boolean(restart))
+  },
+  'upstash.deleteSearchIndex': {
+    describe: ({ indexId, name }) => `delete Upstash Search index ${name || indexId}`,
+    target: ({ indexId, name }) => ({ id: indexId, name }),
+    snapshot: async ({ indexId }) => pick(await new UpstashService().getSearchIndex(indexId), ['id', 'name']),
+    execute: ({ indexId }) => new UpstashService().deleteSearchIndex(indexId)
+  }
+} satisfies Record<string, MutationDefinition>;
+
+export type MutationAction = keyof typeof MUTATIONS;
+
+export interface PlannedMutation {
+  action: MutationAction;
+  args: MutationArgs;
+  description: string;
+  expected: Record<string, unknown>;
+  plannedAt: string;
+}
+
+export interface Plan {
+  version: 1;
+  createdAt: string;
+  mutations: PlannedMutation[];
+}
+
+export interface MutationOutcome {
+  applied: boolean;
+  result?: any;
+}
+
+export function snapshotTarget(action: MutationAction, args: MutationArgs): Promise<Record<string, unknown>> {
+  return (MUTATIONS[action] as MutationDefinition).snapshot(args);
+}
+
+export function loadPlan(file: string): Plan {
+  if (!fs.existsSync(file)) {
+    throw new CliError(`Plan file ${file} not found`, ExitCode.NotFound);
+  }
+
+  let plan: Plan;
+  try {
+    plan = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new CliError(`Plan file ${file} is not valid JSON: ${error.message}`, ExitCode.Usage);
+  }
+
+  if (plan.version !== 1 || !Array.isArray(plan.mutations)) {
+    throw new CliError(`Plan file ${file} has an unsupported format`, ExitCode.Usage);
+  }
+  const unknown = plan.mutations.find(mutation => !(mutation.action in MUTATIONS));
+  if (unknown) {
+    throw new CliError(`Plan file ${file} contains unknown action "${unknown.action}"`, ExitCode.Usage);
+  }
+  return plan;
+}
+
+function appendToPlan(file: string, mutation: PlannedMutation): void {
+  const plan: Plan = fs.existsSync(file)
+    ? loadPlan(file)
+    : { version: 1, createdAt: new Date().toISOString(), mutations: [] };
+  plan.mutations.push(mutation);
+  fs.writeFileSync(file, `${JSON.stringify(plan, null, 2)}\n`);
+}
+
+/**
+ * Single choke point for destructive operations. Executes the mutation and
+ * records it in the audit log, or with --dry-run only reports it, or with
+ * --plan records it together with a snapshot of the target so `apply` can
+ * detect drift before executing.
+ */
+export async function runMutation(action: MutationAction, args: MutationArgs, spinner?: Ora): Promise<MutationOutcome> {
+  const definition = MUTATIONS[action] as MutationDefinition;
+  const description = definition.describe(args);
+  const report = (message: string) => (spinner ? spinner.info(message) : console.log(message));
+  const { dryRun, plan } = getRuntime();
+
+  if (dryRun) {
+    report(chalk.cyan(`🔍 [dry-run] Would ${description}`));
+    return { applied: false };
+  }
+
+  if (plan) {
+    const expected = await definition.snapshot(args);
+    appendToPlan(plan, { action, args, description, expected, plannedAt: new Date().toISOString() });
+    report(chalk.cyan(`📝 Planned: ${description} (${plan})`));
+    return { applied: false };
+  }
+
+  const [provider, name] = action.split('.');
+  const stopShowingWaits = spinner ? showWaitsIn(spinner) : undefined;
+  try {
+    const result = await audited({ provider, action: name, target: definition.target(args), params: args }, () =>
+      definition.execute(args, (message) => {
+        if (spinner) {
+          spinner.text = message;
+        } else {
+          console.error(chalk.gray(message));
+        }
+      })
+    );
+    return { applied: true, result };
+  } finally {
+    stopShowingWaits?.();
+  }
+}
@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { NetlifyService } from '../services/netlify.js';
+import { runMutation } from './mutations.js';
+import { ScriptedOptions, requireConfirmation, runScripted } from '../utils/output.js';
+import { RenderOptions, addRenderOptions, renderList } from '../utils/render.js';
+import { DEPLOY_VIEW, SITE_VIEW } from './views.js';
+import { requireProviderCredentials } from '../utils/credentials.js';
+
+function requireCredentials(): void {
+  requireProviderCredentials('netlify');
+}
+
+function createService(): NetlifyService {
+  requireCredentials();
+  return new NetlifyService();
+}
+
+export function registerNetlifySubcommands(netlify: Command): void {
+  const sites = netlify
+    .command('sites')
+    .description('Manage Netlify sites without prompts');
+
+  addRenderOptions(sites.command('list'))
+    .description('List all sites')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listSites(), (result) => {
+        renderList(result, SITE_VIEW, options, '📭 No sites found');
+      });
+    });
+
+  sites
+    .command('get <siteId>')
+    .description('Show site details')
+    .option('--json', 'Output as JSON')
+    .action(async (siteId: string, options: ScriptedOptions) => {
+      await runScripted(options, () => createService().getSiteInfo(siteId), (site) => {
+        console.log(chalk.blue(`📋 ${site.name}`));
+        console.log(`ID: ${site.id}`);
+        console.log(`URL: ${site.ssl_url || site.url}`);
+        console.log(`Admin URL: ${site.project_url}`);
+        console.log(`State: ${site.state}`);
+        console.log(`Created: ${site.created_at}`);
+        console.log(`Updated: ${site.updated_at}`);
+      });
+    });
+
+  sites
+    .command('rename <siteId> <newName>')
+    .description('Rename a site')
+    .option('--json', 'Output as JSON')
+    .action(async (siteId: string, newName: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireCredentials();
+        const { applied } = await runMutation('netlify.renameSite', { siteId, newName });
+        return { success: true, applied, id: siteId, name: newName };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Site ${siteId} renamed to ${newName}`));
+        }
+      });
+    });
+
+  sites
+    .command('delete <siteId>')
+    .description('Delete a site and its deploy key')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (siteId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireCredentials();
+        requireConfirmation(options, `delete site ${siteId}`);
+        const { applied } = await runMutation('netlify.deleteSite', { siteId });
+        return { success: true, applied, id: siteId };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Site ${siteId} deleted`));
+        }
+      });
+    });
+
+  const deploys = netlify
+    .command('deploys')
+    .description('Inspect Netlify deployments');
+
+  addRenderOptions(deploys.command('list <siteId>'))
+    .description('List deployments of a site')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (siteId: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listDeployments(siteId), (result) => {
+        renderList(result, DEPLOY_VIEW, options, '📭 No deployments found');
+      });
+    });
+}
@@ -2,15 +2,19 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { NetlifyService } from '../services/netlify.js';
+import { bulkDeleteMenu } from './bulk-delete.js';
+import { runMutation } from './mutations.js';
+import { PagedList, PickerRow, pickOne, printPages } from './picker.js';
+import { describeCredentialSource, hasCredentials } from '../utils/credentials.js';
 
 export async function netlifyCommand(returnToMain?: () => Promise<void>): Promise<void> {
   console.log(chalk.blue.bold('\n🌐 Netlify Project Management'));
   console.log(chalk.gray('Manage your Netlify projects and sites'));
   console.log();
 
-  if (!process.env.NETLIFY_TOKEN) {
-    console.log(chalk.red('❌ NETLIFY_TOKEN environment variable is required'));
-    console.log(chalk.gray('Please set your Netlify API token in your environment variables'));
+  if (!hasCredentials('netlify')) {
+    console.log(chalk.red(`❌ NETLIFY_TOKEN is required (checked the ${describeCredentialSource()})`));
+    console.log(chalk.gray('Please set your Netlify API token in your environment variables or profile'));
     return;
   }
 
@@ -23,7 +27,7 @@ export async function netlifyCommand(returnToMain?: () => Promise<void>): Promis
         { name: '📋 List all sites', value: 'list' },
         { name: '✏️  Rename a site', value: 'rename' },
         { name: '🗑️  Delete a site', value: 'delete' },
-        { name: '🧹 Bulk delete test- sites', value: 'bulk-delete' },
+        { name: '🧹 Bulk delete sites (by pattern, age, state)', value: 'bulk-delete' },
         { name: '🔍 View site details', value: 'details' },
         { name: '🔙 Back to main menu', value: 'back' }
       ]
@@ -51,7 +55,7 @@ export async function netlifyCommand(returnToMain?: () => Promise<void>): Promis
       await deleteSite(netlify);
       break;
     case 'bulk-delete':
-      await bulkDeleteTestSites(netlify);
+      await bulkDeleteMenu('netlify-sites');
       break;
     case 'details':
       await viewSiteDetails(netlify);
@@ -73,21 +77,30 @@ export async function netlifyCommand(returnToMain?: () => Promise<void>): Promis
   }
 }
 
+function siteRow(site: any): PickerRow {
+  const deployedAt = site.published_deploy?.published_at;
+  return {
+    name: site.name,
+    details: [site.ssl_url || site.url, deployedAt ? `deployed ${new Date(deployedAt).toLocaleDateString()}` : 'never deployed']
+  };
+}
+
 async function listSites(netlify: NetlifyService): Promise<void> {
   const spinner = ora('Loading Netlify sites...').start();
   
   try {
-    const sites = await netlify.listSites();
+    const sites = new PagedList(netlify.iterateSites());
+    await sites.loadMore();
     spinner.stop();
     
-    if (sites.length === 0) {
+    if (sites.items.length === 0) {
       console.log(chalk.yellow('📭 No sites found'));
       return;
     }
 
-    console.log(chalk.green(`\n📋 Found ${sites.length} sites:\n`));
+    console.log(chalk.green(`\n📋 Sites:\n`));
     
-    sites.forEach((site, index) => {
+    await printPages(sites, (site, index) => {
       console.log(chalk.blue(`${index + 1}. ${site.name}`));
       console.log(chalk.gray(`   ID: ${site.id}`));
       console.log(chalk.gray(`   URL: ${site.ssl_url || site.url}`));
@@ -105,25 +118,16 @@ async function renameSite(netlify: NetlifyService): Promise<void> {
   const spinner = ora('Loading sites...').start();
   
   try {
-    const sites = await netlify.listSites();
+    const sites = new PagedList(netlify.iterateSites());
+    await sites.loadMore();
     spinner.stop();
     
-    if (sites.length === 0) {
+    if (sites.items.length === 0) {
       console.log(chalk.yellow('📭 No sites found'));
       return;
     }
 
-    const { selectedSite } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedSite',
-        message: 'Select a site to rename:',
-        choices: sites.map(site => ({
-          name: `${site.name} (${site.ssl_url || site.url})`,
-          value: site
-        }))
-      }
-    ]);
+    const selectedSite = await pickOne('Select a site to rename:', sites, siteRow);
 
     const { newName } = await inquirer.prompt([
       {
@@ -138,8 +142,10 @@ async function renameSite(netlify: NetlifyService): Promise<void> {
     const confirmSpinner = ora(`Renaming site to ${newName}...`).start();
     
     try {
-      await netlify.updateSite(selectedSite.id, { name: newName });
-      confirmSpinner.succeed(chalk.green(`Site renamed to ${newName}`));
+      const { applied } = await runMutation('netlify.renameSite', { siteId: selectedSite.id, name: selectedSite.name, newName }, confirmSpinner);
+      if (applied) {
+        confirmSpinner.succeed(chalk.green(`Site renamed to ${newName}`));
+      }
     } catch (error: any) {
       confirmSpinner.fail('Failed to rename site');
       console.log(chalk.red(`Error: ${error.message}`));
@@ -154,25 +160,16 @@ async function deleteSite(netlify: NetlifyService): Promise<void> {
   const spinner = ora('Loading sites...').start();
   
   try {
-    const sites = await netlify.listSites();
+    const sites = new PagedList(netlify.iterateSites());
+    await sites.loadMore();
     spinner.stop();
     
-    if (sites.length === 0) {
+    if (sites.items.length === 0) {
       console.log(chalk.yellow('📭 No sites found'));
       return;
     }
 
-    const { selectedSite } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedSite',
-        message: 'Select a site to delete:',
-        choices: sites.map(site => ({
-          name: `${site.name} (${site.ssl_url || site.url})`,
-          value: site
-        }))
-      }
-    ]);
+    const selectedSite = await pickOne('Select a site to delete:', sites, siteRow);
 
     console.log(chalk.yellow(`\n⚠️  You are about to delete:`));
     console.log(chalk.yellow(`   Site: ${selectedSite.name}`));
@@ -196,8 +193,10 @@ async function deleteSite(netlify: NetlifyService): Promise<void> {
     const deleteSpinner = ora(`Deleting site ${selectedSite.name}...`).start();
     
     try {
-      await netlify.deleteSite(selectedSite.id);
-      deleteSpinner.succeed(chalk.green(`Site ${selectedSite.name} deleted successfully`));
+      const { applied } = await runMutation('netlify.deleteSite', { siteId: selectedSite.id, name: selectedSite.name }, deleteSpinner);
+      if (applied) {
+        deleteSpinner.succeed(chalk.green(`Site ${selectedSite.name} deleted successfully`));
+      }
     } catch (error: any) {
       deleteSpinner.fail('Failed to delete site');
       console.log(chalk.red(`Error: ${error.message}`));
@@ -212,25 +211,16 @@ async function viewSiteDetails(netlify: NetlifyService): Promise<void> {
   const spinner = ora('Loading sites...').start();
   
   try {
-    const sites = await netlify.listSites();
+    const sites = new PagedList(netlify.iterateSites());
+    await sites.loadMore();
     spinner.stop();
     
-    if (sites.length === 0) {
+    if (sites.items.length === 0) {
       console.log(chalk.yellow('📭 No sites found'));
       return;
     }
 
-    const { selectedSite } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedSite',
-        message: 'Select a site to view details:',
-        choices: sites.map(site => ({
-          name: `${site.name} (${site.ssl_url || site.url})`,
-          value: site
-        }))
-      }
-    ]);
+    const selectedSite = await pickOne('Select a site to view details:', sites, siteRow);
 
     const detailsSpinner = ora('Loading site details...').start();
     
@@ -266,93 +256,4 @@ async function viewSiteDetails(netlify: NetlifyService): Promise<void> {
     spinner.fail('Failed to load sites');
     console.log(chalk.red(`Error: ${error.message}`));
   }
-}
-
-async function bulkDeleteTestSites(netlify: NetlifyService): Promise<void> {
-  const spinner = ora('Loading sites...').start();
-  
-  try {
-    const sites = await netlify.listSites();
-    spinner.stop();
-    
-    if (sites.length === 0) {
-      console.log(chalk.yellow('📭 No sites found'));
-      return;
-    }
-
-    const testSites = sites.filter(site => site.name.toLowerCase().startsWith('test-'));
-    
-    if (testSites.length === 0) {
-      console.log(chalk.yellow('📭 No sites found with names starting with "test-" (case-insensitive)'));
-      return;
-    }
-
-    console.log(chalk.blue(`\n🔍 Found ${testSites.length} sites with names starting with "test-" (case-insensitive):\n`));
-    
-    testSites.forEach((site, index) => {
-      console.log(chalk.yellow(`${index + 1}. ${site.name}`));
-      console.log(chalk.gray(`   URL: ${site.ssl_url || site.url}`));
-      console.log(chalk.gray(`   State: ${site.state}`));
-      console.log();
-    });
-
-    console.log(chalk.red(`⚠️  You are about to delete ${testSites.length} sites!`));
-    console.log(chalk.red(`This action cannot be undone!`));
-
-    const { confirmBulkDelete } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirmBulkDelete',
-        message: `Are you sure you want to delete all ${testSites.length} sites starting with "test-" (case-insensitive)?`,
-        default: false
-      }
-    ]);
-
-    if (!confirmBulkDelete) {
-      console.log(chalk.gray('Bulk delete cancelled'));
-      return;
-    }
-
-    const { finalConfirm } = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'finalConfirm',
-        message: 'Type "DELETE ALL TEST SITES" to confirm:',
-        validate: (input) => input === 'DELETE ALL TEST SITES' || 'Please type exactly "DELETE ALL TEST SITES"'
-      }
-    ]);
-
-    const deleteSpinner = ora(`Deleting ${testSites.length} test sites...`).start();
-    
-    try {
-      let deletedCount = 0;
-      let errorCount = 0;
-      
-      for (const site of testSites) {
-        try {
-          await netlify.deleteSite(site.id);
-          deletedCount++;
-          deleteSpinner.text = `Deleted ${deletedCount}/${testSites.length} sites...`;
-        } catch (error: any) {
-          errorCount++;
-          console.log(chalk.red(`\nFailed to delete ${site.name}: ${error.message}`));
-        }
-      }
-      
-      deleteSpinner.stop();
-      
-      if (deletedCount > 0) {
-        console.log(chalk.green(`✅ Successfully deleted ${deletedCount} test sites`));
-      }
-      if (errorCount > 0) {
-        console.log(chalk.red(`❌ Failed to delete ${errorCount} sites`));
-      }
-    } catch (error: any) {
-      deleteSpinner.fail('Bulk delete failed');
-      console.log(chalk.red(`Error: ${error.message}`));
-    }
-  } catch (error: any) {
-    spinner.fail('Failed to load sites');
-    console.log(chalk.red(`Error: ${error.message}`));
-  }
 }
\ No newline at end of file
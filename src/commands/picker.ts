@@ -0,0 +1,227 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { Pages } from '../utils/pagination.js';
+import { showWaitsIn } from '../utils/http.js';
+import { fuzzyFilter } from '../utils/fuzzy.js';
+
+export interface PickerRow {
+  name: string;
+  // Metadata shown in aligned columns after the name; the search matches it too
+  details?: (string | undefined)[];
+}
+
+export interface PickerChoice<V> {
+  name: string;
+  value: V;
+}
+
+interface PickerEntry<T> {
+  item: T;
+  name: string;
+  label: string;
+  text: string;
+}
+
+type PickerSource<T> = T[] | PagedList<T>;
+
+type MultiPickAction<T> =
+  | { kind: 'done' }
+  | { kind: 'more' }
+  | { kind: 'toggle'; items: T[]; on: boolean };
+
+const LOAD_MORE = Symbol('load-more');
+const PAGE_SIZE = 15;
+const MAX_NAME_WIDTH = 48;
+
+/**
+ * Pulls pages from a list iterator on demand so interactive menus can show
+ * the first page immediately and fetch the rest only when asked.
+ */
+export class PagedList<T> {
+  readonly items: T[] = [];
+  private pages: Pages<T>;
+  private finished = false;
+
+  constructor(pages: Pages<T>) {
+    this.pages = pages;
+  }
+
+  get done(): boolean {
+    return this.finished;
+  }
+
+  async loadMore(): Promise<T[]> {
+    if (this.finished) {
+      return [];
+    }
+    const next = await this.pages.next();
+    if (next.done) {
+      this.finished = true;
+      return [];
+    }
+    this.items.push(...next.value);
+    return next.value;
+  }
+}
+
+async function loadNextPage<T>(list: PagedList<T>): Promise<void> {
+  const spinner = ora('Loading more...').start();
+  const stopShowingWaits = showWaitsIn(spinner);
+  try {
+    await list.loadMore();
+    spinner.stop();
+  } catch (error) {
+    spinner.fail('Failed to load more');
+    throw error;
+  } finally {
+    stopShowingWaits();
+  }
+}
+
+function loadedItems<T>(source: PickerSource<T>): T[] {
+  return Array.isArray(source) ? source : source.items;
+}
+
+function hasMorePages<T>(source: PickerSource<T>): source is PagedList<T> {
+  return !Array.isArray(source) && !source.done;
+}
+
+function loadMoreLabel(count: number): string {
+  return chalk.cyan(`⬇️  Load more (${count} loaded)`);
+}
+
+// Lays out names and metadata in columns aligned across every loaded item
+function toEntries<T>(items: T[], describe: (item: T) => PickerRow): PickerEntry<T>[] {
+  const rows = items.map(describe);
+  const nameWidth = Math.min(MAX_NAME_WIDTH, Math.max(0, ...rows.map(row => row.name.length)));
+  const detailWidths: number[] = [];
+  rows.forEach(row => (row.details || []).forEach((detail, index) => {
+    detailWidths[index] = Math.max(detailWidths[index] || 0, (detail || '').length);
+  }));
+
+  return rows.map((row, index) => {
+    const details = (row.details || []).map((detail, column) => (detail || '').padEnd(detailWidths[column])).join('  ').trimEnd();
+    return {
+      item: items[index],
+      name: row.name,
+      label: details ? `${row.name.padEnd(nameWidth)}  ${chalk.gray(details)}` : row.name,
+      text: [row.name, ...(row.details || [])].filter(Boolean).join(' ')
+    };
+  });
+}
+
+/**
+ * Type-to-filter picker for a single resource. Typing fuzzy-matches names and
+ * metadata; paged lists get a "Load more" entry while pages remain. Extra
+ * choices (e.g. "Back") are listed after the matches.
+ */
+export async function pickOne<T, E = never>(
+  message: string,
+  source: PickerSource<T>,
+  describe: (item: T) => PickerRow,
+  extraChoices: PickerChoice<E>[] = []
+): Promise<T | E> {
+  while (true) {
+    const entries = toEntries(loadedItems(source), describe);
+    const { selected } = await inquirer.prompt([
+      {
+        type: 'search',
+        name: 'selected',
+        message,
+        pageSize: PAGE_SIZE,
+        source: async (term: string | undefined) => [
+          ...fuzzyFilter(entries, term, entry => entry.text).map(entry => ({ name: entry.label, value: entry.item as any, short: entry.name })),
+          ...(hasMorePages(source) ? [{ name: loadMoreLabel(entries.length), value: LOAD_MORE }] : []),
+          ...extraChoices
+        ]
+      }
+    ]);
+
+    if (selected !== LOAD_MORE) {
+      return selected;
+    }
+    await loadNextPage(source as PagedList<T>);
+  }
+}
+
+/**
+ * Type-to-filter multi-select for bulk operations. Picking an item toggles it,
+ * "Select all matching" toggles everything the current search matches, and
+ * "Done" returns the selection in list order.
+ */
+export async function pickMany<T>(
+  message: string,
+  source: PickerSource<T>,
+  describe: (item: T) => PickerRow,
+  initiallySelected: T[] = []
+): Promise<T[]> {
+  const selected = new Set<T>(initiallySelected);
+
+  while (true) {
+    const entries = toEntries(loadedItems(source), describe);
+    const { action } = await inquirer.prompt([
+      {
+        type: 'search',
+        name: 'action',
+        message: `${message} ${chalk.gray('(pick to toggle, Done to finish)')}`,
+        pageSize: PAGE_SIZE,
+        source: async (term: string | undefined) => {
+          const matches = fuzzyFilter(entries, term, entry => entry.text);
+          const choices: { name: string; value: MultiPickAction<T>; short?: string }[] = [
+            { name: chalk.green(`✅ Done (${selected.size} selected)`), value: { kind: 'done' } }
+          ];
+          if (matches.length > 1) {
+            const allSelected = matches.every(entry => selected.has(entry.item));
+            const scope = term?.trim() ? `${matches.length} matching "${term.trim()}"` : `${matches.length} loaded`;
+            choices.push({
+              name: chalk.cyan(`${allSelected ? '◯ Deselect' : '◉ Select'} all ${scope}`),
+              value: { kind: 'toggle', items: matches.map(entry => entry.item), on: !allSelected }
+            });
+          }
+          choices.push(...matches.map(entry => ({
+            name: `${selected.has(entry.item) ? chalk.green('◉') : '◯'} ${entry.label}`,
+            value: { kind: 'toggle' as const, items: [entry.item], on: !selected.has(entry.item) },
+            short: entry.name
+          })));
+          if (hasMorePages(source)) {
+            choices.push({ name: loadMoreLabel(entries.length), value: { kind: 'more' } });
+          }
+          return choices;
+        }
+      }
+    ]);
+
+    switch (action.kind) {
+      case 'done':
+        return loadedItems(source).filter(item => selected.has(item));
+      case 'more':
+        await loadNextPage(source as PagedList<T>);
+        break;
+      case 'toggle':
+        action.items.forEach((item: T) => (action.on ? selected.add(item) : selected.delete(item)));
+        break;
+    }
+  }
+}
+
+// Prints a paged list one page at a time, asking before fetching the next one
+export async function printPages<T>(list: PagedList<T>, printItem: (item: T, index: number) => void): Promise<void> {
+  let printed = 0;
+
+  while (true) {
+    list.items.slice(printed).forEach((item, offset) => printItem(item, printed + offset));
+    printed = list.items.length;
+    if (list.done) {
+      return;
+    }
+
+    const { more } = await inquirer.prompt([
+      { type: 'confirm', name: 'more', message: `Showing ${printed}. Load more?`, default: true }
+    ]);
+    if (!more) {
+      return;
+    }
+    await loadNextPage(list);
+  }
+}
@@ -0,0 +1,243 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { NetlifyService } from '../services/netlify.js';
+import { GitHubService } from '../services/github.js';
+import { MongoDBService } from '../services/mongodb.js';
+import { UpstashService } from '../services/upstash.js';
+import { PROVIDERS, PROVIDER_CREDENTIALS, Provider } from '../utils/credentials.js';
+import { ProfileCredentials, getProfile, listProfiles, removeProfile, saveProfile } from '../utils/profiles.js';
+import { configureRuntime, getRuntime } from '../utils/runtime.js';
+import { getSecret, isVaultUnlocked, listSecrets, removeSecret, setSecret, vaultExists } from '../utils/vault.js';
+import { CliError, ExitCode, ScriptedOptions, formatTable, runScripted } from '../utils/output.js';
+
+interface ProfileAddOptions extends ScriptedOptions {
+  fromEnv?: boolean;
+  force?: boolean;
+}
+
+interface ProviderCheck {
+  provider: Provider;
+  status: 'ok' | 'failed' | 'not configured';
+  detail?: string;
+}
+
+// One cheap read per provider, enough to prove the credentials are accepted
+const PROVIDER_CHECKS: Record<Provider, () => Promise<string>> = {
+  netlify: async () => `${(await new NetlifyService().listSites()).length} sites`,
+  github: async () => `authenticated as ${(await new GitHubService().getAuthenticatedUser()).login}`,
+  mongodb: async () => `${(await new MongoDBService().getOrganizations()).length} organizations`,
+  upstash: async () => `${(await new UpstashService().listRedisDatabases()).length} Redis databases`
+};
+
+function configuredProviders(credentials: ProfileCredentials, name?: string): Provider[] {
+  return PROVIDERS.filter(provider => PROVIDER_CREDENTIALS[provider].every(key =>
+    !!credentials[key] || (name !== undefined && !!getSecret(`${name}/${key}`))
+  ));
+}
+
+// With an unlocked vault the keys go there under "<profile>/<NAME>" and the profile file stays free of secrets
+function storeProfile(name: string, credentials: ProfileCredentials): boolean {
+  if (!isVaultUnlocked()) {
+    saveProfile(name, credentials);
+    return false;
+  }
+  listSecrets().filter(secret => secret.name.startsWith(`${name}/`)).forEach(secret => removeSecret(secret.name));
+  Object.entries(credentials).forEach(([key, value]) => setSecret(`${name}/${key}`, value));
+  saveProfile(name, {});
+  return true;
+}
+
+function requireProfile(name: string): ProfileCredentials {
+  const credentials = getProfile(name);
+  if (!credentials) {
+    throw new CliError(`Profile "${name}" does not exist`, ExitCode.NotFound);
+  }
+  return credentials;
+}
+
+async function promptCredentials(): Promise<ProfileCredentials> {
+  const names = PROVIDERS.flatMap(provider => PROVIDER_CREDENTIALS[provider]);
+  const answers = await inquirer.prompt(names.map(name => ({
+    type: name === 'UPSTASH_EMAIL' ? 'input' : 'password',
+    name,
+    mask: '*',
+    message: `${name} (leave empty to skip):`
+  })) as any);
+  return Object.fromEntries(Object.entries(answers).filter(([, value]) => value)) as ProfileCredentials;
+}
+
+function credentialsFromEnv(): ProfileCredentials {
+  const names = PROVIDERS.flatMap(provider => PROVIDER_CREDENTIALS[provider]);
+  return Object.fromEntries(names.filter(name => process.env[name]).map(name => [name, process.env[name]!]));
+}
+
+/**
+ * Runs one check per provider with the given profile active. The previous
+ * profile is restored afterwards so that testing never switches accounts.
+ */
+export async function testProfile(name: string | undefined): Promise<ProviderCheck[]> {
+  const previous = getRuntime().profile;
+  const credentials = name ? requireProfile(name) : credentialsFromEnv();
+  const configured = configuredProviders(credentials, name);
+
+  configureRuntime({ profile: name });
+  try {
+    const checks: ProviderCheck[] = [];
+    for (const provider of PROVIDERS) {
+      if (!configured.includes(provider)) {
+        checks.push({ provider, status: 'not configured' });
+        continue;
+      }
+      try {
+        checks.push({ provider, status: 'ok', detail: await PROVIDER_CHECKS[provider]() });
+      } catch (error: any) {
+        checks.push({ provider, status: 'failed', detail: error.message });
+      }
+    }
+    return checks;
+  } finally {
+    configureRuntime({ profile: previous });
+  }
+}
+
+function printChecks(checks: ProviderCheck[]): void {
+  checks.forEach(check => {
+    const icon = check.status === 'ok' ? '✅' : check.status === 'failed' ? '❌' : chalk.gray('•');
+    console.log(`${icon} ${check.provider}: ${check.status}${check.detail ? chalk.gray(` (${check.detail})`) : ''}`);
+  });
+}
+
+export function registerProfileSubcommands(profile: Command): void {
+  profile
+    .command('list')
+    .description('List profiles and the providers each one has credentials for')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        const active = getRuntime().profile;
+        return listProfiles().map(name => ({
+          name,
+          active: name === active,
+          providers: configuredProviders(getProfile(name)!, name)
+        }));
+      }, (profiles) => {
+        if (profiles.length === 0) {
+          console.log(chalk.yellow('📭 No profiles yet. Add one with `geenius-cli profile add <name>`'));
+          return;
+        }
+        console.log(formatTable(['name', 'active', 'providers'], profiles.map(item => ({
+          name: item.name,
+          active: item.active ? '*' : '',
+          providers: item.providers.join(', ')
+        }))));
+      });
+    });
+
+  profile
+    .command('add <name>')
+    .description('Create or replace a profile, prompting for each provider\'s credentials')
+    .option('--from-env', 'Copy the credentials currently set in the environment instead of prompting')
+    .option('-f, --force', 'Replace an existing profile')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, options: ProfileAddOptions) => {
+      await runScripted(options, async () => {
+        if (!/^[\w.-]+$/.test(name)) {
+          throw new CliError('Profile names may only contain letters, digits, ".", "_" and "-"', ExitCode.Usage);
+        }
+        if (getProfile(name) && !options.force) {
+          throw new CliError(`Profile "${name}" already exists; pass --force to replace it`, ExitCode.Usage);
+        }
+        if (!options.fromEnv && !process.stdin.isTTY) {
+          throw new CliError('No terminal to prompt for credentials; pass --from-env', ExitCode.Usage);
+        }
+
+        const credentials = options.fromEnv ? credentialsFromEnv() : await promptCredentials();
+        if (Object.keys(credentials).length === 0) {
+          throw new CliError('No credentials given; the profile was not saved', ExitCode.MissingCredentials);
+        }
+        const encrypted = storeProfile(name, credentials);
+        return { success: true, name, encrypted, providers: configuredProviders(credentials) };
+      }, (result) => {
+        console.log(chalk.green(`✅ Profile ${result.name} saved (${result.providers.join(', ') || 'no complete provider credentials'})`));
+        if (!result.encrypted) {
+          console.log(chalk.gray('Stored unencrypted; create a vault with `geenius-cli secrets set` to encrypt future profiles'));
+        }
+      });
+    });
+
+  profile
+    .command('remove <name>')
+    .description('Delete a profile and its stored credentials')
+    .option('-y, --yes', 'Confirm the removal')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireProfile(name);
+        if (!options.yes) {
+          throw new CliError(`Refusing to remove profile ${name} without --yes`, ExitCode.ConfirmationRequired);
+        }
+        // Secret names are encrypted too, so with a locked vault the profile's keys would be left behind unseen
+        if (vaultExists() && !isVaultUnlocked()) {
+          throw new CliError(`The secrets vault is locked, so the credentials of profile ${name} stored in it can't be removed; set GEENIUS_VAULT_KEY or run in a terminal`, ExitCode.MissingCredentials);
+        }
+        removeProfile(name);
+        const secrets = listSecrets().filter(secret => secret.name.startsWith(`${name}/`));
+        secrets.forEach(secret => removeSecret(secret.name));
+        return { success: true, name, removedSecrets: secrets.map(secret => secret.name) };
+      }, (result) => {
+        const count = result.removedSecrets.length;
+        console.log(chalk.green(`✅ Profile ${result.name} removed${count > 0 ? `, with ${count} ${count === 1 ? 'credential' : 'credentials'} from the vault` : ''}`));
+      });
+    });
+
+  profile
+    .command('test [name]')
+    .description('Check that a profile\'s credentials work (defaults to the active profile or the environment)')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string | undefined, options: ScriptedOptions) => {
+      const profileName = name || getRuntime().profile;
+      let failed = false;
+
+      await runScripted(options, async () => {
+        const checks = await testProfile(profileName);
+        failed = checks.some(check => check.status === 'failed');
+        return { profile: profileName || null, checks };
+      }, (result) => {
+        console.log(chalk.blue(`\n👤 ${result.profile ? `Profile ${result.profile}` : 'Environment credentials'}\n`));
+        printChecks(result.checks);
+      });
+
+      if (failed) {
+        process.exitCode = ExitCode.Failure;
+      }
+    });
+}
+
+export async function profileMenu(): Promise<void> {
+  const profiles = listProfiles();
+  if (profiles.length === 0) {
+    console.log(chalk.yellow('\n📭 No profiles yet. Add one with `geenius-cli profile add <name>`\n'));
+    return;
+  }
+
+  const active = getRuntime().profile;
+  const { profile } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'profile',
+      message: 'Switch to which profile?',
+      default: active,
+      choices: [
+        { name: `Environment variables (.env)${active ? '' : chalk.gray(' (current)')}`, value: undefined },
+        ...profiles.map(name => ({
+          name: `${name} ${chalk.gray(`[${configuredProviders(getProfile(name)!, name).join(', ') || 'no providers'}]`)}${name === active ? chalk.gray(' (current)') : ''}`,
+          value: name
+        }))
+      ]
+    }
+  ]);
+
+  configureRuntime({ profile });
+  console.log(chalk.green(`\n✅ Now using ${profile ? `profile ${profile}` : 'environment variables'}\n`));
+}
@@ -0,0 +1,220 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { AI_PROVIDER_CREDENTIALS, PROVIDERS, PROVIDER_CREDENTIALS } from '../utils/credentials.js';
+import {
+  createVault,
+  getSecret,
+  getVaultFile,
+  isVaultUnlocked,
+  listSecrets,
+  maskSecret,
+  removeSecret,
+  setSecret,
+  unlockVault,
+  vaultExists
+} from '../utils/vault.js';
+import { CliError, ExitCode, ScriptedOptions, formatTable, runScripted } from '../utils/output.js';
+
+interface SecretGetOptions extends ScriptedOptions {
+  reveal?: boolean;
+}
+
+const PASSPHRASE_ENV = 'GEENIUS_VAULT_KEY';
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+}
+
+/**
+ * Unlocks an existing vault with GEENIUS_VAULT_KEY or, in a terminal, by
+ * asking for the passphrase. Without either the vault stays locked and
+ * credentials resolve from the profile and environment alone.
+ */
+export async function unlockVaultIfPresent(): Promise<void> {
+  if (!vaultExists() || isVaultUnlocked()) {
+    return;
+  }
+  const passphrase = process.env[PASSPHRASE_ENV];
+  if (passphrase) {
+    unlockVault(passphrase);
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    return;
+  }
+
+  await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      mask: '*',
+      message: '🔐 Secrets vault passphrase:',
+      validate: (input: string) => {
+        try {
+          unlockVault(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    }
+  ]);
+}
+
+async function requireVault(create: boolean = false): Promise<void> {
+  if (isVaultUnlocked()) {
+    return;
+  }
+  if (vaultExists()) {
+    await unlockVaultIfPresent();
+    if (!isVaultUnlocked()) {
+      throw new CliError(`The secrets vault is locked; set ${PASSPHRASE_ENV} or run in a terminal`, ExitCode.MissingCredentials);
+    }
+    return;
+  }
+  if (!create) {
+    throw new CliError(`No secrets vault yet. Create one with \`geenius-cli secrets set <name>\``, ExitCode.NotFound);
+  }
+
+  if (process.env[PASSPHRASE_ENV]) {
+    createVault(process.env[PASSPHRASE_ENV]!);
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    throw new CliError(`No terminal to choose a vault passphrase; set ${PASSPHRASE_ENV}`, ExitCode.MissingCredentials);
+  }
+  console.error(chalk.blue(`🔐 Creating a secrets vault at ${getVaultFile()}`));
+  const { passphrase } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      mask: '*',
+      message: 'Choose a vault passphrase:',
+      validate: (input: string) => input.length >= 8 || 'Use at least 8 characters'
+    }
+  ]);
+  await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'confirm',
+      mask: '*',
+      message: 'Repeat the passphrase:',
+      validate: (input: string) => input === passphrase || 'Passphrases do not match'
+    }
+  ]);
+  createVault(passphrase);
+}
+
+export function registerSecretsSubcommands(secrets: Command): void {
+  secrets
+    .command('set <name> [value]')
+    .description('Store a secret, prompting for the value (or reading stdin) when it is not given')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, value: string | undefined, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        await requireVault(true);
+        let secret = value;
+        if (secret === undefined && process.stdin.isTTY) {
+          ({ secret } = await inquirer.prompt([{ type: 'password', name: 'secret', mask: '*', message: `Value for ${name}:` }]));
+        } else if (secret === undefined) {
+          secret = await readStdin();
+        }
+        if (!secret) {
+          throw new CliError(`No value given for ${name}`, ExitCode.Usage);
+        }
+        setSecret(name, secret);
+        return { success: true, name };
+      }, (result) => {
+        console.log(chalk.green(`✅ Secret ${result.name} saved`));
+        if (value !== undefined) {
+          console.log(chalk.gray('Values passed as arguments end up in your shell history; omit the value to be prompted instead'));
+        }
+      });
+    });
+
+  secrets
+    .command('get <name>')
+    .description('Show a secret, masked unless --reveal is given')
+    .option('--reveal', 'Print the secret value itself')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, options: SecretGetOptions) => {
+      await runScripted(options, async () => {
+        await requireVault();
+        const secret = getSecret(name);
+        if (secret === undefined) {
+          throw new CliError(`No secret named ${name}`, ExitCode.NotFound);
+        }
+        return { name, value: options.reveal ? secret : maskSecret(secret), revealed: Boolean(options.reveal) };
+      }, (result) => {
+        // Revealed values go out bare so they can be piped
+        console.log(result.revealed ? result.value : `${result.name}: ${result.value}`);
+      });
+    });
+
+  secrets
+    .command('list')
+    .description('List secret names (values are never shown)')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        await requireVault();
+        return listSecrets();
+      }, (result) => {
+        if (result.length === 0) {
+          console.log(chalk.yellow('📭 The vault is empty'));
+          return;
+        }
+        console.log(formatTable(['name', 'updated'], result.map(secret => ({
+          name: secret.name,
+          updated: new Date(secret.updatedAt).toLocaleString()
+        }))));
+      });
+    });
+
+  secrets
+    .command('rm <name>')
+    .description('Delete a secret')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        await requireVault();
+        if (getSecret(name) === undefined) {
+          throw new CliError(`No secret named ${name}`, ExitCode.NotFound);
+        }
+        if (!options.yes) {
+          throw new CliError(`Refusing to delete secret ${name} without --yes`, ExitCode.ConfirmationRequired);
+        }
+        removeSecret(name);
+        return { success: true, name };
+      }, (result) => {
+        console.log(chalk.green(`✅ Secret ${result.name} deleted`));
+      });
+    });
+
+  secrets
+    .command('import-env')
+    .description('Copy the provider and AI keys currently set in the environment (.env) into the vault')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        await requireVault(true);
+        const names = [...PROVIDERS.flatMap(provider => PROVIDER_CREDENTIALS[provider]), ...AI_PROVIDER_CREDENTIALS]
+          .filter(name => process.env[name]);
+        names.forEach(name => setSecret(name, process.env[name]!));
+        return { success: true, imported: names };
+      }, (result) => {
+        if (result.imported.length === 0) {
+          console.log(chalk.yellow('📭 No known credentials found in the environment'));
+          return;
+        }
+        console.log(chalk.green(`✅ Imported ${result.imported.join(', ')}`));
+        console.log(chalk.gray('You can now remove these lines from your .env file'));
+      });
+    });
+}
@@ -0,0 +1,389 @@
+import fs from 'fs';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { UpstashService } from '../services/upstash.js';
+import { QStashDeliveryOptions, QStashService, connectQStash } from '../services/qstash.js';
+import { runMutation } from './mutations.js';
+import { PagedList, PickerRow, pickMany, pickOne, printPages } from './picker.js';
+import { audited } from '../utils/audit.js';
+import { toIsoDate } from '../utils/filters.js';
+import { CliError, ExitCode } from '../utils/output.js';
+
+const MAX_BODY_LENGTH = 2000;
+
+// Delivery settings as given on the command line
+export interface DeliveryFlags {
+  body?: string;
+  bodyFile?: string;
+  header?: string[];
+  contentType?: string;
+  method?: string;
+  delay?: string;
+  retries?: string;
+}
+
+/**
+ * Validates delivery flags and turns them into service options. Headers are
+ * written "Name: value" like curl's -H.
+ */
+export function parseDeliveryFlags(flags: DeliveryFlags): QStashDeliveryOptions {
+  if (flags.body !== undefined && flags.bodyFile) {
+    throw new CliError('Use either --body or --body-file, not both', ExitCode.Usage);
+  }
+  if (flags.delay && !/^\d+[smhd]$/.test(flags.delay)) {
+    throw new CliError(`Invalid delay "${flags.delay}". Use a number followed by s, m, h or d (e.g. 10m)`, ExitCode.Usage);
+  }
+  const retries = flags.retries === undefined ? undefined : Number(flags.retries);
+  if (retries !== undefined && !(Number.isInteger(retries) && retries >= 0)) {
+    throw new CliError('Retries must be a whole number of 0 or more', ExitCode.Usage);
+  }
+  const headers = Object.fromEntries((flags.header || []).map(header => {
+    const separator = header.indexOf(':');
+    if (separator < 1) {
+      throw new CliError(`Invalid header "${header}". Use "Name: value"`, ExitCode.Usage);
+    }
+    return [header.slice(0, separator).trim(), header.slice(separator + 1).trim()];
+  }));
+
+  let body = flags.body;
+  if (flags.bodyFile) {
+    try {
+      body = fs.readFileSync(flags.bodyFile === '-' ? 0 : flags.bodyFile, 'utf8');
+    } catch (error: any) {
+      throw new CliError(`Cannot read ${flags.bodyFile}: ${error.message}`, ExitCode.Usage);
+    }
+  }
+
+  return { body, headers, contentType: flags.contentType, method: flags.method, delay: flags.delay, retries };
+}
+
+// Bodies may hold application data, so only the shape of a delivery is audited
+function deliveryParams(destination: string, options: QStashDeliveryOptions) {
+  return {
+    destination,
+    method: options.method,
+    delay: options.delay,
+    retries: options.retries,
+    headers: Object.keys(options.headers || {}),
+    bodyBytes: Buffer.byteLength(options.body ?? '')
+  };
+}
+
+export function publishMessage(qstash: QStashService, destination: string, options: QStashDeliveryOptions) {
+  return audited({
+    provider: 'upstash',
+    action: 'publishQStashMessage',
+    target: { name: destination },
+    params: deliveryParams(destination, options)
+  }, () => qstash.publish(destination, options));
+}
+
+export function createSchedule(qstash: QStashService, destination: string, cron: string, options: QStashDeliveryOptions) {
+  return audited({
+    provider: 'upstash',
+    action: 'createQStashSchedule',
+    target: { name: destination },
+    params: { cron, ...deliveryParams(destination, options) }
+  }, () => qstash.createSchedule(destination, cron, options));
+}
+
+// Bodies come back either as text or, when they aren't valid UTF-8, base64 encoded
+function decodeBody(item: any, field: 'body' | 'responseBody'): string {
+  const text = item[field] ?? (item[`${field}Base64`] ? Buffer.from(item[`${field}Base64`], 'base64').toString('utf8') : '');
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}${chalk.gray('…')}` : text;
+}
+
+function printHeaders(headers: Record<string, string[] | string> | undefined): void {
+  Object.entries(headers || {}).forEach(([name, value]) => {
+    console.log(chalk.gray(`   ${name}: ${Array.isArray(value) ? value.join(', ') : value}`));
+  });
+}
+
+function scheduleRow(schedule: any): PickerRow {
+  return {
+    name: schedule.scheduleId,
+    details: [schedule.cron, schedule.isPaused ? 'paused' : 'active', schedule.destination]
+  };
+}
+
+function dlqRow(message: any): PickerRow {
+  return {
+    name: message.dlqId,
+    details: [message.topicName || message.url, message.responseStatus ? `HTTP ${message.responseStatus}` : undefined, toIsoDate(message.createdAt)]
+  };
+}
+
+function printEvent(event: any): void {
+  const color = ['ERROR', 'FAILED'].includes(event.state) ? chalk.red : event.state === 'DELIVERED' ? chalk.green : chalk.cyan;
+  console.log(`${chalk.gray(toIsoDate(event.time))}  ${color(event.state.padEnd(9))}  ${event.messageId}  ${event.url || event.topicName || ''}`);
+  if (event.error) {
+    console.log(chalk.red(`   ${event.error}`));
+  }
+  if (event.responseStatus) {
+    console.log(chalk.gray(`   Response: HTTP ${event.responseStatus}${event.responseBody ? ` ${decodeBody(event, 'responseBody')}` : ''}`));
+  }
+  if (event.nextDeliveryTime && event.state === 'RETRY') {
+    console.log(chalk.gray(`   Next delivery: ${toIsoDate(event.nextDeliveryTime)}`));
+  }
+}
+
+async function promptForDelivery(): Promise<QStashDeliveryOptions> {
+  const answers = await inquirer.prompt([
+    { type: 'input', name: 'body', message: 'Message body (JSON or text, empty for none):' },
+    { type: 'input', name: 'headers', message: 'Headers to forward (Name: value, separated by ";", optional):' },
+    { type: 'input', name: 'delay', message: 'Delay before delivery (e.g. 30s, 10m, optional):' },
+    { type: 'input', name: 'retries', message: 'Retries (optional, defaults to the plan maximum):' }
+  ]);
+  const body = answers.body.trim();
+  return parseDeliveryFlags({
+    body,
+    contentType: body && /^[[{]/.test(body) ? 'application/json' : undefined,
+    header: answers.headers.split(';').map((header: string) => header.trim()).filter(Boolean),
+    delay: answers.delay.trim() || undefined,
+    retries: answers.retries.trim() || undefined
+  });
+}
+
+export async function publishQStashMessage(upstash: UpstashService) {
+  try {
+    const { destination } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'destination',
+        message: 'Destination URL or topic name:',
+        validate: (input: string) => input.trim() !== '' || 'A destination is required'
+      }
+    ]);
+    const options = await promptForDelivery();
+
+    const spinner = ora(`Publishing to ${destination.trim()}...`).start();
+    try {
+      const messages = await publishMessage(await connectQStash(upstash), destination.trim(), options);
+      spinner.stop();
+      console.log(chalk.green.bold('\n✅ Message published!'));
+      messages.forEach((message: any) => {
+        console.log(`   ${message.messageId}${message.url ? chalk.gray(` → ${message.url}`) : ''}${message.deduplicated ? chalk.yellow(' (deduplicated)') : ''}`);
+      });
+    } catch (error) {
+      spinner.stop();
+      throw error;
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
+
+async function createScheduleInteractive(qstash: QStashService) {
+  const { destination, cron } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'destination',
+      message: 'Destination URL or topic name:',
+      validate: (input: string) => input.trim() !== '' || 'A destination is required'
+    },
+    {
+      type: 'input',
+      name: 'cron',
+      message: 'Cron expression (e.g. */10 * * * *):',
+      validate: (input: string) => input.trim().split(/\s+/).length >= 5 || 'Use five fields: minute hour day month weekday'
+    }
+  ]);
+  const options = await promptForDelivery();
+
+  const spinner = ora('Creating schedule...').start();
+  try {
+    const { scheduleId } = await createSchedule(qstash, destination.trim(), cron.trim(), options);
+    spinner.stop();
+    console.log(chalk.green.bold(`\n✅ Schedule ${scheduleId} created`));
+  } catch (error) {
+    spinner.stop();
+    throw error;
+  }
+}
+
+async function manageSchedule(qstash: QStashService, schedule: any) {
+  console.log(chalk.green.bold(`\n⏰ ${schedule.scheduleId}`));
+  console.log(`   Cron: ${schedule.cron}`);
+  console.log(`   Destination: ${schedule.destination}`);
+  console.log(`   State: ${schedule.isPaused ? chalk.yellow('paused') : chalk.green('active')}`);
+  console.log(`   Method: ${schedule.method || 'POST'}`);
+  console.log(`   Retries: ${schedule.retries ?? 'N/A'}`);
+  console.log(`   Created: ${schedule.createdAt ? new Date(schedule.createdAt).toLocaleString() : 'N/A'}`);
+  if (schedule.body) {
+    console.log(`   Body: ${decodeBody(schedule, 'body')}`);
+  }
+
+  const { action } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'What would you like to do with this schedule?',
+      choices: [
+        schedule.isPaused
+          ? { name: '▶️  Resume', value: 'resume' }
+          : { name: '⏸️  Pause', value: 'pause' },
+        { name: '🗑️  Delete', value: 'delete' },
+        { name: '🔙 Back', value: 'back' }
+      ]
+    }
+  ]);
+  if (action === 'back') {
+    return;
+  }
+
+  if (action === 'delete') {
+    const { confirm } = await inquirer.prompt([
+      { type: 'confirm', name: 'confirm', message: `Delete schedule ${schedule.scheduleId}? This action cannot be undone.`, default: false }
+    ]);
+    if (!confirm) return;
+  }
+
+  const args = { scheduleId: schedule.scheduleId, destination: schedule.destination, cron: schedule.cron };
+  const mutation = action === 'delete' ? 'upstash.deleteQStashSchedule' : action === 'pause' ? 'upstash.pauseQStashSchedule' : 'upstash.resumeQStashSchedule';
+  const spinner = ora('Updating schedule...').start();
+  const { applied } = await runMutation(mutation, args, spinner);
+  spinner.stop();
+  if (applied) {
+    console.log(chalk.green(`✅ Schedule ${schedule.scheduleId} ${action === 'delete' ? 'deleted' : `${action}d`}`));
+  }
+}
+
+export async function manageQStashSchedules(upstash: UpstashService) {
+  const spinner = ora('Loading schedules...').start();
+
+  try {
+    const qstash = await connectQStash(upstash);
+    const schedules = new PagedList(qstash.iterateSchedules());
+    await schedules.loadMore();
+    spinner.stop();
+
+    const picked = await pickOne<any, 'create' | 'back'>('Select a schedule:', schedules, scheduleRow, [
+      { name: '➕ Create schedule', value: 'create' },
+      { name: '🔙 Back', value: 'back' }
+    ]);
+    if (picked === 'back') {
+      return;
+    }
+    if (picked === 'create') {
+      await createScheduleInteractive(qstash);
+      return;
+    }
+    await manageSchedule(qstash, picked);
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
+
+function printDlqMessage(message: any): void {
+  console.log(chalk.green.bold(`\n💀 ${message.dlqId}`));
+  console.log(`   Message ID: ${message.messageId}`);
+  if (message.topicName) {
+    console.log(`   Topic: ${message.topicName}`);
+  }
+  console.log(`   URL: ${message.url}`);
+  console.log(`   Method: ${message.method || 'POST'}`);
+  console.log(`   Created: ${message.createdAt ? new Date(message.createdAt).toLocaleString() : 'N/A'}`);
+  console.log(`   Max retries: ${message.maxRetries ?? 'N/A'}`);
+  printHeaders(message.header);
+  console.log(chalk.cyan('\n   Payload:'));
+  console.log(decodeBody(message, 'body') || chalk.gray('(empty)'));
+  console.log(chalk.cyan(`\n   Last response: HTTP ${message.responseStatus ?? 'N/A'}`));
+  console.log(decodeBody(message, 'responseBody') || chalk.gray('(empty)'));
+}
+
+async function applyToDlqMessages(messages: any[], action: 'replay' | 'delete') {
+  let applied = 0;
+  for (const message of messages) {
+    const spinner = ora(`${action === 'replay' ? 'Replaying' : 'Deleting'} ${message.dlqId}...`).start();
+    try {
+      const outcome = await runMutation(action === 'replay' ? 'upstash.replayDlqMessage' : 'upstash.deleteDlqMessage', { dlqId: message.dlqId, url: message.url }, spinner);
+      spinner.stop();
+      if (outcome.applied) {
+        applied++;
+        console.log(chalk.green(`✅ ${message.dlqId} ${action === 'replay' ? `replayed as ${outcome.result?.messageId}` : 'deleted'}`));
+      }
+    } catch (error: any) {
+      spinner.stop();
+      console.log(chalk.red(`❌ ${message.dlqId}: ${error.message}`));
+    }
+  }
+  if (messages.length > 1 && applied > 0) {
+    console.log(chalk.green.bold(`\n✅ ${action === 'replay' ? 'Replayed' : 'Deleted'} ${applied} of ${messages.length} messages`));
+  }
+}
+
+export async function browseDeadLetterQueue(upstash: UpstashService) {
+  const spinner = ora('Loading the dead-letter queue...').start();
+
+  try {
+    const dlq = new PagedList((await connectQStash(upstash)).iterateDlq());
+    await dlq.loadMore();
+    spinner.stop();
+
+    if (dlq.items.length === 0) {
+      console.log(chalk.green('📭 The dead-letter queue is empty'));
+      return;
+    }
+
+    const picked = await pickOne<any, 'several' | 'back'>('Select a failed message:', dlq, dlqRow, [
+      { name: '☑️  Select several', value: 'several' },
+      { name: '🔙 Back', value: 'back' }
+    ]);
+    if (picked === 'back') {
+      return;
+    }
+
+    const messages = picked === 'several' ? await pickMany('Select failed messages:', dlq, dlqRow) : [picked];
+    if (messages.length === 0) {
+      return;
+    }
+    if (picked !== 'several') {
+      printDlqMessage(picked);
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: messages.length > 1 ? `What would you like to do with ${messages.length} messages?` : 'What would you like to do with this message?',
+        choices: [
+          { name: '♻️  Replay to the original destination', value: 'replay' },
+          { name: '🗑️  Delete from the dead-letter queue', value: 'delete' },
+          { name: '🔙 Back', value: 'back' }
+        ]
+      }
+    ]);
+    if (action === 'back') {
+      return;
+    }
+    await applyToDlqMessages(messages, action);
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
+
+export async function viewQStashLogs(upstash: UpstashService) {
+  const { messageId } = await inquirer.prompt([
+    { type: 'input', name: 'messageId', message: 'Message ID (empty for the most recent events of every message):' }
+  ]);
+  const spinner = ora('Fetching QStash events...').start();
+
+  try {
+    const events = new PagedList((await connectQStash(upstash)).iterateEvents({ messageId: messageId.trim() || undefined }));
+    await events.loadMore();
+    spinner.stop();
+
+    if (events.items.length === 0) {
+      console.log(chalk.yellow('📭 No events found'));
+      return;
+    }
+    console.log(chalk.green.bold(`\n📜 QStash events${messageId.trim() ? ` for ${messageId.trim()}` : ''} (newest first)\n`));
+    await printPages(events, printEvent);
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
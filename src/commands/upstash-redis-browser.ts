@@ -0,0 +1,356 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { RedisCommand, RedisKeyInfo, RedisKeyValue, UpstashRedisService } from '../services/upstash-redis.js';
+import { runMutation } from './mutations.js';
+import { PagedList, PickerRow, pickOne } from './picker.js';
+import { formatTable } from '../utils/output.js';
+import { parseDuration } from '../utils/filters.js';
+
+// Entries of a collection shown per key, and the longest cell printed before cutting it off
+const VALUE_LIMIT = 100;
+const MAX_CELL_WIDTH = 80;
+const MAX_STRING_LENGTH = 2000;
+
+interface BrowsedDatabase {
+  databaseId: string;
+  name: string;
+  redis: UpstashRedisService;
+}
+
+function formatTtl(ttl: number): string {
+  if (ttl === -1) {
+    return 'no expiry';
+  }
+  if (ttl < 0) {
+    return 'expired';
+  }
+  const units: [string, number][] = [['d', 86400], ['h', 3600], ['m', 60], ['s', 1]];
+  const parts: string[] = [];
+  let remaining = ttl;
+  for (const [unit, seconds] of units) {
+    if (remaining >= seconds && parts.length < 2) {
+      parts.push(`${Math.floor(remaining / seconds)}${unit}`);
+      remaining %= seconds;
+    }
+  }
+  return `expires in ${parts.join(' ') || '0s'}`;
+}
+
+function keyRow(info: RedisKeyInfo): PickerRow {
+  return { name: info.key, details: [info.type, formatTtl(info.ttl)] };
+}
+
+function cell(value: unknown): string {
+  const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+}
+
+function printString(value: string): void {
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed === 'object' && parsed !== null) {
+      console.log(JSON.stringify(parsed, null, 2));
+      return;
+    }
+  } catch {
+    // Not JSON; print it as it is
+  }
+  console.log(value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}${chalk.gray('…')}` : value);
+}
+
+function printKey(key: RedisKeyValue): void {
+  console.log(chalk.green.bold(`\n🗝️  ${key.key}`));
+  console.log(chalk.gray(`   ${key.type}, ${key.length} ${key.type === 'string' ? 'bytes' : 'entries'}, ${formatTtl(key.ttl)}`));
+  console.log();
+
+  switch (key.type) {
+    case 'string':
+      printString(key.value ?? '');
+      break;
+    case 'hash':
+      console.log(formatTable(['field', 'value'], Object.entries(key.value).map(([field, value]) => ({ field: cell(field), value: cell(value) }))));
+      break;
+    case 'list':
+      console.log(formatTable(['index', 'value'], key.value.map((value: string, index: number) => ({ index, value: cell(value) }))));
+      break;
+    case 'set':
+      console.log(formatTable(['member'], key.value.map((member: string) => ({ member: cell(member) }))));
+      break;
+    case 'zset':
+      console.log(formatTable(['member', 'score'], key.value.map(({ member, score }: any) => ({ member: cell(member), score }))));
+      break;
+    case 'stream':
+      console.log(formatTable(['id', 'fields'], key.value.map(({ id, fields }: any) => ({ id, fields: cell(fields) }))));
+      break;
+  }
+
+  if (key.truncated && key.type !== 'string') {
+    console.log(chalk.gray(`\nShowing the first ${VALUE_LIMIT} of ${key.length} entries`));
+  }
+}
+
+async function loadKeys(redis: UpstashRedisService, pattern: string): Promise<PagedList<RedisKeyInfo>> {
+  const keys = new PagedList(redis.scanKeyInfo(pattern));
+  const spinner = ora(`Scanning keys matching ${pattern}...`).start();
+  try {
+    await keys.loadMore();
+    spinner.stop();
+    return keys;
+  } catch (error) {
+    spinner.stop();
+    throw error;
+  }
+}
+
+async function promptForPattern(current: string = '*'): Promise<string> {
+  const { pattern } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'pattern',
+      message: 'Key pattern (e.g. session:*, user:?:profile):',
+      default: current
+    }
+  ]);
+  return pattern.trim() || '*';
+}
+
+const required = (label: string) => (input: string) => input.length > 0 || `${label} is required`;
+
+// Asks for the command that applies the chosen edit; undefined when there is nothing to change
+async function promptForEdit(key: RedisKeyValue): Promise<RedisCommand | undefined> {
+  const name = key.key;
+
+  if (key.type === 'string') {
+    const { value } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'value',
+        message: 'New value:',
+        default: key.value && key.value.length <= MAX_CELL_WIDTH ? key.value : undefined
+      }
+    ]);
+    return ['SET', name, value, 'KEEPTTL'];
+  }
+
+  const actions: Record<string, { name: string; value: string }[]> = {
+    hash: [{ name: '✏️  Set a field', value: 'set' }, { name: '➖ Remove a field', value: 'remove' }],
+    list: [{ name: '✏️  Replace the item at an index', value: 'set' }, { name: '➕ Append an item', value: 'add' }, { name: '➖ Remove an item by value', value: 'remove' }],
+    set: [{ name: '➕ Add a member', value: 'add' }, { name: '➖ Remove a member', value: 'remove' }],
+    zset: [{ name: '✏️  Add or rescore a member', value: 'add' }, { name: '➖ Remove a member', value: 'remove' }],
+    stream: [{ name: '➕ Append an entry', value: 'add' }, { name: '➖ Remove an entry', value: 'remove' }]
+  };
+  const { action } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'What would you like to change?',
+      choices: [...actions[key.type], { name: '🔙 Cancel', value: 'cancel' }]
+    }
+  ]);
+  if (action === 'cancel') {
+    return undefined;
+  }
+
+  switch (`${key.type}:${action}`) {
+    case 'hash:set': {
+      const { field, value } = await inquirer.prompt([
+        { type: 'input', name: 'field', message: 'Field:', validate: required('Field') },
+        { type: 'input', name: 'value', message: 'Value:' }
+      ]);
+      return ['HSET', name, field, value];
+    }
+    case 'hash:remove': {
+      const { field } = await inquirer.prompt([{ type: 'input', name: 'field', message: 'Field to remove:', validate: required('Field') }]);
+      return ['HDEL', name, field];
+    }
+    case 'list:set': {
+      const { index, value } = await inquirer.prompt([
+        { type: 'number', name: 'index', message: 'Index (negative counts from the end):', default: 0 },
+        { type: 'input', name: 'value', message: 'Value:' }
+      ]);
+      return ['LSET', name, index, value];
+    }
+    case 'list:add': {
+      const { value } = await inquirer.prompt([{ type: 'input', name: 'value', message: 'Value:' }]);
+      return ['RPUSH', name, value];
+    }
+    case 'list:remove': {
+      const { value } = await inquirer.prompt([{ type: 'input', name: 'value', message: 'Remove the first item equal to:' }]);
+      return ['LREM', name, 1, value];
+    }
+    case 'set:add':
+    case 'set:remove': {
+      const { member } = await inquirer.prompt([{ type: 'input', name: 'member', message: 'Member:', validate: required('Member') }]);
+      return [action === 'add' ? 'SADD' : 'SREM', name, member];
+    }
+    case 'zset:add': {
+      const { member, score } = await inquirer.prompt([
+        { type: 'input', name: 'member', message: 'Member:', validate: required('Member') },
+        { type: 'number', name: 'score', message: 'Score:', default: 0 }
+      ]);
+      return ['ZADD', name, score, member];
+    }
+    case 'zset:remove': {
+      const { member } = await inquirer.prompt([{ type: 'input', name: 'member', message: 'Member:', validate: required('Member') }]);
+      return ['ZREM', name, member];
+    }
+    case 'stream:add': {
+      const { field, value } = await inquirer.prompt([
+        { type: 'input', name: 'field', message: 'Field:', validate: required('Field') },
+        { type: 'input', name: 'value', message: 'Value:' }
+      ]);
+      return ['XADD', name, '*', field, value];
+    }
+    case 'stream:remove': {
+      const { id } = await inquirer.prompt([{ type: 'input', name: 'id', message: 'Entry id (e.g. 1700000000000-0):', validate: required('Entry id') }]);
+      return ['XDEL', name, id];
+    }
+  }
+  return undefined;
+}
+
+async function promptForExpiry(): Promise<number> {
+  const { expiry } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'expiry',
+      message: 'Expire after (seconds or a duration such as 30m, 12h, 7d):',
+      validate: (input: string) => {
+        if (/^\d+$/.test(input.trim()) && parseInt(input, 10) > 0) {
+          return true;
+        }
+        try {
+          parseDuration(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    }
+  ]);
+  return /^\d+$/.test(expiry.trim()) ? parseInt(expiry, 10) : Math.round(parseDuration(expiry) / 1000);
+}
+
+// Shows one key and its actions until the user goes back; returns true when the key was deleted
+async function browseKey(database: BrowsedDatabase, keyName: string): Promise<boolean> {
+  const { databaseId, name, redis } = database;
+
+  while (true) {
+    const spinner = ora(`Reading ${keyName}...`).start();
+    let key: RedisKeyValue;
+    try {
+      key = await redis.readKey(keyName, VALUE_LIMIT);
+      spinner.stop();
+    } catch (error: any) {
+      spinner.stop();
+      console.log(chalk.red(`❌ Error: ${error.message}`));
+      return false;
+    }
+    printKey(key);
+    console.log();
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do with this key?',
+        choices: [
+          { name: '✏️  Edit value', value: 'edit' },
+          { name: '⏱️  Set expiry', value: 'expire' },
+          ...(key.ttl >= 0 ? [{ name: '♾️  Remove expiry', value: 'persist' }] : []),
+          { name: '🗑️  Delete key', value: 'delete' },
+          { name: '🔙 Back to keys', value: 'back' }
+        ]
+      }
+    ]);
+
+    try {
+      switch (action) {
+        case 'back':
+          return false;
+        case 'edit': {
+          const command = await promptForEdit(key);
+          if (command) {
+            const editSpinner = ora(`Running ${command[0]}...`).start();
+            await runMutation('upstash.updateRedisKey', { databaseId, name, key: keyName, command }, editSpinner);
+            editSpinner.stop();
+          }
+          break;
+        }
+        case 'expire':
+        case 'persist': {
+          const seconds = action === 'expire' ? await promptForExpiry() : null;
+          const expireSpinner = ora('Updating expiry...').start();
+          await runMutation('upstash.expireRedisKey', { databaseId, name, key: keyName, seconds }, expireSpinner);
+          expireSpinner.stop();
+          break;
+        }
+        case 'delete': {
+          const { confirm } = await inquirer.prompt([
+            { type: 'confirm', name: 'confirm', message: `Delete key ${keyName}?`, default: false }
+          ]);
+          if (!confirm) {
+            break;
+          }
+          const deleteSpinner = ora(`Deleting ${keyName}...`).start();
+          const { applied } = await runMutation('upstash.deleteRedisKey', { databaseId, name, key: keyName }, deleteSpinner);
+          deleteSpinner.stop();
+          if (applied) {
+            console.log(chalk.green(`✅ Deleted ${keyName}`));
+            return true;
+          }
+          break;
+        }
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ Error: ${error.message}`));
+    }
+  }
+}
+
+/**
+ * Browses the keys of a Redis database (as returned by getRedisDatabase)
+ * through its REST endpoint: SCAN by pattern, view values by type and edit,
+ * expire or delete keys. Writes go through runMutation, so --dry-run, --plan
+ * and the audit log apply.
+ */
+export async function browseRedisData(details: any): Promise<void> {
+  try {
+    const database: BrowsedDatabase = {
+      databaseId: details.database_id,
+      name: details.database_name,
+      redis: new UpstashRedisService(details.endpoint, details.rest_token)
+    };
+
+    let pattern = await promptForPattern();
+    let keys = await loadKeys(database.redis, pattern);
+
+    while (true) {
+      if (keys.items.length === 0) {
+        console.log(chalk.yellow(`📭 No keys match ${pattern}`));
+      }
+
+      const choice = await pickOne<RedisKeyInfo, 'pattern' | 'back'>(`Keys matching ${pattern}:`, keys, keyRow, [
+        { name: '🔎 Change pattern', value: 'pattern' },
+        { name: '🔙 Done browsing', value: 'back' }
+      ]);
+
+      if (choice === 'back') {
+        return;
+      }
+      if (choice === 'pattern') {
+        pattern = await promptForPattern(pattern);
+        keys = await loadKeys(database.redis, pattern);
+        continue;
+      }
+
+      const deleted = await browseKey(database, choice.key);
+      if (deleted) {
+        keys = await loadKeys(database.redis, pattern);
+      }
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
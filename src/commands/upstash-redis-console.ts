@@ -0,0 +1,323 @@
+import fs from 'fs';
+import readline from 'readline';
+import chalk from 'chalk';
+import { UpstashService } from '../services/upstash.js';
+import { RedisCommand, RedisReply, UpstashRedisService, isReadCommand } from '../services/upstash-redis.js';
+import { audited } from '../utils/audit.js';
+import { requireProviderCredentials } from '../utils/credentials.js';
+import { CliError, ExitCode } from '../utils/output.js';
+import { configPath } from '../utils/paths.js';
+import { getRuntime } from '../utils/runtime.js';
+
+const HISTORY_SIZE = 500;
+// Piped input is sent in pipelines of at most this many commands
+const PIPELINE_SIZE = 100;
+// Replies Redis sends as status lines rather than strings; redis-cli prints them unquoted
+const STATUS_REPLIES = new Set(['OK', 'PONG', 'QUEUED']);
+
+export interface RedisConsoleOptions {
+  readOnly?: boolean;
+}
+
+// A reply from Redis, or a note printed in its place for writes skipped under --dry-run
+type ConsoleReply = RedisReply & { note?: string };
+
+interface ConsoleSession {
+  databaseId: string;
+  name: string;
+  redis: UpstashRedisService;
+  readOnly: boolean;
+}
+
+function historyFile(): string {
+  return configPath('redis-console-history');
+}
+
+function loadHistory(): string[] {
+  try {
+    // readline expects the most recent entry first
+    return fs.readFileSync(historyFile(), 'utf8').split('\n').filter(Boolean).reverse().slice(0, HISTORY_SIZE);
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(history: string[]): void {
+  try {
+    fs.writeFileSync(historyFile(), `${[...history].reverse().join('\n')}\n`, { mode: 0o600 });
+  } catch {
+    // Losing history must not interrupt the session
+  }
+}
+
+/**
+ * Splits a console line into arguments the way redis-cli does: whitespace
+ * separates arguments, and "double" or 'single' quotes group them. Double
+ * quotes understand \n, \r, \t, \", \\ and \xHH escapes.
+ */
+export function parseCommandLine(line: string): RedisCommand {
+  const args: string[] = [];
+  let index = 0;
+
+  while (index < line.length) {
+    while (index < line.length && /\s/.test(line[index])) {
+      index++;
+    }
+    if (index >= line.length) {
+      break;
+    }
+
+    let arg = '';
+    const quote = line[index] === '"' || line[index] === '\'' ? line[index] : undefined;
+    if (quote) {
+      index++;
+      while (index < line.length && line[index] !== quote) {
+        if (quote === '"' && line[index] === '\\' && index + 1 < line.length) {
+          const next = line[index + 1];
+          const hex = line.slice(index + 2, index + 4);
+          if (next === 'x' && /^[0-9a-f]{2}$/i.test(hex)) {
+            arg += String.fromCharCode(parseInt(hex, 16));
+            index += 4;
+            continue;
+          }
+          arg += ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[next] ?? next;
+          index += 2;
+          continue;
+        }
+        if (quote === '\'' && line[index] === '\\' && line[index + 1] === '\'') {
+          arg += '\'';
+          index += 2;
+          continue;
+        }
+        arg += line[index++];
+      }
+      if (index >= line.length) {
+        throw new Error('Invalid argument(s): unbalanced quotes');
+      }
+      index++;
+      if (index < line.length && !/\s/.test(line[index])) {
+        throw new Error('Invalid argument(s): closing quote must be followed by a space');
+      }
+    } else {
+      while (index < line.length && !/\s/.test(line[index])) {
+        arg += line[index++];
+      }
+    }
+    args.push(arg);
+  }
+
+  return args;
+}
+
+// Formats a reply the way redis-cli prints RESP: (integer), (nil), quoted strings and numbered nested arrays
+export function formatReply(reply: RedisReply): string {
+  if (reply.error !== undefined) {
+    return chalk.red(`(error) ${reply.error}`);
+  }
+  return formatValue(reply.result);
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) {
+    return chalk.gray('(nil)');
+  }
+  if (typeof value === 'number') {
+    return `(integer) ${value}`;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return chalk.gray('(empty array)');
+    }
+    const width = String(value.length).length;
+    return value.map((item, index) => {
+      const prefix = `${String(index + 1).padStart(width)}) `;
+      return formatValue(item).split('\n')
+        .map((line, lineIndex) => (lineIndex === 0 ? prefix : ' '.repeat(prefix.length)) + line)
+        .join('\n');
+    }).join('\n');
+  }
+  if (typeof value === 'string' && STATUS_REPLIES.has(value)) {
+    return value;
+  }
+  return JSON.stringify(String(value));
+}
+
+function describeCommand(command: RedisCommand): string {
+  return command.slice(0, 2).join(' ');
+}
+
+/**
+ * Sends a batch of commands as one pipeline. Writes are left out under
+ * --dry-run and recorded in the audit log otherwise; a read-only token
+ * cannot write, so read-only sessions send everything as typed.
+ */
+async function runCommands(session: ConsoleSession, commands: RedisCommand[]): Promise<ConsoleReply[]> {
+  const writes = session.readOnly ? [] : commands.filter(command => !isReadCommand(command));
+
+  if (writes.length > 0 && getRuntime().dryRun) {
+    const reads = commands.filter(isReadCommand);
+    const replies = await session.redis.pipeline(reads);
+    return commands.map(command => isReadCommand(command)
+      ? replies[reads.indexOf(command)]
+      : { note: chalk.cyan(`🔍 [dry-run] Would run ${describeCommand(command)}`) }
+    );
+  }
+
+  if (writes.length === 0) {
+    return session.redis.pipeline(commands);
+  }
+  // Only command names and keys are recorded; values may hold application data
+  return audited({
+    provider: 'upstash',
+    action: 'runRedisCommands',
+    target: { id: session.databaseId, name: session.name },
+    params: { commands: writes.map(describeCommand) }
+  }, () => session.redis.pipeline(commands));
+}
+
+async function runLines(session: ConsoleSession, lines: string[]): Promise<void> {
+  // A line that fails to parse gets an error in its place; the others still run
+  const parsed = lines.map(line => {
+    try {
+      return { command: parseCommandLine(line) };
+    } catch (error: any) {
+      return { error: error.message as string };
+    }
+  });
+  const commands = parsed.flatMap(entry => (entry.command ? [entry.command] : []));
+  const replies = commands.length > 0 ? await runCommands(session, commands) : [];
+
+  let next = 0;
+  parsed.forEach(entry => {
+    const reply: ConsoleReply = entry.command ? replies[next++] : { error: entry.error };
+    console.log(reply.note ?? formatReply(reply));
+  });
+}
+
+function printHelp(session: ConsoleSession): void {
+  console.log(chalk.gray([
+    'Type Redis commands as you would in redis-cli, e.g. GET key or HSET user:1 name "Ada Lovelace".',
+    'Pasting several lines sends them as one pipeline.',
+    session.readOnly ? 'This console uses the read-only token; writes are rejected by Upstash.' : '',
+    'help shows this message, clear clears the screen, exit or quit leaves the console.'
+  ].filter(Boolean).join('\n')));
+}
+
+async function runPiped(session: ConsoleSession): Promise<void> {
+  const input = readline.createInterface({ input: process.stdin, terminal: false });
+  let batch: string[] = [];
+
+  for await (const line of input) {
+    if (line.trim()) {
+      batch.push(line);
+    }
+    if (batch.length >= PIPELINE_SIZE) {
+      await runLines(session, batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await runLines(session, batch);
+  }
+}
+
+function runInteractive(session: ConsoleSession): Promise<void> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: true,
+    history: loadHistory(),
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true,
+    prompt: `${session.name}${session.readOnly ? chalk.yellow(' (read-only)') : ''}> `
+  });
+  rl.on('history', saveHistory);
+  // Ctrl+C leaves the console like redis-cli instead of pausing the input
+  rl.on('SIGINT', () => rl.close());
+
+  const queue: string[] = [];
+  let flushing = false;
+
+  return new Promise(resolve => {
+    // Lines pasted together arrive in the same tick and are flushed as one pipeline
+    const flush = async () => {
+      if (flushing) {
+        return;
+      }
+      flushing = true;
+      while (queue.length > 0) {
+        const lines = queue.splice(0);
+        const builtin = lines.length === 1 ? lines[0].trim().toLowerCase() : undefined;
+        try {
+          if (builtin === 'exit' || builtin === 'quit') {
+            rl.close();
+            return;
+          }
+          if (builtin === 'help') {
+            printHelp(session);
+          } else if (builtin === 'clear') {
+            console.clear();
+          } else {
+            await runLines(session, lines);
+          }
+        } catch (error: any) {
+          console.log(chalk.red(`❌ Error: ${error.message}`));
+        }
+      }
+      flushing = false;
+      rl.prompt();
+    };
+
+    rl.on('line', line => {
+      if (line.trim()) {
+        queue.push(line);
+        setImmediate(flush);
+      } else if (!flushing) {
+        rl.prompt();
+      }
+    });
+    rl.on('close', () => {
+      console.log();
+      resolve();
+    });
+
+    console.log(chalk.gray(`Connected to ${session.name}. Type help for help, exit to leave.`));
+    rl.prompt();
+  });
+}
+
+/**
+ * A redis-cli style console for a database returned by getRedisDatabase.
+ * Piped input (`geenius-cli upstash redis console <id> < commands.txt`) is
+ * run in pipelines without a prompt.
+ */
+export async function redisConsole(database: any, options: RedisConsoleOptions = {}): Promise<void> {
+  if (getRuntime().plan) {
+    throw new CliError('The Redis console cannot record commands in a plan; use --dry-run or leave out --plan', ExitCode.Usage);
+  }
+  const readOnly = Boolean(options.readOnly);
+  const session: ConsoleSession = {
+    databaseId: database.database_id,
+    name: database.database_name || database.database_id,
+    redis: new UpstashRedisService(database.endpoint, readOnly ? database.read_only_rest_token : database.rest_token),
+    readOnly
+  };
+
+  if (process.stdin.isTTY) {
+    await runInteractive(session);
+  } else {
+    await runPiped(session);
+  }
+}
+
+export async function redisConsoleCommand(databaseId: string, options: RedisConsoleOptions): Promise<void> {
+  try {
+    requireProviderCredentials('upstash');
+    const database = await new UpstashService().getRedisDatabase(databaseId);
+    await redisConsole(database, options);
+    process.exitCode = ExitCode.Success;
+  } catch (error: any) {
+    console.error(chalk.red(`❌ Error: ${error.message}`));
+    process.exitCode = error instanceof CliError ? error.exitCode : ExitCode.Failure;
+  }
+}
@@ -0,0 +1,261 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { UpstashService } from '../services/upstash.js';
+import { MutationAction, runMutation } from './mutations.js';
+import { formatBytes, formatCount, sparkline } from '../utils/render.js';
+import { CliError, ExitCode } from '../utils/output.js';
+
+// The latest day is flagged when it is this many times the average of the days before it
+const SPIKE_FACTOR = 3;
+
+const PLANS = ['free', 'payg', 'pro'];
+
+// Regions a global database can replicate reads to
+const READ_REGIONS = [
+  'us-east-1', 'us-west-1', 'us-west-2', 'ca-central-1', 'sa-east-1',
+  'eu-west-1', 'eu-central-1', 'ap-south-1', 'ap-southeast-1', 'ap-southeast-2', 'ap-northeast-1', 'af-south-1'
+];
+
+export interface RedisSettingsChanges {
+  name?: string;
+  eviction?: boolean;
+  // TLS can only be turned on
+  tls?: true;
+  readRegions?: string[];
+  plan?: string;
+  budget?: number;
+}
+
+export interface RedisSettingsFlags {
+  name?: string;
+  eviction?: boolean;
+  tls?: boolean;
+  readRegions?: string[];
+  plan?: string;
+  budget?: string;
+}
+
+interface UsageSeries {
+  label: string;
+  points: { x: string; y: number }[];
+  total?: number;
+  format: (value: number) => string;
+}
+
+function isGlobal(database: any): boolean {
+  return database.region === 'global' || Boolean(database.primary_region);
+}
+
+function formatDollars(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export function parseSettingsFlags(flags: RedisSettingsFlags): RedisSettingsChanges {
+  const changes: RedisSettingsChanges = {};
+  if (flags.name !== undefined) {
+    if (!flags.name.trim()) {
+      throw new CliError('--name cannot be empty', ExitCode.Usage);
+    }
+    changes.name = flags.name.trim();
+  }
+  if (flags.eviction !== undefined) {
+    changes.eviction = flags.eviction;
+  }
+  if (flags.tls) {
+    changes.tls = true;
+  }
+  if (flags.readRegions) {
+    const unknown = flags.readRegions.filter(region => !READ_REGIONS.includes(region));
+    if (unknown.length > 0) {
+      throw new CliError(`Unknown read region(s): ${unknown.join(', ')}. Use any of: ${READ_REGIONS.join(', ')}`, ExitCode.Usage);
+    }
+    changes.readRegions = flags.readRegions;
+  }
+  if (flags.plan !== undefined) {
+    if (!PLANS.includes(flags.plan)) {
+      throw new CliError(`Unknown plan "${flags.plan}". Use one of: ${PLANS.join(', ')}`, ExitCode.Usage);
+    }
+    changes.plan = flags.plan;
+  }
+  if (flags.budget !== undefined) {
+    const budget = Number(flags.budget);
+    if (!Number.isFinite(budget) || budget < 0) {
+      throw new CliError(`--budget must be a non-negative number of dollars, got "${flags.budget}"`, ExitCode.Usage);
+    }
+    changes.budget = budget;
+  }
+  if (Object.keys(changes).length === 0) {
+    throw new CliError('Nothing to update. Pass at least one of --name, --eviction/--no-eviction, --tls, --read-regions, --plan or --budget', ExitCode.Usage);
+  }
+  return changes;
+}
+
+/**
+ * Applies each change as its own mutation, so every setting is planned,
+ * dry-run and audited separately. Returns the settings that were applied.
+ */
+export async function applyRedisSettings(database: any, changes: RedisSettingsChanges, spinner?: Ora): Promise<string[]> {
+  if (changes.readRegions && !isGlobal(database)) {
+    throw new CliError(`${database.database_name} is a regional database; read regions need a global database`, ExitCode.Usage);
+  }
+  if (changes.tls && database.tls) {
+    throw new CliError(`TLS is already enabled on ${database.database_name}`, ExitCode.Usage);
+  }
+
+  const target = { databaseId: database.database_id, name: database.database_name };
+  const steps: [string, MutationAction, Record<string, unknown>][] = [];
+  if (changes.name !== undefined) steps.push(['name', 'upstash.renameRedisDatabase', { newName: changes.name }]);
+  if (changes.eviction !== undefined) steps.push(['eviction', 'upstash.setRedisEviction', { enabled: changes.eviction }]);
+  if (changes.tls) steps.push(['TLS', 'upstash.enableRedisTls', {}]);
+  if (changes.readRegions) steps.push(['read regions', 'upstash.updateRedisReadRegions', { readRegions: changes.readRegions }]);
+  if (changes.plan !== undefined) steps.push(['plan', 'upstash.changeRedisPlan', { plan: changes.plan }]);
+  if (changes.budget !== undefined) steps.push(['budget', 'upstash.updateRedisBudget', { budget: changes.budget }]);
+
+  const applied: string[] = [];
+  for (const [setting, action, args] of steps) {
+    if ((await runMutation(action, { ...target, ...args }, spinner)).applied) {
+      applied.push(setting);
+    }
+  }
+  return applied;
+}
+
+export function printRedisSettings(database: any): void {
+  console.log(`   Eviction: ${database.eviction ? 'enabled' : 'disabled'}`);
+  console.log(`   TLS: ${database.tls ? 'enabled' : 'disabled'}`);
+  console.log(`   Plan: ${database.type || 'N/A'}${database.budget ? ` (budget ${formatDollars(database.budget)}/month)` : ''}`);
+  if (isGlobal(database)) {
+    console.log(`   Primary Region: ${database.primary_region || 'N/A'}`);
+    console.log(`   Read Regions: ${(database.read_regions || []).join(', ') || 'none'}`);
+  }
+}
+
+function usageSeries(stats: any): UsageSeries[] {
+  return [
+    { label: 'Commands', points: stats.dailyrequests || [], total: stats.total_monthly_requests, format: formatCount },
+    { label: 'Bandwidth', points: stats.bandwidths || [], total: stats.total_monthly_bandwidth, format: formatBytes },
+    { label: 'Storage', points: stats.diskusage || [], total: stats.total_monthly_storage, format: formatBytes },
+    { label: 'Cost', points: stats.dailybilling || [], total: stats.total_monthly_billing, format: formatDollars }
+  ];
+}
+
+// A latest value well above the earlier average usually means a runaway client or a missing TTL
+function isSpike(values: number[]): boolean {
+  if (values.length < 2) {
+    return false;
+  }
+  const earlier = values.slice(0, -1);
+  const average = earlier.reduce((sum, value) => sum + value, 0) / earlier.length;
+  return average > 0 && values[values.length - 1] > average * SPIKE_FACTOR;
+}
+
+/**
+ * Prints one sparkline per daily series with the latest value and the
+ * month's total, and warns about series whose last day spiked.
+ */
+export function printRedisUsage(stats: any): void {
+  const series = usageSeries(stats).filter(entry => entry.points.length > 0);
+  if (series.length === 0) {
+    console.log(chalk.gray('\n   No usage recorded yet'));
+    return;
+  }
+
+  const days = series[0].points;
+  console.log(chalk.cyan(`\n📈 Usage (${days[0].x} to ${days[days.length - 1].x})`));
+  series.forEach(({ label, points, total, format }) => {
+    const values = points.map(point => Number(point.y) || 0);
+    const latest = format(values[values.length - 1]);
+    const monthly = total !== undefined ? chalk.gray(` · ${format(Number(total))} this month`) : '';
+    console.log(`   ${label.padEnd(10)} ${sparkline(values)}  ${latest}${monthly}`);
+    if (isSpike(values)) {
+      console.log(chalk.yellow(`   ⚠️  ${label} spiked on ${points[points.length - 1].x}, more than ${SPIKE_FACTOR}× the daily average`));
+    }
+  });
+}
+
+export async function updateRedisSettings(upstash: UpstashService, databaseId: string) {
+  const spinner = ora('Loading database settings...').start();
+
+  try {
+    const database = await upstash.getRedisDatabase(databaseId);
+    spinner.stop();
+
+    console.log(chalk.cyan(`\n🔴 ${database.database_name}`));
+    printRedisSettings(database);
+
+    const { setting } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'setting',
+        message: 'What would you like to change?',
+        choices: [
+          { name: '✏️  Rename', value: 'name' },
+          { name: database.eviction ? '🚫 Disable eviction' : '♻️  Enable eviction', value: 'eviction' },
+          ...(database.tls ? [] : [{ name: '🔒 Enable TLS', value: 'tls' }]),
+          ...(isGlobal(database) ? [{ name: '🌍 Read regions', value: 'readRegions' }] : []),
+          { name: '💳 Plan', value: 'plan' },
+          { name: '💰 Monthly budget', value: 'budget' },
+          { name: '🔙 Back', value: 'back' }
+        ]
+      }
+    ]);
+    if (setting === 'back') {
+      return;
+    }
+
+    const changes: RedisSettingsChanges = {};
+    if (setting === 'name') {
+      const { name } = await inquirer.prompt([
+        { type: 'input', name: 'name', message: 'New database name:', default: database.database_name, validate: (input: string) => input.trim() ? true : 'Name is required' }
+      ]);
+      changes.name = name.trim();
+    } else if (setting === 'eviction') {
+      changes.eviction = !database.eviction;
+    } else if (setting === 'tls') {
+      const { confirm } = await inquirer.prompt([
+        { type: 'confirm', name: 'confirm', message: 'Enable TLS? Clients must then connect with TLS, and it cannot be turned off again.', default: false }
+      ]);
+      if (!confirm) return;
+      changes.tls = true;
+    } else if (setting === 'readRegions') {
+      const { readRegions } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'readRegions',
+          message: 'Read regions:',
+          choices: READ_REGIONS
+            .filter(region => region !== database.primary_region)
+            .map(region => ({ name: region, value: region, checked: (database.read_regions || []).includes(region) }))
+        }
+      ]);
+      changes.readRegions = readRegions;
+    } else if (setting === 'plan') {
+      const { plan } = await inquirer.prompt([
+        { type: 'list', name: 'plan', message: 'Plan:', choices: PLANS, default: database.type }
+      ]);
+      changes.plan = plan;
+    } else {
+      const { budget } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'budget',
+          message: 'Monthly budget in dollars:',
+          default: database.budget ? String(database.budget) : undefined,
+          validate: (input: string) => Number.isFinite(Number(input)) && Number(input) >= 0 ? true : 'Enter a number of dollars'
+        }
+      ]);
+      changes.budget = Number(budget);
+    }
+
+    const updateSpinner = ora('Updating database...').start();
+    const applied = await applyRedisSettings(database, changes, updateSpinner);
+    updateSpinner.stop();
+    if (applied.length > 0) {
+      console.log(chalk.green(`✅ Updated ${applied.join(', ')} of ${database.database_name}`));
+    }
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
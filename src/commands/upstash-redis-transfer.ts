@@ -0,0 +1,335 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { UpstashService } from '../services/upstash.js';
+import { ImportOptions, RedisRecord, UpstashRedisService } from '../services/upstash-redis.js';
+import { audited } from '../utils/audit.js';
+import { requireProviderCredentials } from '../utils/credentials.js';
+import { showWaitsIn } from '../utils/http.js';
+import { CliError, ExitCode, ScriptedOptions, requireConfirmation } from '../utils/output.js';
+import { configPath } from '../utils/paths.js';
+import { getRuntime } from '../utils/runtime.js';
+
+// Keys read per SCAN call, and dump lines restored per batch
+const BATCH_SIZE = 100;
+
+export interface DumpOptions {
+  match?: string;
+  resume?: boolean;
+}
+
+export interface RestoreOptions extends ScriptedOptions {
+  replace?: boolean;
+  resume?: boolean;
+}
+
+export interface CopyOptions extends RestoreOptions {
+  match?: string;
+}
+
+export interface TransferResult {
+  success: boolean;
+  applied: boolean;
+  restored: number;
+  skipped: number;
+}
+
+/**
+ * Where an interrupted transfer stopped: the SCAN cursor for dumps and
+ * copies, or the number of dump lines already applied for restores. It is
+ * written after every batch and removed once the transfer completes.
+ * `writing` lists the keys of a batch whose writes had started; a resumed
+ * run rewrites them in case they were left half written.
+ */
+interface Checkpoint {
+  cursor?: string;
+  lines?: number;
+  done: number;
+  skipped: number;
+  writing?: string[];
+  updatedAt: string;
+}
+
+interface ConnectedDatabase {
+  id: string;
+  name: string;
+  redis: UpstashRedisService;
+}
+
+function checkpointFile(name: string): string {
+  return configPath('redis-transfers', `${name}.json`);
+}
+
+function loadCheckpoint(name: string, resume?: boolean): Checkpoint | undefined {
+  const file = checkpointFile(name);
+  if (!resume || !fs.existsSync(file)) {
+    if (resume) {
+      console.error(chalk.yellow(`⚠️  No interrupted ${name.split('-')[0]} to resume; starting from the beginning`));
+    }
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function saveCheckpoint(name: string, checkpoint: Omit<Checkpoint, 'updatedAt'>): void {
+  const file = checkpointFile(name);
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, `${JSON.stringify({ ...checkpoint, updatedAt: new Date().toISOString() })}\n`, { mode: 0o600 });
+}
+
+function clearCheckpoint(name: string): void {
+  fs.rmSync(checkpointFile(name), { force: true });
+}
+
+async function connect(upstash: UpstashService, databaseId: string): Promise<ConnectedDatabase> {
+  const database = await upstash.getRedisDatabase(databaseId);
+  return {
+    id: databaseId,
+    name: database.database_name || databaseId,
+    redis: new UpstashRedisService(database.endpoint, database.rest_token)
+  };
+}
+
+function progress(verb: string, done: number, total?: number): string {
+  const percent = total ? ` (${Math.min(100, Math.floor((done / total) * 100))}%)` : '';
+  return `${verb} ${done}${total ? ` of ~${total}` : ''} keys${percent}`;
+}
+
+function requireLiveTransfer(): void {
+  if (getRuntime().plan) {
+    throw new CliError('Restores and copies cannot be recorded in a plan; use --dry-run to preview them', ExitCode.Usage);
+  }
+}
+
+// Waits for stdout to drain so a large dump doesn't pile up in memory
+function writeOut(text: string): Promise<void> {
+  return new Promise(resolve => (process.stdout.write(text) ? resolve() : process.stdout.once('drain', resolve)));
+}
+
+/**
+ * Walks a database with SCAN from the checkpointed cursor, handing each
+ * page of records to `handle` and checkpointing after it. `handle` gets the
+ * keys to rewrite after an interruption and a callback to checkpoint the
+ * keys it starts writing.
+ */
+async function scanRecords(
+  source: ConnectedDatabase,
+  checkpointName: string,
+  options: { match?: string; resume?: boolean },
+  spinner: Ora,
+  verb: string,
+  handle: (records: RedisRecord[], resume: Pick<ImportOptions, 'rewrite' | 'onWriting'>) => Promise<{ skipped: number }>
+): Promise<{ done: number; skipped: number }> {
+  const checkpoint = loadCheckpoint(checkpointName, options.resume);
+  let cursor = checkpoint?.cursor ?? '0';
+  let done = checkpoint?.done ?? 0;
+  let skipped = checkpoint?.skipped ?? 0;
+  let interrupted = checkpoint?.writing ?? [];
+  // Only a full walk has a meaningful total
+  const total = options.match && options.match !== '*' ? undefined : Number(await source.redis.command(['DBSIZE']));
+
+  try {
+    do {
+      const page = await source.redis.scanPage(cursor, options.match || '*', BATCH_SIZE);
+      const records = page.keys.length > 0 ? await source.redis.exportKeys(page.keys) : [];
+      const result = await handle(records, {
+        rewrite: interrupted,
+        onWriting: keys => saveCheckpoint(checkpointName, { cursor, done, skipped, writing: keys })
+      });
+      interrupted = [];
+      cursor = page.cursor;
+      done += records.length - result.skipped;
+      skipped += result.skipped;
+      saveCheckpoint(checkpointName, { cursor, done, skipped });
+      spinner.text = progress(verb, done + skipped, total);
+    } while (cursor !== '0');
+  } catch (error: any) {
+    throw new Error(`${error.message}. ${done} keys were transferred; run the same command with --resume to continue`);
+  }
+
+  clearCheckpoint(checkpointName);
+  return { done, skipped };
+}
+
+/**
+ * Writes every key of a database to stdout as JSONL, one RedisRecord per
+ * line. Progress goes to stderr so the output can be redirected to a file.
+ */
+export async function dumpRedisCommand(databaseId: string, options: DumpOptions): Promise<void> {
+  const spinner = ora({ text: 'Connecting...', stream: process.stderr });
+
+  try {
+    requireProviderCredentials('upstash');
+    const source = await connect(new UpstashService(), databaseId);
+    if (options.resume) {
+      console.error(chalk.gray('Resuming; append to the same file (>>) so the keys already dumped are kept'));
+    }
+
+    spinner.start(`Dumping ${source.name}...`);
+    const stopShowingWaits = showWaitsIn(spinner);
+    const { done } = await scanRecords(source, `dump-${databaseId}`, options, spinner, 'Dumped', async (records) => {
+      if (records.length > 0) {
+        await writeOut(records.map(record => `${JSON.stringify(record)}\n`).join(''));
+      }
+      return { skipped: 0 };
+    }).finally(stopShowingWaits);
+
+    spinner.succeed(`Dumped ${done} keys from ${source.name}`);
+    process.exitCode = ExitCode.Success;
+  } catch (error: any) {
+    spinner.stop();
+    console.error(chalk.red(`❌ Error: ${error.message}`));
+    process.exitCode = error instanceof CliError ? error.exitCode : ExitCode.Failure;
+  }
+}
+
+function parseRecord(line: string, lineNumber: number): RedisRecord {
+  let record: any;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    throw new CliError(`Line ${lineNumber} is not valid JSON`, ExitCode.Usage);
+  }
+  if (typeof record?.key !== 'string' || typeof record?.type !== 'string' || record.value === undefined) {
+    throw new CliError(`Line ${lineNumber} is not a dump record (expected key, type and value)`, ExitCode.Usage);
+  }
+  return record;
+}
+
+/**
+ * Reads a dump from stdin and writes it into a database in batches. With
+ * --dry-run the dump is only validated and counted.
+ */
+export async function restoreRedis(databaseId: string, options: RestoreOptions): Promise<TransferResult> {
+  requireLiveTransfer();
+  if (process.stdin.isTTY) {
+    throw new CliError('Pipe a dump into restore, e.g. geenius-cli upstash redis restore <database-id> < dump.jsonl', ExitCode.Usage);
+  }
+  requireConfirmation(options, `restore keys into Redis database ${databaseId}${options.replace ? ', replacing existing keys' : ''}`);
+  requireProviderCredentials('upstash');
+
+  const target = await connect(new UpstashService(), databaseId);
+  const checkpointName = `restore-${databaseId}`;
+  const checkpoint = loadCheckpoint(checkpointName, options.resume);
+  const startLine = checkpoint?.lines ?? 0;
+  let { done = 0, skipped = 0 } = checkpoint || {};
+  let interrupted = checkpoint?.writing ?? [];
+  let lineNumber = 0;
+  let appliedLines = startLine;
+
+  const spinner = ora({ text: `Restoring into ${target.name}...`, stream: process.stderr }).start();
+  const stopShowingWaits = showWaitsIn(spinner);
+
+  const run = async () => {
+    let batch: RedisRecord[] = [];
+    const flush = async () => {
+      if (getRuntime().dryRun) {
+        done += batch.length;
+      } else {
+        const result = await target.redis.importRecords(batch, {
+          replace: options.replace,
+          rewrite: interrupted,
+          onWriting: keys => saveCheckpoint(checkpointName, { lines: appliedLines, done, skipped, writing: keys })
+        });
+        interrupted = [];
+        appliedLines = lineNumber;
+        done += result.restored;
+        skipped += result.skipped;
+        saveCheckpoint(checkpointName, { lines: lineNumber, done, skipped });
+      }
+      batch = [];
+      spinner.text = progress(getRuntime().dryRun ? 'Checked' : 'Restored', done + skipped);
+    };
+
+    try {
+      for await (const line of readline.createInterface({ input: process.stdin, terminal: false })) {
+        lineNumber++;
+        if (lineNumber <= startLine || !line.trim()) {
+          continue;
+        }
+        batch.push(parseRecord(line, lineNumber));
+        if (batch.length >= BATCH_SIZE) {
+          await flush();
+        }
+      }
+      await flush();
+    } catch (error: any) {
+      if (error instanceof CliError || getRuntime().dryRun) {
+        throw error;
+      }
+      throw new Error(`${error.message}. ${done} keys were restored; run the same command with --resume to continue`);
+    }
+    clearCheckpoint(checkpointName);
+  };
+
+  try {
+    if (getRuntime().dryRun) {
+      await run();
+      spinner.info(chalk.cyan(`🔍 [dry-run] Would restore ${done} keys into ${target.name}`));
+      return { success: true, applied: false, restored: done, skipped };
+    }
+    await audited({
+      provider: 'upstash',
+      action: 'restoreRedisDatabase',
+      target: { id: databaseId, name: target.name },
+      params: { replace: Boolean(options.replace), resumedAtLine: startLine }
+    }, run);
+    spinner.succeed(`Restored ${done} keys into ${target.name}${skipped ? ` (${skipped} skipped: existing or expired)` : ''}`);
+    return { success: true, applied: true, restored: done, skipped };
+  } catch (error) {
+    spinner.stop();
+    throw error;
+  } finally {
+    stopShowingWaits();
+  }
+}
+
+// Streams every key from one database into another without an intermediate file
+export async function copyRedis(sourceId: string, targetId: string, options: CopyOptions): Promise<TransferResult> {
+  requireLiveTransfer();
+  if (sourceId === targetId) {
+    throw new CliError('The source and target databases must be different', ExitCode.Usage);
+  }
+  requireConfirmation(options, `copy keys from ${sourceId} into Redis database ${targetId}${options.replace ? ', replacing existing keys' : ''}`);
+  requireProviderCredentials('upstash');
+
+  const upstash = new UpstashService();
+  const [source, target] = await Promise.all([connect(upstash, sourceId), connect(upstash, targetId)]);
+
+  const spinner = ora({ text: `Copying ${source.name} to ${target.name}...`, stream: process.stderr }).start();
+  const stopShowingWaits = showWaitsIn(spinner);
+  const checkpointName = `copy-${sourceId}-${targetId}`;
+
+  try {
+    if (getRuntime().dryRun) {
+      // Scans the source without writing or checkpointing anything
+      let count = 0;
+      for await (const keys of source.redis.scanKeys(options.match || '*')) {
+        count += keys.length;
+        spinner.text = progress('Counted', count);
+      }
+      spinner.info(chalk.cyan(`🔍 [dry-run] Would copy ${count} keys from ${source.name} to ${target.name}`));
+      return { success: true, applied: false, restored: count, skipped: 0 };
+    }
+
+    const { done, skipped } = await audited({
+      provider: 'upstash',
+      action: 'copyRedisDatabase',
+      target: { id: targetId, name: target.name },
+      params: { source: sourceId, match: options.match || '*', replace: Boolean(options.replace) }
+    }, () => scanRecords(source, checkpointName, options, spinner, 'Copied', async (records, resume) => {
+      const result = await target.redis.importRecords(records, { replace: options.replace, ...resume });
+      return { skipped: result.skipped };
+    }));
+
+    spinner.succeed(`Copied ${done} keys from ${source.name} to ${target.name}${skipped ? ` (${skipped} skipped: existing or expired)` : ''}`);
+    return { success: true, applied: true, restored: done, skipped };
+  } catch (error) {
+    spinner.stop();
+    throw error;
+  } finally {
+    stopShowingWaits();
+  }
+}
@@ -0,0 +1,735 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { UpstashService } from '../services/upstash.js';
+import { QStashService, connectQStash } from '../services/qstash.js';
+import { VectorRecord, connectVectorIndex } from '../services/upstash-vector.js';
+import { runMutation } from './mutations.js';
+import { redisConsoleCommand } from './upstash-redis-console.js';
+import { RedisSettingsFlags, applyRedisSettings, parseSettingsFlags, printRedisUsage } from './upstash-redis-settings.js';
+import { DeliveryFlags, createSchedule, parseDeliveryFlags, publishMessage } from './upstash-qstash.js';
+import { QueryVectorsOptions, UpsertVectorsOptions, printVectors, queryVectors, upsertVectors } from './upstash-vector.js';
+import { parseRunState, printWorkflowRun } from './upstash-workflow-runs.js';
+import { CopyOptions, RestoreOptions, copyRedis, dumpRedisCommand, restoreRedis } from './upstash-redis-transfer.js';
+import { audited } from '../utils/audit.js';
+import { CliError, ExitCode, ScriptedOptions, requireConfirmation, runScripted } from '../utils/output.js';
+import { RenderOptions, addRenderOptions, formatBytes, renderList } from '../utils/render.js';
+import { DLQ_VIEW, QSTASH_EVENT_VIEW, QSTASH_MESSAGE_VIEW, REDIS_VIEW, SCHEDULE_VIEW, SEARCH_INDEX_VIEW, TOPIC_VIEW, VECTOR_INDEX_VIEW, VECTOR_MATCH_VIEW, VECTOR_NAMESPACE_VIEW, WORKFLOW_RUN_VIEW, WORKFLOW_VIEW } from './views.js';
+import { getCredential, requireProviderCredentials } from '../utils/credentials.js';
+import { isVaultUnlocked, maskSecret, setSecret } from '../utils/vault.js';
+
+function requireCredentials(): void {
+  requireProviderCredentials('upstash');
+}
+
+function createService(): UpstashService {
+  requireCredentials();
+  return new UpstashService();
+}
+
+// A QSTASH_TOKEN is enough on its own; otherwise the token is fetched with the developer API key
+function createQStash(): Promise<QStashService> {
+  if (!getCredential('QSTASH_TOKEN')) {
+    requireCredentials();
+  }
+  return connectQStash();
+}
+
+function addDeliveryOptions(command: Command): Command {
+  return command
+    .option('--body <text>', 'Message body')
+    .option('--body-file <path>', 'Read the message body from a file, or - for stdin')
+    .option('--content-type <type>', 'Content-Type of the body, e.g. application/json')
+    .option('-H, --header <header...>', 'Headers to forward to the destination, as "Name: value"')
+    .option('--method <method>', 'HTTP method used to deliver the message', 'POST')
+    .option('--delay <duration>', 'Wait before delivering, e.g. 30s, 10m or 2h')
+    .option('--retries <n>', 'Delivery attempts before the message goes to the dead-letter queue');
+}
+
+function printDeleted(kind: string) {
+  return (result: { id: string; applied: boolean }) => {
+    if (result.applied) {
+      console.log(chalk.green(`✅ ${kind} ${result.id} deleted`));
+    }
+  };
+}
+
+export function registerUpstashSubcommands(upstash: Command): void {
+  // Redis
+  const redis = upstash
+    .command('redis')
+    .description('Manage Redis databases without prompts');
+
+  addRenderOptions(redis.command('list'))
+    .description('List Redis databases')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listRedisDatabases(), (result: any[]) => {
+        renderList(result, REDIS_VIEW, options, '📭 No Redis databases found');
+      });
+    });
+
+  redis
+    .command('get <databaseId>')
+    .description('Show Redis database details')
+    .option('--json', 'Output as JSON')
+    .action(async (databaseId: string, options: ScriptedOptions) => {
+      await runScripted(options, () => createService().getRedisDatabase(databaseId), (db) => {
+        console.log(chalk.cyan(`🔴 ${db.database_name}`));
+        console.log(`ID: ${db.database_id}`);
+        console.log(`Type: ${db.database_type}`);
+        console.log(`Region: ${db.region}`);
+        console.log(`State: ${db.state}`);
+        console.log(`Endpoint: ${db.endpoint}`);
+      });
+    });
+
+  redis
+    .command('stats <databaseId>')
+    .description('Show daily commands, bandwidth, storage and cost as sparklines')
+    .option('--json', 'Output the raw statistics as JSON')
+    .action(async (databaseId: string, options: ScriptedOptions) => {
+      await runScripted(options, () => createService().getRedisStats(databaseId), printRedisUsage);
+    });
+
+  redis
+    .command('create')
+    .description('Create a Redis database')
+    .requiredOption('--name <name>', 'Database name')
+    .option('--region <region>', 'Region', 'us-east-1')
+    .option('--no-tls', 'Disable TLS encryption')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ScriptedOptions & { name: string; region: string; tls: boolean }) => {
+      const params = { name: options.name, region: options.region, tls: options.tls };
+      await runScripted(options, () => audited({ provider: 'upstash', action: 'createRedisDatabase', target: { name: options.name }, params }, () =>
+        createService().createRedisDatabase(options.name, options.region, options.tls)
+      ), (db) => {
+        console.log(chalk.green(`✅ Redis database ${db.database_name} created`));
+        console.log(`ID: ${db.database_id}`);
+        console.log(`Endpoint: ${db.endpoint}`);
+      });
+    });
+
+  redis
+    .command('delete <databaseId>')
+    .description('Delete a Redis database')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (databaseId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete Redis database ${databaseId}`);
+        requireCredentials();
+        const { applied } = await runMutation('upstash.deleteRedisDatabase', { databaseId });
+        return { success: true, applied, id: databaseId };
+      }, printDeleted('Redis database'));
+    });
+
+  redis
+    .command('reset-password <databaseId>')
+    .description('Reset the password of a Redis database')
+    .option('-y, --yes', 'Confirm invalidating the current password')
+    .option('--reveal', 'Print the new password instead of masking it')
+    .option('--json', 'Output as JSON')
+    .action(async (databaseId: string, options: ScriptedOptions & { reveal?: boolean }) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `reset the password of ${databaseId}`);
+        requireCredentials();
+        const { applied, result } = await runMutation('upstash.resetRedisPassword', { databaseId });
+        if (!applied) {
+          return { success: true, applied };
+        }
+        const vaultSecret = isVaultUnlocked() ? `upstash/${databaseId}/PASSWORD` : undefined;
+        if (vaultSecret) {
+          setSecret(vaultSecret, result.password);
+        }
+        return { success: true, applied, ...result, password: options.reveal ? result.password : maskSecret(result.password), vaultSecret };
+      }, (result) => {
+        if (!result.applied) return;
+        console.log(chalk.green('✅ Password reset successfully'));
+        console.log(`New password: ${result.password}`);
+        if (result.vaultSecret) {
+          console.log(chalk.gray(`Stored in the vault as ${result.vaultSecret}`));
+        }
+      });
+    });
+
+  redis
+    .command('update <databaseId>')
+    .description('Change the name, eviction, TLS, read regions, plan or budget of a Redis database')
+    .option('--name <name>', 'Rename the database')
+    .option('--eviction', 'Evict keys when the database is full')
+    .option('--no-eviction', 'Reject writes when the database is full')
+    .option('--tls', 'Enable TLS; it cannot be disabled again')
+    .option('--read-regions <regions...>', 'Read regions of a global database, replacing the current ones')
+    .option('--plan <plan>', 'Plan: free, payg or pro')
+    .option('--budget <dollars>', 'Monthly budget in dollars')
+    .option('-y, --yes', 'Confirm the changes')
+    .option('--json', 'Output as JSON')
+    .action(async (databaseId: string, options: ScriptedOptions & RedisSettingsFlags) => {
+      await runScripted(options, async () => {
+        const changes = parseSettingsFlags(options);
+        requireConfirmation(options, `update the settings of ${databaseId}`);
+        const database = await createService().getRedisDatabase(databaseId);
+        const applied = await applyRedisSettings(database, changes);
+        return { success: true, id: databaseId, changes, applied };
+      }, (result) => {
+        if (result.applied.length === 0) return;
+        console.log(chalk.green(`✅ Updated ${result.applied.join(', ')}`));
+      });
+    });
+
+  redis
+    .command('console <databaseId>')
+    .description('Open a redis-cli style console on a database; piped input runs as pipelines')
+    .option('--read-only', 'Connect with the read-only REST token')
+    .action(redisConsoleCommand);
+
+  redis
+    .command('dump <databaseId>')
+    .description('Write every key with its type, value and expiry to stdout as JSONL')
+    .option('--match <pattern>', 'Only keys matching a glob-style pattern', '*')
+    .option('--resume', 'Continue an interrupted dump; append to the same file with >>')
+    .action(dumpRedisCommand);
+
+  redis
+    .command('restore <databaseId>')
+    .description('Restore keys from a JSONL dump read from stdin')
+    .option('--replace', 'Overwrite keys that already exist instead of skipping them')
+    .option('--resume', 'Skip the lines an interrupted restore already applied')
+    .option('-y, --yes', 'Confirm writing into the database')
+    .option('--json', 'Output as JSON')
+    .action(async (databaseId: string, options: RestoreOptions) => {
+      // The spinner already printed the summary
+      await runScripted(options, () => restoreRedis(databaseId, options), () => undefined);
+    });
+
+  redis
+    .command('copy <sourceId> <targetId>')
+    .description('Copy keys with their types and expiries from one database to another')
+    .option('--match <pattern>', 'Only keys matching a glob-style pattern', '*')
+    .option('--replace', 'Overwrite keys that already exist in the target instead of skipping them')
+    .option('--resume', 'Continue an interrupted copy')
+    .option('-y, --yes', 'Confirm writing into the target database')
+    .option('--json', 'Output as JSON')
+    .action(async (sourceId: string, targetId: string, options: CopyOptions) => {
+      await runScripted(options, () => copyRedis(sourceId, targetId, options), () => undefined);
+    });
+
+  // QStash
+  const qstash = upstash
+    .command('qstash')
+    .description('Manage QStash without prompts');
+
+  const topics = qstash
+    .command('topics')
+    .description('Manage QStash topics');
+
+  addRenderOptions(topics.command('list'))
+    .description('List topics')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listQStashTopics(), (result: any[]) => {
+        renderList(result, TOPIC_VIEW, options, '📭 No topics found');
+      });
+    });
+
+  topics
+    .command('create <name>')
+    .description('Create a topic')
+    .requiredOption('--endpoint <url...>', 'Endpoint URLs')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, options: ScriptedOptions & { endpoint: string[] }) => {
+      const params = { name, endpoints: options.endpoint };
+      await runScripted(options, () => audited({ provider: 'upstash', action: 'createQStashTopic', target: { id: name, name }, params }, () =>
+        createService().createQStashTopic(name, options.endpoint)
+      ), () => {
+        console.log(chalk.green(`✅ Topic ${name} created`));
+      });
+    });
+
+  topics
+    .command('delete <name>')
+    .description('Delete a topic')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (name: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete topic ${name}`);
+        requireCredentials();
+        const { applied } = await runMutation('upstash.deleteQStashTopic', { topicName: name });
+        return { success: true, applied, id: name };
+      }, printDeleted('Topic'));
+    });
+
+  addRenderOptions(qstash.command('messages'))
+    .description('List QStash messages')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().getQStashMessages(), (result: any[]) => {
+        renderList(result, QSTASH_MESSAGE_VIEW, options, '📭 No messages found');
+      });
+    });
+
+  addDeliveryOptions(qstash.command('publish <destination>'))
+    .description('Publish a message to a URL or topic')
+    .option('--json', 'Output as JSON')
+    .action(async (destination: string, options: ScriptedOptions & DeliveryFlags) => {
+      await runScripted(options, async () => {
+        const delivery = parseDeliveryFlags(options);
+        return publishMessage(await createQStash(), destination, delivery);
+      }, (messages: any[]) => {
+        messages.forEach(message => {
+          console.log(chalk.green(`✅ Published ${message.messageId}${message.url ? ` to ${message.url}` : ''}${message.deduplicated ? ' (deduplicated)' : ''}`));
+        });
+      });
+    });
+
+  const schedules = qstash
+    .command('schedules')
+    .description('Manage cron schedules');
+
+  addRenderOptions(schedules.command('list'))
+    .description('List schedules')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, async () => (await createQStash()).listSchedules(), (result: any[]) => {
+        renderList(result, SCHEDULE_VIEW, options, '📭 No schedules found');
+      });
+    });
+
+  addDeliveryOptions(schedules.command('create <destination>'))
+    .description('Deliver a message to a URL or topic on a cron schedule')
+    .requiredOption('--cron <expression>', 'Cron expression in UTC, e.g. "0 * * * *"')
+    .option('--json', 'Output as JSON')
+    .action(async (destination: string, options: ScriptedOptions & DeliveryFlags & { cron: string }) => {
+      await runScripted(options, async () => {
+        const delivery = parseDeliveryFlags(options);
+        return createSchedule(await createQStash(), destination, options.cron, delivery);
+      }, (schedule) => {
+        console.log(chalk.green(`✅ Schedule ${schedule.scheduleId} created`));
+      });
+    });
+
+  (['pause', 'resume'] as const).forEach(action => {
+    schedules
+      .command(`${action} <scheduleId>`)
+      .description(`${action === 'pause' ? 'Pause' : 'Resume'} a schedule`)
+      .option('--json', 'Output as JSON')
+      .action(async (scheduleId: string, options: ScriptedOptions) => {
+        await runScripted(options, async () => {
+          await createQStash();
+          const { applied } = await runMutation(action === 'pause' ? 'upstash.pauseQStashSchedule' : 'upstash.resumeQStashSchedule', { scheduleId });
+          return { success: true, applied, id: scheduleId };
+        }, (result) => {
+          if (result.applied) {
+            console.log(chalk.green(`✅ Schedule ${scheduleId} ${action}d`));
+          }
+        });
+      });
+  });
+
+  schedules
+    .command('delete <scheduleId>')
+    .description('Delete a schedule')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (scheduleId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete schedule ${scheduleId}`);
+        await createQStash();
+        const { applied } = await runMutation('upstash.deleteQStashSchedule', { scheduleId });
+        return { success: true, applied, id: scheduleId };
+      }, printDeleted('Schedule'));
+    });
+
+  const dlq = qstash
+    .command('dlq')
+    .description('Inspect and replay messages whose delivery failed');
+
+  addRenderOptions(dlq.command('list'))
+    .description('List dead-letter messages')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, async () => (await createQStash()).listDlq(), (result: any[]) => {
+        renderList(result, DLQ_VIEW, options, '📭 The dead-letter queue is empty');
+      });
+    });
+
+  dlq
+    .command('get <dlqId>')
+    .description('Show a dead-letter message with its payload and last response')
+    .option('--json', 'Output as JSON')
+    .action(async (dlqId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => (await createQStash()).getDlqMessage(dlqId), (message) => {
+        console.log(chalk.cyan(`💀 ${message.dlqId}`));
+        console.log(`Message ID: ${message.messageId}`);
+        console.log(`URL: ${message.url}`);
+        console.log(`Response: HTTP ${message.responseStatus ?? 'N/A'}`);
+        console.log(`Body: ${message.body ?? ''}`);
+        console.log(`Response body: ${message.responseBody ?? ''}`);
+      });
+    });
+
+  (['replay', 'delete'] as const).forEach(action => {
+    dlq
+      .command(`${action} <dlqIds...>`)
+      .description(action === 'replay' ? 'Deliver dead-letter messages again' : 'Delete dead-letter messages')
+      .option('-y, --yes', `Confirm the ${action === 'replay' ? 'replay' : 'deletion'}`)
+      .option('--json', 'Output as JSON')
+      .action(async (dlqIds: string[], options: ScriptedOptions) => {
+        await runScripted(options, async () => {
+          requireConfirmation(options, `${action} ${dlqIds.length} dead-letter message(s)`);
+          await createQStash();
+          const results = [];
+          for (const dlqId of dlqIds) {
+            const { applied, result } = await runMutation(action === 'replay' ? 'upstash.replayDlqMessage' : 'upstash.deleteDlqMessage', { dlqId });
+            results.push({ id: dlqId, applied, messageId: action === 'replay' ? result?.messageId : undefined });
+          }
+          return { success: true, results };
+        }, ({ results }) => {
+          results.filter(result => result.applied).forEach(result => {
+            console.log(chalk.green(`✅ ${result.id} ${action === 'replay' ? `replayed as ${result.messageId}` : 'deleted'}`));
+          });
+        });
+      });
+  });
+
+  addRenderOptions(qstash.command('logs [messageId]'))
+    .description('Show delivery events, newest first, for one message or all of them')
+    .option('--state <state>', 'Only events in a state such as DELIVERED, ERROR, RETRY or FAILED')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (messageId: string | undefined, options: ScriptedOptions & RenderOptions & { state?: string }) => {
+      await runScripted(options, async () => (await createQStash()).listEvents({ messageId, state: options.state?.toUpperCase() }), (result: any[]) => {
+        renderList(result, QSTASH_EVENT_VIEW, options, '📭 No events found');
+      });
+    });
+
+  // Vector
+  const vector = upstash
+    .command('vector')
+    .description('Manage Vector indexes without prompts');
+
+  addRenderOptions(vector.command('list'))
+    .description('List Vector indexes')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listVectorIndexes(), (result: any[]) => {
+        renderList(result, VECTOR_INDEX_VIEW, options, '📭 No Vector indexes found');
+      });
+    });
+
+  vector
+    .command('get <indexId>')
+    .description('Show Vector index details')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, options: ScriptedOptions) => {
+      await runScripted(options, () => createService().getVectorIndex(indexId), (index) => {
+        console.log(chalk.cyan(`🔍 ${index.name}`));
+        console.log(`ID: ${index.id}`);
+        console.log(`Dimension: ${index.dimension}`);
+        console.log(`Similarity Function: ${index.similarity_function}`);
+      });
+    });
+
+  vector
+    .command('create')
+    .description('Create a Vector index')
+    .requiredOption('--name <name>', 'Index name')
+    .requiredOption('--dimension <n>', 'Vector dimension')
+    .option('--similarity <function>', 'cosine, euclidean or dotProduct', 'cosine')
+    .option('--region <region>', 'Region', 'us-east-1')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ScriptedOptions & { name: string; dimension: string; similarity: string; region: string }) => {
+      await runScripted(options, async () => {
+        const dimension = parseInt(options.dimension, 10);
+        if (!(dimension > 0)) {
+          throw new CliError('Dimension must be a positive number', ExitCode.Usage);
+        }
+        const params = { name: options.name, dimension, similarityFunction: options.similarity, region: options.region };
+        return audited({ provider: 'upstash', action: 'createVectorIndex', target: { name: options.name }, params }, () =>
+          createService().createVectorIndex(options.name, dimension, options.similarity, options.region)
+        );
+      }, (index) => {
+        console.log(chalk.green(`✅ Vector index ${index.name} created (${index.id})`));
+      });
+    });
+
+  vector
+    .command('delete <indexId>')
+    .description('Delete a Vector index')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete Vector index ${indexId}`);
+        requireCredentials();
+        const { applied } = await runMutation('upstash.deleteVectorIndex', { indexId });
+        return { success: true, applied, id: indexId };
+      }, printDeleted('Vector index'));
+    });
+
+  vector
+    .command('stats <indexId>')
+    .description('Show vector counts, pending vectors and size, per namespace')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireCredentials();
+        return (await connectVectorIndex(indexId)).getStats();
+      }, (stats) => {
+        console.log(`Vectors: ${stats.vectorCount}`);
+        console.log(`Pending: ${stats.pendingVectorCount}`);
+        console.log(`Size: ${formatBytes(stats.indexSize)}`);
+        console.log(`Dimension: ${stats.dimension}`);
+      });
+    });
+
+  vector
+    .command('upsert <indexId> <file>')
+    .description('Upsert vectors with metadata from a JSONL or CSV file')
+    .option('--namespace <name>', 'Namespace to write into; the default namespace when left out')
+    .option('-y, --yes', 'Confirm overwriting vectors with the same ids')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, file: string, options: UpsertVectorsOptions) => {
+      // The spinner already printed the summary
+      await runScripted(options, () => upsertVectors(indexId, file, options), () => undefined);
+    });
+
+  addRenderOptions(vector.command('query <indexId> <vectorFile>'))
+    .description('Find the vectors closest to the one in a file')
+    .option('-k, --top-k <n>', 'Number of matches', '10')
+    .option('--filter <expression>', 'Metadata filter, e.g. "genre = \'drama\' AND year > 2000"')
+    .option('--namespace <name>', 'Namespace to search')
+    .option('--include-vectors', 'Return the matching vectors too')
+    .option('--json', 'Output the raw matches as JSON')
+    .action(async (indexId: string, vectorFile: string, options: ScriptedOptions & RenderOptions & QueryVectorsOptions) => {
+      await runScripted(options, () => queryVectors(indexId, vectorFile, options), (matches: any[]) => {
+        renderList(matches, VECTOR_MATCH_VIEW, options, '📭 No matches');
+      });
+    });
+
+  vector
+    .command('fetch <indexId> <ids...>')
+    .description('Show vectors with their metadata by id')
+    .option('--namespace <name>', 'Namespace to read from')
+    .option('--include-vectors', 'Show the vector values too')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, ids: string[], options: ScriptedOptions & { namespace?: string; includeVectors?: boolean }) => {
+      await runScripted(options, async () => {
+        requireCredentials();
+        const records = await (await connectVectorIndex(indexId)).fetch(ids, options.namespace, options.includeVectors);
+        const missing = ids.filter((_, position) => !records[position]);
+        if (missing.length === ids.length) {
+          throw new CliError(`No vectors found with id ${missing.join(', ')}`, ExitCode.NotFound);
+        }
+        return { vectors: records.filter((record): record is VectorRecord => record !== null), missing };
+      }, ({ vectors, missing }) => {
+        printVectors(vectors);
+        if (missing.length > 0) {
+          console.log(chalk.yellow(`\n❔ Not found: ${missing.join(', ')}`));
+        }
+      });
+    });
+
+  vector
+    .command('delete-vectors <indexId> <ids...>')
+    .description('Delete vectors by id')
+    .option('--namespace <name>', 'Namespace to delete from')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, ids: string[], options: ScriptedOptions & { namespace?: string }) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete ${ids.length} vector(s) from ${indexId}`);
+        requireCredentials();
+        const { applied, result } = await runMutation('upstash.deleteVectors', { indexId, namespace: options.namespace || '', ids });
+        return { success: true, applied, deleted: applied ? result : 0 };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Deleted ${result.deleted} of ${ids.length} vectors`));
+        }
+      });
+    });
+
+  addRenderOptions(vector.command('namespaces <indexId>'))
+    .description('List namespaces with their vector counts')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (indexId: string, options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, async () => {
+        requireCredentials();
+        const stats = await (await connectVectorIndex(indexId)).getStats();
+        return Object.entries(stats.namespaces || {}).map(([namespace, counts]) => ({ namespace, ...counts }));
+      }, (result: any[]) => {
+        renderList(result, VECTOR_NAMESPACE_VIEW, options, '📭 No namespaces found');
+      });
+    });
+
+  vector
+    .command('delete-namespace <indexId> <namespace>')
+    .description('Delete a namespace and every vector in it')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, namespace: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete namespace ${namespace} of ${indexId}`);
+        requireCredentials();
+        const { applied } = await runMutation('upstash.deleteVectorNamespace', { indexId, namespace });
+        return { success: true, applied, id: namespace };
+      }, printDeleted('Namespace'));
+    });
+
+  // Workflow
+  const workflow = upstash
+    .command('workflow')
+    .description('Manage Workflows without prompts');
+
+  addRenderOptions(workflow.command('list'))
+    .description('List workflows')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listWorkflows(), (result: any[]) => {
+        renderList(result, WORKFLOW_VIEW, options, '📭 No workflows found');
+      });
+    });
+
+  workflow
+    .command('get <workflowId>')
+    .description('Show a workflow definition')
+    .option('--json', 'Output as JSON')
+    .action(async (workflowId: string, options: ScriptedOptions) => {
+      await runScripted(options, () => createService().getWorkflow(workflowId), (item) => {
+        console.log(chalk.cyan(`⚡ ${item.name}`));
+        console.log(`ID: ${item.id}`);
+        console.log(`Status: ${item.status || 'N/A'}`);
+        console.log(`Definition: ${JSON.stringify(item.definition, null, 2)}`);
+      });
+    });
+
+  workflow
+    .command('delete <workflowId>')
+    .description('Delete a workflow')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (workflowId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete workflow ${workflowId}`);
+        requireCredentials();
+        const { applied } = await runMutation('upstash.deleteWorkflow', { workflowId });
+        return { success: true, applied, id: workflowId };
+      }, printDeleted('Workflow'));
+    });
+
+  addRenderOptions(workflow.command('runs'))
+    .description('List workflow runs, newest first')
+    .option('--state <state>', 'Only runs that are running, success, failed or canceled')
+    .option('--url <workflowUrl>', 'Only runs of the workflow served at this URL')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions & { state?: string; url?: string }) => {
+      await runScripted(options, async () => {
+        const state = parseRunState(options.state);
+        return (await createQStash()).listWorkflowRuns({ state, workflowUrl: options.url });
+      }, (result: any[]) => {
+        renderList(result, WORKFLOW_RUN_VIEW, options, '📭 No workflow runs found');
+      });
+    });
+
+  workflow
+    .command('logs <workflowRunId>')
+    .description('Show the step-by-step execution log of a run with each step\'s payload and output')
+    .option('--json', 'Output as JSON')
+    .action(async (workflowRunId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => (await createQStash()).getWorkflowRun(workflowRunId), printWorkflowRun);
+    });
+
+  workflow
+    .command('cancel <workflowRunIds...>')
+    .description('Cancel in-flight runs')
+    .option('-y, --yes', 'Confirm the cancellation')
+    .option('--json', 'Output as JSON')
+    .action(async (workflowRunIds: string[], options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `cancel ${workflowRunIds.length} workflow run(s)`);
+        await createQStash();
+        const results = [];
+        for (const workflowRunId of workflowRunIds) {
+          const { applied } = await runMutation('upstash.cancelWorkflowRun', { workflowRunId });
+          results.push({ id: workflowRunId, applied });
+        }
+        return { success: true, results };
+      }, ({ results }) => {
+        results.filter(result => result.applied).forEach(result => console.log(chalk.green(`✅ Run ${result.id} canceled`)));
+      });
+    });
+
+  workflow
+    .command('retry <workflowRunId>')
+    .description('Run a failed run again, resuming at the failed step')
+    .option('--restart', 'Start over from the first step instead')
+    .option('-y, --yes', 'Confirm the retry')
+    .option('--json', 'Output as JSON')
+    .action(async (workflowRunId: string, options: ScriptedOptions & { restart?: boolean }) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `${options.restart ? 'restart' : 'resume'} workflow run ${workflowRunId}`);
+        await createQStash();
+        const { applied, result } = await runMutation('upstash.retryWorkflowRun', { workflowRunId, restart: Boolean(options.restart) });
+        return { success: true, applied, id: workflowRunId, ...result };
+      }, (result) => {
+        if (result.applied) {
+          console.log(chalk.green(`✅ Run ${workflowRunId} ${options.restart ? 'restarted' : 'resumed'}${result.workflowRunId && result.workflowRunId !== workflowRunId ? ` as ${result.workflowRunId}` : ''}`));
+        }
+      });
+    });
+
+  // Search
+  const search = upstash
+    .command('search')
+    .description('Manage Search indexes without prompts');
+
+  addRenderOptions(search.command('list'))
+    .description('List Search indexes')
+    .option('--json', 'Output the raw API objects as JSON')
+    .action(async (options: ScriptedOptions & RenderOptions) => {
+      await runScripted(options, () => createService().listSearchIndexes(), (result: any[]) => {
+        renderList(result, SEARCH_INDEX_VIEW, options, '📭 No Search indexes found');
+      });
+    });
+
+  search
+    .command('get <indexId>')
+    .description('Show Search index details')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, options: ScriptedOptions) => {
+      await runScripted(options, () => createService().getSearchIndex(indexId), (index) => {
+        console.log(chalk.cyan(`🔎 ${index.name}`));
+        console.log(`ID: ${index.id}`);
+        console.log(`Region: ${index.region}`);
+      });
+    });
+
+  search
+    .command('create')
+    .description('Create a Search index')
+    .requiredOption('--name <name>', 'Index name')
+    .option('--region <region>', 'Region', 'us-east-1')
+    .option('--json', 'Output as JSON')
+    .action(async (options: ScriptedOptions & { name: string; region: string }) => {
+      const params = { name: options.name, region: options.region };
+      await runScripted(options, () => audited({ provider: 'upstash', action: 'createSearchIndex', target: { name: options.name }, params }, () =>
+        createService().createSearchIndex(options.name, options.region)
+      ), (index) => {
+        console.log(chalk.green(`✅ Search index ${index.name} created (${index.id})`));
+      });
+    });
+
+  search
+    .command('delete <indexId>')
+    .description('Delete a Search index')
+    .option('-y, --yes', 'Confirm the deletion')
+    .option('--json', 'Output as JSON')
+    .action(async (indexId: string, options: ScriptedOptions) => {
+      await runScripted(options, async () => {
+        requireConfirmation(options, `delete Search index ${indexId}`);
+        requireCredentials();
+        const { applied } = await runMutation('upstash.deleteSearchIndex', { indexId });
+        return { success: true, applied, id: indexId };
+      }, printDeleted('Search index'));
+    });
+}
@@ -0,0 +1,430 @@
+import fs from 'fs';
+import path from 'path';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { UpstashVectorService, VectorIndexStats, VectorRecord, connectVectorIndex } from '../services/upstash-vector.js';
+import { runMutation } from './mutations.js';
+import { VECTOR_MATCH_VIEW } from './views.js';
+import { audited } from '../utils/audit.js';
+import { requireProviderCredentials } from '../utils/credentials.js';
+import { showWaitsIn } from '../utils/http.js';
+import { CliError, ExitCode, ScriptedOptions, formatTable, requireConfirmation } from '../utils/output.js';
+import { formatBytes, renderList } from '../utils/render.js';
+import { getRuntime } from '../utils/runtime.js';
+
+// Columns of a CSV file that are not metadata
+const RESERVED_COLUMNS = ['id', 'vector', 'data'];
+const MAX_VECTOR_PREVIEW = 8;
+
+export interface UpsertVectorsOptions extends ScriptedOptions {
+  namespace?: string;
+}
+
+export interface QueryVectorsOptions {
+  namespace?: string;
+  topK?: string;
+  filter?: string;
+  includeVectors?: boolean;
+}
+
+export interface UpsertResult {
+  success: boolean;
+  applied: boolean;
+  upserted: number;
+  namespace: string;
+}
+
+// Splits one CSV line, honouring double quotes and "" escapes
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('unbalanced quotes');
+  }
+  cells.push(cell);
+  return cells;
+}
+
+// Metadata read from CSV keeps numbers and booleans typed so filters such as year > 2000 work
+function csvValue(text: string): unknown {
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  return text;
+}
+
+// Vectors in CSV are a JSON array or numbers separated by spaces or semicolons
+function parseVectorCell(text: string): number[] | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  return trimmed.startsWith('[') ? JSON.parse(trimmed) : trimmed.split(/[\s;]+/).map(Number);
+}
+
+function toRecord(value: any, where: string): VectorRecord {
+  if (typeof value?.id !== 'string' && typeof value?.id !== 'number') {
+    throw new CliError(`${where} has no id`, ExitCode.Usage);
+  }
+  const vector = value.vector;
+  if (vector !== undefined && !(Array.isArray(vector) && vector.length > 0 && vector.every((item: unknown) => typeof item === 'number' && Number.isFinite(item)))) {
+    throw new CliError(`${where} has a vector that is not a list of numbers`, ExitCode.Usage);
+  }
+  if (vector === undefined && typeof value.data !== 'string') {
+    throw new CliError(`${where} needs a vector, or data text for indexes with an embedding model`, ExitCode.Usage);
+  }
+  return {
+    id: String(value.id),
+    ...(vector ? { vector } : {}),
+    ...(value.metadata && Object.keys(value.metadata).length > 0 ? { metadata: value.metadata } : {}),
+    ...(typeof value.data === 'string' ? { data: value.data } : {})
+  };
+}
+
+/**
+ * Reads vectors from a JSONL file of {id, vector, metadata, data} objects, or
+ * from a CSV file with id and vector columns, an optional data column and
+ * every other column stored as metadata.
+ */
+export function readVectorFile(file: string): VectorRecord[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error: any) {
+    throw new CliError(`Cannot read ${file}: ${error.message}`, ExitCode.Usage);
+  }
+  const lines = text.split(/\r?\n/);
+
+  if (path.extname(file).toLowerCase() !== '.csv') {
+    return lines.flatMap((line, index) => {
+      if (!line.trim()) {
+        return [];
+      }
+      try {
+        return [toRecord(JSON.parse(line), `Line ${index + 1}`)];
+      } catch (error: any) {
+        throw error instanceof CliError ? error : new CliError(`Line ${index + 1} is not valid JSON`, ExitCode.Usage);
+      }
+    });
+  }
+
+  const header = parseCsvLine(lines[0] || '').map(column => column.trim());
+  if (!header.includes('id')) {
+    throw new CliError(`${file} needs an id column`, ExitCode.Usage);
+  }
+  return lines.slice(1).flatMap((line, index) => {
+    if (!line.trim()) {
+      return [];
+    }
+    const where = `Row ${index + 2}`;
+    let cells: string[];
+    let vector: number[] | undefined;
+    try {
+      cells = parseCsvLine(line);
+      const column = header.indexOf('vector');
+      vector = column >= 0 ? parseVectorCell(cells[column] || '') : undefined;
+    } catch (error: any) {
+      throw new CliError(`${where} cannot be parsed: ${error.message}`, ExitCode.Usage);
+    }
+    const value = (column: string) => cells[header.indexOf(column)];
+    const metadata = Object.fromEntries(header
+      .map((column, position) => [column, cells[position]] as const)
+      .filter(([column, cell]) => !RESERVED_COLUMNS.includes(column) && cell !== undefined && cell !== '')
+      .map(([column, cell]) => [column, csvValue(cell)]));
+    return [toRecord({ id: value('id'), vector, data: header.includes('data') ? value('data') || undefined : undefined, metadata }, where)];
+  });
+}
+
+// A query vector file holds a JSON array, or a record in any format readVectorFile accepts
+export function readQueryVector(file: string): number[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8').trim();
+  } catch (error: any) {
+    throw new CliError(`Cannot read ${file}: ${error.message}`, ExitCode.Usage);
+  }
+  if (text.startsWith('[')) {
+    try {
+      const vector = JSON.parse(text);
+      if (Array.isArray(vector) && vector.every(item => typeof item === 'number')) {
+        return vector;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new CliError(`${file} is not a JSON array of numbers`, ExitCode.Usage);
+  }
+  const [record] = readVectorFile(file);
+  if (!record?.vector) {
+    throw new CliError(`${file} holds no vector`, ExitCode.Usage);
+  }
+  return record.vector;
+}
+
+function checkDimension(records: VectorRecord[], stats: VectorIndexStats): void {
+  const mismatch = records.find(record => record.vector && record.vector.length !== stats.dimension);
+  if (mismatch) {
+    throw new CliError(`Vector ${mismatch.id} has ${mismatch.vector!.length} dimensions; the index expects ${stats.dimension}`, ExitCode.Usage);
+  }
+}
+
+function parseTopK(value: string | undefined): number {
+  const topK = value === undefined ? 10 : Number(value);
+  if (!(Number.isInteger(topK) && topK > 0 && topK <= 1000)) {
+    throw new CliError('--top-k must be a whole number from 1 to 1000', ExitCode.Usage);
+  }
+  return topK;
+}
+
+function describeNamespace(namespace: string): string {
+  return namespace || '(default)';
+}
+
+export function printVectorStats(stats: VectorIndexStats): void {
+  console.log(`   Vectors: ${stats.vectorCount}`);
+  console.log(`   Pending: ${stats.pendingVectorCount}${stats.pendingVectorCount > 0 ? chalk.gray(' (still being indexed)') : ''}`);
+  console.log(`   Size: ${formatBytes(stats.indexSize)}`);
+  const namespaces = Object.entries(stats.namespaces || {});
+  if (namespaces.length > 1 || (namespaces.length === 1 && namespaces[0][0] !== '')) {
+    console.log();
+    console.log(formatTable(['namespace', 'vectors', 'pending'], namespaces.map(([namespace, counts]) => ({
+      namespace: describeNamespace(namespace),
+      vectors: counts.vectorCount,
+      pending: counts.pendingVectorCount
+    }))));
+  }
+}
+
+function printVector(record: VectorRecord & { score?: number }): void {
+  console.log(chalk.cyan(`\n🧬 ${record.id}${record.score !== undefined ? chalk.gray(`  score ${record.score.toFixed(4)}`) : ''}`));
+  if (record.metadata) {
+    Object.entries(record.metadata).forEach(([field, value]) => {
+      console.log(`   ${field}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+    });
+  }
+  if (record.data) {
+    console.log(chalk.gray(`   data: ${record.data}`));
+  }
+  if (record.vector) {
+    const preview = record.vector.slice(0, MAX_VECTOR_PREVIEW).map(value => value.toFixed(4)).join(', ');
+    console.log(chalk.gray(`   vector: [${preview}${record.vector.length > MAX_VECTOR_PREVIEW ? `, … ${record.vector.length - MAX_VECTOR_PREVIEW} more` : ''}]`));
+  }
+}
+
+export function printVectors(records: (VectorRecord & { score?: number })[]): void {
+  records.forEach(printVector);
+}
+
+async function upsertRecords(
+  vector: UpstashVectorService,
+  index: { id: string; name?: string },
+  records: VectorRecord[],
+  file: string,
+  namespace?: string
+): Promise<UpsertResult> {
+  const stats = await vector.getStats();
+  checkDimension(records, stats);
+
+  if (getRuntime().dryRun) {
+    console.error(chalk.cyan(`🔍 [dry-run] Would upsert ${records.length} vectors into ${index.name || index.id}${namespace ? ` (namespace ${namespace})` : ''}`));
+    return { success: true, applied: false, upserted: records.length, namespace: namespace || '' };
+  }
+
+  const spinner = ora({ text: `Upserting ${records.length} vectors...`, stream: process.stderr }).start();
+  const stopShowingWaits = showWaitsIn(spinner);
+  try {
+    const upserted = await audited({
+      provider: 'upstash',
+      action: 'upsertVectors',
+      target: { id: index.id, name: index.name },
+      params: { file: path.basename(file), namespace: namespace || '', count: records.length }
+    }, () => vector.upsert(records, namespace, done => {
+      spinner.text = `Upserted ${done} of ${records.length} vectors`;
+    }));
+    spinner.succeed(`Upserted ${upserted} vectors into ${index.name || index.id}${namespace ? ` (namespace ${namespace})` : ''}`);
+    return { success: true, applied: true, upserted, namespace: namespace || '' };
+  } catch (error) {
+    spinner.stop();
+    throw error;
+  } finally {
+    stopShowingWaits();
+  }
+}
+
+function requireLiveUpsert(): void {
+  if (getRuntime().plan) {
+    throw new CliError('Upserts cannot be recorded in a plan; use --dry-run to validate the file', ExitCode.Usage);
+  }
+}
+
+export async function upsertVectors(indexId: string, file: string, options: UpsertVectorsOptions): Promise<UpsertResult> {
+  requireLiveUpsert();
+  const records = readVectorFile(file);
+  if (records.length === 0) {
+    throw new CliError(`${file} holds no vectors`, ExitCode.Usage);
+  }
+  requireConfirmation(options, `upsert ${records.length} vectors into Vector index ${indexId}`);
+  requireProviderCredentials('upstash');
+  return upsertRecords(await connectVectorIndex(indexId), { id: indexId }, records, file, options.namespace);
+}
+
+export async function queryVectors(indexId: string, vectorFile: string, options: QueryVectorsOptions) {
+  const query = { vector: readQueryVector(vectorFile), topK: parseTopK(options.topK), filter: options.filter, includeVectors: options.includeVectors };
+  requireProviderCredentials('upstash');
+  return (await connectVectorIndex(indexId)).query(query, options.namespace);
+}
+
+// Interactive operations on one index, as returned by getVectorIndex
+export async function browseVectorData(index: any): Promise<void> {
+  const vector = new UpstashVectorService(index.endpoint, index.token);
+  let namespace = '';
+
+  while (true) {
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `${index.name} ${chalk.gray(`namespace ${describeNamespace(namespace)}`)}:`,
+        choices: [
+          { name: '📊 Show stats', value: 'stats' },
+          { name: '⬆️  Upsert from a JSONL or CSV file', value: 'upsert' },
+          { name: '🎯 Query with a vector file', value: 'query' },
+          { name: '📥 Fetch vectors by id', value: 'fetch' },
+          { name: '🗑️  Delete vectors by id', value: 'delete' },
+          { name: '🗂️  Switch namespace', value: 'namespace' },
+          { name: '🧹 Delete a namespace', value: 'delete-namespace' },
+          { name: '🔙 Done', value: 'back' }
+        ]
+      }
+    ]);
+    if (action === 'back') {
+      return;
+    }
+
+    const spinner = ora();
+    try {
+      switch (action) {
+        case 'stats': {
+          spinner.start('Loading stats...');
+          const stats = await vector.getStats();
+          spinner.stop();
+          console.log(chalk.green.bold(`\n📊 ${index.name}`));
+          printVectorStats(stats);
+          break;
+        }
+        case 'upsert': {
+          const { file } = await inquirer.prompt([
+            { type: 'input', name: 'file', message: 'Path to a .jsonl or .csv file:', validate: (input: string) => fs.existsSync(input.trim()) || 'File not found' }
+          ]);
+          const records = readVectorFile(file.trim());
+          const { confirm } = await inquirer.prompt([
+            { type: 'confirm', name: 'confirm', message: `Upsert ${records.length} vectors into ${describeNamespace(namespace)}? Vectors with the same ids are overwritten.`, default: true }
+          ]);
+          if (confirm) {
+            requireLiveUpsert();
+            await upsertRecords(vector, index, records, file.trim(), namespace);
+          }
+          break;
+        }
+        case 'query': {
+          const answers = await inquirer.prompt([
+            { type: 'input', name: 'file', message: 'Path to the query vector (JSON array, .jsonl or .csv):', validate: (input: string) => fs.existsSync(input.trim()) || 'File not found' },
+            { type: 'input', name: 'topK', message: 'Number of results:', default: '10' },
+            { type: 'input', name: 'filter', message: 'Metadata filter (e.g. genre = \'drama\' AND year > 2000, optional):' }
+          ]);
+          const query = { vector: readQueryVector(answers.file.trim()), topK: parseTopK(answers.topK), filter: answers.filter.trim() };
+          spinner.start('Querying...');
+          const matches = await vector.query(query, namespace);
+          spinner.stop();
+          renderList(matches, VECTOR_MATCH_VIEW, {}, '📭 No matches');
+          break;
+        }
+        case 'fetch':
+        case 'delete': {
+          const { ids } = await inquirer.prompt([
+            { type: 'input', name: 'ids', message: 'Vector ids (separated by spaces or commas):', validate: (input: string) => input.trim() !== '' || 'Enter at least one id' }
+          ]);
+          const idList = ids.split(/[\s,]+/).filter(Boolean);
+          if (action === 'fetch') {
+            spinner.start('Fetching...');
+            const records = await vector.fetch(idList, namespace, true);
+            spinner.stop();
+            records.forEach((record, position) => (record ? printVector(record) : console.log(chalk.yellow(`\n❔ ${idList[position]} not found`))));
+            break;
+          }
+          const { confirm } = await inquirer.prompt([
+            { type: 'confirm', name: 'confirm', message: `Delete ${idList.length} vector(s) from ${describeNamespace(namespace)}? This action cannot be undone.`, default: false }
+          ]);
+          if (!confirm) break;
+          spinner.start('Deleting vectors...');
+          const { applied, result } = await runMutation('upstash.deleteVectors', { indexId: index.id, name: index.name, namespace, ids: idList }, spinner);
+          spinner.stop();
+          if (applied) {
+            console.log(chalk.green(`✅ Deleted ${result} of ${idList.length} vectors`));
+          }
+          break;
+        }
+        case 'namespace':
+        case 'delete-namespace': {
+          spinner.start('Loading namespaces...');
+          const namespaces = (await vector.listNamespaces()).filter(name => action === 'namespace' || name !== '');
+          spinner.stop();
+          if (namespaces.length === 0) {
+            console.log(chalk.yellow('📭 No namespaces besides the default one'));
+            break;
+          }
+          const { picked } = await inquirer.prompt([
+            { type: 'list', name: 'picked', message: 'Select a namespace:', choices: namespaces.map(name => ({ name: describeNamespace(name), value: name })) }
+          ]);
+          if (action === 'namespace') {
+            namespace = picked;
+            break;
+          }
+          const { confirm } = await inquirer.prompt([
+            { type: 'confirm', name: 'confirm', message: `Delete namespace "${picked}" and every vector in it? This action cannot be undone.`, default: false }
+          ]);
+          if (!confirm) break;
+          spinner.start(`Deleting namespace ${picked}...`);
+          const { applied } = await runMutation('upstash.deleteVectorNamespace', { indexId: index.id, name: index.name, namespace: picked }, spinner);
+          spinner.stop();
+          if (applied) {
+            console.log(chalk.green(`✅ Namespace ${picked} deleted`));
+            if (namespace === picked) {
+              namespace = '';
+            }
+          }
+          break;
+        }
+      }
+    } catch (error: any) {
+      spinner.stop();
+      console.log(chalk.red(`❌ Error: ${error.message}`));
+    }
+  }
+}
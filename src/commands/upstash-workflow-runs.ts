@@ -0,0 +1,187 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { UpstashService } from '../services/upstash.js';
+import { connectQStash } from '../services/qstash.js';
+import { runMutation } from './mutations.js';
+import { PagedList, PickerRow, pickOne } from './picker.js';
+import { toIsoDate } from '../utils/filters.js';
+import { CliError, ExitCode } from '../utils/output.js';
+
+const MAX_PAYLOAD_LENGTH = 1000;
+
+// Short names accepted by --state, next to the API's own RUN_* names
+const RUN_STATES: Record<string, string> = {
+  running: 'RUN_STARTED',
+  success: 'RUN_SUCCESS',
+  failed: 'RUN_FAILED',
+  canceled: 'RUN_CANCELED'
+};
+
+export function parseRunState(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const state = RUN_STATES[value.toLowerCase()] ?? value.toUpperCase();
+  if (!Object.values(RUN_STATES).includes(state)) {
+    throw new CliError(`Unknown run state "${value}". Use one of: ${Object.keys(RUN_STATES).join(', ')}`, ExitCode.Usage);
+  }
+  return state;
+}
+
+function stateColor(state: string = ''): (text: string) => string {
+  if (/FAILED/.test(state)) return chalk.red;
+  if (/SUCCESS/.test(state)) return chalk.green;
+  if (/CANCELED/.test(state)) return chalk.gray;
+  if (/RETRY/.test(state)) return chalk.yellow;
+  return chalk.cyan;
+}
+
+// Step outputs and bodies are usually JSON; pretty-print them and cut off long ones
+function formatPayload(payload: unknown): string {
+  let text = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  try {
+    text = JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // Not JSON; show it as it is
+  }
+  if (text.length > MAX_PAYLOAD_LENGTH) {
+    text = `${text.slice(0, MAX_PAYLOAD_LENGTH)}${chalk.gray('…')}`;
+  }
+  return text.split('\n').map(line => `        ${line}`).join('\n');
+}
+
+function formatDuration(from?: number, to?: number): string {
+  if (!from || !to) {
+    return '';
+  }
+  const seconds = Math.round((to - from) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * Prints a run and its execution log: every step in the order it ran, with
+ * parallel steps grouped, and each step's state, output and request body.
+ */
+export function printWorkflowRun(run: any): void {
+  const color = stateColor(run.workflowState);
+  console.log(chalk.green.bold(`\n⚡ ${run.workflowRunId}`));
+  console.log(`   URL: ${run.workflowUrl}`);
+  console.log(`   State: ${color(run.workflowState)}`);
+  console.log(`   Started: ${toIsoDate(run.workflowRunCreatedAt) || 'N/A'}`);
+  if (run.workflowRunCompletedAt) {
+    console.log(`   Completed: ${toIsoDate(run.workflowRunCompletedAt)} (${formatDuration(run.workflowRunCreatedAt, run.workflowRunCompletedAt)})`);
+  }
+  if (run.dlqId) {
+    console.log(chalk.gray(`   Dead-letter entry: ${run.dlqId}`));
+  }
+
+  const groups: any[] = run.steps || [];
+  if (groups.length === 0) {
+    console.log(chalk.gray('\n   No steps recorded yet'));
+    return;
+  }
+
+  let number = 0;
+  groups.forEach(group => {
+    const steps: any[] = group.steps || [];
+    if (group.type === 'parallel' || steps.length > 1) {
+      console.log(chalk.magenta(`\n   ⇉ ${steps.length} steps in parallel`));
+    }
+    steps.forEach(step => {
+      number++;
+      const stepColor = stateColor(step.state);
+      console.log(`\n   ${chalk.bold(`${number}. ${step.stepName || step.stepType || 'step'}`)} ${chalk.gray(`(${step.stepType || 'Run'}${step.callType && step.callType !== 'step' ? `, ${step.callType}` : ''})`)}  ${stepColor(step.state || '')}`);
+      console.log(chalk.gray(`      ${toIsoDate(step.createdAt)}${step.messageId ? `  message ${step.messageId}` : ''}${step.retries ? `  ${step.retries} retries` : ''}`));
+      (step.errors || []).forEach((error: any) => {
+        console.log(chalk.red(`      Error: ${typeof error === 'string' ? error : error.error || JSON.stringify(error)}`));
+      });
+      if (step.body !== undefined && step.body !== '') {
+        console.log(chalk.cyan('      Payload:'));
+        console.log(formatPayload(step.body));
+      }
+      if (step.out !== undefined && step.out !== '') {
+        console.log(chalk.cyan('      Output:'));
+        console.log(formatPayload(step.out));
+      }
+      if (step.callUrl) {
+        console.log(chalk.gray(`      Called ${step.callMethod || 'POST'} ${step.callUrl} → HTTP ${step.callResponseStatus ?? 'pending'}`));
+      }
+    });
+  });
+}
+
+function runRow(run: any): PickerRow {
+  return { name: run.workflowRunId, details: [run.workflowState, run.workflowUrl, toIsoDate(run.workflowRunCreatedAt)] };
+}
+
+export async function investigateWorkflowRuns(upstash: UpstashService) {
+  const { state } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'state',
+      message: 'Which runs would you like to see?',
+      choices: [
+        { name: 'All runs', value: '' },
+        { name: '⏳ Running', value: 'RUN_STARTED' },
+        { name: '❌ Failed', value: 'RUN_FAILED' },
+        { name: '✅ Succeeded', value: 'RUN_SUCCESS' },
+        { name: '🚫 Canceled', value: 'RUN_CANCELED' }
+      ]
+    }
+  ]);
+  const spinner = ora('Loading workflow runs...').start();
+
+  try {
+    const runs = new PagedList((await connectQStash(upstash)).iterateWorkflowRuns({ state: state || undefined }));
+    await runs.loadMore();
+    spinner.stop();
+
+    if (runs.items.length === 0) {
+      console.log(chalk.yellow('📭 No workflow runs found'));
+      return;
+    }
+
+    const run = await pickOne<any, 'back'>('Select a run:', runs, runRow, [{ name: '🔙 Back', value: 'back' }]);
+    if (run === 'back') {
+      return;
+    }
+    printWorkflowRun(run);
+
+    const choices = [
+      ...(run.workflowState === 'RUN_STARTED' ? [{ name: '🛑 Cancel this run', value: 'cancel' }] : []),
+      ...(run.workflowState === 'RUN_FAILED' ? [
+        { name: '▶️  Resume from the failed step', value: 'resume' },
+        { name: '🔁 Restart from the first step', value: 'restart' }
+      ] : []),
+      { name: '🔙 Back', value: 'back' }
+    ];
+    const { action } = await inquirer.prompt([
+      { type: 'list', name: 'action', message: 'What would you like to do with this run?', choices }
+    ]);
+    if (action === 'back') {
+      return;
+    }
+
+    if (action === 'cancel') {
+      const { confirm } = await inquirer.prompt([
+        { type: 'confirm', name: 'confirm', message: `Cancel run ${run.workflowRunId}? Steps that have not run yet will not run.`, default: false }
+      ]);
+      if (!confirm) return;
+    }
+
+    const mutationSpinner = ora(action === 'cancel' ? 'Canceling run...' : 'Retrying run...').start();
+    const { applied, result } = action === 'cancel'
+      ? await runMutation('upstash.cancelWorkflowRun', { workflowRunId: run.workflowRunId, workflowUrl: run.workflowUrl }, mutationSpinner)
+      : await runMutation('upstash.retryWorkflowRun', { workflowRunId: run.workflowRunId, workflowUrl: run.workflowUrl, restart: action === 'restart' }, mutationSpinner);
+    mutationSpinner.stop();
+    if (applied) {
+      console.log(chalk.green(action === 'cancel'
+        ? `✅ Run ${run.workflowRunId} canceled`
+        : `✅ Run ${action === 'restart' ? 'restarted' : 'resumed'}${result?.workflowRunId ? ` as ${result.workflowRunId}` : ''}`));
+    }
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
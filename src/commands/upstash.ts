@@ -2,15 +2,28 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { UpstashService } from '../services/upstash.js';
+import { bulkDeleteMenu } from './bulk-delete.js';
+import { runMutation } from './mutations.js';
+import { browseRedisData } from './upstash-redis-browser.js';
+import { redisConsole } from './upstash-redis-console.js';
+import { printRedisSettings, printRedisUsage, updateRedisSettings } from './upstash-redis-settings.js';
+import { browseVectorData, printVectorStats } from './upstash-vector.js';
+import { UpstashVectorService } from '../services/upstash-vector.js';
+import { investigateWorkflowRuns } from './upstash-workflow-runs.js';
+import { browseDeadLetterQueue, manageQStashSchedules, publishQStashMessage, viewQStashLogs } from './upstash-qstash.js';
+import { PickerRow, pickOne } from './picker.js';
+import { audited } from '../utils/audit.js';
+import { describeCredentialSource, hasCredentials } from '../utils/credentials.js';
+import { isVaultUnlocked, maskSecret, setSecret } from '../utils/vault.js';
 
 export async function upstashCommand(returnToMain?: () => Promise<void>): Promise<void> {
   console.log(chalk.green.bold('\n🟢 Upstash Resource Management'));
   console.log(chalk.gray('Manage your Upstash Redis, QStash, Vector, Workflow, and Search resources'));
   console.log();
 
-  if (!process.env.UPSTASH_EMAIL || !process.env.UPSTASH_API_KEY) {
-    console.log(chalk.red('❌ UPSTASH_EMAIL and UPSTASH_API_KEY environment variables are required'));
-    console.log(chalk.gray('Please set your Upstash credentials in your environment variables'));
+  if (!hasCredentials('upstash')) {
+    console.log(chalk.red(`❌ UPSTASH_EMAIL and UPSTASH_API_KEY are required (checked the ${describeCredentialSource()})`));
+    console.log(chalk.gray('Please set your Upstash credentials in your environment variables or profile'));
     return;
   }
 
@@ -71,9 +84,12 @@ async function manageRedis(upstash: UpstashService, returnToMain?: () => Promise
         { name: '📋 List all databases', value: 'list' },
         { name: '➕ Create database', value: 'create' },
         { name: '🗑️  Delete database', value: 'delete' },
-        { name: '🧹 Bulk delete test- databases', value: 'bulk-delete' },
+        { name: '🧹 Bulk delete databases (by pattern, age, state)', value: 'bulk-delete' },
         { name: '🔍 View database details', value: 'details' },
+        { name: '🗂️  Browse keys and values', value: 'browse' },
+        { name: '💻 Open Redis console', value: 'console' },
         { name: '🔑 Reset database password', value: 'reset-password' },
+        { name: '⚙️  Update database settings', value: 'settings' },
         { name: '🔙 Back to Upstash menu', value: 'back' }
       ]
     }
@@ -94,14 +110,23 @@ async function manageRedis(upstash: UpstashService, returnToMain?: () => Promise
       await deleteRedisDatabase(upstash);
       break;
     case 'bulk-delete':
-      await bulkDeleteTestRedisDatabases(upstash);
+      await bulkDeleteMenu('upstash-redis');
       break;
     case 'details':
       await showRedisDatabaseDetails(upstash);
       break;
+    case 'browse':
+      await browseRedisDatabase(upstash);
+      break;
+    case 'console':
+      await openRedisConsole(upstash);
+      break;
     case 'reset-password':
       await resetRedisDatabasePassword(upstash);
       break;
+    case 'settings':
+      await changeRedisDatabaseSettings(upstash);
+      break;
   }
 
   await promptToContinue(upstash, returnToMain, 'redis');
@@ -120,6 +145,10 @@ async function manageQStash(upstash: UpstashService, returnToMain?: () => Promis
         { name: '➕ Create topic', value: 'create-topic' },
         { name: '🗑️  Delete topic', value: 'delete-topic' },
         { name: '📨 View messages', value: 'view-messages' },
+        { name: '📤 Publish message', value: 'publish' },
+        { name: '⏰ Schedules', value: 'schedules' },
+        { name: '💀 Dead-letter queue', value: 'dlq' },
+        { name: '📜 Message logs', value: 'logs' },
         { name: '🔙 Back to Upstash menu', value: 'back' }
       ]
     }
@@ -142,6 +171,18 @@ async function manageQStash(upstash: UpstashService, returnToMain?: () => Promis
     case 'view-messages':
       await viewQStashMessages(upstash);
       break;
+    case 'publish':
+      await publishQStashMessage(upstash);
+      break;
+    case 'schedules':
+      await manageQStashSchedules(upstash);
+      break;
+    case 'dlq':
+      await browseDeadLetterQueue(upstash);
+      break;
+    case 'logs':
+      await viewQStashLogs(upstash);
+      break;
   }
 
   await promptToContinue(upstash, returnToMain, 'qstash');
@@ -160,6 +201,7 @@ async function manageVector(upstash: UpstashService, returnToMain?: () => Promis
         { name: '➕ Create index', value: 'create' },
         { name: '🗑️  Delete index', value: 'delete' },
         { name: '🔍 View index details', value: 'details' },
+        { name: '🧬 Work with vectors', value: 'vectors' },
         { name: '🔙 Back to Upstash menu', value: 'back' }
       ]
     }
@@ -182,6 +224,9 @@ async function manageVector(upstash: UpstashService, returnToMain?: () => Promis
     case 'details':
       await showVectorIndexDetails(upstash);
       break;
+    case 'vectors':
+      await browseVectorIndex(upstash);
+      break;
   }
 
   await promptToContinue(upstash, returnToMain, 'vector');
@@ -199,6 +244,7 @@ async function manageWorkflow(upstash: UpstashService, returnToMain?: () => Prom
         { name: '📋 List workflows', value: 'list' },
         { name: '🗑️  Delete workflow', value: 'delete' },
         { name: '🔍 View workflow details', value: 'details' },
+        { name: '🏃 Runs, logs, cancel and retry', value: 'runs' },
         { name: '🔙 Back to Upstash menu', value: 'back' }
       ]
     }
@@ -218,6 +264,9 @@ async function manageWorkflow(upstash: UpstashService, returnToMain?: () => Prom
     case 'details':
       await showWorkflowDetails(upstash);
       break;
+    case 'runs':
+      await investigateWorkflowRuns(upstash);
+      break;
   }
 
   await promptToContinue(upstash, returnToMain, 'workflow');
@@ -236,6 +285,7 @@ async function manageSearch(upstash: UpstashService, returnToMain?: () => Promis
         { name: '➕ Create index', value: 'create' },
         { name: '🗑️  Delete index', value: 'delete' },
         { name: '🔍 View index details', value: 'details' },
+        { name: '🧬 Work with vectors', value: 'vectors' },
         { name: '🔙 Back to Upstash menu', value: 'back' }
       ]
     }
@@ -263,6 +313,27 @@ async function manageSearch(upstash: UpstashService, returnToMain?: () => Promis
   await promptToContinue(upstash, returnToMain, 'search');
 }
 
+// Picker rows: name plus the metadata shown next to it
+function redisDatabaseRow(db: any): PickerRow {
+  return { name: db.database_name || 'Unnamed', details: [db.database_id, db.primary_region || db.region, db.state] };
+}
+
+function topicRow(topic: any): PickerRow {
+  return { name: topic.name, details: [`${topic.endpoints?.length || 0} endpoints`] };
+}
+
+function vectorIndexRow(index: any): PickerRow {
+  return { name: index.name, details: [index.id, `${index.dimension}D`, index.similarity_function, index.region] };
+}
+
+function workflowRow(workflow: any): PickerRow {
+  return { name: workflow.name, details: [workflow.id] };
+}
+
+function searchIndexRow(index: any): PickerRow {
+  return { name: index.name, details: [index.id, index.region] };
+}
+
 // Redis Operations
 async function listRedisDatabases(upstash: UpstashService) {
   const spinner = ora('Fetching Redis databases...').start();
@@ -322,7 +393,9 @@ async function createRedisDatabase(upstash: UpstashService) {
   const spinner = ora(`Creating Redis database: ${name}...`).start();
   
   try {
-    const database = await upstash.createRedisDatabase(name, region, tls);
+    const database = await audited({ provider: 'upstash', action: 'createRedisDatabase', target: { name }, params: { name, region, tls } }, () =>
+      upstash.createRedisDatabase(name, region, tls)
+    );
     spinner.stop();
     
     console.log(chalk.green.bold('\n✅ Redis Database Created Successfully!'));
@@ -330,7 +403,7 @@ async function createRedisDatabase(upstash: UpstashService) {
     console.log(`   ID: ${database.database_id}`);
     console.log(`   Endpoint: ${database.endpoint}`);
     console.log(`   Region: ${database.region}`);
-    console.log(`   REST Token: ${database.rest_token?.substring(0, 20)}...`);
+    console.log(`   REST Token: ${maskSecret(database.rest_token || '')}`);
   } catch (error: any) {
     spinner.stop();
     console.log(chalk.red(`❌ Error: ${error.message}`));
@@ -349,17 +422,7 @@ async function deleteRedisDatabase(upstash: UpstashService) {
       return;
     }
 
-    const { databaseId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'databaseId',
-        message: 'Select database to delete:',
-        choices: databases.map((db: any) => ({
-          name: `${db.database_name} (${db.database_id}) - ${db.region}`,
-          value: db.database_id
-        }))
-      }
-    ]);
+    const databaseId = (await pickOne('Select database to delete:', databases, redisDatabaseRow)).database_id;
 
     const selectedDb = databases.find((db: any) => db.database_id === databaseId);
     
@@ -379,8 +442,9 @@ async function deleteRedisDatabase(upstash: UpstashService) {
 
     const deleteSpinner = ora(`Deleting database: ${selectedDb.database_name}...`).start();
     
-    await upstash.deleteRedisDatabase(databaseId);
+    const { applied } = await runMutation('upstash.deleteRedisDatabase', { databaseId, name: selectedDb.database_name }, deleteSpinner);
     deleteSpinner.stop();
+    if (!applied) return;
     
     console.log(chalk.green.bold('\n✅ Database deleted successfully!'));
   } catch (error: any) {
@@ -401,17 +465,7 @@ async function showRedisDatabaseDetails(upstash: UpstashService) {
       return;
     }
 
-    const { databaseId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'databaseId',
-        message: 'Select database to view details:',
-        choices: databases.map((db: any) => ({
-          name: `${db.database_name} (${db.database_id})`,
-          value: db.database_id
-        }))
-      }
-    ]);
+    const databaseId = (await pickOne('Select database to view details:', databases, redisDatabaseRow)).database_id;
 
     const detailSpinner = ora('Loading database details...').start();
     const database = await upstash.getRedisDatabase(databaseId);
@@ -425,16 +479,49 @@ async function showRedisDatabaseDetails(upstash: UpstashService) {
     console.log(`   Port: ${database.port}`);
     console.log(`   State: ${database.state}`);
     console.log(`   Endpoint: ${database.endpoint}`);
-    console.log(`   REST Token: ${database.rest_token?.substring(0, 30)}...`);
-    console.log(`   Read-Only Token: ${database.read_only_rest_token?.substring(0, 30)}...`);
+    console.log(`   REST Token: ${maskSecret(database.rest_token || '')}`);
+    console.log(`   Read-Only Token: ${maskSecret(database.read_only_rest_token || '')}`);
     console.log(`   Created: ${new Date(database.creation_time).toLocaleString()}`);
+    printRedisSettings(database);
+
+    // Free databases and fresh ones may have no stats yet
+    try {
+      printRedisUsage(await upstash.getRedisStats(databaseId));
+    } catch (error: any) {
+      console.log(chalk.yellow(`   ⚠️  Usage unavailable: ${error.message}`));
+    }
   } catch (error: any) {
     spinner.stop();
     console.log(chalk.red(`❌ Error: ${error.message}`));
   }
 }
 
-async function resetRedisDatabasePassword(upstash: UpstashService) {
+async function browseRedisDatabase(upstash: UpstashService) {
+  const spinner = ora('Loading databases...').start();
+  
+  try {
+    const databases = await upstash.listRedisDatabases();
+    spinner.stop();
+    
+    if (databases.length === 0) {
+      console.log(chalk.yellow('📭 No databases found'));
+      return;
+    }
+
+    const databaseId = (await pickOne('Select database to browse:', databases, redisDatabaseRow)).database_id;
+
+    const detailSpinner = ora('Loading database credentials...').start();
+    const database = await upstash.getRedisDatabase(databaseId);
+    detailSpinner.stop();
+
+    await browseRedisData(database);
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
+
+async function changeRedisDatabaseSettings(upstash: UpstashService) {
   const spinner = ora('Loading databases...').start();
   
   try {
@@ -446,18 +533,61 @@ async function resetRedisDatabasePassword(upstash: UpstashService) {
       return;
     }
 
-    const { databaseId } = await inquirer.prompt([
+    const databaseId = (await pickOne('Select database to update:', databases, redisDatabaseRow)).database_id;
+    await updateRedisSettings(upstash, databaseId);
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
+
+async function openRedisConsole(upstash: UpstashService) {
+  const spinner = ora('Loading databases...').start();
+  
+  try {
+    const databases = await upstash.listRedisDatabases();
+    spinner.stop();
+    
+    if (databases.length === 0) {
+      console.log(chalk.yellow('📭 No databases found'));
+      return;
+    }
+
+    const databaseId = (await pickOne('Select database to open a console on:', databases, redisDatabaseRow)).database_id;
+    const { readOnly } = await inquirer.prompt([
       {
-        type: 'list',
-        name: 'databaseId',
-        message: 'Select database to reset password:',
-        choices: databases.map((db: any) => ({
-          name: `${db.database_name} (${db.database_id})`,
-          value: db.database_id
-        }))
+        type: 'confirm',
+        name: 'readOnly',
+        message: 'Connect read-only (with the read-only REST token)?',
+        default: false
       }
     ]);
 
+    const detailSpinner = ora('Loading database credentials...').start();
+    const database = await upstash.getRedisDatabase(databaseId);
+    detailSpinner.stop();
+
+    await redisConsole(database, { readOnly });
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
+
+async function resetRedisDatabasePassword(upstash: UpstashService) {
+  const spinner = ora('Loading databases...').start();
+  
+  try {
+    const databases = await upstash.listRedisDatabases();
+    spinner.stop();
+    
+    if (databases.length === 0) {
+      console.log(chalk.yellow('📭 No databases found'));
+      return;
+    }
+
+    const databaseId = (await pickOne('Select database to reset password:', databases, redisDatabaseRow)).database_id;
+
     const { confirm } = await inquirer.prompt([
       {
         type: 'confirm',
@@ -470,11 +600,19 @@ async function resetRedisDatabasePassword(upstash: UpstashService) {
     if (!confirm) return;
 
     const resetSpinner = ora('Resetting database password...').start();
-    const result = await upstash.resetRedisDatabasePassword(databaseId);
+    const { applied, result } = await runMutation('upstash.resetRedisPassword', { databaseId }, resetSpinner);
     resetSpinner.stop();
+    if (!applied) return;
     
     console.log(chalk.green.bold('\n✅ Password reset successfully!'));
-    console.log(`   New password: ${result.password}`);
+    if (isVaultUnlocked()) {
+      setSecret(`upstash/${databaseId}/PASSWORD`, result.password);
+      console.log(chalk.gray(`   Stored in the vault as upstash/${databaseId}/PASSWORD`));
+    }
+    const { reveal } = await inquirer.prompt([
+      { type: 'confirm', name: 'reveal', message: 'Show the new password?', default: false }
+    ]);
+    console.log(`   New password: ${reveal ? result.password : maskSecret(result.password)}`);
     console.log(chalk.yellow('⚠️  Please update your applications with the new password'));
   } catch (error: any) {
     spinner.stop();
@@ -532,7 +670,9 @@ async function createQStashTopic(upstash: UpstashService) {
   const spinner = ora(`Creating QStash topic: ${name}...`).start();
   
   try {
-    const topic = await upstash.createQStashTopic(name, endpointList);
+    const topic = await audited({ provider: 'upstash', action: 'createQStashTopic', target: { id: name, name }, params: { name, endpoints: endpointList } }, () =>
+      upstash.createQStashTopic(name, endpointList)
+    );
     spinner.stop();
     
     console.log(chalk.green.bold('\n✅ QStash Topic Created Successfully!'));
@@ -559,17 +699,7 @@ async function deleteQStashTopic(upstash: UpstashService) {
       return;
     }
 
-    const { topicName } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'topicName',
-        message: 'Select topic to delete:',
-        choices: topics.map((topic: any) => ({
-          name: `${topic.name} (${topic.endpoints?.length || 0} endpoints)`,
-          value: topic.name
-        }))
-      }
-    ]);
+    const topicName = (await pickOne('Select topic to delete:', topics, topicRow)).name;
 
     const { confirm } = await inquirer.prompt([
       {
@@ -583,8 +713,9 @@ async function deleteQStashTopic(upstash: UpstashService) {
     if (!confirm) return;
 
     const deleteSpinner = ora(`Deleting topic: ${topicName}...`).start();
-    await upstash.deleteQStashTopic(topicName);
+    const { applied } = await runMutation('upstash.deleteQStashTopic', { topicName }, deleteSpinner);
     deleteSpinner.stop();
+    if (!applied) return;
     
     console.log(chalk.green.bold('\n✅ Topic deleted successfully!'));
   } catch (error: any) {
@@ -689,7 +820,9 @@ async function createVectorIndex(upstash: UpstashService) {
   const spinner = ora(`Creating Vector index: ${name}...`).start();
   
   try {
-    const index = await upstash.createVectorIndex(name, dimension, similarityFunction, region);
+    const index = await audited({ provider: 'upstash', action: 'createVectorIndex', target: { name }, params: { name, dimension, similarityFunction, region } }, () =>
+      upstash.createVectorIndex(name, dimension, similarityFunction, region)
+    );
     spinner.stop();
     
     console.log(chalk.green.bold('\n✅ Vector Index Created Successfully!'));
@@ -716,17 +849,7 @@ async function deleteVectorIndex(upstash: UpstashService) {
       return;
     }
 
-    const { indexId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'indexId',
-        message: 'Select index to delete:',
-        choices: indexes.map((index: any) => ({
-          name: `${index.name} (${index.id}) - ${index.dimension}D`,
-          value: index.id
-        }))
-      }
-    ]);
+    const indexId = (await pickOne('Select index to delete:', indexes, vectorIndexRow)).id;
 
     const selectedIndex = indexes.find((index: any) => index.id === indexId);
     
@@ -740,8 +863,9 @@ async function deleteVectorIndex(upstash: UpstashService) {
     ]);
 
     const deleteSpinner = ora(`Deleting index: ${selectedIndex.name}...`).start();
-    await upstash.deleteVectorIndex(indexId);
+    const { applied } = await runMutation('upstash.deleteVectorIndex', { indexId, name: selectedIndex.name }, deleteSpinner);
     deleteSpinner.stop();
+    if (!applied) return;
     
     console.log(chalk.green.bold('\n✅ Vector index deleted successfully!'));
   } catch (error: any) {
@@ -762,17 +886,7 @@ async function showVectorIndexDetails(upstash: UpstashService) {
       return;
     }
 
-    const { indexId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'indexId',
-        message: 'Select index to view details:',
-        choices: indexes.map((index: any) => ({
-          name: `${index.name} (${index.id})`,
-          value: index.id
-        }))
-      }
-    ]);
+    const indexId = (await pickOne('Select index to view details:', indexes, vectorIndexRow)).id;
 
     const detailSpinner = ora('Loading index details...').start();
     const index = await upstash.getVectorIndex(indexId);
@@ -784,6 +898,38 @@ async function showVectorIndexDetails(upstash: UpstashService) {
     console.log(`   Dimension: ${index.dimension}`);
     console.log(`   Similarity Function: ${index.similarity_function}`);
     console.log(`   Created: ${new Date(index.creation_time).toLocaleString()}`);
+
+    // Stats come from the index's own endpoint; the details above are still useful without them
+    try {
+      printVectorStats(await new UpstashVectorService(index.endpoint, index.token).getStats());
+    } catch (error: any) {
+      console.log(chalk.yellow(`   ⚠️  Stats unavailable: ${error.message}`));
+    }
+  } catch (error: any) {
+    spinner.stop();
+    console.log(chalk.red(`❌ Error: ${error.message}`));
+  }
+}
+
+async function browseVectorIndex(upstash: UpstashService) {
+  const spinner = ora('Loading indexes...').start();
+  
+  try {
+    const indexes = await upstash.listVectorIndexes();
+    spinner.stop();
+    
+    if (indexes.length === 0) {
+      console.log(chalk.yellow('📭 No indexes found'));
+      return;
+    }
+
+    const indexId = (await pickOne('Select index to work with:', indexes, vectorIndexRow)).id;
+
+    const detailSpinner = ora('Loading index credentials...').start();
+    const index = await upstash.getVectorIndex(indexId);
+    detailSpinner.stop();
+
+    await browseVectorData(index);
   } catch (error: any) {
     spinner.stop();
     console.log(chalk.red(`❌ Error: ${error.message}`));
@@ -828,17 +974,7 @@ async function deleteWorkflow(upstash: UpstashService) {
       return;
     }
 
-    const { workflowId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'workflowId',
-        message: 'Select workflow to delete:',
-        choices: workflows.map((workflow: any) => ({
-          name: `${workflow.name} (${workflow.id})`,
-          value: workflow.id
-        }))
-      }
-    ]);
+    const workflowId = (await pickOne('Select workflow to delete:', workflows, workflowRow)).id;
 
     const selectedWorkflow = workflows.find((workflow: any) => workflow.id === workflowId);
     
@@ -852,8 +988,9 @@ async function deleteWorkflow(upstash: UpstashService) {
     ]);
 
     const deleteSpinner = ora(`Deleting workflow: ${selectedWorkflow.name}...`).start();
-    await upstash.deleteWorkflow(workflowId);
+    const { applied } = await runMutation('upstash.deleteWorkflow', { workflowId, name: selectedWorkflow.name }, deleteSpinner);
     deleteSpinner.stop();
+    if (!applied) return;
     
     console.log(chalk.green.bold('\n✅ Workflow deleted successfully!'));
   } catch (error: any) {
@@ -874,17 +1011,7 @@ async function showWorkflowDetails(upstash: UpstashService) {
       return;
     }
 
-    const { workflowId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'workflowId',
-        message: 'Select workflow to view details:',
-        choices: workflows.map((workflow: any) => ({
-          name: `${workflow.name} (${workflow.id})`,
-          value: workflow.id
-        }))
-      }
-    ]);
+    const workflowId = (await pickOne('Select workflow to view details:', workflows, workflowRow)).id;
 
     const detailSpinner = ora('Loading workflow details...').start();
     const workflow = await upstash.getWorkflow(workflowId);
@@ -951,7 +1078,9 @@ async function createSearchIndex(upstash: UpstashService) {
   const spinner = ora(`Creating Search index: ${name}...`).start();
   
   try {
-    const index = await upstash.createSearchIndex(name, region);
+    const index = await audited({ provider: 'upstash', action: 'createSearchIndex', target: { name }, params: { name, region } }, () =>
+      upstash.createSearchIndex(name, region)
+    );
     spinner.stop();
     
     console.log(chalk.green.bold('\n✅ Search Index Created Successfully!'));
@@ -976,17 +1105,7 @@ async function deleteSearchIndex(upstash: UpstashService) {
       return;
     }
 
-    const { indexId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'indexId',
-        message: 'Select index to delete:',
-        choices: indexes.map((index: any) => ({
-          name: `${index.name} (${index.id})`,
-          value: index.id
-        }))
-      }
-    ]);
+    const indexId = (await pickOne('Select index to delete:', indexes, searchIndexRow)).id;
 
     const selectedIndex = indexes.find((index: any) => index.id === indexId);
     
@@ -1000,8 +1119,9 @@ async function deleteSearchIndex(upstash: UpstashService) {
     ]);
 
     const deleteSpinner = ora(`Deleting index: ${selectedIndex.name}...`).start();
-    await upstash.deleteSearchIndex(indexId);
+    const { applied } = await runMutation('upstash.deleteSearchIndex', { indexId, name: selectedIndex.name }, deleteSpinner);
     deleteSpinner.stop();
+    if (!applied) return;
     
     console.log(chalk.green.bold('\n✅ Search index deleted successfully!'));
   } catch (error: any) {
@@ -1022,17 +1142,7 @@ async function showSearchIndexDetails(upstash: UpstashService) {
       return;
     }
 
-    const { indexId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'indexId',
-        message: 'Select index to view details:',
-        choices: indexes.map((index: any) => ({
-          name: `${index.name} (${index.id})`,
-          value: index.id
-        }))
-      }
-    ]);
+    const indexId = (await pickOne('Select index to view details:', indexes, searchIndexRow)).id;
 
     const detailSpinner = ora('Loading index details...').start();
     const index = await upstash.getSearchIndex(indexId);
@@ -1082,95 +1192,4 @@ async function promptToContinue(upstash: UpstashService, returnToMain?: () => Pr
       }
       break;
   }
-}
-
-async function bulkDeleteTestRedisDatabases(upstash: UpstashService) {
-  const spinner = ora('Loading Redis databases...').start();
-  
-  try {
-    const databases = await upstash.listRedisDatabases();
-    spinner.stop();
-    
-    if (databases.length === 0) {
-      console.log(chalk.yellow('📭 No databases found'));
-      return;
-    }
-
-    const testDatabases = databases.filter((db: any) => db.database_name.toLowerCase().startsWith('test-'));
-    
-    if (testDatabases.length === 0) {
-      console.log(chalk.yellow('📭 No databases found with names starting with "test-" (case-insensitive)'));
-      return;
-    }
-
-    console.log(chalk.blue(`\n🔍 Found ${testDatabases.length} databases with names starting with "test-" (case-insensitive):\n`));
-    
-    testDatabases.forEach((db: any, index: number) => {
-      console.log(chalk.yellow(`${index + 1}. ${db.database_name}`));
-      console.log(chalk.gray(`   ID: ${db.database_id}`));
-      console.log(chalk.gray(`   Region: ${db.region}`));
-      console.log(chalk.gray(`   State: ${db.state}`));
-      console.log();
-    });
-
-    console.log(chalk.red(`⚠️  DANGER: You are about to delete ${testDatabases.length} Redis databases!`));
-    console.log(chalk.red(`This action cannot be undone!`));
-    console.log(chalk.red(`All data will be permanently lost!`));
-
-    const { confirmBulkDelete } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirmBulkDelete',
-        message: `Are you absolutely sure you want to delete all ${testDatabases.length} databases starting with "test-" (case-insensitive)?`,
-        default: false
-      }
-    ]);
-
-    if (!confirmBulkDelete) {
-      console.log(chalk.gray('Bulk delete cancelled'));
-      return;
-    }
-
-    const { finalConfirm } = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'finalConfirm',
-        message: 'Type "DELETE ALL TEST DATABASES" to confirm:',
-        validate: (input) => input === 'DELETE ALL TEST DATABASES' || 'Please type exactly "DELETE ALL TEST DATABASES"'
-      }
-    ]);
-
-    const deleteSpinner = ora(`Deleting ${testDatabases.length} test databases...`).start();
-    
-    try {
-      let deletedCount = 0;
-      let errorCount = 0;
-      
-      for (const db of testDatabases) {
-        try {
-          await upstash.deleteRedisDatabase(db.database_id);
-          deletedCount++;
-          deleteSpinner.text = `Deleted ${deletedCount}/${testDatabases.length} databases...`;
-        } catch (error: any) {
-          errorCount++;
-          console.log(chalk.red(`\nFailed to delete ${db.database_name}: ${error.message}`));
-        }
-      }
-      
-      deleteSpinner.stop();
-      
-      if (deletedCount > 0) {
-        console.log(chalk.green(`✅ Successfully deleted ${deletedCount} test databases`));
-      }
-      if (errorCount > 0) {
-        console.log(chalk.red(`❌ Failed to delete ${errorCount} databases`));
-      }
-    } catch (error: any) {
-      deleteSpinner.fail('Bulk delete failed');
-      console.log(chalk.red(`Error: ${error.message}`));
-    }
-  } catch (error: any) {
-    spinner.fail('Failed to load databases');
-    console.log(chalk.red(`Error: ${error.message}`));
-  }
 }
\ No newline at end of file
@@ -0,0 +1,268 @@
+import { ListView, formatBytes } from '../utils/render.js';
+import { toIsoDate } from '../utils/filters.js';
+
+// Columns of each provider list, shared by the scripted list commands and the interactive menus
+
+export const SITE_VIEW: ListView<any> = {
+  columns: {
+    id: site => site.id,
+    name: site => site.name,
+    url: site => site.ssl_url || site.url,
+    state: site => site.state,
+    repo: site => site.build_settings?.repo_url,
+    deployed: site => toIsoDate(site.published_deploy?.published_at),
+    created: site => toIsoDate(site.created_at),
+    updated: site => toIsoDate(site.updated_at)
+  },
+  defaultColumns: ['name', 'url', 'state', 'deployed']
+};
+
+export const DEPLOY_VIEW: ListView<any> = {
+  columns: {
+    id: deploy => deploy.id,
+    state: deploy => deploy.state,
+    branch: deploy => deploy.branch || 'main',
+    context: deploy => deploy.context,
+    url: deploy => deploy.deploy_ssl_url || deploy.deploy_url,
+    created: deploy => toIsoDate(deploy.created_at),
+    published: deploy => toIsoDate(deploy.published_at)
+  },
+  defaultColumns: ['id', 'state', 'branch', 'created']
+};
+
+export const REPOSITORY_VIEW: ListView<any> = {
+  columns: {
+    name: repo => repo.full_name,
+    visibility: repo => (repo.private ? 'private' : 'public'),
+    language: repo => repo.language,
+    stars: repo => repo.stargazers_count,
+    archived: repo => repo.archived,
+    url: repo => repo.html_url,
+    created: repo => toIsoDate(repo.created_at),
+    pushed: repo => toIsoDate(repo.pushed_at)
+  },
+  defaultColumns: ['name', 'visibility', 'language', 'stars', 'pushed']
+};
+
+export const BRANCH_VIEW: ListView<any> = {
+  columns: {
+    name: branch => branch.name,
+    protected: branch => branch.protected,
+    sha: branch => branch.commit?.sha
+  },
+  defaultColumns: ['name', 'protected']
+};
+
+export const ORGANIZATION_VIEW: ListView<any> = {
+  columns: {
+    id: org => org.id,
+    name: org => org.name,
+    created: org => toIsoDate(org.created)
+  },
+  defaultColumns: ['id', 'name']
+};
+
+export const PROJECT_VIEW: ListView<any> = {
+  columns: {
+    id: project => project.id,
+    name: project => project.name,
+    org: project => project.orgId,
+    clusters: project => project.clusterCount,
+    created: project => toIsoDate(project.created)
+  },
+  defaultColumns: ['id', 'name', 'clusters', 'created']
+};
+
+export const CLUSTER_VIEW: ListView<any> = {
+  columns: {
+    name: cluster => cluster.name,
+    state: cluster => (cluster.paused ? 'PAUSED' : cluster.stateName),
+    size: cluster => cluster.replicationSpecs?.[0]?.regionConfigs?.[0]?.electableSpecs?.instanceSize || cluster.providerSettings?.instanceSizeName,
+    provider: cluster => cluster.replicationSpecs?.[0]?.regionConfigs?.[0]?.providerName || cluster.providerSettings?.providerName,
+    region: cluster => cluster.replicationSpecs?.[0]?.regionConfigs?.[0]?.regionName || cluster.providerSettings?.regionName,
+    version: cluster => cluster.mongoDBVersion,
+    created: cluster => toIsoDate(cluster.createDate)
+  },
+  defaultColumns: ['name', 'state', 'size', 'region', 'version']
+};
+
+export const DATABASE_USER_VIEW: ListView<any> = {
+  columns: {
+    username: user => user.username,
+    roles: user => (user.roles || []).map((role: any) => `${role.roleName}@${role.databaseName}${role.collectionName ? `.${role.collectionName}` : ''}`).join(', '),
+    scopes: user => (user.scopes || []).map((scope: any) => scope.name).join(', ') || 'all clusters',
+    auth: user => (user.awsIAMType && user.awsIAMType !== 'NONE' ? 'AWS IAM' : user.x509Type && user.x509Type !== 'NONE' ? 'X.509' : 'password'),
+    expires: user => toIsoDate(user.deleteAfterDate)
+  },
+  defaultColumns: ['username', 'roles', 'scopes']
+};
+
+export const ACCESS_LIST_VIEW: ListView<any> = {
+  columns: {
+    entry: entry => entry.ipAddress || entry.cidrBlock || entry.awsSecurityGroup,
+    comment: entry => entry.comment,
+    expires: entry => toIsoDate(entry.deleteAfterDate),
+    open: entry => ['0.0.0.0/0', '::/0'].includes(entry.cidrBlock)
+  },
+  defaultColumns: ['entry', 'comment', 'expires', 'open']
+};
+
+export const SNAPSHOT_VIEW: ListView<any> = {
+  columns: {
+    id: snapshot => snapshot.id,
+    created: snapshot => toIsoDate(snapshot.createdAt),
+    type: snapshot => snapshot.snapshotType,
+    status: snapshot => snapshot.status,
+    size: snapshot => (snapshot.storageSizeBytes !== undefined ? formatBytes(snapshot.storageSizeBytes) : undefined),
+    expires: snapshot => toIsoDate(snapshot.expiresAt),
+    version: snapshot => snapshot.mongodVersion,
+    description: snapshot => snapshot.description
+  },
+  defaultColumns: ['id', 'created', 'type', 'status', 'size', 'expires']
+};
+
+export const RESTORE_JOB_VIEW: ListView<any> = {
+  columns: {
+    id: job => job.id,
+    snapshot: job => job.snapshotId,
+    target: job => job.targetClusterName,
+    targetProject: job => job.targetGroupId,
+    state: job => (job.failed ? 'failed' : job.cancelled ? 'cancelled' : job.expired ? 'expired' : job.finishedAt ? 'completed' : 'in progress'),
+    finished: job => toIsoDate(job.finishedAt)
+  },
+  defaultColumns: ['id', 'snapshot', 'target', 'state', 'finished']
+};
+
+export const REDIS_VIEW: ListView<any> = {
+  columns: {
+    id: db => db.database_id,
+    name: db => db.database_name,
+    region: db => db.primary_region || db.region,
+    state: db => db.state,
+    type: db => db.database_type,
+    endpoint: db => db.endpoint,
+    tls: db => db.tls,
+    created: db => toIsoDate(db.creation_time)
+  },
+  defaultColumns: ['id', 'name', 'region', 'state', 'type']
+};
+
+export const TOPIC_VIEW: ListView<any> = {
+  columns: {
+    name: topic => topic.name,
+    endpoints: topic => (topic.endpoints || []).map((endpoint: any) => endpoint.url ?? endpoint).join(', ')
+  },
+  defaultColumns: ['name', 'endpoints']
+};
+
+export const QSTASH_MESSAGE_VIEW: ListView<any> = {
+  columns: {
+    id: message => message.messageId,
+    state: message => message.state,
+    url: message => message.url,
+    created: message => toIsoDate(message.createdAt)
+  },
+  defaultColumns: ['id', 'state', 'url']
+};
+
+export const SCHEDULE_VIEW: ListView<any> = {
+  columns: {
+    id: schedule => schedule.scheduleId,
+    cron: schedule => schedule.cron,
+    destination: schedule => schedule.destination,
+    state: schedule => (schedule.isPaused ? 'paused' : 'active'),
+    method: schedule => schedule.method,
+    retries: schedule => schedule.retries,
+    delay: schedule => schedule.delay,
+    created: schedule => toIsoDate(schedule.createdAt)
+  },
+  defaultColumns: ['id', 'cron', 'destination', 'state']
+};
+
+export const DLQ_VIEW: ListView<any> = {
+  columns: {
+    id: message => message.dlqId,
+    messageId: message => message.messageId,
+    url: message => message.url,
+    topic: message => message.topicName,
+    status: message => message.responseStatus,
+    created: message => toIsoDate(message.createdAt)
+  },
+  defaultColumns: ['id', 'url', 'status', 'created']
+};
+
+export const QSTASH_EVENT_VIEW: ListView<any> = {
+  columns: {
+    time: event => toIsoDate(event.time),
+    messageId: event => event.messageId,
+    state: event => event.state,
+    url: event => event.url,
+    topic: event => event.topicName,
+    error: event => event.error,
+    nextDelivery: event => toIsoDate(event.nextDeliveryTime)
+  },
+  defaultColumns: ['time', 'messageId', 'state', 'url', 'error']
+};
+
+export const VECTOR_INDEX_VIEW: ListView<any> = {
+  columns: {
+    id: index => index.id,
+    name: index => index.name,
+    dimension: index => index.dimension,
+    similarity: index => index.similarity_function,
+    region: index => index.region,
+    created: index => toIsoDate(index.creation_time)
+  },
+  defaultColumns: ['id', 'name', 'dimension', 'similarity', 'region']
+};
+
+export const VECTOR_MATCH_VIEW: ListView<any> = {
+  columns: {
+    id: match => match.id,
+    score: match => match.score,
+    metadata: match => (match.metadata ? JSON.stringify(match.metadata) : ''),
+    data: match => match.data,
+    vector: match => (match.vector ? JSON.stringify(match.vector) : '')
+  },
+  defaultColumns: ['id', 'score', 'metadata']
+};
+
+export const VECTOR_NAMESPACE_VIEW: ListView<any> = {
+  columns: {
+    namespace: namespace => namespace.namespace || '(default)',
+    vectors: namespace => namespace.vectorCount,
+    pending: namespace => namespace.pendingVectorCount
+  },
+  defaultColumns: ['namespace', 'vectors', 'pending']
+};
+
+export const WORKFLOW_VIEW: ListView<any> = {
+  columns: {
+    id: workflow => workflow.id,
+    name: workflow => workflow.name,
+    status: workflow => workflow.status
+  },
+  defaultColumns: ['id', 'name', 'status']
+};
+
+export const WORKFLOW_RUN_VIEW: ListView<any> = {
+  columns: {
+    id: run => run.workflowRunId,
+    url: run => run.workflowUrl,
+    state: run => run.workflowState,
+    steps: run => (run.steps || []).reduce((count: number, group: any) => count + (group.steps || []).length, 0),
+    created: run => toIsoDate(run.workflowRunCreatedAt),
+    completed: run => toIsoDate(run.workflowRunCompletedAt)
+  },
+  defaultColumns: ['id', 'state', 'url', 'steps', 'created']
+};
+
+export const SEARCH_INDEX_VIEW: ListView<any> = {
+  columns: {
+    id: index => index.id,
+    name: index => index.name,
+    region: index => index.region,
+    created: index => toIsoDate(index.createdAt)
+  },
+  defaultColumns: ['id', 'name', 'region']
+};
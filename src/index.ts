@@ -10,18 +10,62 @@ import { netlifyCommand } from './commands/netlify.js';
 import { githubCommand } from './commands/github.js';
 import { mongodbCommand } from './commands/mongodb.js';
 import { upstashCommand } from './commands/upstash.js';
+import { inventoryCommand, inventoryMenu } from './commands/inventory.js';
+import { BULK_DELETE_TARGETS, bulkDeleteCommand } from './commands/bulk-delete.js';
+import { applyCommand } from './commands/apply.js';
+import { auditCommand, auditMenu } from './commands/audit.js';
+import { profileMenu, registerProfileSubcommands } from './commands/profile.js';
+import { registerSecretsSubcommands, unlockVaultIfPresent } from './commands/secrets.js';
+import { registerCacheSubcommands } from './commands/cache.js';
+import { registerNetlifySubcommands } from './commands/netlify-subcommands.js';
+import { registerGitHubSubcommands } from './commands/github-subcommands.js';
+import { registerMongoDBSubcommands } from './commands/mongodb-subcommands.js';
+import { registerUpstashSubcommands } from './commands/upstash-subcommands.js';
+import { configureRuntime, getRuntime } from './utils/runtime.js';
+import { getProfile } from './utils/profiles.js';
+import { CliError, ExitCode } from './utils/output.js';
+import { addRenderOptions } from './utils/render.js';
 
 const program = new Command();
 
 program
   .name('geenius-cli')
   .description('Management CLI for Netlify, GitHub, and MongoDB resources')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--dry-run', 'Print destructive operations instead of running them')
+  .option('--plan <file>', 'Record destructive operations to a plan file for `apply` instead of running them')
+  .option('--profile <name>', 'Use the credentials of a saved profile instead of environment variables', process.env.GEENIUS_PROFILE)
+  .option('--refresh', 'Fetch lists from the providers instead of using cached responses')
+  .hook('preAction', async (_program, actionCommand) => {
+    const { dryRun, plan, profile, refresh } = program.opts();
+    if (profile && !getProfile(profile)) {
+      program.error(`error: profile '${profile}' does not exist (see \`geenius-cli profile list\`)`, { exitCode: ExitCode.NotFound });
+    }
+    configureRuntime({ dryRun: Boolean(dryRun), plan, profile, refresh: Boolean(refresh) });
+
+    // The audit log and cache never need credentials, so don't ask for the vault passphrase
+    if (!['audit', 'cache'].includes(topLevelCommand(actionCommand))) {
+      try {
+        await unlockVaultIfPresent();
+      } catch (error: any) {
+        program.error(`error: ${error.message}`, { exitCode: error instanceof CliError ? error.exitCode : ExitCode.Failure });
+      }
+    }
+  });
+
+function topLevelCommand(command: Command): string {
+  let current = command;
+  while (current.parent && current.parent !== program) {
+    current = current.parent;
+  }
+  return current.name();
+}
 
 async function main() {
   while (true) {
     console.log(chalk.blue.bold('🔧 Geenius Management CLI'));
     console.log(chalk.gray('Manage your Netlify, GitHub, and MongoDB resources'));
+    console.log(chalk.gray(`Credentials: ${getRuntime().profile ? `profile ${getRuntime().profile}` : 'environment variables'}`));
     console.log();
 
     const { service } = await inquirer.prompt([
@@ -34,6 +78,9 @@ async function main() {
           { name: '🐙 GitHub Repositories (list, rename, delete)', value: 'github' },
           { name: '🍃 MongoDB Organizations (list, rename, delete + nested projects/clusters)', value: 'mongodb' },
           { name: '🟢 Upstash Resources (Redis, QStash, Vector, Workflow, Search)', value: 'upstash' },
+          { name: '📦 Resource inventory (all providers)', value: 'inventory' },
+          { name: '📜 Audit log', value: 'audit' },
+          { name: '👤 Switch profile', value: 'profile' },
           { name: '❌ Exit', value: 'exit' }
         ]
       }
@@ -57,34 +104,112 @@ async function main() {
       case 'upstash':
         await upstashCommand(main);
         break;
+      case 'inventory':
+        await inventoryMenu();
+        break;
+      case 'audit':
+        await auditMenu();
+        break;
+      case 'profile':
+        await profileMenu();
+        break;
     }
   }
 }
 
+// Runs a provider's interactive menu when no subcommand was given
+function interactive(menu: () => Promise<void>) {
+  return async (_options: unknown, command: Command) => {
+    if (command.args.length > 0) {
+      command.error(`error: unknown command '${command.args[0]}'`);
+    }
+    await menu();
+  };
+}
+
 // Add individual commands for direct access
-program
+const netlify = program
   .command('netlify')
   .description('Manage Netlify projects')
-  .action(netlifyCommand);
+  .action(interactive(() => netlifyCommand()));
+registerNetlifySubcommands(netlify);
 
-program
+const github = program
   .command('github')
   .description('Manage GitHub repositories')
-  .action(githubCommand);
+  .action(interactive(() => githubCommand()));
+registerGitHubSubcommands(github);
 
-program
+const mongodb = program
   .command('mongodb')
   .description('Manage MongoDB organizations')
-  .action(mongodbCommand);
+  .action(interactive(() => mongodbCommand()));
+registerMongoDBSubcommands(mongodb);
 
-program
+const upstash = program
   .command('upstash')
   .description('Manage Upstash resources')
-  .action(upstashCommand);
+  .action(interactive(() => upstashCommand()));
+registerUpstashSubcommands(upstash);
+
+addRenderOptions(program.command('inventory'))
+  .description('List resources across all providers in one table')
+  .option('-p, --provider <providers...>', 'Limit to providers (netlify, github, mongodb, upstash)')
+  .option('-t, --type <types...>', 'Limit to resource types (e.g. site, repository, cluster, redis)')
+  .option('-n, --name <pattern>', 'Filter names by glob or /regex/')
+  .action(inventoryCommand);
+
+program
+  .command('bulk-delete <target>')
+  .description(`Delete many resources at once (${Object.keys(BULK_DELETE_TARGETS).join(', ')})`)
+  .option('--match <patterns...>', 'Name globs or /regex/ to include')
+  .option('--exclude <patterns...>', 'Name globs or /regex/ to skip')
+  .option('--older-than <duration>', 'Only resources created before this age (e.g. 14d, 12h)')
+  .option('--state <states...>', 'Only resources in these states (e.g. never-deployed, empty, archived, paused)')
+  .option('--org <orgId>', 'Limit MongoDB targets to one organization')
+  .option('--backup [dir]', 'Back up GitHub repositories locally before deleting them (default: github-backups)')
+  .option('-y, --yes', 'Confirm the deletion')
+  .option('--json', 'Output as JSON')
+  .action(bulkDeleteCommand);
+
+program
+  .command('apply <planFile>')
+  .description('Apply a plan written with --plan after checking that its targets have not changed')
+  .option('-y, --yes', 'Confirm applying the plan')
+  .option('--json', 'Output as JSON')
+  .action(applyCommand);
+
+addRenderOptions(program.command('audit'), { limit: false })
+  .description('Query the audit log of mutations made through this CLI')
+  .option('-p, --provider <providers...>', 'Limit to providers (netlify, github, mongodb, upstash)')
+  .option('-a, --action <patterns...>', 'Limit to actions, e.g. deleteCluster or \'delete*\'')
+  .option('-t, --target <pattern>', 'Filter target ids and names by glob or /regex/')
+  .option('-u, --user <user>', 'Limit to one OS user')
+  .option('--outcome <outcome>', 'Limit to success or failure')
+  .option('--since <when>', 'Only entries after a date or duration ago (e.g. 2025-01-31, 7d)')
+  .option('--until <when>', 'Only entries before a date or duration ago')
+  .option('-l, --limit <count>', 'Show at most this many of the most recent entries', '50')
+  .action(auditCommand);
+
+const profile = program
+  .command('profile')
+  .description('Manage named credential profiles (e.g. personal, work, client accounts)');
+registerProfileSubcommands(profile);
+
+const secrets = program
+  .command('secrets')
+  .description('Manage the encrypted secrets vault (unlocked with a passphrase or GEENIUS_VAULT_KEY)');
+registerSecretsSubcommands(secrets);
+
+const cache = program
+  .command('cache')
+  .description('Manage the local cache of list responses');
+registerCacheSubcommands(cache);
 
 // If no specific command is provided, show the interactive menu
-if (process.argv.length === 2) {
-  main().catch(console.error);
-} else {
-  program.parse();
-}
\ No newline at end of file
+program.action(interactive(() => main()));
+
+program.parseAsync().catch((error) => {
+  console.error(chalk.red(`❌ Error: ${error.message}`));
+  process.exitCode = 1;
+});
@@ -0,0 +1,280 @@
+// src/services/github-backup.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { GitHubService } from './github.js';
+import { getCredential } from '../utils/credentials.js';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_BACKUP_DIR = 'github-backups';
+
+const MANIFEST_FILE = 'manifest.json';
+const BUNDLE_FILE = 'repo.bundle';
+
+export interface BackupManifest {
+  version: 1;
+  createdAt: string;
+  repository: {
+    owner: string;
+    name: string;
+    fullName: string;
+    description: string | null;
+    homepage: string | null;
+    private: boolean;
+    defaultBranch: string;
+  };
+  // null when the repository had no commits to bundle
+  bundle: string | null;
+  counts: { issues: number; pulls: number; comments: number; releases: number; labels: number };
+}
+
+export interface RestoreResult {
+  fullName: string;
+  url: string;
+  issues: number;
+  pulls: number;
+  releases: number;
+  labels: number;
+}
+
+type Progress = (message: string) => void;
+
+function readJson(archive: string, file: string): any[] {
+  const fullPath = path.join(archive, file);
+  return fs.existsSync(fullPath) ? JSON.parse(fs.readFileSync(fullPath, 'utf8')) : [];
+}
+
+function writeJson(archive: string, file: string, data: unknown): void {
+  fs.writeFileSync(path.join(archive, file), `${JSON.stringify(data, null, 2)}\n`);
+}
+
+function restoredNote(manifest: BackupManifest, item: any, kind: string): string {
+  const author = item.user?.login ? `@${item.user.login}` : 'unknown';
+  return `_Restored from ${kind} ${manifest.repository.fullName}#${item.number} by ${author}, opened ${item.created_at}._`;
+}
+
+// Arguments of the github.restoreRepository mutation; the target defaults to the original owner and name
+export function restoreArgs(manifest: BackupManifest, archive: string, target: { owner?: string; name?: string } = {}) {
+  return {
+    // Absolute, so a plan applied from another directory still finds the archive
+    archive: path.resolve(archive),
+    source: manifest.repository.fullName,
+    owner: target.owner || manifest.repository.owner,
+    name: target.name || manifest.repository.name,
+    counts: manifest.counts
+  };
+}
+
+/**
+ * Writes local archives of GitHub repositories (a git bundle of every ref plus
+ * JSON exports of issues, pull requests, comments, releases and labels) and
+ * recreates repositories from them.
+ */
+export class GitHubBackupService {
+  private github: GitHubService;
+
+  constructor() {
+    this.github = new GitHubService();
+  }
+
+  /**
+   * Passes the token as a header through git's environment config (git 2.31+),
+   * so it never ends up in a remote URL, a config file or the process list.
+   */
+  private gitAuthEnv(): NodeJS.ProcessEnv {
+    const credentials = Buffer.from(`x-access-token:${getCredential('GITHUB_TOKEN')}`).toString('base64');
+    return {
+      GIT_CONFIG_COUNT: '1',
+      GIT_CONFIG_KEY_0: 'http.extraHeader',
+      GIT_CONFIG_VALUE_0: `Authorization: Basic ${credentials}`
+    };
+  }
+
+  private async git(args: string[], env: NodeJS.ProcessEnv = {}): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { maxBuffer: 10 * 1024 * 1024, env: { ...process.env, ...env } });
+      return stdout;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error('git is required for repository backups but was not found on PATH');
+      }
+      throw new Error(error.stderr?.trim() || error.message);
+    }
+  }
+
+  private async withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'geenius-backup-'));
+    try {
+      return await run(dir);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  async backupRepository(owner: string, repo: string, backupDir: string = DEFAULT_BACKUP_DIR, onProgress: Progress = () => {}): Promise<string> {
+    try {
+      const details = await this.github.getRepository(owner, repo);
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const archive = path.resolve(backupDir, `${owner}__${repo}__${stamp}`);
+      fs.mkdirSync(archive, { recursive: true });
+
+      onProgress(`Mirroring ${owner}/${repo}...`);
+      const bundle = await this.withTempDir(async (dir) => {
+        const mirror = path.join(dir, 'mirror.git');
+        await this.git(['clone', '--mirror', '--quiet', details.clone_url, mirror], this.gitAuthEnv());
+        const refs = await this.git(['-C', mirror, 'for-each-ref', '--format=%(refname)']);
+        if (!refs.trim()) {
+          return null;
+        }
+        await this.git(['-C', mirror, 'bundle', 'create', path.join(archive, BUNDLE_FILE), '--all']);
+        return BUNDLE_FILE;
+      });
+
+      onProgress(`Exporting issues, pull requests and comments of ${owner}/${repo}...`);
+      const [issues, pulls, comments, releases, labels] = await Promise.all([
+        this.github.listIssues(owner, repo),
+        this.github.listPullRequests(owner, repo),
+        this.github.listIssueComments(owner, repo),
+        this.github.listReleases(owner, repo),
+        this.github.listLabels(owner, repo)
+      ]);
+      const plainIssues = issues.filter(issue => !issue.pull_request);
+
+      writeJson(archive, 'issues.json', plainIssues);
+      writeJson(archive, 'pulls.json', pulls);
+      writeJson(archive, 'comments.json', comments);
+      writeJson(archive, 'releases.json', releases);
+      writeJson(archive, 'labels.json', labels);
+
+      const manifest: BackupManifest = {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        repository: {
+          owner,
+          name: details.name,
+          fullName: details.full_name,
+          description: details.description,
+          homepage: details.homepage,
+          private: details.private,
+          defaultBranch: details.default_branch
+        },
+        bundle,
+        counts: {
+          issues: plainIssues.length,
+          pulls: pulls.length,
+          comments: comments.length,
+          releases: releases.length,
+          labels: labels.length
+        }
+      };
+      writeJson(archive, MANIFEST_FILE, manifest);
+
+      return archive;
+    } catch (error: any) {
+      console.error('❌ Error backing up repository:', error.message);
+      throw new Error(`Failed to back up repository: ${error.message}`);
+    }
+  }
+
+  readManifest(archive: string): BackupManifest {
+    const manifestPath = path.join(archive, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(`${archive} is not a repository backup (missing ${MANIFEST_FILE})`);
+    }
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  }
+
+  /**
+   * Creates a new repository from an archive. Issue and pull request numbers
+   * cannot be preserved; pull requests come back as issues that describe the
+   * original branches, and release assets are not part of the archive.
+   */
+  async restoreRepository(
+    archive: string,
+    target: { owner?: string; name?: string } = {},
+    onProgress: Progress = () => {}
+  ): Promise<RestoreResult> {
+    try {
+      const manifest = this.readManifest(archive);
+      const source = manifest.repository;
+      const owner = target.owner || source.owner;
+      const name = target.name || source.name;
+
+      onProgress(`Creating repository ${owner}/${name}...`);
+      const created = await this.github.createRepository(owner, name, {
+        description: source.description ?? undefined,
+        homepage: source.homepage ?? undefined,
+        private: source.private
+      });
+
+      if (manifest.bundle) {
+        onProgress('Pushing branches and tags...');
+        await this.withTempDir(async (dir) => {
+          const mirror = path.join(dir, 'mirror.git');
+          await this.git(['clone', '--mirror', '--quiet', path.join(archive, manifest.bundle!), mirror]);
+          // refs/pull/* from the mirror are read-only on GitHub, so only branches and tags are pushed
+          await this.git(['-C', mirror, 'push', '--quiet', created.clone_url, 'refs/heads/*:refs/heads/*', 'refs/tags/*:refs/tags/*'], this.gitAuthEnv());
+        });
+        await this.github.updateRepository(owner, name, { default_branch: source.defaultBranch });
+      }
+
+      const labels = readJson(archive, 'labels.json');
+      onProgress(`Restoring ${labels.length} labels...`);
+      for (const label of labels) {
+        await this.github.upsertLabel(owner, name, label);
+      }
+
+      const comments = readJson(archive, 'comments.json');
+      const items = [
+        ...readJson(archive, 'issues.json').map(issue => ({ kind: 'issue', item: issue })),
+        ...readJson(archive, 'pulls.json').map(pull => ({ kind: 'pull request', item: pull }))
+      ].sort((a, b) => a.item.number - b.item.number);
+
+      for (const [index, { kind, item }] of items.entries()) {
+        onProgress(`Restoring issues and pull requests... (${index + 1}/${items.length})`);
+        const details = kind === 'pull request'
+          ? `\n\nOriginal pull request: \`${item.head?.ref}\` → \`${item.base?.ref}\`${item.merged_at ? `, merged ${item.merged_at}` : ''}`
+          : '';
+        const issue = await this.github.createIssue(owner, name, {
+          title: kind === 'pull request' ? `[PR #${item.number}] ${item.title}` : item.title,
+          body: `${restoredNote(manifest, item, kind)}${details}\n\n${item.body || ''}`,
+          labels: (item.labels || []).map((label: any) => label.name)
+        });
+
+        const itemComments = comments.filter(comment => comment.issue_url?.endsWith(`/issues/${item.number}`));
+        for (const comment of itemComments) {
+          await this.github.createIssueComment(owner, name, issue.number,
+            `_@${comment.user?.login ?? 'unknown'} commented on ${comment.created_at}:_\n\n${comment.body || ''}`);
+        }
+
+        if (item.state === 'closed') {
+          await this.github.closeIssue(owner, name, issue.number, item.state_reason === 'not_planned' ? 'not_planned' : 'completed');
+        }
+      }
+
+      const releases = readJson(archive, 'releases.json');
+      if (manifest.bundle) {
+        onProgress(`Restoring ${releases.length} releases...`);
+        // The API lists newest first; recreate in the original order
+        for (const release of [...releases].reverse()) {
+          await this.github.createRelease(owner, name, release);
+        }
+      }
+
+      return {
+        fullName: `${owner}/${name}`,
+        url: created.html_url,
+        issues: manifest.counts.issues,
+        pulls: manifest.counts.pulls,
+        releases: manifest.bundle ? releases.length : 0,
+        labels: labels.length
+      };
+    } catch (error: any) {
+      console.error('❌ Error restoring repository:', error.message);
+      throw new Error(`Failed to restore repository: ${error.message}`);
+    }
+  }
+}
@@ -1,15 +1,31 @@
 // src/services/github.ts
 import { Octokit } from 'octokit';
+import { describeCredentialSource, getCredential } from '../utils/credentials.js';
+import { retryingFetch } from '../utils/http.js';
+import { cachedPages, invalidateOnWrite } from '../utils/cache.js';
+import { Pages, collectPages } from '../utils/pagination.js';
+
+const githubFetch = retryingFetch('github');
 
 export class GitHubService {
   private octokit: Octokit;
 
   constructor() {
-    if (!process.env.GITHUB_TOKEN) {
-      throw new Error('GITHUB_TOKEN environment variable is required. Please set it with your GitHub personal access token.');
+    const token = getCredential('GITHUB_TOKEN');
+    if (!token) {
+      throw new Error(`GITHUB_TOKEN is required but is missing from the ${describeCredentialSource()}. Please set it with your GitHub personal access token.`);
     }
     this.octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN
+      auth: token,
+      // Retries and rate limits are handled by the shared request layer rather than Octokit's own plugins
+      request: {
+        fetch: (input: any, init?: RequestInit) => {
+          invalidateOnWrite('github', init?.method);
+          return githubFetch(input, init);
+        }
+      },
+      retry: { enabled: false },
+      throttle: { enabled: false }
     });
   }
 
@@ -261,12 +277,13 @@ export class GitHubService {
   async getBranches(repoUrl: string): Promise<string[]> {
     const { owner, repo } = this.parseRepoUrl(repoUrl);
 
-    const { data } = await this.octokit.rest.repos.listBranches({
+    const branches = await this.octokit.paginate(this.octokit.rest.repos.listBranches, {
       owner,
-      repo
+      repo,
+      per_page: 100
     });
 
-    return data.map(branch => branch.name);
+    return branches.map(branch => branch.name);
   }
 
   // Netlify integration methods
@@ -401,7 +418,7 @@ export class GitHubService {
     return `${baseName}-${timestamp}`;
   }
 
-  private async isRepoNameAvailable(owner: string, name: string): Promise<boolean> {
+  async isRepoNameAvailable(owner: string, name: string): Promise<boolean> {
     try {
       await this.octokit.rest.repos.get({ owner, repo: name });
       return false; // Repo exists
@@ -413,20 +430,31 @@ export class GitHubService {
     }
   }
 
-  async listRepositories(): Promise<any[]> {
+  // One page (up to 100 repositories) per iteration, most recently updated first
+  async *iterateRepositories(): Pages<any> {
     try {
-      const { data } = await this.octokit.rest.repos.listForAuthenticatedUser({
-        visibility: 'all',
-        sort: 'updated',
-        per_page: 100
-      });
-      return data;
+      yield* cachedPages('github', 'repositories', () => this.fetchRepositoryPages());
     } catch (error: any) {
       console.error('❌ Error listing repositories:', error.message);
       throw new Error(`Failed to list repositories: ${error.message}`);
     }
   }
 
+  private async *fetchRepositoryPages(): Pages<any> {
+    const pages = this.octokit.paginate.iterator(this.octokit.rest.repos.listForAuthenticatedUser, {
+      visibility: 'all',
+      sort: 'updated',
+      per_page: 100
+    });
+    for await (const { data } of pages) {
+      yield data;
+    }
+  }
+
+  async listRepositories(): Promise<any[]> {
+    return collectPages(this.iterateRepositories());
+  }
+
   async updateRepository(owner: string, repo: string, updates: any): Promise<any> {
     try {
       const { data } = await this.octokit.rest.repos.update({
@@ -444,11 +472,11 @@ export class GitHubService {
 
   async listDeployKeys(owner: string, repo: string): Promise<any[]> {
     try {
-      const { data } = await this.octokit.rest.repos.listDeployKeys({
+      return await this.octokit.paginate(this.octokit.rest.repos.listDeployKeys, {
         owner,
-        repo
+        repo,
+        per_page: 100
       });
-      return data;
     } catch (error: any) {
       console.error('❌ Error listing deploy keys:', error.message);
       throw new Error(`Failed to list deploy keys: ${error.message}`);
@@ -496,15 +524,175 @@ export class GitHubService {
 
   async listBranches(owner: string, repo: string): Promise<any[]> {
     try {
-      const { data } = await this.octokit.rest.repos.listBranches({
+      return await this.octokit.paginate(this.octokit.rest.repos.listBranches, {
         owner,
         repo,
         per_page: 100
       });
-      return data;
     } catch (error: any) {
       console.error('❌ Error listing branches:', error.message);
       throw new Error(`Failed to list branches: ${error.message}`);
     }
   }
+
+  async getAuthenticatedUser(): Promise<any> {
+    try {
+      const { data } = await this.octokit.rest.users.getAuthenticated();
+      return data;
+    } catch (error: any) {
+      console.error('❌ Error getting authenticated user:', error.message);
+      throw new Error(`Failed to get authenticated user: ${error.message}`);
+    }
+  }
+
+  async createRepository(owner: string, name: string, options: { description?: string; homepage?: string; private?: boolean } = {}): Promise<any> {
+    try {
+      const user = await this.getAuthenticatedUser();
+      const { data } = owner === user.login
+        ? await this.octokit.rest.repos.createForAuthenticatedUser({ name, ...options })
+        : await this.octokit.rest.repos.createInOrg({ org: owner, name, ...options });
+      return data;
+    } catch (error: any) {
+      console.error('❌ Error creating repository:', error.message);
+      throw new Error(`Failed to create repository: ${error.message}`);
+    }
+  }
+
+  // Issues including pull requests, oldest first
+  async listIssues(owner: string, repo: string): Promise<any[]> {
+    try {
+      return await this.octokit.paginate(this.octokit.rest.issues.listForRepo, {
+        owner,
+        repo,
+        state: 'all',
+        sort: 'created',
+        direction: 'asc',
+        per_page: 100
+      });
+    } catch (error: any) {
+      console.error('❌ Error listing issues:', error.message);
+      throw new Error(`Failed to list issues: ${error.message}`);
+    }
+  }
+
+  async listPullRequests(owner: string, repo: string): Promise<any[]> {
+    try {
+      return await this.octokit.paginate(this.octokit.rest.pulls.list, {
+        owner,
+        repo,
+        state: 'all',
+        per_page: 100
+      });
+    } catch (error: any) {
+      console.error('❌ Error listing pull requests:', error.message);
+      throw new Error(`Failed to list pull requests: ${error.message}`);
+    }
+  }
+
+  // Conversation comments of all issues and pull requests
+  async listIssueComments(owner: string, repo: string): Promise<any[]> {
+    try {
+      return await this.octokit.paginate(this.octokit.rest.issues.listCommentsForRepo, {
+        owner,
+        repo,
+        sort: 'created',
+        direction: 'asc',
+        per_page: 100
+      });
+    } catch (error: any) {
+      console.error('❌ Error listing issue comments:', error.message);
+      throw new Error(`Failed to list issue comments: ${error.message}`);
+    }
+  }
+
+  async listReleases(owner: string, repo: string): Promise<any[]> {
+    try {
+      return await this.octokit.paginate(this.octokit.rest.repos.listReleases, {
+        owner,
+        repo,
+        per_page: 100
+      });
+    } catch (error: any) {
+      console.error('❌ Error listing releases:', error.message);
+      throw new Error(`Failed to list releases: ${error.message}`);
+    }
+  }
+
+  async listLabels(owner: string, repo: string): Promise<any[]> {
+    try {
+      return await this.octokit.paginate(this.octokit.rest.issues.listLabelsForRepo, {
+        owner,
+        repo,
+        per_page: 100
+      });
+    } catch (error: any) {
+      console.error('❌ Error listing labels:', error.message);
+      throw new Error(`Failed to list labels: ${error.message}`);
+    }
+  }
+
+  // Creates the label, or updates it when the repository already has one with that name
+  async upsertLabel(owner: string, repo: string, label: { name: string; color: string; description?: string | null }): Promise<void> {
+    const { name, color, description } = label;
+    try {
+      await this.octokit.rest.issues.createLabel({ owner, repo, name, color, description: description ?? undefined });
+    } catch (error: any) {
+      if (error.status !== 422) {
+        console.error('❌ Error creating label:', error.message);
+        throw new Error(`Failed to create label: ${error.message}`);
+      }
+      await this.octokit.rest.issues.updateLabel({ owner, repo, name, color, description: description ?? undefined });
+    }
+  }
+
+  async createIssue(owner: string, repo: string, issue: { title: string; body?: string; labels?: string[] }): Promise<any> {
+    try {
+      const { data } = await this.octokit.rest.issues.create({ owner, repo, ...issue });
+      return data;
+    } catch (error: any) {
+      console.error('❌ Error creating issue:', error.message);
+      throw new Error(`Failed to create issue: ${error.message}`);
+    }
+  }
+
+  async createIssueComment(owner: string, repo: string, issueNumber: number, body: string): Promise<void> {
+    try {
+      await this.octokit.rest.issues.createComment({ owner, repo, issue_number: issueNumber, body });
+    } catch (error: any) {
+      console.error('❌ Error creating issue comment:', error.message);
+      throw new Error(`Failed to create issue comment: ${error.message}`);
+    }
+  }
+
+  async closeIssue(owner: string, repo: string, issueNumber: number, reason?: 'completed' | 'not_planned'): Promise<void> {
+    try {
+      await this.octokit.rest.issues.update({ owner, repo, issue_number: issueNumber, state: 'closed', state_reason: reason });
+    } catch (error: any) {
+      console.error('❌ Error closing issue:', error.message);
+      throw new Error(`Failed to close issue: ${error.message}`);
+    }
+  }
+
+  async createRelease(owner: string, repo: string, release: {
+    tag_name: string;
+    name?: string | null;
+    body?: string | null;
+    draft?: boolean;
+    prerelease?: boolean;
+  }): Promise<void> {
+    try {
+      await this.octokit.rest.repos.createRelease({
+        owner,
+        repo,
+        tag_name: release.tag_name,
+        name: release.name ?? undefined,
+        body: release.body ?? undefined,
+        draft: release.draft,
+        prerelease: release.prerelease
+      });
+    } catch (error: any) {
+      console.error('❌ Error creating release:', error.message);
+      throw new Error(`Failed to create release: ${error.message}`);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+// src/services/inventory.ts
+import { NetlifyService } from './netlify.js';
+import { GitHubService } from './github.js';
+import { MongoDBService } from './mongodb.js';
+import { UpstashService } from './upstash.js';
+import { toIsoDate } from '../utils/filters.js';
+import { PROVIDERS, Provider, hasCredentials } from '../utils/credentials.js';
+
+export interface InventoryResource {
+  provider: Provider;
+  type: string;
+  name: string;
+  id: string;
+  region: string;
+  created: string;
+  state: string;
+  raw: any;
+}
+
+export interface InventoryResult {
+  resources: InventoryResource[];
+  errors: { provider: Provider; message: string }[];
+  skipped: Provider[];
+}
+
+export class InventoryService {
+  async collect(providers: Provider[] = PROVIDERS): Promise<InventoryResult> {
+    const skipped = providers.filter(provider => !hasCredentials(provider));
+    const active = providers.filter(provider => hasCredentials(provider));
+
+    const settled = await Promise.allSettled(active.map(provider => this.collectProvider(provider)));
+
+    const result: InventoryResult = { resources: [], errors: [], skipped };
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        result.resources.push(...outcome.value);
+      } else {
+        result.errors.push({ provider: active[index], message: outcome.reason?.message || String(outcome.reason) });
+      }
+    });
+
+    return result;
+  }
+
+  private collectProvider(provider: Provider): Promise<InventoryResource[]> {
+    switch (provider) {
+      case 'netlify':
+        return this.collectNetlify();
+      case 'github':
+        return this.collectGitHub();
+      case 'mongodb':
+        return this.collectMongoDB();
+      case 'upstash':
+        return this.collectUpstash();
+    }
+  }
+
+  private async collectNetlify(): Promise<InventoryResource[]> {
+    const sites = await new NetlifyService().listSites();
+    return sites.map((site: any) => ({
+      provider: 'netlify',
+      type: 'site',
+      name: site.name,
+      id: site.id,
+      region: '',
+      created: toIsoDate(site.created_at),
+      state: site.state || '',
+      raw: site
+    }));
+  }
+
+  private async collectGitHub(): Promise<InventoryResource[]> {
+    const repos = await new GitHubService().listRepositories();
+    return repos.map((repo: any) => ({
+      provider: 'github',
+      type: 'repository',
+      name: repo.name,
+      id: repo.full_name,
+      region: '',
+      created: toIsoDate(repo.created_at),
+      state: repo.archived ? 'archived' : (repo.private ? 'private' : 'public'),
+      raw: repo
+    }));
+  }
+
+  private async collectMongoDB(): Promise<InventoryResource[]> {
+    const mongodb = new MongoDBService();
+    const organizations = await mongodb.getOrganizations();
+
+    const projectsByOrg = await Promise.all(organizations.map(org => mongodb.getProjects(org.id)));
+    const projects = projectsByOrg.flat();
+    const clustersByProject = await Promise.all(projects.map(project => mongodb.getClusters(project.id)));
+
+    const resources: InventoryResource[] = organizations.map(org => ({
+      provider: 'mongodb',
+      type: 'organization',
+      name: org.name,
+      id: org.id,
+      region: '',
+      created: toIsoDate(org.created),
+      state: org.isDeleted ? 'deleted' : 'active',
+      raw: org
+    }));
+
+    projects.forEach((project, index) => {
+      const clusterCount = clustersByProject[index].length;
+      resources.push({
+        provider: 'mongodb',
+        type: 'project',
+        name: project.name,
+        id: project.id,
+        region: '',
+        created: toIsoDate(project.created),
+        state: `${clusterCount} clusters`,
+        raw: { ...project, clusterCount }
+      });
+
+      clustersByProject[index].forEach(cluster => {
+        const regionConfig = cluster.replicationSpecs?.[0]?.regionConfigs?.[0];
+        resources.push({
+          provider: 'mongodb',
+          type: 'cluster',
+          name: cluster.name,
+          id: `${project.id}/${cluster.name}`,
+          region: regionConfig?.regionName || cluster.providerSettings?.regionName || '',
+          created: toIsoDate(cluster.createDate),
+          state: cluster.paused ? 'PAUSED' : (cluster.stateName || ''),
+          raw: { ...cluster, orgId: project.orgId, projectId: project.id, projectName: project.name }
+        });
+      });
+    });
+
+    return resources;
+  }
+
+  private async collectUpstash(): Promise<InventoryResource[]> {
+    const upstash = new UpstashService();
+    const [databases, topics, vectorIndexes, workflows, searchIndexes] = await Promise.all([
+      upstash.listRedisDatabases(),
+      upstash.listQStashTopics(),
+      upstash.listVectorIndexes(),
+      upstash.listWorkflows(),
+      upstash.listSearchIndexes()
+    ]);
+
+    return [
+      ...(databases || []).map((db: any): InventoryResource => ({
+        provider: 'upstash',
+        type: 'redis',
+        name: db.database_name,
+        id: db.database_id,
+        region: db.region || '',
+        created: toIsoDate(db.creation_time),
+        state: db.state || '',
+        raw: db
+      })),
+      ...(topics || []).map((topic: any): InventoryResource => ({
+        provider: 'upstash',
+        type: 'qstash-topic',
+        name: topic.name,
+        id: topic.name,
+        region: '',
+        created: '',
+        state: `${topic.endpoints?.length || 0} endpoints`,
+        raw: topic
+      })),
+      ...(vectorIndexes || []).map((index: any): InventoryResource => ({
+        provider: 'upstash',
+        type: 'vector-index',
+        name: index.name,
+        id: index.id,
+        region: index.region || '',
+        created: toIsoDate(index.creation_time),
+        state: index.state || '',
+        raw: index
+      })),
+      ...(workflows || []).map((workflow: any): InventoryResource => ({
+        provider: 'upstash',
+        type: 'workflow',
+        name: workflow.name,
+        id: workflow.id,
+        region: '',
+        created: toIsoDate(workflow.createdAt),
+        state: workflow.status || '',
+        raw: workflow
+      })),
+      ...(searchIndexes || []).map((index: any): InventoryResource => ({
+        provider: 'upstash',
+        type: 'search-index',
+        name: index.name,
+        id: index.id,
+        region: index.region || '',
+        created: toIsoDate(index.createdAt),
+        state: index.state || '',
+        raw: index
+      }))
+    ];
+  }
+}
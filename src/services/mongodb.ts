@@ -1,5 +1,12 @@
 // src/services/mongodb.ts
 import DigestClient from 'digest-fetch';
+import { describeCredentialSource, getCredential } from '../utils/credentials.js';
+import { requestWithRetry } from '../utils/http.js';
+import { cachedPages, invalidateOnWrite } from '../utils/cache.js';
+import { Pages, collectPages, paginateByNumber } from '../utils/pagination.js';
+
+// Largest page size the Atlas Admin API accepts
+const PAGE_SIZE = 500;
 
 export interface MongoDBProject {
   id: string;
@@ -13,21 +20,74 @@ export interface MongoDBProject {
   tier: string;
 }
 
+export interface DatabaseUserRole {
+  roleName: string;
+  databaseName: string;
+  collectionName?: string;
+}
+
+// Exactly one of ipAddress and cidrBlock is set; Atlas removes entries with a deleteAfterDate on their own
+export interface AccessListEntry {
+  ipAddress?: string;
+  cidrBlock?: string;
+  comment?: string;
+  deleteAfterDate?: string;
+}
+
+// M0 clusters run on a provider's shared hardware; version and backup only apply to dedicated tiers
+export interface ClusterSpec {
+  name: string;
+  provider: 'AWS' | 'GCP' | 'AZURE';
+  regionName: string;
+  instanceSize: string;
+  mongoDBMajorVersion?: string;
+  backupEnabled?: boolean;
+}
+
+export interface FreeClusterLimit {
+  canCreateFreeCluster: boolean;
+  freeClustersCount: number;
+  maxFreeClusters: number;
+  clusters: any[];
+}
+
+// Atlas allows one free (M0) cluster per project
+const MAX_FREE_CLUSTERS = 1;
+
+// An automated restore overwrites the data of the target cluster with the snapshot
+export interface RestoreJobRequest {
+  snapshotId: string;
+  targetClusterName: string;
+  targetGroupId: string;
+}
+
+// Limits a user to some clusters; a user without scopes can reach every cluster in the project
+export interface DatabaseUserScope {
+  name: string;
+  type: 'CLUSTER' | 'DATA_LAKE' | 'STREAM';
+}
+
 export class MongoDBService {
   private apiUrl: string;
-  private client: DigestClient;
+  private client: { fetch(url: string, options?: any): Promise<any> };
 
   constructor() {
     this.apiUrl = 'https://cloud.mongodb.com/api/atlas/v2';
-    const publicKey = process.env.MONGODB_ATLAS_PUBLIC_KEY || '';
-    const privateKey = process.env.MONGODB_ATLAS_PRIVATE_KEY || '';
+    const publicKey = getCredential('MONGODB_ATLAS_PUBLIC_KEY') || '';
+    const privateKey = getCredential('MONGODB_ATLAS_PRIVATE_KEY') || '';
 
     if (!publicKey || !privateKey) {
-      throw new Error('MongoDB Atlas API keys are required. Please set MONGODB_ATLAS_PUBLIC_KEY and MONGODB_ATLAS_PRIVATE_KEY in your environment.');
+      throw new Error(`MongoDB Atlas API keys are required. Please set MONGODB_ATLAS_PUBLIC_KEY and MONGODB_ATLAS_PRIVATE_KEY in your ${describeCredentialSource()}.`);
     }
 
-    // Create digest client
-    this.client = new DigestClient(publicKey, privateKey);
+    // Create digest client; every request goes through the shared retry layer
+    const digest = new DigestClient(publicKey, privateKey);
+    this.client = {
+      fetch: (url, options = {}) => {
+        invalidateOnWrite('mongodb', options.method);
+        return requestWithRetry('mongodb', options.method || 'GET', () => digest.fetch(url, options));
+      }
+    };
   }
 
   async createProject(projectName: string, orgId?: string): Promise<MongoDBProject> {
@@ -52,13 +112,13 @@ export class MongoDBService {
       console.log(`   ✅ Project created: ${project.name} (${project.id})`);
 
       // Create cluster
-      const cluster = await this.createCluster(project.id, clusterName);
+      const cluster = await this.createCluster(project.id, { name: clusterName, provider: 'AWS', regionName: 'US_EAST_1', instanceSize: 'M0' });
       console.log(`   ✅ Cluster created: ${cluster.name}`);
 
       // Create database user
       const username = `${cleanName}-user`;
       const password = this.generateSecurePassword();
-      await this.createDatabaseUser(project.id, username, password, databaseName);
+      await this.createDatabaseUser(project.id, username, password, [{ roleName: 'readWrite', databaseName }]);
       console.log(`   ✅ Database user created: ${username}`);
 
       // Configure IP whitelist (allow all for now - can be restricted later)
@@ -155,18 +215,20 @@ export class MongoDBService {
     }
   }
 
-  private async createCluster(projectId: string, clusterName: string): Promise<any> {
+  async createCluster(projectId: string, spec: ClusterSpec): Promise<any> {
+    const shared = spec.instanceSize === 'M0';
     const clusterConfig = {
-      name: clusterName,
+      name: spec.name,
       clusterType: 'REPLICASET',
+      ...(shared ? {} : { backupEnabled: Boolean(spec.backupEnabled) }),
+      ...(!shared && spec.mongoDBMajorVersion ? { mongoDBMajorVersion: spec.mongoDBMajorVersion } : {}),
       replicationSpecs: [{
         regionConfigs: [{
-          providerName: 'TENANT',
-          backingProviderName: 'AWS',
-          regionName: 'US_EAST_1',
+          ...(shared ? { providerName: 'TENANT', backingProviderName: spec.provider } : { providerName: spec.provider }),
+          regionName: spec.regionName,
           priority: 7,
           electableSpecs: {
-            instanceSize: 'M0',
+            instanceSize: spec.instanceSize,
             nodeCount: 3
           }
         }]
@@ -196,17 +258,14 @@ export class MongoDBService {
     }
   }
 
-  private async createDatabaseUser(projectId: string, username: string, password: string, databaseName: string): Promise<any> {
+  async createDatabaseUser(projectId: string, username: string, password: string, roles: DatabaseUserRole[], scopes: DatabaseUserScope[] = []): Promise<any> {
+    // Atlas password users always authenticate against admin, whatever databases their roles cover
     const userConfig = {
       username,
       password,
       databaseName: 'admin',
-      roles: [
-        {
-          roleName: 'readWrite',
-          databaseName: databaseName
-        }
-      ]
+      roles,
+      scopes
     };
 
     try {
@@ -261,25 +320,7 @@ export class MongoDBService {
     }
   }
 
-  private async waitForClusterReady(projectId: string, clusterName: string, maxWait: number = 600000): Promise<void> {
-    console.log(`   ⏳ Waiting for cluster ${clusterName} to be ready...`);
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < maxWait) {
-      const cluster = await this.getCluster(projectId, clusterName);
-
-      if (cluster.stateName === 'IDLE') {
-        return;
-      }
-
-      console.log(`   ⏳ Cluster state: ${cluster.stateName}, waiting...`);
-      await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
-    }
-
-    throw new Error('Cluster creation timeout - cluster took longer than expected to be ready');
-  }
-
-  private async getCluster(projectId: string, clusterName: string): Promise<any> {
+  async getCluster(projectId: string, clusterName: string): Promise<any> {
     try {
       const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/clusters/${clusterName}`, {
         method: 'GET',
@@ -354,29 +395,42 @@ export class MongoDBService {
     return password;
   }
 
-  async listProjects(): Promise<any[]> {
+  /**
+   * Pages through an Atlas list endpoint. Atlas returns `results` plus a
+   * `totalCount` when asked for it, and defaults to 100 items per page.
+   */
+  private async *paginate(path: string, description: string): Pages<any> {
     try {
-      const response = await this.client.fetch(`${this.apiUrl}/groups`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/vnd.atlas.2025-03-12+json'
-        }
-      });
+      yield* cachedPages('mongodb', path, () => paginateByNumber(async (page) => {
+        const response = await this.client.fetch(`${this.apiUrl}${path}?pageNum=${page}&itemsPerPage=${PAGE_SIZE}&includeCount=true`, {
+          method: 'GET',
+          headers: {
+            'Accept': 'application/vnd.atlas.2025-03-12+json'
+          }
+        });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ List projects error:', errorText);
-        throw new Error(`Failed to list projects: ${response.status} ${response.statusText} - ${errorText}`);
-      }
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`${response.status} ${response.statusText} - ${errorText}`);
+        }
 
-      const data = await response.json();
-      return data.results || [];
+        const data = await response.json();
+        return { items: data.results || [], total: data.totalCount };
+      }, PAGE_SIZE));
     } catch (error: any) {
-      console.error('❌ List projects error:', error.message);
-      throw new Error(`Failed to list projects: ${error.message}`);
+      console.error(`❌ Failed to ${description}:`, error.message);
+      throw new Error(`Failed to ${description}: ${error.message}`);
     }
   }
 
+  async *iterateAllProjects(): Pages<any> {
+    yield* this.paginate('/groups', 'list projects');
+  }
+
+  async listProjects(): Promise<any[]> {
+    return collectPages(this.iterateAllProjects());
+  }
+
   async deleteProject(projectId: string): Promise<void> {
     try {
       const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}`, {
@@ -397,9 +451,27 @@ export class MongoDBService {
     }
   }
 
+  async *iterateOrganizations(): Pages<any> {
+    yield* this.paginate('/orgs', 'get organizations');
+  }
+
   async getOrganizations(): Promise<any[]> {
+    return collectPages(this.iterateOrganizations());
+  }
+
+
+  async *iterateProjects(orgId: string): Pages<any> {
+    yield* this.paginate(`/orgs/${orgId}/groups`, 'get projects');
+  }
+
+  async getProjects(orgId: string): Promise<any[]> {
+    return collectPages(this.iterateProjects(orgId));
+  }
+
+
+  async getProject(projectId: string): Promise<any> {
     try {
-      const response = await this.client.fetch(`${this.apiUrl}/orgs`, {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/vnd.atlas.2025-03-12+json'
@@ -408,21 +480,28 @@ export class MongoDBService {
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error('❌ Get organizations error:', errorText);
-        throw new Error(`Failed to get organizations: ${response.status} ${response.statusText} - ${errorText}`);
+        console.error('❌ Get project error:', errorText);
+        throw new Error(`Failed to get project: ${response.status} ${response.statusText} - ${errorText}`);
       }
 
-      const data = await response.json();
-      return data.results || [];
+      return await response.json();
     } catch (error: any) {
-      console.error('❌ Get organizations error:', error.message);
-      throw new Error(`Failed to get organizations: ${error.message}`);
+      console.error('❌ Get project error:', error.message);
+      throw new Error(`Failed to get project: ${error.message}`);
     }
   }
 
-  async getProjects(orgId: string): Promise<any[]> {
+  async *iterateDatabaseUsers(projectId: string): Pages<any> {
+    yield* this.paginate(`/groups/${projectId}/databaseUsers`, 'list database users');
+  }
+
+  async getDatabaseUsers(projectId: string): Promise<any[]> {
+    return collectPages(this.iterateDatabaseUsers(projectId));
+  }
+
+  async getDatabaseUser(projectId: string, username: string): Promise<any> {
     try {
-      const response = await this.client.fetch(`${this.apiUrl}/orgs/${orgId}/groups`, {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/databaseUsers/admin/${encodeURIComponent(username)}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/vnd.atlas.2025-03-12+json'
@@ -431,21 +510,74 @@ export class MongoDBService {
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error('❌ Get projects error:', errorText);
-        throw new Error(`Failed to get projects: ${response.status} ${response.statusText} - ${errorText}`);
+        console.error('❌ Get database user error:', errorText);
+        throw new Error(`Failed to get database user: ${response.status} ${response.statusText} - ${errorText}`);
       }
 
-      const data = await response.json();
-      return data.results || [];
+      return await response.json();
     } catch (error: any) {
-      console.error('❌ Get projects error:', error.message);
-      throw new Error(`Failed to get projects: ${error.message}`);
+      console.error('❌ Get database user error:', error.message);
+      throw new Error(`Failed to get database user: ${error.message}`);
     }
   }
 
-  async getClusters(projectId: string): Promise<any[]> {
+  // Roles, scopes and password can be changed; the username cannot
+  async updateDatabaseUser(projectId: string, username: string, updates: { roles?: DatabaseUserRole[]; scopes?: DatabaseUserScope[]; password?: string }): Promise<any> {
     try {
-      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/clusters`, {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/databaseUsers/admin/${encodeURIComponent(username)}`, {
+        method: 'PATCH',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(updates)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Update database user error:', errorText);
+        throw new Error(`Failed to update database user: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      console.error('❌ Update database user error:', error.message);
+      throw new Error(`Failed to update database user: ${error.message}`);
+    }
+  }
+
+  async deleteDatabaseUser(projectId: string, username: string): Promise<void> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/databaseUsers/admin/${encodeURIComponent(username)}`, {
+        method: 'DELETE',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json'
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Delete database user error:', errorText);
+        throw new Error(`Failed to delete database user: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+    } catch (error: any) {
+      console.error('❌ Delete database user error:', error.message);
+      throw new Error(`Failed to delete database user: ${error.message}`);
+    }
+  }
+
+  async *iterateAccessList(projectId: string): Pages<any> {
+    yield* this.paginate(`/groups/${projectId}/accessList`, 'list access list entries');
+  }
+
+  async getAccessList(projectId: string): Promise<any[]> {
+    return collectPages(this.iterateAccessList(projectId));
+  }
+
+  // Entries are addressed by IP or CIDR block; the slash of a block must be escaped in the path
+  async getAccessListEntry(projectId: string, entry: string): Promise<any> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/accessList/${encodeURIComponent(entry)}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/vnd.atlas.2025-03-12+json'
@@ -454,15 +586,96 @@ export class MongoDBService {
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error('❌ Get clusters error:', errorText);
-        throw new Error(`Failed to get clusters: ${response.status} ${response.statusText} - ${errorText}`);
+        console.error('❌ Get access list entry error:', errorText);
+        throw new Error(`Failed to get access list entry: ${response.status} ${response.statusText} - ${errorText}`);
       }
 
-      const data = await response.json();
-      return data.results || [];
+      return await response.json();
     } catch (error: any) {
-      console.error('❌ Get clusters error:', error.message);
-      throw new Error(`Failed to get clusters: ${error.message}`);
+      console.error('❌ Get access list entry error:', error.message);
+      throw new Error(`Failed to get access list entry: ${error.message}`);
+    }
+  }
+
+  async addAccessListEntry(projectId: string, entry: AccessListEntry): Promise<any> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/accessList`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify([entry])
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Add access list entry error:', errorText);
+        throw new Error(`Failed to add access list entry: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      console.error('❌ Add access list entry error:', error.message);
+      throw new Error(`Failed to add access list entry: ${error.message}`);
+    }
+  }
+
+  async deleteAccessListEntry(projectId: string, entry: string): Promise<void> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/accessList/${encodeURIComponent(entry)}`, {
+        method: 'DELETE',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json'
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Delete access list entry error:', errorText);
+        throw new Error(`Failed to delete access list entry: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+    } catch (error: any) {
+      console.error('❌ Delete access list entry error:', error.message);
+      throw new Error(`Failed to delete access list entry: ${error.message}`);
+    }
+  }
+
+  async *iterateClusters(projectId: string): Pages<any> {
+    yield* this.paginate(`/groups/${projectId}/clusters`, 'get clusters');
+  }
+
+  async getClusters(projectId: string): Promise<any[]> {
+    return collectPages(this.iterateClusters(projectId));
+  }
+
+
+  /**
+   * Counts the free (M0) clusters of a project. When the clusters cannot be
+   * read the project is treated as full, so no wizard offers a free tier
+   * that Atlas would then refuse.
+   */
+  async checkProjectFreeClusterLimit(projectId: string): Promise<FreeClusterLimit> {
+    try {
+      const clusters = await this.getClusters(projectId);
+      const freeClusters = clusters.filter(cluster =>
+        (cluster.replicationSpecs?.[0]?.regionConfigs?.[0]?.electableSpecs?.instanceSize || cluster.providerSettings?.instanceSizeName) === 'M0'
+      );
+
+      return {
+        canCreateFreeCluster: freeClusters.length < MAX_FREE_CLUSTERS,
+        freeClustersCount: freeClusters.length,
+        maxFreeClusters: MAX_FREE_CLUSTERS,
+        clusters: freeClusters
+      };
+    } catch (error: any) {
+      console.error('❌ Error checking cluster limits:', error.message);
+      return {
+        canCreateFreeCluster: false,
+        freeClustersCount: MAX_FREE_CLUSTERS,
+        maxFreeClusters: MAX_FREE_CLUSTERS,
+        clusters: []
+      };
     }
   }
 
@@ -490,6 +703,36 @@ export class MongoDBService {
     }
   }
 
+  // Shared tiers (M0, Flex) cannot be paused; Atlas resumes paused clusters on its own after 30 days
+  async pauseCluster(projectId: string, clusterName: string): Promise<any> {
+    return this.updateCluster(projectId, clusterName, { paused: true });
+  }
+
+  async resumeCluster(projectId: string, clusterName: string): Promise<any> {
+    return this.updateCluster(projectId, clusterName, { paused: false });
+  }
+
+  /**
+   * Changes the instance size, and optionally the disk, of every node. Atlas
+   * expects the whole replicationSpecs back, so node counts and regions are
+   * copied from the current cluster.
+   */
+  async scaleCluster(projectId: string, clusterName: string, instanceSize: string, diskSizeGB?: number): Promise<any> {
+    const cluster = await this.getCluster(projectId, clusterName);
+    const disk = diskSizeGB ? { diskSizeGB } : {};
+    const replicationSpecs = (cluster.replicationSpecs || []).map((spec: any) => ({
+      ...spec,
+      regionConfigs: (spec.regionConfigs || []).map((region: any) => ({
+        ...region,
+        electableSpecs: region.electableSpecs && { ...region.electableSpecs, instanceSize, ...disk },
+        readOnlySpecs: region.readOnlySpecs && { ...region.readOnlySpecs, instanceSize, ...disk },
+        // Analytics nodes keep their own size but must share the disk size
+        analyticsSpecs: region.analyticsSpecs && { ...region.analyticsSpecs, ...disk }
+      }))
+    }));
+    return this.updateCluster(projectId, clusterName, { replicationSpecs });
+  }
+
   async deleteCluster(projectId: string, clusterName: string): Promise<void> {
     try {
       const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/clusters/${clusterName}`, {
@@ -510,6 +753,118 @@ export class MongoDBService {
     }
   }
 
+  // Cloud backup snapshots exist only for dedicated clusters with backup enabled
+  async *iterateBackupSnapshots(projectId: string, clusterName: string): Pages<any> {
+    yield* this.paginate(`/groups/${projectId}/clusters/${clusterName}/backup/snapshots`, 'list backup snapshots');
+  }
+
+  async getBackupSnapshots(projectId: string, clusterName: string): Promise<any[]> {
+    return collectPages(this.iterateBackupSnapshots(projectId, clusterName));
+  }
+
+  async getBackupSnapshot(projectId: string, clusterName: string, snapshotId: string): Promise<any> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/clusters/${clusterName}/backup/snapshots/${snapshotId}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json'
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Get backup snapshot error:', errorText);
+        throw new Error(`Failed to get backup snapshot: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      console.error('❌ Get backup snapshot error:', error.message);
+      throw new Error(`Failed to get backup snapshot: ${error.message}`);
+    }
+  }
+
+  // On-demand snapshots are kept for retentionInDays, then removed by Atlas
+  async takeBackupSnapshot(projectId: string, clusterName: string, retentionInDays: number, description: string): Promise<any> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/clusters/${clusterName}/backup/snapshots`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ description, retentionInDays })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Take backup snapshot error:', errorText);
+        throw new Error(`Failed to take backup snapshot: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      console.error('❌ Take backup snapshot error:', error.message);
+      throw new Error(`Failed to take backup snapshot: ${error.message}`);
+    }
+  }
+
+  async *iterateRestoreJobs(projectId: string, clusterName: string): Pages<any> {
+    yield* this.paginate(`/groups/${projectId}/clusters/${clusterName}/backup/restoreJobs`, 'list restore jobs');
+  }
+
+  async getRestoreJobs(projectId: string, clusterName: string): Promise<any[]> {
+    return collectPages(this.iterateRestoreJobs(projectId, clusterName));
+  }
+
+  async getRestoreJob(projectId: string, clusterName: string, jobId: string): Promise<any> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/clusters/${clusterName}/backup/restoreJobs/${jobId}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json'
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Get restore job error:', errorText);
+        throw new Error(`Failed to get restore job: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      console.error('❌ Get restore job error:', error.message);
+      throw new Error(`Failed to get restore job: ${error.message}`);
+    }
+  }
+
+  // Jobs belong to the cluster the snapshot was taken from, whichever cluster they restore into
+  async createRestoreJob(projectId: string, clusterName: string, request: RestoreJobRequest): Promise<any> {
+    try {
+      const response = await this.client.fetch(`${this.apiUrl}/groups/${projectId}/clusters/${clusterName}/backup/restoreJobs`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/vnd.atlas.2025-03-12+json',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...request, deliveryType: 'automated' })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Create restore job error:', errorText);
+        throw new Error(`Failed to create restore job: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      console.error('❌ Create restore job error:', error.message);
+      throw new Error(`Failed to create restore job: ${error.message}`);
+    }
+  }
+
+
   async createProjectWithSelection(projectName: string, selectedOrgId?: string, selectedProjectId?: string): Promise<MongoDBProject> {
     try {
       console.log(`🍃 Creating MongoDB Atlas database for: ${projectName}`);
@@ -549,13 +904,13 @@ export class MongoDBService {
       }
 
       // Create cluster
-      const cluster = await this.createCluster(project.id, clusterName);
+      const cluster = await this.createCluster(project.id, { name: clusterName, provider: 'AWS', regionName: 'US_EAST_1', instanceSize: 'M0' });
       console.log(`   ✅ Cluster created: ${cluster.name}`);
 
       // Create database user
       const username = `${cleanName}-user`;
       const password = this.generateSecurePassword();
-      await this.createDatabaseUser(project.id, username, password, databaseName);
+      await this.createDatabaseUser(project.id, username, password, [{ roleName: 'readWrite', databaseName }]);
       console.log(`   ✅ Database user created: ${username}`);
 
       // Configure IP whitelist (allow all for now - can be restricted later)
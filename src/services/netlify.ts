@@ -1,14 +1,49 @@
 // src/services/netlify.ts
 import { NetlifyAPI } from 'netlify';
+import { describeCredentialSource, getCredential } from '../utils/credentials.js';
+import { callWithRetry, retryingFetch } from '../utils/http.js';
+import { cachedPages, invalidateCache } from '../utils/cache.js';
+import { Pages, collectPages, eachItem, paginateByNumber } from '../utils/pagination.js';
+
+// Client operations that create something and must not be repeated after an ambiguous 5xx
+const NON_IDEMPOTENT = /^(create|add|provision|restore|rollback)/;
+
+// Client operations that only read; anything else invalidates the cached Netlify lists
+const READ_ONLY = /^(get|list)/;
+
+// Routes every API method of the Netlify client through the shared retry layer
+function withRetries(client: NetlifyAPI): NetlifyAPI {
+  return new Proxy(client, {
+    // Read from the target itself; the client keeps its token in a private field that a proxy receiver can't reach
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+      return (...args: any[]) => {
+        if (!READ_ONLY.test(property)) {
+          invalidateCache('netlify');
+        }
+        return callWithRetry('netlify', !NON_IDEMPOTENT.test(property), () => value.apply(target, args));
+      };
+    }
+  });
+}
+
+const githubFetch = retryingFetch('github');
+
+// Largest page size the Netlify API accepts
+const PAGE_SIZE = 100;
 
 export class NetlifyService {
   private client: NetlifyAPI;
 
   constructor() {
-    if (!process.env.NETLIFY_TOKEN) {
-      throw new Error('NETLIFY_TOKEN environment variable is required for Netlify integration. Please set it in your .env file.');
+    const token = getCredential('NETLIFY_TOKEN');
+    if (!token) {
+      throw new Error(`NETLIFY_TOKEN is required for Netlify integration but is missing from the ${describeCredentialSource()}. Please set it in your .env file or profile.`);
     }
-    this.client = new NetlifyAPI(process.env.NETLIFY_TOKEN);
+    this.client = withRetries(new NetlifyAPI(token));
   }
 
   async createProject(name: string, repoUrl: string, teamSlug?: string) {
@@ -25,7 +60,7 @@ export class NetlifyService {
     const [, owner, repo] = repoMatch;
     const repoPath = `${owner}/${repo.replace(/\.git$/, '')}`; // Remove .git suffix if present
     console.log(`Parsed repo path: ${repoPath}`);
-    console.log(`GitHub token configured: ${!!process.env.GITHUB_TOKEN}`);
+    console.log(`GitHub token configured: ${!!getCredential('GITHUB_TOKEN')}`);
     
     try {
       // Step 1: Get GitHub repository ID
@@ -178,9 +213,9 @@ export class NetlifyService {
 
   private async getGitHubRepoId(owner: string, repo: string): Promise<number> {
     try {
-      const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
+      const response = await githubFetch(`https://api.github.com/repos/${owner}/${repo}`, {
         headers: {
-          'Authorization': `token ${process.env.GITHUB_TOKEN}`,
+          'Authorization': `token ${getCredential('GITHUB_TOKEN')}`,
           'Accept': 'application/vnd.github.v3+json',
           'User-Agent': 'Netlify-Setup-Tool'
         }
@@ -203,10 +238,10 @@ export class NetlifyService {
 
   private async addDeployKeyToGitHub(owner: string, repo: string, publicKey: string, title: string): Promise<void> {
     try {
-      const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/keys`, {
+      const response = await githubFetch(`https://api.github.com/repos/${owner}/${repo}/keys`, {
         method: 'POST',
         headers: {
-          'Authorization': `token ${process.env.GITHUB_TOKEN}`,
+          'Authorization': `token ${getCredential('GITHUB_TOKEN')}`,
           'Accept': 'application/vnd.github.v3+json',
           'Content-Type': 'application/json',
           'User-Agent': 'Netlify-Setup-Tool'
@@ -274,19 +309,18 @@ export class NetlifyService {
   }
 
   async getDeployments(siteId: string) {
-    try {
-      const deployments = await this.client.listSiteDeploys({ siteId });
-      return deployments;
-    } catch (error: any) {
-      console.error('❌ Error fetching deployments:', error.message);
-      throw new Error(`Failed to fetch deployments: ${error.message}`);
-    }
+    return this.listDeployments(siteId);
   }
 
   async getBranchDeployment(siteId: string, branch: string) {
     try {
-      const deployments = await this.getDeployments(siteId);
-      return deployments.find((d: any) => d.branch === branch);
+      // Deploys come newest first, so stop at the first match instead of loading the whole history
+      for await (const deployment of eachItem(this.iterateDeployments(siteId))) {
+        if (deployment.branch === branch) {
+          return deployment;
+        }
+      }
+      return undefined;
     } catch (error: any) {
       console.error('❌ Error fetching branch deployment:', error.message);
       throw new Error(`Failed to fetch branch deployment: ${error.message}`);
@@ -602,16 +636,21 @@ export class NetlifyService {
     }
   }
 
-  async listSites() {
+  async *iterateSites(): Pages<any> {
     try {
-      const sites = await this.client.listSites();
-      return sites;
+      yield* cachedPages('netlify', 'sites', () => paginateByNumber(async (page) => ({
+        items: await this.client.listSites({ page, per_page: PAGE_SIZE })
+      }), PAGE_SIZE));
     } catch (error: any) {
       console.error('❌ Error listing sites:', error.message);
       throw new Error(`Failed to list sites: ${error.message}`);
     }
   }
 
+  async listSites() {
+    return collectPages(this.iterateSites());
+  }
+
   async updateSite(siteId: string, updates: any) {
     try {
       const updatedSite = await this.client.updateSite({
@@ -625,19 +664,24 @@ export class NetlifyService {
     }
   }
 
-  async listDeployments(siteId: string) {
+  async *iterateDeployments(siteId: string): Pages<any> {
     try {
-      const deployments = await this.client.listSiteDeploys({ siteId });
-      return deployments;
+      yield* paginateByNumber(async (page) => ({
+        items: await this.client.listSiteDeploys({ siteId, page, per_page: PAGE_SIZE })
+      }), PAGE_SIZE);
     } catch (error: any) {
       console.error('❌ Error listing deployments:', error.message);
       throw new Error(`Failed to list deployments: ${error.message}`);
     }
   }
 
-  async deleteDeployment(deployId: string) {
+  async listDeployments(siteId: string) {
+    return collectPages(this.iterateDeployments(siteId));
+  }
+
+  async deleteDeployment(deployId: string, siteId: string) {
     try {
-      await this.client.deleteSiteDeploy({ deployId });
+      await this.client.deleteSiteDeploy({ deployId, siteId });
       return { success: true, message: 'Deployment deleted successfully' };
     } catch (error: any) {
       console.error('❌ Error deleting deployment:', error.message);
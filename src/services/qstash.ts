@@ -0,0 +1,337 @@
+// src/services/qstash.ts
+import { logger } from '../utils/logger.js';
+import { getCredential } from '../utils/credentials.js';
+import { requestWithRetry } from '../utils/http.js';
+import { cachedPages, invalidateOnWrite } from '../utils/cache.js';
+import { Pages, collectPages } from '../utils/pagination.js';
+import { UpstashService } from './upstash.js';
+
+export interface QStashDeliveryOptions {
+  body?: string;
+  contentType?: string;
+  method?: string;
+  // Headers forwarded to the destination with the message
+  headers?: Record<string, string>;
+  // Duration such as 30s, 10m or 2h
+  delay?: string;
+  retries?: number;
+}
+
+export interface WorkflowRunFilter {
+  // RUN_STARTED, RUN_SUCCESS, RUN_FAILED or RUN_CANCELED
+  state?: string;
+  workflowUrl?: string;
+  workflowRunId?: string;
+}
+
+interface RequestOptions {
+  body?: string | object;
+  headers?: Record<string, string>;
+}
+
+// QStash reads delivery settings from Upstash-* headers rather than from the body
+function deliveryHeaders(options: QStashDeliveryOptions): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (options.contentType) {
+    headers['Content-Type'] = options.contentType;
+  }
+  if (options.method) {
+    headers['Upstash-Method'] = options.method.toUpperCase();
+  }
+  if (options.delay) {
+    headers['Upstash-Delay'] = options.delay;
+  }
+  if (options.retries !== undefined) {
+    headers['Upstash-Retries'] = String(options.retries);
+  }
+  Object.entries(options.headers || {}).forEach(([name, value]) => {
+    headers[`Upstash-Forward-${name}`] = value;
+  });
+  return headers;
+}
+
+/**
+ * Messages, schedules, the dead-letter queue and delivery logs through the
+ * QStash API. It authenticates with the account's QStash token rather than
+ * the developer API key used by UpstashService.
+ */
+export class QStashService {
+  private baseUrl: string;
+  private token: string;
+
+  constructor(token: string, baseUrl: string = 'https://qstash.upstash.io') {
+    if (!token) {
+      throw new Error('A QStash token is required to manage messages and schedules');
+    }
+    this.token = token;
+    this.baseUrl = baseUrl;
+  }
+
+  private async makeRequest(endpoint: string, method: 'GET' | 'POST' | 'DELETE' | 'PUT' = 'GET', options: RequestOptions = {}) {
+    const url = `${this.baseUrl}${endpoint}`;
+    const jsonBody = options.body !== undefined && typeof options.body !== 'string';
+    const headers = {
+      'Authorization': `Bearer ${this.token}`,
+      ...(jsonBody ? { 'Content-Type': 'application/json' } : {}),
+      ...options.headers,
+    };
+
+    try {
+      invalidateOnWrite('upstash', method);
+      const response = await requestWithRetry('upstash', method, () => fetch(url, {
+        method,
+        headers,
+        body: jsonBody ? JSON.stringify(options.body) : options.body as string | undefined,
+      }));
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`QStash API error (${response.status}): ${errorText}`);
+      }
+
+      // Deletes and pauses answer with an empty body
+      const text = await response.text();
+      return text ? JSON.parse(text) : undefined;
+    } catch (error: any) {
+      logger.error('QStash API request failed:', error);
+      throw new Error(`QStash request failed: ${error.message}`);
+    }
+  }
+
+  // Cursor-paged endpoints answer with the items under `key` and the cursor of the next page
+  private async *fetchPages(endpoint: string, key: string): Pages<any> {
+    let cursor: string | undefined;
+    do {
+      const separator = endpoint.includes('?') ? '&' : '?';
+      const data = await this.makeRequest(cursor ? `${endpoint}${separator}cursor=${encodeURIComponent(cursor)}` : endpoint);
+      if (Array.isArray(data)) {
+        yield data;
+        return;
+      }
+      yield data?.[key] || [];
+      cursor = data?.cursor || undefined;
+    } while (cursor);
+  }
+
+  // Destination is a URL or the name of a topic (URL group)
+  async publish(destination: string, options: QStashDeliveryOptions = {}) {
+    try {
+      logger.info(`Publishing QStash message to ${destination}`);
+      const result = await this.makeRequest(`/v2/publish/${destination}`, 'POST', {
+        body: options.body ?? '',
+        headers: deliveryHeaders(options),
+      });
+      // Topics fan out and answer with one message per endpoint
+      return Array.isArray(result) ? result : [result];
+    } catch (error: any) {
+      logger.error('Failed to publish QStash message:', error);
+      throw new Error(`Failed to publish QStash message: ${error.message}`);
+    }
+  }
+
+  // Schedules
+  iterateSchedules(): Pages<any> {
+    return cachedPages('upstash', 'qstash/schedules', () => this.fetchPages('/v2/schedules', 'schedules'));
+  }
+
+  async listSchedules() {
+    try {
+      logger.info('Fetching QStash schedules');
+      return await collectPages(this.iterateSchedules());
+    } catch (error: any) {
+      logger.error('Failed to list QStash schedules:', error);
+      throw new Error(`Failed to list QStash schedules: ${error.message}`);
+    }
+  }
+
+  async getSchedule(scheduleId: string) {
+    try {
+      logger.info(`Fetching QStash schedule: ${scheduleId}`);
+      return await this.makeRequest(`/v2/schedules/${scheduleId}`);
+    } catch (error: any) {
+      logger.error('Failed to get QStash schedule:', error);
+      throw new Error(`Failed to get QStash schedule: ${error.message}`);
+    }
+  }
+
+  async createSchedule(destination: string, cron: string, options: QStashDeliveryOptions = {}) {
+    try {
+      logger.info(`Creating QStash schedule for ${destination}: ${cron}`);
+      const schedule = await this.makeRequest(`/v2/schedules/${destination}`, 'POST', {
+        body: options.body ?? '',
+        headers: { ...deliveryHeaders(options), 'Upstash-Cron': cron },
+      });
+      logger.info(`QStash schedule created successfully: ${schedule.scheduleId}`);
+      return schedule;
+    } catch (error: any) {
+      logger.error('Failed to create QStash schedule:', error);
+      throw new Error(`Failed to create QStash schedule: ${error.message}`);
+    }
+  }
+
+  async pauseSchedule(scheduleId: string) {
+    try {
+      logger.info(`Pausing QStash schedule: ${scheduleId}`);
+      await this.makeRequest(`/v2/schedules/${scheduleId}/pause`, 'POST');
+      return { success: true, message: 'QStash schedule paused successfully' };
+    } catch (error: any) {
+      logger.error('Failed to pause QStash schedule:', error);
+      throw new Error(`Failed to pause QStash schedule: ${error.message}`);
+    }
+  }
+
+  async resumeSchedule(scheduleId: string) {
+    try {
+      logger.info(`Resuming QStash schedule: ${scheduleId}`);
+      await this.makeRequest(`/v2/schedules/${scheduleId}/resume`, 'POST');
+      return { success: true, message: 'QStash schedule resumed successfully' };
+    } catch (error: any) {
+      logger.error('Failed to resume QStash schedule:', error);
+      throw new Error(`Failed to resume QStash schedule: ${error.message}`);
+    }
+  }
+
+  async deleteSchedule(scheduleId: string) {
+    try {
+      logger.info(`Deleting QStash schedule: ${scheduleId}`);
+      await this.makeRequest(`/v2/schedules/${scheduleId}`, 'DELETE');
+      logger.info(`QStash schedule deleted successfully: ${scheduleId}`);
+      return { success: true, message: 'QStash schedule deleted successfully' };
+    } catch (error: any) {
+      logger.error('Failed to delete QStash schedule:', error);
+      throw new Error(`Failed to delete QStash schedule: ${error.message}`);
+    }
+  }
+
+  // Dead-letter queue: messages whose retries were exhausted. It changes on its own, so it is never cached.
+  iterateDlq(): Pages<any> {
+    return this.fetchPages('/v2/dlq', 'messages');
+  }
+
+  async listDlq() {
+    try {
+      logger.info('Fetching the QStash dead-letter queue');
+      return await collectPages(this.iterateDlq());
+    } catch (error: any) {
+      logger.error('Failed to list the QStash dead-letter queue:', error);
+      throw new Error(`Failed to list the QStash dead-letter queue: ${error.message}`);
+    }
+  }
+
+  async getDlqMessage(dlqId: string) {
+    try {
+      logger.info(`Fetching dead-letter message: ${dlqId}`);
+      return await this.makeRequest(`/v2/dlq/${dlqId}`);
+    } catch (error: any) {
+      logger.error('Failed to get dead-letter message:', error);
+      throw new Error(`Failed to get dead-letter message: ${error.message}`);
+    }
+  }
+
+  // Delivers the failed message again as a new message
+  async replayDlqMessage(dlqId: string) {
+    try {
+      logger.info(`Replaying dead-letter message: ${dlqId}`);
+      return await this.makeRequest(`/v2/dlq/retry/${dlqId}`, 'POST');
+    } catch (error: any) {
+      logger.error('Failed to replay dead-letter message:', error);
+      throw new Error(`Failed to replay dead-letter message: ${error.message}`);
+    }
+  }
+
+  async deleteDlqMessage(dlqId: string) {
+    try {
+      logger.info(`Deleting dead-letter message: ${dlqId}`);
+      await this.makeRequest(`/v2/dlq/${dlqId}`, 'DELETE');
+      return { success: true, message: 'Dead-letter message deleted successfully' };
+    } catch (error: any) {
+      logger.error('Failed to delete dead-letter message:', error);
+      throw new Error(`Failed to delete dead-letter message: ${error.message}`);
+    }
+  }
+
+  // Delivery events (CREATED, ACTIVE, DELIVERED, ERROR, RETRY, FAILED, ...), newest first
+  iterateEvents(filter: { messageId?: string; state?: string } = {}): Pages<any> {
+    const query = new URLSearchParams(Object.entries(filter).filter(([, value]) => value) as [string, string][]).toString();
+    return this.fetchPages(`/v2/events${query ? `?${query}` : ''}`, 'events');
+  }
+
+  async listEvents(filter: { messageId?: string; state?: string } = {}) {
+    try {
+      logger.info(`Fetching QStash events${filter.messageId ? ` for message ${filter.messageId}` : ''}`);
+      return await collectPages(this.iterateEvents(filter));
+    } catch (error: any) {
+      logger.error('Failed to list QStash events:', error);
+      throw new Error(`Failed to list QStash events: ${error.message}`);
+    }
+  }
+
+  // Workflow runs are QStash messages underneath, so their history lives in the QStash API
+  iterateWorkflowRuns(filter: WorkflowRunFilter = {}): Pages<any> {
+    const query = new URLSearchParams(Object.entries(filter).filter(([, value]) => value) as [string, string][]).toString();
+    return this.fetchPages(`/v2/workflows/logs${query ? `?${query}` : ''}`, 'runs');
+  }
+
+  async listWorkflowRuns(filter: WorkflowRunFilter = {}) {
+    try {
+      logger.info(`Fetching workflow runs${filter.state ? ` in state ${filter.state}` : ''}`);
+      return await collectPages(this.iterateWorkflowRuns(filter));
+    } catch (error: any) {
+      logger.error('Failed to list workflow runs:', error);
+      throw new Error(`Failed to list workflow runs: ${error.message}`);
+    }
+  }
+
+  // The run with its steps, grouped as they ran: one step per sequential group, several per parallel one
+  async getWorkflowRun(workflowRunId: string) {
+    try {
+      logger.info(`Fetching workflow run: ${workflowRunId}`);
+      const { value } = await this.iterateWorkflowRuns({ workflowRunId }).next();
+      const run = (value || []).find((item: any) => item.workflowRunId === workflowRunId);
+      if (!run) {
+        throw new Error(`Workflow run ${workflowRunId} not found`);
+      }
+      return run;
+    } catch (error: any) {
+      logger.error('Failed to get workflow run:', error);
+      throw new Error(`Failed to get workflow run: ${error.message}`);
+    }
+  }
+
+  async cancelWorkflowRun(workflowRunId: string) {
+    try {
+      logger.info(`Canceling workflow run: ${workflowRunId}`);
+      await this.makeRequest(`/v2/workflows/runs/${workflowRunId}`, 'DELETE');
+      return { success: true, message: 'Workflow run canceled successfully' };
+    } catch (error: any) {
+      logger.error('Failed to cancel workflow run:', error);
+      throw new Error(`Failed to cancel workflow run: ${error.message}`);
+    }
+  }
+
+  /**
+   * Runs again a failed run from the workflow dead-letter queue: by default
+   * it resumes at the failed step, keeping the results of the steps before
+   * it; with `restart` it starts over from the first step.
+   */
+  async retryWorkflowRun(workflowRunId: string, restart: boolean = false) {
+    try {
+      logger.info(`${restart ? 'Restarting' : 'Resuming'} workflow run: ${workflowRunId}`);
+      const { messages = [] } = await this.makeRequest(`/v2/workflows/dlq?workflowRunId=${encodeURIComponent(workflowRunId)}`) || {};
+      const entry = messages.find((message: any) => message.workflowRunId === workflowRunId);
+      if (!entry) {
+        throw new Error(`Run ${workflowRunId} is not in the workflow dead-letter queue; only failed runs can be retried`);
+      }
+      return await this.makeRequest(`/v2/workflows/dlq/${restart ? 'restart' : 'resume'}/${entry.dlqId}`, 'POST');
+    } catch (error: any) {
+      logger.error('Failed to retry workflow run:', error);
+      throw new Error(`Failed to retry workflow run: ${error.message}`);
+    }
+  }
+}
+
+// QSTASH_TOKEN wins when set; otherwise the token is looked up through the developer API
+export async function connectQStash(upstash?: UpstashService): Promise<QStashService> {
+  const token = getCredential('QSTASH_TOKEN') || (await (upstash || new UpstashService()).getQStashUser()).token;
+  return new QStashService(token, getCredential('QSTASH_URL'));
+}
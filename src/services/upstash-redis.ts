@@ -0,0 +1,445 @@
+// src/services/upstash-redis.ts
+import { logger } from '../utils/logger.js';
+import { requestWithRetry } from '../utils/http.js';
+import { Pages } from '../utils/pagination.js';
+import { UpstashService } from './upstash.js';
+
+export type RedisArgument = string | number;
+export type RedisCommand = RedisArgument[];
+
+export interface RedisReply {
+  result?: any;
+  error?: string;
+}
+
+export interface RedisKeyInfo {
+  key: string;
+  type: string;
+  // Seconds until the key expires; -1 when it never expires, -2 when it no longer exists
+  ttl: number;
+}
+
+/**
+ * One key as written by `upstash redis dump`: its type, its whole value and
+ * its absolute expiry, so restores elsewhere keep the remaining lifetime.
+ */
+export interface RedisRecord {
+  key: string;
+  type: string;
+  // Milliseconds since the epoch; absent for keys that never expire
+  expiresAt?: number;
+  value: any;
+}
+
+export interface ImportOptions {
+  // Delete existing keys and write them again instead of skipping them
+  replace?: boolean;
+  // Keys an interrupted import had started writing; they are rewritten even without replace
+  rewrite?: string[];
+  // Called with the keys about to be written, before the first write, so they can be checkpointed
+  onWriting?: (keys: string[]) => void;
+}
+
+export interface RedisKeyValue extends RedisKeyInfo {
+  // String length, or number of fields, items, members or entries
+  length: number;
+  value: any;
+  truncated: boolean;
+}
+
+// Commands that never write; the REST API takes every command as a POST, so these are marked safe to retry
+const READ_COMMANDS = new Set([
+  'dbsize', 'dump', 'echo', 'exists', 'get', 'getrange', 'hexists', 'hget', 'hgetall', 'hkeys', 'hlen', 'hmget',
+  'hscan', 'hstrlen', 'hvals', 'info', 'keys', 'lindex', 'llen', 'lrange', 'mget', 'ping', 'pttl', 'randomkey',
+  'scan', 'scard', 'sismember', 'smembers', 'smismember', 'srandmember', 'sscan', 'strlen', 'time', 'ttl', 'type',
+  'xinfo', 'xlen', 'xrange', 'xrevrange', 'zcard', 'zcount', 'zrange', 'zrangebyscore', 'zrank', 'zrevrange',
+  'zscan', 'zscore'
+]);
+
+export function isReadCommand(command: RedisCommand): boolean {
+  return READ_COMMANDS.has(String(command[0]).toLowerCase());
+}
+
+// Largest number of elements written by one command when restoring a collection
+const RESTORE_CHUNK = 500;
+// Commands sent per pipeline when restoring
+const RESTORE_PIPELINE = 200;
+
+// Commands that read a whole value, by type
+const EXPORT_COMMANDS: Record<string, (key: string) => RedisCommand> = {
+  string: key => ['GET', key],
+  hash: key => ['HGETALL', key],
+  list: key => ['LRANGE', key, 0, -1],
+  set: key => ['SMEMBERS', key],
+  zset: key => ['ZRANGE', key, 0, -1, 'WITHSCORES'],
+  stream: key => ['XRANGE', key, '-', '+']
+};
+
+// Redis replies with flat [field, value, field, value, ...] arrays for hashes and scored members
+function pairs(values: any[]): [string, any][] {
+  const result: [string, any][] = [];
+  for (let index = 0; index + 1 < values.length; index += 2) {
+    result.push([values[index], values[index + 1]]);
+  }
+  return result;
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    result.push(items.slice(index, index + size));
+  }
+  return result;
+}
+
+const UTF8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Decodes a reply requested with Upstash-Encoding: base64. Without it the
+ * REST API replaces bytes that aren't valid UTF-8, so binary values (e.g.
+ * compressed or serialized blobs) would be corrupted silently; they are
+ * refused instead, since a dump can only carry text.
+ */
+function decodeBase64Reply(reply: any, key: string): any {
+  if (Array.isArray(reply)) {
+    return reply.map(item => decodeBase64Reply(item, key));
+  }
+  if (typeof reply !== 'string') {
+    return reply;
+  }
+  try {
+    return UTF8.decode(Buffer.from(reply, 'base64'));
+  } catch {
+    throw new Error(`Key ${key} holds binary data, which can't be transferred as text; narrow --match to leave it out`);
+  }
+}
+
+// Turns a raw reply for a whole value (GET, HGETALL, LRANGE, SMEMBERS, ZRANGE WITHSCORES, XRANGE) into plain data
+function decodeValue(type: string, raw: any): any {
+  switch (type) {
+    case 'hash':
+      return Object.fromEntries(pairs(raw));
+    case 'zset':
+      return pairs(raw).map(([member, score]) => ({ member, score: Number(score) }));
+    case 'stream':
+      return raw.map(([id, fields]: [string, any[]]) => ({ id, fields: Object.fromEntries(pairs(fields)) }));
+    default:
+      return raw;
+  }
+}
+
+// Commands that recreate a dumped value; large collections are split over several commands
+function restoreCommands(record: RedisRecord): RedisCommand[] {
+  const { key, type, value } = record;
+  switch (type) {
+    case 'string':
+      return [['SET', key, value]];
+    case 'hash':
+      return chunks(Object.entries(value as Record<string, string>), RESTORE_CHUNK).map(entries => ['HSET', key, ...entries.flat()]);
+    case 'list':
+      return chunks(value as string[], RESTORE_CHUNK).map(items => ['RPUSH', key, ...items]);
+    case 'set':
+      return chunks(value as string[], RESTORE_CHUNK).map(members => ['SADD', key, ...members]);
+    case 'zset':
+      return chunks(value as { member: string; score: number }[], RESTORE_CHUNK)
+        .map(members => ['ZADD', key, ...members.flatMap(({ member, score }) => [score, member])]);
+    case 'stream':
+      return (value as { id: string; fields: Record<string, string> }[])
+        .map(({ id, fields }) => ['XADD', key, id, ...Object.entries(fields).flat()]);
+    default:
+      throw new Error(`Unsupported type ${type} for key ${key}`);
+  }
+}
+
+/**
+ * Data access to one Upstash Redis database through its REST endpoint,
+ * authenticated with the database's own REST token rather than the account
+ * API key used by UpstashService.
+ */
+export class UpstashRedisService {
+  private baseUrl: string;
+  private token: string;
+
+  constructor(endpoint: string, token: string) {
+    if (!endpoint || !token) {
+      throw new Error('The database endpoint and REST token are required to access Redis data');
+    }
+    this.baseUrl = endpoint.startsWith('http') ? endpoint : `https://${endpoint}`;
+    this.token = token;
+  }
+
+  private async post(path: string, body: any, retrySafe: boolean, base64: boolean = false) {
+    try {
+      const response = await requestWithRetry('upstash', retrySafe ? 'GET' : 'POST', () => fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+          ...(base64 ? { 'Upstash-Encoding': 'base64' } : {}),
+        },
+        body: JSON.stringify(body),
+      }));
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        // Command errors (wrong type, unknown command) come back as a 400 with a JSON error
+        if (response.status === 400) {
+          try {
+            const { error } = JSON.parse(errorText);
+            if (error) {
+              return { error };
+            }
+          } catch {
+            // Not JSON; report the raw body below
+          }
+        }
+        throw new Error(`Upstash Redis error (${response.status}): ${errorText}`);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      logger.error('Upstash Redis request failed:', error);
+      throw new Error(`Upstash Redis request failed: ${error.message}`);
+    }
+  }
+
+  async command(command: RedisCommand): Promise<any> {
+    const reply: RedisReply = await this.post('', command.map(String), isReadCommand(command));
+    if (reply.error) {
+      throw new Error(reply.error);
+    }
+    return reply.result;
+  }
+
+  /**
+   * Sends several commands in one request; each reply carries its own result
+   * or error. With `base64`, string results come back base64-encoded.
+   */
+  async pipeline(commands: RedisCommand[], base64: boolean = false): Promise<RedisReply[]> {
+    if (commands.length === 0) {
+      return [];
+    }
+    const replies = await this.post('/pipeline', commands.map(command => command.map(String)), commands.every(isReadCommand), base64);
+    if (!Array.isArray(replies)) {
+      throw new Error(replies?.error || 'Unexpected pipeline response');
+    }
+    return replies;
+  }
+
+  // One SCAN call; a returned cursor of '0' means the keyspace has been walked
+  async scanPage(cursor: string, pattern: string = '*', count: number = 100): Promise<{ cursor: string; keys: string[] }> {
+    const [next, keys] = await this.command(['SCAN', cursor, 'MATCH', pattern, 'COUNT', count]);
+    return { cursor: String(next), keys };
+  }
+
+  /**
+   * Walks the keyspace with SCAN. SCAN may return few or no keys per call, so
+   * calls are repeated until roughly `count` keys are gathered for a page.
+   */
+  async *scanKeys(pattern: string = '*', count: number = 100): Pages<string> {
+    let cursor = '0';
+    let batch: string[] = [];
+    try {
+      do {
+        const page = await this.scanPage(cursor, pattern, count);
+        cursor = page.cursor;
+        batch.push(...page.keys);
+        if (batch.length >= count || cursor === '0') {
+          if (batch.length > 0) {
+            yield batch;
+          }
+          batch = [];
+        }
+      } while (cursor !== '0');
+    } catch (error: any) {
+      logger.error('Failed to scan Redis keys:', error);
+      throw new Error(`Failed to scan Redis keys: ${error.message}`);
+    }
+  }
+
+  // Same pages as scanKeys, with each key's type and TTL fetched in one pipeline per page
+  async *scanKeyInfo(pattern: string = '*', count: number = 100): Pages<RedisKeyInfo> {
+    for await (const keys of this.scanKeys(pattern, count)) {
+      yield await this.describeKeys(keys);
+    }
+  }
+
+  async describeKeys(keys: string[]): Promise<RedisKeyInfo[]> {
+    try {
+      const replies = await this.pipeline(keys.flatMap(key => [['TYPE', key], ['TTL', key]]));
+      return keys.map((key, index) => ({
+        key,
+        type: replies[index * 2]?.result ?? 'unknown',
+        ttl: Number(replies[index * 2 + 1]?.result ?? -2)
+      }));
+    } catch (error: any) {
+      logger.error('Failed to describe Redis keys:', error);
+      throw new Error(`Failed to describe Redis keys: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reads a key's value according to its type. Collections are read up to
+   * `limit` entries; `truncated` tells whether more remain.
+   */
+  async readKey(key: string, limit: number = 100): Promise<RedisKeyValue> {
+    try {
+      const [info] = await this.describeKeys([key]);
+      if (info.type === 'none') {
+        throw new Error(`Key ${key} does not exist`);
+      }
+
+      const commands: Record<string, RedisCommand[]> = {
+        string: [['STRLEN', key], ['GET', key]],
+        hash: [['HLEN', key], ['HSCAN', key, 0, 'COUNT', limit]],
+        list: [['LLEN', key], ['LRANGE', key, 0, limit - 1]],
+        set: [['SCARD', key], ['SSCAN', key, 0, 'COUNT', limit]],
+        zset: [['ZCARD', key], ['ZRANGE', key, 0, limit - 1, 'WITHSCORES']],
+        stream: [['XLEN', key], ['XRANGE', key, '-', '+', 'COUNT', limit]]
+      };
+      if (!commands[info.type]) {
+        throw new Error(`Unsupported key type ${info.type}`);
+      }
+
+      const [lengthReply, valueReply] = await this.pipeline(commands[info.type]);
+      const failed = [lengthReply, valueReply].find(reply => reply.error);
+      if (failed) {
+        throw new Error(failed.error);
+      }
+
+      const length = Number(lengthReply.result);
+      // HSCAN and SSCAN reply with [cursor, items] and may return a few more than asked for
+      const value = info.type === 'hash' || info.type === 'set'
+        ? decodeValue(info.type, valueReply.result[1].slice(0, info.type === 'hash' ? limit * 2 : limit))
+        : decodeValue(info.type, valueReply.result);
+
+      const shown = info.type === 'string' ? length : (Array.isArray(value) ? value.length : Object.keys(value).length);
+      return { ...info, length, value, truncated: shown < length };
+    } catch (error: any) {
+      logger.error('Failed to read Redis key:', error);
+      throw new Error(`Failed to read Redis key: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reads whole values for a batch of keys, e.g. one SCAN page. Keys that
+   * disappeared since they were scanned are left out.
+   */
+  async exportKeys(keys: string[]): Promise<RedisRecord[]> {
+    try {
+      const meta = await this.pipeline(keys.flatMap(key => [['TYPE', key], ['PTTL', key]]));
+      const now = Date.now();
+      const found = keys
+        .map((key, index) => ({ key, type: meta[index * 2]?.result, pttl: Number(meta[index * 2 + 1]?.result) }))
+        .filter(({ type }) => type && type !== 'none');
+
+      const unsupported = found.find(({ type }) => !EXPORT_COMMANDS[type]);
+      if (unsupported) {
+        throw new Error(`Key ${unsupported.key} has unsupported type ${unsupported.type}`);
+      }
+
+      const replies = await this.pipeline(found.map(({ key, type }) => EXPORT_COMMANDS[type](key)), true);
+      return found.map(({ key, type, pttl }, index) => {
+        if (replies[index].error) {
+          throw new Error(`Could not read ${key}: ${replies[index].error}`);
+        }
+        const value = decodeValue(type, decodeBase64Reply(replies[index].result, key));
+        return { key, type, ...(pttl > 0 ? { expiresAt: now + pttl } : {}), value };
+      });
+    } catch (error: any) {
+      logger.error('Failed to export Redis keys:', error);
+      throw new Error(`Failed to export Redis keys: ${error.message}`);
+    }
+  }
+
+  /**
+   * Writes dumped records. Existing keys are skipped unless `replace` is set,
+   * in which case they are deleted first so no old fields or items remain.
+   * Records whose expiry has already passed are skipped too.
+   *
+   * A large value takes several commands, so a failed import can leave keys
+   * half written. Those keys exist and would be skipped on a second run; the
+   * caller passes them back as `rewrite` (from `onWriting`) to have them
+   * deleted and written again.
+   */
+  async importRecords(records: RedisRecord[], options: ImportOptions = {}): Promise<{ restored: number; skipped: number }> {
+    try {
+      const { replace = false, rewrite = [], onWriting } = options;
+      const now = Date.now();
+      let pending = records.filter(record => record.expiresAt === undefined || record.expiresAt > now);
+      const overwrite = (key: string) => replace || rewrite.includes(key);
+
+      const checked = pending.filter(record => !overwrite(record.key));
+      if (checked.length > 0) {
+        const replies = await this.pipeline(checked.map(record => ['EXISTS', record.key]));
+        const existing = new Set(checked.filter((_, index) => Number(replies[index].result) !== 0).map(record => record.key));
+        pending = pending.filter(record => !existing.has(record.key));
+      }
+
+      if (pending.length > 0) {
+        onWriting?.(pending.map(record => record.key));
+      }
+      const writes = pending.flatMap(record => [
+        ...(overwrite(record.key) ? [['DEL', record.key]] : []),
+        ...restoreCommands(record),
+        ...(record.expiresAt !== undefined ? [['PEXPIREAT', record.key, record.expiresAt]] : [])
+      ].map(command => ({ key: record.key, command })));
+
+      for (const batch of chunks(writes, RESTORE_PIPELINE)) {
+        const replies = await this.pipeline(batch.map(write => write.command));
+        const failed = replies.findIndex(reply => reply.error);
+        if (failed >= 0) {
+          throw new Error(`Could not restore ${batch[failed].key}: ${replies[failed].error}`);
+        }
+      }
+
+      return { restored: pending.length, skipped: records.length - pending.length };
+    } catch (error: any) {
+      logger.error('Failed to import Redis keys:', error);
+      throw new Error(`Failed to import Redis keys: ${error.message}`);
+    }
+  }
+
+  // Runs a write against one key, e.g. ['HSET', key, field, value]
+  async updateKey(command: RedisCommand) {
+    try {
+      logger.info(`Running ${command[0]} on Redis key ${command[1]}`);
+      return await this.command(command);
+    } catch (error: any) {
+      logger.error('Failed to update Redis key:', error);
+      throw new Error(`Failed to update Redis key: ${error.message}`);
+    }
+  }
+
+  // A null `seconds` removes the expiry
+  async expireKey(key: string, seconds: number | null) {
+    try {
+      logger.info(seconds === null ? `Removing expiry of Redis key ${key}` : `Expiring Redis key ${key} in ${seconds}s`);
+      const result = await this.command(seconds === null ? ['PERSIST', key] : ['EXPIRE', key, seconds]);
+      if (seconds !== null && Number(result) === 0) {
+        throw new Error(`Key ${key} does not exist`);
+      }
+      return result;
+    } catch (error: any) {
+      logger.error('Failed to set Redis key expiry:', error);
+      throw new Error(`Failed to set Redis key expiry: ${error.message}`);
+    }
+  }
+
+  async deleteKey(key: string) {
+    try {
+      logger.info(`Deleting Redis key ${key}`);
+      const deleted = await this.command(['DEL', key]);
+      return { success: true, deleted: Number(deleted) };
+    } catch (error: any) {
+      logger.error('Failed to delete Redis key:', error);
+      throw new Error(`Failed to delete Redis key: ${error.message}`);
+    }
+  }
+}
+
+// Looks up a database's endpoint and REST token through the developer API
+export async function connectRedisDatabase(databaseId: string, upstash: UpstashService = new UpstashService()): Promise<UpstashRedisService> {
+  const database = await upstash.getRedisDatabase(databaseId);
+  return new UpstashRedisService(database.endpoint, database.rest_token);
+}
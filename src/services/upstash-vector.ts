@@ -0,0 +1,201 @@
+// src/services/upstash-vector.ts
+import { logger } from '../utils/logger.js';
+import { requestWithRetry } from '../utils/http.js';
+import { UpstashService } from './upstash.js';
+
+export interface VectorRecord {
+  id: string;
+  vector?: number[];
+  metadata?: Record<string, unknown>;
+  // Raw text, for indexes that embed it themselves
+  data?: string;
+}
+
+export interface VectorMatch extends VectorRecord {
+  score: number;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  // Upstash metadata filter, e.g. "genre = 'drama' AND year >= 2000"
+  filter?: string;
+  includeVectors?: boolean;
+}
+
+export interface VectorNamespaceStats {
+  vectorCount: number;
+  pendingVectorCount: number;
+}
+
+export interface VectorIndexStats extends VectorNamespaceStats {
+  // Bytes on disk
+  indexSize: number;
+  dimension: number;
+  similarityFunction: string;
+  namespaces: Record<string, VectorNamespaceStats>;
+}
+
+// Vectors sent per upsert request; Upstash accepts at most 1000
+const UPSERT_BATCH = 500;
+
+// The default namespace is the empty string and has no path segment
+function inNamespace(path: string, namespace?: string): string {
+  return namespace ? `${path}/${encodeURIComponent(namespace)}` : path;
+}
+
+/**
+ * Data access to one Upstash Vector index through its REST endpoint,
+ * authenticated with the index's own token rather than the account API key
+ * used by UpstashService.
+ */
+export class UpstashVectorService {
+  private baseUrl: string;
+  private token: string;
+
+  constructor(endpoint: string, token: string) {
+    if (!endpoint || !token) {
+      throw new Error('The index endpoint and token are required to access vectors');
+    }
+    this.baseUrl = endpoint.startsWith('http') ? endpoint : `https://${endpoint}`;
+    this.token = token;
+  }
+
+  // Every Vector call is idempotent (upserts overwrite by id), so all of them are retried like reads
+  private async request(path: string, method: 'GET' | 'POST' | 'DELETE', body?: any) {
+    try {
+      const response = await requestWithRetry('upstash', 'GET', () => fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }));
+
+      const text = await response.text();
+      let reply: any;
+      try {
+        reply = text ? JSON.parse(text) : {};
+      } catch {
+        reply = { error: text };
+      }
+      if (!response.ok || reply.error) {
+        throw new Error(`Upstash Vector error (${response.status}): ${reply.error || text}`);
+      }
+      return reply.result;
+    } catch (error: any) {
+      logger.error('Upstash Vector request failed:', error);
+      throw new Error(`Upstash Vector request failed: ${error.message}`);
+    }
+  }
+
+  async getStats(): Promise<VectorIndexStats> {
+    try {
+      logger.info('Fetching Vector index stats');
+      return await this.request('/info', 'GET');
+    } catch (error: any) {
+      logger.error('Failed to get Vector index stats:', error);
+      throw new Error(`Failed to get Vector index stats: ${error.message}`);
+    }
+  }
+
+  // Writes records in batches, reporting the running total after each one
+  async upsert(records: VectorRecord[], namespace?: string, onProgress?: (done: number) => void): Promise<number> {
+    try {
+      logger.info(`Upserting ${records.length} vectors${namespace ? ` into namespace ${namespace}` : ''}`);
+      let done = 0;
+      for (let index = 0; index < records.length; index += UPSERT_BATCH) {
+        const batch = records.slice(index, index + UPSERT_BATCH);
+        // Records without a vector carry text for the index's embedding model
+        const vectors = batch.filter(record => record.vector);
+        const texts = batch.filter(record => !record.vector);
+        if (vectors.length > 0) {
+          await this.request(inNamespace('/upsert', namespace), 'POST', vectors);
+        }
+        if (texts.length > 0) {
+          await this.request(inNamespace('/upsert-data', namespace), 'POST', texts);
+        }
+        done += batch.length;
+        onProgress?.(done);
+      }
+      return done;
+    } catch (error: any) {
+      logger.error('Failed to upsert vectors:', error);
+      throw new Error(`Failed to upsert vectors: ${error.message}`);
+    }
+  }
+
+  async query(query: VectorQuery, namespace?: string): Promise<VectorMatch[]> {
+    try {
+      logger.info(`Querying the top ${query.topK} vectors${query.filter ? ` where ${query.filter}` : ''}`);
+      return await this.request(inNamespace('/query', namespace), 'POST', {
+        vector: query.vector,
+        topK: query.topK,
+        filter: query.filter || '',
+        includeMetadata: true,
+        includeData: true,
+        includeVectors: Boolean(query.includeVectors)
+      });
+    } catch (error: any) {
+      logger.error('Failed to query vectors:', error);
+      throw new Error(`Failed to query vectors: ${error.message}`);
+    }
+  }
+
+  // Ids that don't exist come back as null in their place
+  async fetch(ids: string[], namespace?: string, includeVectors: boolean = false): Promise<(VectorRecord | null)[]> {
+    try {
+      logger.info(`Fetching ${ids.length} vectors`);
+      return await this.request(inNamespace('/fetch', namespace), 'POST', {
+        ids,
+        includeMetadata: true,
+        includeData: true,
+        includeVectors
+      });
+    } catch (error: any) {
+      logger.error('Failed to fetch vectors:', error);
+      throw new Error(`Failed to fetch vectors: ${error.message}`);
+    }
+  }
+
+  async delete(ids: string[], namespace?: string): Promise<number> {
+    try {
+      logger.info(`Deleting ${ids.length} vectors`);
+      const { deleted } = await this.request(inNamespace('/delete', namespace), 'DELETE', { ids });
+      return deleted;
+    } catch (error: any) {
+      logger.error('Failed to delete vectors:', error);
+      throw new Error(`Failed to delete vectors: ${error.message}`);
+    }
+  }
+
+  async listNamespaces(): Promise<string[]> {
+    try {
+      logger.info('Fetching Vector namespaces');
+      return await this.request('/list-namespaces', 'GET');
+    } catch (error: any) {
+      logger.error('Failed to list Vector namespaces:', error);
+      throw new Error(`Failed to list Vector namespaces: ${error.message}`);
+    }
+  }
+
+  async deleteNamespace(namespace: string) {
+    if (!namespace) {
+      throw new Error('The default namespace cannot be deleted');
+    }
+    try {
+      logger.info(`Deleting Vector namespace: ${namespace}`);
+      await this.request(inNamespace('/delete-namespace', namespace), 'DELETE');
+      return { success: true, message: 'Vector namespace deleted successfully' };
+    } catch (error: any) {
+      logger.error('Failed to delete Vector namespace:', error);
+      throw new Error(`Failed to delete Vector namespace: ${error.message}`);
+    }
+  }
+}
+
+export async function connectVectorIndex(indexId: string, upstash: UpstashService = new UpstashService()): Promise<UpstashVectorService> {
+  const index = await upstash.getVectorIndex(indexId);
+  return new UpstashVectorService(index.endpoint, index.token);
+}
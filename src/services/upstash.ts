@@ -1,5 +1,9 @@
 // src/services/upstash.ts
 import { logger } from '../utils/logger.js';
+import { describeCredentialSource, getCredential } from '../utils/credentials.js';
+import { requestWithRetry } from '../utils/http.js';
+import { cachedPages, invalidateOnWrite } from '../utils/cache.js';
+import { Pages, collectPages } from '../utils/pagination.js';
 
 interface UpstashDatabase {
   database_id: string;
@@ -29,20 +33,37 @@ interface UpstashVectorIndex {
   creation_time: number;
 }
 
+// Passwords and tokens come from the get* calls; lists are cached on disk, so they drop them
+const CREDENTIAL_FIELDS = ['password', 'rest_token', 'read_only_rest_token', 'token', 'read_only_token'];
+
+async function* withoutCredentials(pages: Pages<any>): Pages<any> {
+  for await (const page of pages) {
+    yield page.map((item) => {
+      const copy = { ...item };
+      for (const field of CREDENTIAL_FIELDS) {
+        delete copy[field];
+      }
+      return copy;
+    });
+  }
+}
+
 export class UpstashService {
   private baseUrl = 'https://api.upstash.com';
   private email: string;
   private apiKey: string;
 
   constructor() {
-    if (!process.env.UPSTASH_EMAIL || !process.env.UPSTASH_API_KEY) {
-      throw new Error('UPSTASH_EMAIL and UPSTASH_API_KEY environment variables are required for Upstash integration. Please set them in your .env file.');
+    const email = getCredential('UPSTASH_EMAIL');
+    const apiKey = getCredential('UPSTASH_API_KEY');
+    if (!email || !apiKey) {
+      throw new Error(`UPSTASH_EMAIL and UPSTASH_API_KEY are required for Upstash integration but are missing from the ${describeCredentialSource()}. Please set them in your .env file or profile.`);
     }
-    this.email = process.env.UPSTASH_EMAIL;
-    this.apiKey = process.env.UPSTASH_API_KEY;
+    this.email = email;
+    this.apiKey = apiKey;
   }
 
-  private async makeRequest(endpoint: string, method: 'GET' | 'POST' | 'DELETE' | 'PUT' = 'GET', body?: any) {
+  private async makeRequest(endpoint: string, method: 'GET' | 'POST' | 'DELETE' | 'PUT' | 'PATCH' = 'GET', body?: any) {
     const url = `${this.baseUrl}${endpoint}`;
     const headers = {
       'Authorization': `Basic ${Buffer.from(`${this.email}:${this.apiKey}`).toString('base64')}`,
@@ -50,11 +71,12 @@ export class UpstashService {
     };
 
     try {
-      const response = await fetch(url, {
+      invalidateOnWrite('upstash', method);
+      const response = await requestWithRetry('upstash', method, () => fetch(url, {
         method,
         headers,
         body: body ? JSON.stringify(body) : undefined,
-      });
+      }));
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -68,12 +90,38 @@ export class UpstashService {
     }
   }
 
+  /**
+   * Pages through a list endpoint. Most of the developer API returns the
+   * whole list as an array; endpoints that page answer with an object holding
+   * the items under `key` and a `cursor` for the next page. Resource lists
+   * are cached without their credentials; message logs change on their own
+   * and are always fetched.
+   */
+  private pages(endpoint: string, key: string, cache: boolean = true): Pages<any> {
+    return cache
+      ? cachedPages('upstash', endpoint, () => withoutCredentials(this.fetchPages(endpoint, key)))
+      : this.fetchPages(endpoint, key);
+  }
+
+  private async *fetchPages(endpoint: string, key: string): Pages<any> {
+    let cursor: string | undefined;
+    do {
+      const separator = endpoint.includes('?') ? '&' : '?';
+      const data = await this.makeRequest(cursor ? `${endpoint}${separator}cursor=${encodeURIComponent(cursor)}` : endpoint);
+      if (Array.isArray(data)) {
+        yield data;
+        return;
+      }
+      yield data?.[key] || [];
+      cursor = data?.cursor || undefined;
+    } while (cursor);
+  }
+
   // Redis Operations
   async listRedisDatabases() {
     try {
       logger.info('Fetching Redis databases from Upstash');
-      const databases = await this.makeRequest('/v2/redis/database');
-      return databases;
+      return await collectPages(this.pages('/v2/redis/database', 'databases'));
     } catch (error: any) {
       logger.error('Failed to list Redis databases:', error);
       throw new Error(`Failed to list Redis databases: ${error.message}`);
@@ -131,12 +179,85 @@ export class UpstashService {
     }
   }
 
+  async renameRedisDatabase(databaseId: string, name: string) {
+    try {
+      logger.info(`Renaming Redis database ${databaseId} to ${name}`);
+      return await this.makeRequest(`/v2/redis/rename/${databaseId}`, 'POST', { name });
+    } catch (error: any) {
+      logger.error('Failed to rename Redis database:', error);
+      throw new Error(`Failed to rename Redis database: ${error.message}`);
+    }
+  }
+
+  // Upstash can turn TLS on for an existing database but never off again
+  async enableRedisTls(databaseId: string) {
+    try {
+      logger.info(`Enabling TLS for Redis database: ${databaseId}`);
+      return await this.makeRequest(`/v2/redis/enable-tls/${databaseId}`, 'POST');
+    } catch (error: any) {
+      logger.error('Failed to enable TLS:', error);
+      throw new Error(`Failed to enable TLS: ${error.message}`);
+    }
+  }
+
+  async setRedisEviction(databaseId: string, enabled: boolean) {
+    try {
+      logger.info(`${enabled ? 'Enabling' : 'Disabling'} eviction for Redis database: ${databaseId}`);
+      return await this.makeRequest(`/v2/redis/${enabled ? 'enable' : 'disable'}-eviction/${databaseId}`, 'POST');
+    } catch (error: any) {
+      logger.error('Failed to update eviction:', error);
+      throw new Error(`Failed to update eviction: ${error.message}`);
+    }
+  }
+
+  // Global databases only; the primary region stays as it is
+  async updateRedisReadRegions(databaseId: string, readRegions: string[]) {
+    try {
+      logger.info(`Updating read regions of Redis database ${databaseId}: ${readRegions.join(', ') || 'none'}`);
+      return await this.makeRequest(`/v2/redis/update-regions/${databaseId}`, 'POST', { read_regions: readRegions });
+    } catch (error: any) {
+      logger.error('Failed to update read regions:', error);
+      throw new Error(`Failed to update read regions: ${error.message}`);
+    }
+  }
+
+  async changeRedisPlan(databaseId: string, plan: string) {
+    try {
+      logger.info(`Changing plan of Redis database ${databaseId} to ${plan}`);
+      return await this.makeRequest(`/v2/redis/change-plan/${databaseId}`, 'POST', { plan_name: plan });
+    } catch (error: any) {
+      logger.error('Failed to change Redis plan:', error);
+      throw new Error(`Failed to change Redis plan: ${error.message}`);
+    }
+  }
+
+  // Monthly budget in dollars for pay-as-you-go databases
+  async updateRedisBudget(databaseId: string, budget: number) {
+    try {
+      logger.info(`Setting the monthly budget of Redis database ${databaseId} to $${budget}`);
+      return await this.makeRequest(`/v2/redis/update-budget/${databaseId}`, 'PATCH', { budget });
+    } catch (error: any) {
+      logger.error('Failed to update Redis budget:', error);
+      throw new Error(`Failed to update Redis budget: ${error.message}`);
+    }
+  }
+
+  // Daily series of requests, bandwidth, storage and cost, with monthly totals
+  async getRedisStats(databaseId: string) {
+    try {
+      logger.info(`Fetching usage statistics for Redis database: ${databaseId}`);
+      return await this.makeRequest(`/v2/redis/stats/${databaseId}`);
+    } catch (error: any) {
+      logger.error('Failed to get Redis statistics:', error);
+      throw new Error(`Failed to get Redis statistics: ${error.message}`);
+    }
+  }
+
   // QStash Operations
   async listQStashTopics() {
     try {
       logger.info('Fetching QStash topics from Upstash');
-      const topics = await this.makeRequest('/v2/qstash/topics');
-      return topics;
+      return await collectPages(this.pages('/v2/qstash/topics', 'topics'));
     } catch (error: any) {
       logger.error('Failed to list QStash topics:', error);
       throw new Error(`Failed to list QStash topics: ${error.message}`);
@@ -170,11 +291,21 @@ export class UpstashService {
     }
   }
 
+  // Holds the token that authenticates calls to the QStash API itself
+  async getQStashUser() {
+    try {
+      logger.info('Fetching QStash user');
+      return await this.makeRequest('/v2/qstash/user');
+    } catch (error: any) {
+      logger.error('Failed to get QStash user:', error);
+      throw new Error(`Failed to get QStash user: ${error.message}`);
+    }
+  }
+
   async getQStashMessages() {
     try {
       logger.info('Fetching QStash messages');
-      const messages = await this.makeRequest('/v2/qstash/messages');
-      return messages;
+      return await collectPages(this.pages('/v2/qstash/messages', 'messages', false));
     } catch (error: any) {
       logger.error('Failed to get QStash messages:', error);
       throw new Error(`Failed to get QStash messages: ${error.message}`);
@@ -185,8 +316,7 @@ export class UpstashService {
   async listVectorIndexes() {
     try {
       logger.info('Fetching Vector indexes from Upstash');
-      const indexes = await this.makeRequest('/v2/vector/index');
-      return indexes;
+      return await collectPages(this.pages('/v2/vector/index', 'indexes'));
     } catch (error: any) {
       logger.error('Failed to list Vector indexes:', error);
       throw new Error(`Failed to list Vector indexes: ${error.message}`);
@@ -237,8 +367,7 @@ export class UpstashService {
   async listWorkflows() {
     try {
       logger.info('Fetching Workflows from Upstash');
-      const workflows = await this.makeRequest('/v2/workflows');
-      return workflows;
+      return await collectPages(this.pages('/v2/workflows', 'workflows'));
     } catch (error: any) {
       logger.error('Failed to list Workflows:', error);
       throw new Error(`Failed to list Workflows: ${error.message}`);
@@ -287,8 +416,7 @@ export class UpstashService {
   async listSearchIndexes() {
     try {
       logger.info('Fetching Search indexes from Upstash');
-      const indexes = await this.makeRequest('/v2/search/index');
-      return indexes;
+      return await collectPages(this.pages('/v2/search/index', 'indexes'));
     } catch (error: any) {
       logger.error('Failed to list Search indexes:', error);
       throw new Error(`Failed to list Search indexes: ${error.message}`);
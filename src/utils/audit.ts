@@ -0,0 +1,106 @@
+// src/utils/audit.ts
+import fs from 'fs';
+import os from 'os';
+import { configPath } from './paths.js';
+import { getRuntime } from './runtime.js';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEntry {
+  timestamp: string;
+  user: string;
+  profile: string;
+  provider: string;
+  action: string;
+  target: { id?: string; name?: string };
+  params: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditDetails {
+  provider: string;
+  action: string;
+  target: { id?: string; name?: string };
+  params?: Record<string, unknown>;
+}
+
+const SECRET_KEY = /pass(word)?|secret|token|api_?key|private_?key|credential/i;
+
+export function getAuditFile(): string {
+  return process.env.GEENIUS_AUDIT_FILE || configPath('audit.jsonl');
+}
+
+function currentUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
+
+export function redact(params: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(params).map(([key, value]) => {
+    if (SECRET_KEY.test(key)) {
+      return [key, '[REDACTED]'];
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return [key, redact(value as Record<string, unknown>)];
+    }
+    return [key, value];
+  }));
+}
+
+function appendAudit(entry: AuditEntry): void {
+  try {
+    fs.appendFileSync(getAuditFile(), `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+  } catch (error: any) {
+    // The mutation already happened; losing the audit line must not hide that from the caller
+    console.error(`⚠️  Could not write audit log: ${error.message}`);
+  }
+}
+
+/**
+ * Runs a mutation and appends one line describing it and its outcome to the
+ * audit log. Errors are recorded and rethrown unchanged.
+ */
+export async function audited<T>(details: AuditDetails, run: () => Promise<T>): Promise<T> {
+  const started = Date.now();
+  const entry = {
+    timestamp: new Date(started).toISOString(),
+    user: currentUser(),
+    profile: getRuntime().profile || 'default',
+    provider: details.provider,
+    action: details.action,
+    target: details.target,
+    params: redact(details.params || {})
+  };
+
+  try {
+    const result = await run();
+    appendAudit({ ...entry, outcome: 'success', durationMs: Date.now() - started });
+    return result;
+  } catch (error: any) {
+    appendAudit({ ...entry, outcome: 'failure', error: error.message, durationMs: Date.now() - started });
+    throw error;
+  }
+}
+
+export function readAudit(): AuditEntry[] {
+  const file = getAuditFile();
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        // Skip a line truncated by an interrupted write instead of failing the whole query
+        return [];
+      }
+    });
+}
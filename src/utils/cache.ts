@@ -0,0 +1,107 @@
+// src/utils/cache.ts
+import fs from 'fs';
+import path from 'path';
+import { configPath } from './paths.js';
+import { getRuntime } from './runtime.js';
+import type { ServiceName } from './http.js';
+import type { Pages } from './pagination.js';
+
+const DEFAULT_TTL_SECONDS = 300;
+// Profile names can't contain '@', so environment credentials never share entries with a profile
+const ENVIRONMENT_SCOPE = '@env';
+
+interface CacheEntry<T> {
+  key: string;
+  storedAt: number;
+  value: T;
+}
+
+// Seconds from GEENIUS_CACHE_TTL; 0 turns the cache off
+export function cacheTtlMs(): number {
+  const ttl = parseInt(process.env.GEENIUS_CACHE_TTL || '', 10);
+  return (Number.isNaN(ttl) || ttl < 0 ? DEFAULT_TTL_SECONDS : ttl) * 1000;
+}
+
+function cacheRoot(): string {
+  return configPath('cache');
+}
+
+function entryFile(service: ServiceName, key: string): string {
+  return path.join(cacheRoot(), getRuntime().profile || ENVIRONMENT_SCOPE, service, `${encodeURIComponent(key)}.json`);
+}
+
+function readEntry<T>(service: ServiceName, key: string): T | undefined {
+  if (getRuntime().refresh || cacheTtlMs() === 0) {
+    return undefined;
+  }
+  try {
+    const entry: CacheEntry<T> = JSON.parse(fs.readFileSync(entryFile(service, key), 'utf8'));
+    return Date.now() - entry.storedAt < cacheTtlMs() ? entry.value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeEntry<T>(service: ServiceName, key: string, value: T): void {
+  if (cacheTtlMs() === 0) {
+    return;
+  }
+  const file = entryFile(service, key);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    const entry: CacheEntry<T> = { key, storedAt: Date.now(), value };
+    fs.writeFileSync(file, JSON.stringify(entry), { mode: 0o600 });
+  } catch {
+    // A cache that can't be written only costs a refetch next time
+  }
+}
+
+/**
+ * Serves a complete list from the cache, or streams it from the provider and
+ * caches it once every page has been read. A list abandoned part way (e.g. a
+ * menu that never asked for more) is not cached.
+ */
+export async function* cachedPages<T>(service: ServiceName, key: string, load: () => Pages<T>): Pages<T> {
+  const hit = readEntry<T[]>(service, key);
+  if (hit) {
+    if (hit.length > 0) {
+      yield hit;
+    }
+    return;
+  }
+
+  const items: T[] = [];
+  for await (const page of load()) {
+    items.push(...page);
+    yield page;
+  }
+  writeEntry(service, key, items);
+}
+
+/**
+ * Drops cached lists of a provider for every profile, since profiles may
+ * point at the same account. Called before any write is sent so the next
+ * list reflects it.
+ */
+export function invalidateCache(service?: ServiceName): number {
+  const root = cacheRoot();
+  let removed = 0;
+  for (const scope of fs.existsSync(root) ? fs.readdirSync(root) : []) {
+    const services = service ? [service] : fs.readdirSync(path.join(root, scope));
+    for (const name of services) {
+      const dir = path.join(root, scope, name);
+      if (fs.existsSync(dir)) {
+        removed += fs.readdirSync(dir).length;
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    }
+  }
+  return removed;
+}
+
+// Invalidates the provider's cache when an HTTP method may change its resources
+export function invalidateOnWrite(service: ServiceName, method: string = 'GET'): void {
+  if (!['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase())) {
+    invalidateCache(service);
+  }
+}
@@ -0,0 +1,54 @@
+// src/utils/credentials.ts
+import { getProfile } from './profiles.js';
+import { getRuntime } from './runtime.js';
+import { getSecret, isVaultUnlocked, vaultExists } from './vault.js';
+import { CliError, ExitCode } from './output.js';
+
+export type Provider = 'netlify' | 'github' | 'mongodb' | 'upstash';
+
+export const PROVIDERS: Provider[] = ['netlify', 'github', 'mongodb', 'upstash'];
+
+export const PROVIDER_CREDENTIALS: Record<Provider, string[]> = {
+  netlify: ['NETLIFY_TOKEN'],
+  github: ['GITHUB_TOKEN'],
+  mongodb: ['MONGODB_ATLAS_PUBLIC_KEY', 'MONGODB_ATLAS_PRIVATE_KEY'],
+  upstash: ['UPSTASH_EMAIL', 'UPSTASH_API_KEY']
+};
+
+// Keys read by the project scaffolding commands rather than by a provider service
+export const AI_PROVIDER_CREDENTIALS = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'GOOGLE_API_KEY', 'GROK_API_KEY'];
+
+/**
+ * Resolves a credential such as GITHUB_TOKEN from the active profile, then the
+ * vault (under "<profile>/<NAME>" while a profile is active), then the
+ * environment. With an active profile the environment is never consulted, so a
+ * missing key can't silently fall back to another account's credentials.
+ */
+export function getCredential(name: string): string | undefined {
+  const { profile } = getRuntime();
+  if (profile) {
+    const credentials = getProfile(profile);
+    if (!credentials) {
+      throw new CliError(`Profile "${profile}" does not exist`, ExitCode.NotFound);
+    }
+    return credentials[name] || getSecret(`${profile}/${name}`) || undefined;
+  }
+  return getSecret(name) || process.env[name] || undefined;
+}
+
+export function hasCredentials(provider: Provider): boolean {
+  return PROVIDER_CREDENTIALS[provider].every(name => !!getCredential(name));
+}
+
+export function describeCredentialSource(): string {
+  const { profile } = getRuntime();
+  const source = profile ? `profile "${profile}"` : 'environment';
+  return vaultExists() && !isVaultUnlocked() ? `${source} (secrets vault locked; set GEENIUS_VAULT_KEY)` : source;
+}
+
+export function requireProviderCredentials(provider: Provider): void {
+  const missing = PROVIDER_CREDENTIALS[provider].filter(name => !getCredential(name));
+  if (missing.length > 0) {
+    throw new CliError(`Missing ${missing.join(', ')} in ${describeCredentialSource()}`, ExitCode.MissingCredentials);
+  }
+}
@@ -0,0 +1,133 @@
+// src/utils/filters.ts
+import { CliError, ExitCode } from './output.js';
+
+// g and y make a RegExp stateful across test() calls, so one compiled pattern would skip rows
+const ALLOWED_REGEX_FLAGS = /^[imsu]*$/;
+
+/**
+ * Compiles a name pattern into a case-insensitive RegExp. Patterns wrapped in
+ * slashes (`/^test-\d+$/`) are treated as regular expressions, everything else
+ * as a glob where `*` matches any run of characters and `?` a single one.
+ */
+export function compileNamePattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    if (!ALLOWED_REGEX_FLAGS.test(regexMatch[2])) {
+      throw new CliError(`Unsupported flags "${regexMatch[2]}" in ${pattern}. Use only i, m, s and u`, ExitCode.Usage);
+    }
+    const flags = regexMatch[2].includes('i') ? regexMatch[2] : `${regexMatch[2]}i`;
+    return new RegExp(regexMatch[1], flags);
+  }
+
+  const escaped = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function matchesAnyPattern(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern => compileNamePattern(pattern).test(name));
+}
+
+export function toIsoDate(value: string | number | undefined | null): string {
+  if (value === undefined || value === null || value === '') {
+    return '';
+  }
+  // Upstash reports creation times as unix seconds
+  const date = typeof value === 'number' && value < 1e12 ? new Date(value * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parses durations such as `90m`, `12h`, `14d` or `2w` into milliseconds.
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}". Use a number followed by m, h, d or w (e.g. 14d)`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+export interface NamedResource {
+  provider: string;
+  type: string;
+  name: string;
+  created: string;
+  state: string;
+  raw: any;
+}
+
+export interface ResourceFilter {
+  match?: string[];
+  exclude?: string[];
+  olderThan?: string;
+  state?: string[];
+}
+
+/**
+ * Derived states that are not reported by the provider APIs directly.
+ */
+const STATE_PREDICATES: Record<string, (resource: NamedResource) => boolean> = {
+  'never-deployed': (resource) => resource.provider === 'netlify' && !resource.raw?.published_deploy,
+  'empty': (resource) =>
+    (resource.type === 'project' && (resource.raw?.clusterCount ?? 0) === 0) ||
+    (resource.type === 'repository' && resource.raw?.size === 0),
+  'archived': (resource) => resource.raw?.archived === true,
+  'paused': (resource) => resource.raw?.paused === true
+};
+
+export const DERIVED_STATES = Object.keys(STATE_PREDICATES);
+
+function matchesState(resource: NamedResource, state: string): boolean {
+  const predicate = STATE_PREDICATES[state.toLowerCase()];
+  if (predicate) {
+    return predicate(resource);
+  }
+  return resource.state.toLowerCase() === state.toLowerCase();
+}
+
+export function applyResourceFilter<T extends NamedResource>(resources: T[], filter: ResourceFilter, now: number = Date.now()): T[] {
+  const maxCreated = filter.olderThan ? now - parseDuration(filter.olderThan) : undefined;
+
+  return resources.filter(resource => {
+    if (filter.match && filter.match.length > 0 && !matchesAnyPattern(resource.name, filter.match)) {
+      return false;
+    }
+    if (filter.exclude && filter.exclude.length > 0 && matchesAnyPattern(resource.name, filter.exclude)) {
+      return false;
+    }
+    if (maxCreated !== undefined) {
+      // Resources without a creation date are never considered old enough
+      const created = resource.created ? new Date(resource.created).getTime() : NaN;
+      if (isNaN(created) || created > maxCreated) {
+        return false;
+      }
+    }
+    if (filter.state && filter.state.length > 0 && !filter.state.some(state => matchesState(resource, state))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function describeFilter(filter: ResourceFilter): string {
+  const parts: string[] = [];
+  if (filter.match?.length) parts.push(`name matches ${filter.match.join(' or ')}`);
+  if (filter.exclude?.length) parts.push(`excluding ${filter.exclude.join(', ')}`);
+  if (filter.olderThan) parts.push(`older than ${filter.olderThan}`);
+  if (filter.state?.length) parts.push(`state ${filter.state.join(' or ')}`);
+  return parts.length > 0 ? parts.join(', ') : 'no filters';
+}
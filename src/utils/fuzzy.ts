@@ -0,0 +1,61 @@
+// src/utils/fuzzy.ts
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) {
+    return true;
+  }
+  const previous = text[index - 1];
+  return !/[a-z0-9]/i.test(previous) || (/[a-z]/.test(previous) && /[A-Z]/.test(text[index]));
+}
+
+// Scores one query term as an in-order subsequence of the text, or undefined when it doesn't match
+function scoreTerm(term: string, text: string): number | undefined {
+  const lowerText = text.toLowerCase();
+  let score = 0;
+  let position = -1;
+
+  for (const char of term.toLowerCase()) {
+    const index = lowerText.indexOf(char, position + 1);
+    if (index === -1) {
+      return undefined;
+    }
+    score += 1;
+    if (index === position + 1) {
+      score += 3;
+    }
+    if (isWordStart(text, index)) {
+      score += 2;
+    }
+    position = index;
+  }
+  return score;
+}
+
+/**
+ * Fuzzy match in the style of editor file pickers: every whitespace-separated
+ * term must appear in order (not necessarily contiguously) somewhere in the
+ * text. Contiguous runs and matches at word starts score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | undefined {
+  let total = 0;
+  for (const term of query.trim().split(/\s+/).filter(Boolean)) {
+    const score = scoreTerm(term, text);
+    if (score === undefined) {
+      return undefined;
+    }
+    total += score;
+  }
+  return total;
+}
+
+// Items matching the query, best first; ties keep their original order
+export function fuzzyFilter<T>(items: T[], query: string | undefined, toText: (item: T) => string): T[] {
+  if (!query?.trim()) {
+    return items;
+  }
+  return items
+    .map((item, index) => ({ item, index, score: fuzzyScore(query, toText(item)) }))
+    .filter((entry): entry is { item: T; index: number; score: number } => entry.score !== undefined)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.item);
+}
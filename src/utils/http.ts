@@ -0,0 +1,240 @@
+// src/utils/http.ts
+import type { Ora } from 'ora';
+
+export type ServiceName = 'netlify' | 'github' | 'mongodb' | 'upstash';
+
+export interface RetryWait {
+  service: ServiceName;
+  reason: string;
+  until: number;
+  attempt: number;
+}
+
+interface HttpResponseLike {
+  status: number;
+  headers: any;
+}
+
+const MAX_RETRIES = 5;
+const BASE_DELAY_MS = 500;
+const MAX_BACKOFF_MS = 30 * 1000;
+// Longer waits (e.g. an exhausted hourly GitHub quota) fail fast instead of hanging the CLI
+const MAX_WAIT_MS = 15 * 60 * 1000;
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const NETWORK_ERRORS = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+const SERVICE_LABELS: Record<ServiceName, string> = {
+  netlify: 'Netlify',
+  github: 'GitHub',
+  mongodb: 'MongoDB Atlas',
+  upstash: 'Upstash'
+};
+
+function concurrencyLimit(): number {
+  const limit = parseInt(process.env.GEENIUS_HTTP_CONCURRENCY || '', 10);
+  return Number.isNaN(limit) || limit < 1 ? 4 : limit;
+}
+
+class Limiter {
+  private active = 0;
+  private queue: (() => void)[] = [];
+  // Set when a provider told us to back off; every request to it waits, not just the one that was limited
+  pausedUntil = 0;
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    // A woken waiter can be overtaken by a caller arriving in the same tick, so check again
+    while (this.active >= concurrencyLimit()) {
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.queue.shift()?.();
+    }
+  }
+}
+
+const limiters = new Map<ServiceName, Limiter>();
+
+function limiterFor(service: ServiceName): Limiter {
+  if (!limiters.has(service)) {
+    limiters.set(service, new Limiter());
+  }
+  return limiters.get(service)!;
+}
+
+let waitReporters: ((wait: RetryWait) => (() => void) | void)[] = [];
+
+/**
+ * Shows retry and rate-limit waits in the given spinner as a countdown until
+ * the returned function is called. Without a spinner, waits are reported as a
+ * single line on stderr.
+ */
+export function showWaitsIn(spinner: Ora): () => void {
+  const reporter = (wait: RetryWait) => {
+    const original = spinner.text;
+    const render = () => {
+      const seconds = Math.max(0, Math.ceil((wait.until - Date.now()) / 1000));
+      spinner.text = `${original} ⏳ ${wait.reason}, retrying in ${seconds}s`;
+    };
+    render();
+    const timer = setInterval(render, 1000);
+    return () => {
+      clearInterval(timer);
+      spinner.text = original;
+    };
+  };
+  waitReporters.push(reporter);
+  return () => {
+    waitReporters = waitReporters.filter(item => item !== reporter);
+  };
+}
+
+function headerValue(headers: any, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name.toLowerCase()];
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function backoff(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Milliseconds the provider asked us to wait, from Retry-After or an exhausted x-ratelimit-* quota
+function requestedWait(headers: any): number | undefined {
+  const retryAfter = headerValue(headers, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    return Number.isNaN(seconds) ? Math.max(0, Date.parse(retryAfter) - Date.now()) : seconds * 1000;
+  }
+  const remaining = headerValue(headers, 'x-ratelimit-remaining');
+  const reset = headerValue(headers, 'x-ratelimit-reset');
+  if (remaining === '0' && reset) {
+    // GitHub and Netlify send the reset as epoch seconds; add a second for clock skew
+    return Math.max(0, Number(reset) * 1000 - Date.now()) + 1000;
+  }
+  return undefined;
+}
+
+/**
+ * Decides whether an HTTP status (or a network error when there is none) is
+ * worth retrying and how long to wait first. Requests that are not idempotent
+ * are only retried when the provider rejected them for rate limiting, since a
+ * 5xx may mean the request was carried out.
+ */
+function retryDecision(
+  service: ServiceName,
+  attempt: number,
+  idempotent: boolean,
+  status: number | undefined,
+  headers: any,
+  error?: any
+): { delay: number; reason: string } | undefined {
+  const label = SERVICE_LABELS[service];
+
+  if (status === undefined) {
+    const code = error?.code || error?.cause?.code;
+    // A DNS failure (ENOTFOUND) won't fix itself within a few seconds, so it is not retried
+    const network = code ? NETWORK_ERRORS.has(code) : error?.name === 'FetchError' || error?.message === 'fetch failed';
+    return network && idempotent ? { delay: backoff(attempt), reason: `${label} unreachable (${code || 'network error'})` } : undefined;
+  }
+
+  const requested = requestedWait(headers);
+  // GitHub answers an exhausted quota with 403 rather than 429
+  const rateLimited = status === 429 || (status === 403 && requested !== undefined);
+  if (rateLimited) {
+    return { delay: requested ?? backoff(attempt), reason: `${label} rate limit reached` };
+  }
+  if (RETRYABLE_STATUS.has(status) && idempotent) {
+    return { delay: requested ?? backoff(attempt), reason: `${label} returned ${status}` };
+  }
+  return undefined;
+}
+
+async function wait(service: ServiceName, delay: number, reason: string, attempt: number): Promise<void> {
+  const limiter = limiterFor(service);
+  const until = Date.now() + delay;
+  limiter.pausedUntil = Math.max(limiter.pausedUntil, until);
+
+  const stops = waitReporters.map(reporter => reporter({ service, reason, until, attempt }));
+  if (waitReporters.length === 0) {
+    console.error(`⏳ ${reason}, retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1}/${MAX_RETRIES})`);
+  }
+  try {
+    await new Promise(resolve => setTimeout(resolve, delay));
+  } finally {
+    stops.forEach(stop => stop?.());
+  }
+}
+
+async function attempt<T>(
+  service: ServiceName,
+  idempotent: boolean,
+  send: () => Promise<T>,
+  inspect: (outcome: { result?: T; error?: any }) => { status?: number; headers?: any }
+): Promise<T> {
+  const limiter = limiterFor(service);
+
+  for (let tries = 0; ; tries++) {
+    const pause = limiter.pausedUntil - Date.now();
+    if (pause > 0) {
+      await new Promise(resolve => setTimeout(resolve, pause));
+    }
+
+    let result: T | undefined;
+    let error: any;
+    try {
+      result = await limiter.run(send);
+    } catch (caught) {
+      error = caught;
+    }
+
+    const { status, headers } = inspect(error ? { error } : { result });
+    const decision = tries < MAX_RETRIES && (error || (status !== undefined && status >= 400))
+      ? retryDecision(service, tries, idempotent, status, headers, error)
+      : undefined;
+
+    if (!decision || decision.delay > MAX_WAIT_MS) {
+      if (decision) {
+        const resumeAt = new Date(Date.now() + decision.delay).toLocaleTimeString();
+        throw new Error(`${decision.reason}; try again after ${resumeAt}`);
+      }
+      if (error) {
+        throw error;
+      }
+      return result as T;
+    }
+    await wait(service, decision.delay, decision.reason, tries);
+  }
+}
+
+/**
+ * Sends a fetch-style request through the shared retry layer. The final
+ * response is returned as-is, so callers keep their own handling of non-2xx
+ * statuses once retries are exhausted.
+ */
+export function requestWithRetry<R extends HttpResponseLike>(
+  service: ServiceName,
+  method: string,
+  send: () => Promise<R>
+): Promise<R> {
+  const idempotent = !['POST', 'PATCH'].includes(method.toUpperCase());
+  return attempt(service, idempotent, send, ({ result }) => ({ status: result?.status, headers: result?.headers }));
+}
+
+// Same retry policy for client libraries that throw an error carrying the HTTP status instead of returning a response
+export function callWithRetry<T>(service: ServiceName, idempotent: boolean, call: () => Promise<T>): Promise<T> {
+  return attempt(service, idempotent, call, ({ error }) => ({
+    status: error?.status ?? error?.response?.status,
+    headers: error?.response?.headers
+  }));
+}
+
+export function retryingFetch(service: ServiceName): typeof fetch {
+  return (input, init) => requestWithRetry(service, init?.method || 'GET', () => fetch(input, init));
+}
@@ -47,6 +47,8 @@ export class Logger {
       transports.push(
         new winston.transports.Console({
           level,
+          // Diagnostics go to stderr so stdout stays clean for --json output
+          stderrLevels: Object.keys(winston.config.npm.levels),
           format: winston.format.combine(
             winston.format.colorize(),
             winston.format.simple()
@@ -0,0 +1,106 @@
+// src/utils/output.ts
+import chalk from 'chalk';
+import { isLive } from './runtime.js';
+
+export enum ExitCode {
+  Success = 0,
+  Failure = 1,
+  Usage = 2,
+  ConfirmationRequired = 3,
+  MissingCredentials = 4,
+  NotFound = 5,
+  PlanDrift = 6
+}
+
+export class CliError extends Error {
+  constructor(message: string, public readonly exitCode: ExitCode = ExitCode.Failure) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface ScriptedOptions {
+  json?: boolean;
+  yes?: boolean;
+  // Set by list commands; any format other than table is parsed by other programs
+  output?: string;
+}
+
+export function printJson(data: unknown): void {
+  process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+}
+
+// Dry runs and plans never mutate anything, so they need no confirmation
+export function requireConfirmation(options: ScriptedOptions, description: string): void {
+  if (!options.yes && isLive()) {
+    throw new CliError(`Refusing to ${description} without --yes`, ExitCode.ConfirmationRequired);
+  }
+}
+
+/**
+ * Runs a non-interactive action and reports its result either as JSON on stdout
+ * or through the given human-readable printer. Failures set process.exitCode
+ * instead of throwing so that scripts can rely on the exit status.
+ */
+export async function runScripted<T>(
+  options: ScriptedOptions,
+  handler: () => Promise<T>,
+  printHuman: (result: T) => void
+): Promise<void> {
+  const originalLog = console.log;
+
+  // Services report progress through console.log; keep stdout parseable in JSON mode and exports
+  const machineOutput = options.json || (options.output !== undefined && options.output !== 'table');
+  if (machineOutput) {
+    console.log = console.error;
+  }
+
+  try {
+    const result = await handler();
+    console.log = originalLog;
+
+    if (options.json) {
+      printJson(result ?? { success: true });
+    } else {
+      printHuman(result);
+    }
+    process.exitCode = ExitCode.Success;
+  } catch (error: any) {
+    console.log = originalLog;
+    const exitCode = error instanceof CliError ? error.exitCode : ExitCode.Failure;
+
+    if (options.json) {
+      printJson({ success: false, error: error.message, exitCode });
+    } else {
+      console.error(chalk.red(`❌ Error: ${error.message}`));
+    }
+    process.exitCode = exitCode;
+  }
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '-';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function formatTable(columns: string[], rows: Record<string, unknown>[]): string {
+  const widths = columns.map(column =>
+    Math.max(column.length, ...rows.map(row => cellText(row[column]).length))
+  );
+  const line = (cells: string[]) => cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd();
+
+  return [
+    chalk.bold(line(columns.map(column => column.toUpperCase()))),
+    ...rows.map(row => line(columns.map(column => cellText(row[column]))))
+  ].join('\n');
+}
+
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(','), ...rows.map(row => columns.map(column => escape(row[column])).join(','))].join('\n');
+}
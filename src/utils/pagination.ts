@@ -0,0 +1,43 @@
+// src/utils/pagination.ts
+
+/**
+ * Every list operation is exposed as an async iterator of pages so callers
+ * can either stream (interactive menus load one page at a time) or collect
+ * everything (scripted commands, inventory and bulk operations).
+ */
+export type Pages<T> = AsyncGenerator<T[], void, undefined>;
+
+export async function collectPages<T>(pages: AsyncIterable<T[]>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const page of pages) {
+    items.push(...page);
+  }
+  return items;
+}
+
+export async function* eachItem<T>(pages: AsyncIterable<T[]>): AsyncGenerator<T, void, undefined> {
+  for await (const page of pages) {
+    yield* page;
+  }
+}
+
+/**
+ * Walks a page-numbered API starting at page 1. It stops after a short page,
+ * or once `total` items have been seen when the API reports a total.
+ */
+export async function* paginateByNumber<T>(
+  fetchPage: (page: number) => Promise<{ items: T[]; total?: number }>,
+  pageSize: number
+): Pages<T> {
+  let seen = 0;
+  for (let page = 1; ; page++) {
+    const { items, total } = await fetchPage(page);
+    if (items.length > 0) {
+      yield items;
+    }
+    seen += items.length;
+    if (items.length < pageSize || (total !== undefined && seen >= total)) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+// src/utils/paths.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Per-user state lives outside the working directory so it is the same wherever the CLI runs
+export function getConfigDir(): string {
+  if (process.env.GEENIUS_CONFIG_DIR) {
+    return process.env.GEENIUS_CONFIG_DIR;
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'geenius');
+}
+
+export function configPath(...segments: string[]): string {
+  const dir = getConfigDir();
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  return path.join(dir, ...segments);
+}
@@ -0,0 +1,54 @@
+// src/utils/profiles.ts
+import fs from 'fs';
+import { configPath } from './paths.js';
+
+export type ProfileCredentials = Record<string, string>;
+
+interface ProfileFile {
+  profiles: Record<string, ProfileCredentials>;
+}
+
+function profilesFile(): string {
+  return configPath('profiles.json');
+}
+
+function readProfiles(): ProfileFile {
+  const file = profilesFile();
+  if (!fs.existsSync(file)) {
+    return { profiles: {} };
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read ${file}: ${error.message}`);
+  }
+}
+
+function writeProfiles(data: ProfileFile): void {
+  // Credentials are stored in plain text, so keep the file private to the user
+  fs.writeFileSync(profilesFile(), `${JSON.stringify(data, null, 2)}\n`, { mode: 0o600 });
+}
+
+export function listProfiles(): string[] {
+  return Object.keys(readProfiles().profiles).sort();
+}
+
+export function getProfile(name: string): ProfileCredentials | undefined {
+  return readProfiles().profiles[name];
+}
+
+export function saveProfile(name: string, credentials: ProfileCredentials): void {
+  const data = readProfiles();
+  data.profiles[name] = credentials;
+  writeProfiles(data);
+}
+
+export function removeProfile(name: string): boolean {
+  const data = readProfiles();
+  if (!data.profiles[name]) {
+    return false;
+  }
+  delete data.profiles[name];
+  writeProfiles(data);
+  return true;
+}
@@ -0,0 +1,245 @@
+// src/utils/render.ts
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { CliError, ExitCode, formatTable, toCsv } from './output.js';
+
+export const OUTPUT_FORMATS = ['table', 'json', 'yaml', 'csv', 'markdown'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface RenderOptions {
+  output?: string;
+  columns?: string;
+  sortBy?: string;
+  limit?: string;
+}
+
+/**
+ * How a list of resources is shown: every column that can be picked with
+ * --columns or --sort-by, and the subset tables show by default. JSON and
+ * YAML include every column unless --columns narrows them.
+ */
+export interface ListView<T> {
+  columns: Record<string, (item: T) => unknown>;
+  defaultColumns: string[];
+}
+
+// Narrowest a column is squeezed to when a table doesn't fit the terminal
+const MIN_COLUMN_WIDTH = 8;
+
+export function addRenderOptions(command: Command, options: { limit?: boolean } = {}): Command {
+  command
+    .option('-o, --output <format>', `Output format: ${OUTPUT_FORMATS.join(', ')}`, 'table')
+    .option('--columns <columns>', 'Comma-separated columns to show (see --output json for all of them)')
+    .option('--sort-by <column>', 'Sort by a column; prefix it with - to sort descending');
+  if (options.limit !== false) {
+    command.option('--limit <count>', 'Show at most this many rows');
+  }
+  return command;
+}
+
+export function parseOutputFormat(value: string = 'table'): OutputFormat {
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new CliError(`Unknown output format "${value}". Expected one of ${OUTPUT_FORMATS.join(', ')}`, ExitCode.Usage);
+  }
+  return value as OutputFormat;
+}
+
+function requireColumn(column: string, available: string[]): string {
+  if (!available.includes(column)) {
+    throw new CliError(`Unknown column "${column}". Available columns: ${available.join(', ')}`, ExitCode.Usage);
+  }
+  return column;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Applies --columns, --sort-by and --limit to a list, returning the columns
+ * to show and one plain record per item.
+ */
+export function selectRows<T>(items: T[], view: ListView<T>, options: RenderOptions): { columns: string[]; rows: Record<string, unknown>[] } {
+  const format = parseOutputFormat(options.output);
+  const available = Object.keys(view.columns);
+  const columns = options.columns
+    ? options.columns.split(',').map(column => column.trim()).filter(Boolean).map(column => requireColumn(column, available))
+    : (format === 'json' || format === 'yaml' ? available : view.defaultColumns);
+
+  let rows = items.map(item => Object.fromEntries(available.map(column => [column, view.columns[column](item)])));
+
+  if (options.sortBy) {
+    const descending = options.sortBy.startsWith('-');
+    const column = requireColumn(options.sortBy.replace(/^-/, ''), available);
+    rows = rows
+      .map((row, index) => ({ row, index }))
+      .sort((a, b) => {
+        const [x, y] = [a.row[column], b.row[column]];
+        // Missing values sort last in either direction
+        if (isEmpty(x) || isEmpty(y)) {
+          return Number(isEmpty(x)) - Number(isEmpty(y)) || a.index - b.index;
+        }
+        const order = compareValues(x, y);
+        return (descending ? -order : order) || a.index - b.index;
+      })
+      .map(({ row }) => row);
+  }
+
+  if (options.limit !== undefined) {
+    const limit = parseInt(options.limit, 10);
+    if (Number.isNaN(limit) || limit < 1) {
+      throw new CliError('--limit must be a positive number', ExitCode.Usage);
+    }
+    rows = rows.slice(0, limit);
+  }
+
+  return { columns, rows: rows.map(row => Object.fromEntries(columns.map(column => [column, row[column]]))) };
+}
+
+function plainText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, Math.max(0, width - 1))}…` : text;
+}
+
+// Shrinks the widest columns until the table fits, cutting long cells with an ellipsis
+function fitTable(columns: string[], rows: Record<string, unknown>[], maxWidth: number): Record<string, unknown>[] {
+  const widths = columns.map(column => Math.max(column.length, ...rows.map(row => plainText(row[column]).length)));
+  const total = () => widths.reduce((sum, width) => sum + width, 0) + 2 * (columns.length - 1);
+
+  while (total() > maxWidth) {
+    const widest = widths.indexOf(Math.max(...widths));
+    const floor = Math.max(MIN_COLUMN_WIDTH, columns[widest].length);
+    if (widths[widest] <= floor) {
+      break;
+    }
+    widths[widest]--;
+  }
+
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, truncate(plainText(row[column]), widths[index])])));
+}
+
+function toMarkdown(columns: string[], rows: Record<string, unknown>[]): string {
+  const cell = (value: unknown) => plainText(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(column => cell(row[column])).join(' | ')} |`)
+  ].join('\n');
+}
+
+function yamlScalar(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  const text = String(value);
+  // Quote anything YAML would read as another type or as syntax
+  const plain = /^[\w./@-][\w ./@:+-]*$/.test(text) &&
+    !/^(true|false|yes|no|on|off|null|~|[-+]?[\d.]+(e[-+]?\d+)?)$/i.test(text) &&
+    !/(: | #|\s$)/.test(text);
+  return plain ? text : JSON.stringify(text);
+}
+
+function isNested(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+}
+
+function yamlInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  return typeof value === 'object' && value !== null ? '{}' : yamlScalar(value);
+}
+
+// Block-style YAML for the JSON-like data the renderer produces
+export function toYaml(value: unknown, indent: string = ''): string {
+  if (!isNested(value)) {
+    return `${indent}${yamlInline(value)}`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => `${indent}- ${isNested(item) ? toYaml(item, `${indent}  `).trimStart() : yamlInline(item)}`).join('\n');
+  }
+  return Object.entries(value).map(([key, item]) => isNested(item)
+    ? `${indent}${yamlScalar(key)}:\n${toYaml(item, `${indent}  `)}`
+    : `${indent}${yamlScalar(key)}: ${yamlInline(item)}`
+  ).join('\n');
+}
+
+export function formatRows(format: OutputFormat, columns: string[], rows: Record<string, unknown>[]): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(rows, null, 2);
+    case 'yaml':
+      return toYaml(rows);
+    case 'csv':
+      return toCsv(columns, rows.map(row => Object.fromEntries(columns.map(column => [column, plainText(row[column])]))));
+    case 'markdown':
+      return toMarkdown(columns, rows);
+    case 'table':
+      // Piped output keeps every character so it can be processed or pasted elsewhere
+      return formatTable(columns, process.stdout.isTTY && process.stdout.columns
+        ? fitTable(columns, rows, process.stdout.columns)
+        : rows.map(row => Object.fromEntries(columns.map(column => [column, plainText(row[column])]))));
+  }
+}
+
+/**
+ * Prints a list in the requested format. Empty tables print `emptyMessage`
+ * instead; the other formats always print (e.g. `[]`) so scripts can parse them.
+ */
+export function renderList<T>(items: T[], view: ListView<T>, options: RenderOptions = {}, emptyMessage?: string): void {
+  const format = parseOutputFormat(options.output);
+  const { columns, rows } = selectRows(items, view, options);
+
+  if (format === 'table' && rows.length === 0 && emptyMessage) {
+    console.log(chalk.yellow(emptyMessage));
+    return;
+  }
+  process.stdout.write(`${formatRows(format, columns, rows)}\n`);
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+// Counts such as 12.3K or 4.5M
+export function formatCount(value: number): string {
+  const units: [string, number][] = [['B', 1e9], ['M', 1e6], ['K', 1e3]];
+  const [suffix, size] = units.find(([, unitSize]) => Math.abs(value) >= unitSize) || ['', 1];
+  return suffix ? `${(value / size).toFixed(1)}${suffix}` : String(Math.round(value));
+}
+
+const SPARK_BARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Draws a series as a one-line text chart, one bar per value, scaled from
+ * zero to the largest value so flat usage reads as flat rather than noisy.
+ */
+export function sparkline(values: number[]): string {
+  const max = Math.max(0, ...values);
+  return values
+    .map(value => (max > 0 ? SPARK_BARS[Math.min(SPARK_BARS.length - 1, Math.floor((Math.max(0, value) / max) * (SPARK_BARS.length - 1)))] : SPARK_BARS[0]))
+    .join('');
+}
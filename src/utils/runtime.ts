@@ -0,0 +1,28 @@
+// src/utils/runtime.ts
+
+/**
+ * Process-wide flags set once from the global command line options and read
+ * by anything that needs to behave differently for a whole invocation.
+ */
+export interface RuntimeOptions {
+  dryRun: boolean;
+  plan?: string;
+  profile?: string;
+  // Bypass cached list responses and fetch them again
+  refresh?: boolean;
+}
+
+const runtime: RuntimeOptions = { dryRun: false };
+
+export function configureRuntime(options: Partial<RuntimeOptions>): void {
+  Object.assign(runtime, options);
+}
+
+export function getRuntime(): Readonly<RuntimeOptions> {
+  return runtime;
+}
+
+// True when mutations are actually sent to the providers
+export function isLive(): boolean {
+  return !runtime.dryRun && !runtime.plan;
+}
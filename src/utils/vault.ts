@@ -0,0 +1,122 @@
+// src/utils/vault.ts
+import fs from 'fs';
+import crypto from 'crypto';
+import { configPath } from './paths.js';
+import { CliError, ExitCode } from './output.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const SCRYPT = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export interface VaultSecret {
+  name: string;
+  updatedAt: string;
+}
+
+interface VaultEntry {
+  value: string;
+  updatedAt: string;
+}
+
+interface VaultFile {
+  version: 1;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface UnlockedVault {
+  key: Buffer;
+  salt: string;
+  entries: Record<string, VaultEntry>;
+}
+
+// Decrypted contents stay in memory for the rest of the process only
+let vault: UnlockedVault | undefined;
+
+export function getVaultFile(): string {
+  return process.env.GEENIUS_VAULT_FILE || configPath('vault.json');
+}
+
+export function vaultExists(): boolean {
+  return fs.existsSync(getVaultFile());
+}
+
+export function isVaultUnlocked(): boolean {
+  return vault !== undefined;
+}
+
+function deriveKey(passphrase: string, salt: string): Buffer {
+  return crypto.scryptSync(passphrase, Buffer.from(salt, 'base64'), 32, SCRYPT);
+}
+
+function writeVault(): void {
+  if (!vault) {
+    throw new CliError('The secrets vault is locked', ExitCode.MissingCredentials);
+  }
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, vault.key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(vault.entries), 'utf8'), cipher.final()]);
+  const file: VaultFile = {
+    version: 1,
+    kdf: { name: 'scrypt', salt: vault.salt, N: SCRYPT.N, r: SCRYPT.r, p: SCRYPT.p },
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+  fs.writeFileSync(getVaultFile(), `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+}
+
+export function createVault(passphrase: string): void {
+  if (vaultExists()) {
+    throw new CliError(`A vault already exists at ${getVaultFile()}`, ExitCode.Usage);
+  }
+  const salt = crypto.randomBytes(16).toString('base64');
+  vault = { key: deriveKey(passphrase, salt), salt, entries: {} };
+  writeVault();
+}
+
+export function unlockVault(passphrase: string): void {
+  const file: VaultFile = JSON.parse(fs.readFileSync(getVaultFile(), 'utf8'));
+  const key = deriveKey(passphrase, file.kdf.salt);
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    vault = { key, salt: file.kdf.salt, entries: JSON.parse(plain.toString('utf8')) };
+  } catch {
+    // GCM authentication fails the same way for a wrong passphrase and a tampered file
+    throw new CliError('Wrong vault passphrase', ExitCode.MissingCredentials);
+  }
+}
+
+export function getSecret(name: string): string | undefined {
+  return vault?.entries[name]?.value;
+}
+
+export function setSecret(name: string, value: string): void {
+  if (!vault) {
+    throw new CliError('The secrets vault is locked', ExitCode.MissingCredentials);
+  }
+  vault.entries[name] = { value, updatedAt: new Date().toISOString() };
+  writeVault();
+}
+
+export function removeSecret(name: string): boolean {
+  if (!vault?.entries[name]) {
+    return false;
+  }
+  delete vault.entries[name];
+  writeVault();
+  return true;
+}
+
+export function listSecrets(): VaultSecret[] {
+  return Object.entries(vault?.entries || {})
+    .map(([name, entry]) => ({ name, updatedAt: entry.updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function maskSecret(value: string): string {
+  return `${'•'.repeat(8)} (${value.length} characters)`;
+}